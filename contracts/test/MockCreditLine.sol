@@ -0,0 +1,144 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {IV2CreditLine} from "../external/goldfinch/IV2CreditLine.sol";
+
+/// @title MockCreditLine
+/// @author Carapace Finance
+/// @notice Mock of Goldfinch's CreditLine, which only keeps the accounting state read by GoldfinchAdapter.
+/// State is updated by MockTranchedPool on drawdown & payment and can be overridden using the setters.
+contract MockCreditLine is IV2CreditLine {
+  uint256 private constant SECONDS_PER_DAY = 1 days;
+  uint256 private constant INTEREST_DECIMALS = 1e18;
+
+  /// loan terms
+  uint256 public override interestApr;
+  uint256 public override paymentPeriodInDays;
+  uint256 public override termInDays;
+  uint256 public override lateFeeApr;
+
+  /// accounting state
+  uint256 public override balance;
+  uint256 public override interestOwed;
+  uint256 public override principalOwed;
+  uint256 public override termStartTime;
+  uint256 public override termEndTime;
+  uint256 public override nextDueTime;
+  uint256 public override interestAccruedAsOf;
+  uint256 public override lastFullPaymentTime;
+
+  /// payments made since the last full payment, which didn't cover the interest owed
+  uint256 public collectedPaymentBalance;
+
+  /// when true, isLate reverts to mimic the older version(v1) of CreditLine without isLate
+  bool public isLateReverts;
+
+  constructor(
+    uint256 _interestApr,
+    uint256 _paymentPeriodInDays,
+    uint256 _termInDays,
+    uint256 _lateFeeApr
+  ) {
+    interestApr = _interestApr;
+    paymentPeriodInDays = _paymentPeriodInDays;
+    termInDays = _termInDays;
+    lateFeeApr = _lateFeeApr;
+  }
+
+  /// @dev Copied from Goldfinch's CreditLine.isLate
+  function isLate() external view override returns (bool) {
+    require(!isLateReverts, "MockCreditLine: isLate is not supported");
+    uint256 _secondsElapsedSinceFullPayment = block.timestamp -
+      lastFullPaymentTime;
+    return
+      balance > 0 &&
+      _secondsElapsedSinceFullPayment > paymentPeriodInDays * SECONDS_PER_DAY;
+  }
+
+  /// @notice Records a drawdown, which starts the term on the first drawdown
+  function drawdown(uint256 _amount) external {
+    if (termStartTime == 0) {
+      termStartTime = block.timestamp;
+      termEndTime = block.timestamp + termInDays * SECONDS_PER_DAY;
+      nextDueTime = block.timestamp + paymentPeriodInDays * SECONDS_PER_DAY;
+      lastFullPaymentTime = block.timestamp;
+    }
+    balance += _amount;
+    interestAccruedAsOf = block.timestamp;
+  }
+
+  /// @notice Records a payment of the specified amount, which is applied to the interest accrued
+  /// since the last full payment until the most recently past due time.
+  /// Like Goldfinch's CreditLine, it is a full payment only when the payments cover the interest owed,
+  /// the excess isn't applied to the principal, which isn't owed before the term end.
+  function payAmount(uint256 _amount) external {
+    uint256 _interestDue = _interestDueSinceLastFullPayment();
+    collectedPaymentBalance += _amount;
+    if (collectedPaymentBalance < _interestDue) {
+      interestOwed = _interestDue - collectedPaymentBalance;
+      return;
+    }
+    pay(0);
+  }
+
+  /// @notice Records a full payment of the interest owed and the specified principal
+  function pay(uint256 _principalAmount) public {
+    require(
+      _principalAmount <= balance,
+      "MockCreditLine: payment exceeds balance"
+    );
+    balance -= _principalAmount;
+    interestOwed = 0;
+    collectedPaymentBalance = 0;
+    principalOwed = 0;
+    interestAccruedAsOf = block.timestamp;
+
+    /// Like Goldfinch, the payment is assessed as of the most recently past due time
+    uint256 _secondsPerPeriod = paymentPeriodInDays * SECONDS_PER_DAY;
+    while (nextDueTime <= block.timestamp && nextDueTime < termEndTime) {
+      nextDueTime += _secondsPerPeriod;
+    }
+    if (nextDueTime > termEndTime) {
+      nextDueTime = termEndTime;
+    }
+    uint256 _lastDueTime = nextDueTime - _secondsPerPeriod;
+    lastFullPaymentTime = _lastDueTime < block.timestamp
+      ? _lastDueTime
+      : block.timestamp;
+  }
+
+  /// @dev Interest accrued on the balance for the payment periods passed since the last full payment
+  function _interestDueSinceLastFullPayment() internal view returns (uint256) {
+    uint256 _secondsPerPeriod = paymentPeriodInDays * SECONDS_PER_DAY;
+    uint256 _dueUntil = block.timestamp < termEndTime
+      ? block.timestamp
+      : termEndTime;
+    if (_dueUntil <= lastFullPaymentTime) {
+      return 0;
+    }
+    uint256 _secondsDue = ((_dueUntil - lastFullPaymentTime) /
+      _secondsPerPeriod) * _secondsPerPeriod;
+    return
+      (balance * interestApr * _secondsDue) / (INTEREST_DECIMALS * 365 days);
+  }
+
+  function setBalance(uint256 _balance) external {
+    balance = _balance;
+  }
+
+  function setTermEndTime(uint256 _termEndTime) external {
+    termEndTime = _termEndTime;
+  }
+
+  function setNextDueTime(uint256 _nextDueTime) external {
+    nextDueTime = _nextDueTime;
+  }
+
+  function setLastFullPaymentTime(uint256 _lastFullPaymentTime) external {
+    lastFullPaymentTime = _lastFullPaymentTime;
+  }
+
+  function setIsLateReverts(bool _isLateReverts) external {
+    isLateReverts = _isLateReverts;
+  }
+}
@@ -11,6 +11,15 @@ import {ILendingProtocolAdapter} from "../interfaces/ILendingProtocolAdapter.sol
  * @notice Adapter for Goldfinch lending protocol
  */
 contract MockGoldfinchAdapter is UUPSUpgradeableBase, ILendingProtocolAdapter {
+  /// @notice lending pools reported as late by isLendingPoolLate
+  mapping(address => bool) public lateLendingPools;
+
+  /// @notice lending pools reported as late within the grace period by isLendingPoolLateWithinGracePeriod
+  mapping(address => bool) public lateWithinGracePeriodLendingPools;
+
+  /// @dev reserves the storage slots for the variables added by the upgrades
+  uint256[49] private __gap;
+
   /*** initializer ***/
   function initialize(address _owner) external initializer {
     __UUPSUpgradeableBase_init();
@@ -34,7 +43,7 @@ contract MockGoldfinchAdapter is UUPSUpgradeableBase, ILendingProtocolAdapter {
     override
     returns (bool)
   {
-    return false;
+    return lateLendingPools[_lendingPoolAddress];
   }
 
   /// @inheritdoc ILendingProtocolAdapter
@@ -42,7 +51,7 @@ contract MockGoldfinchAdapter is UUPSUpgradeableBase, ILendingProtocolAdapter {
     address _lendingPoolAddress,
     uint256 _gracePeriodInDays
   ) external view override returns (bool) {
-    return false;
+    return lateWithinGracePeriodLendingPools[_lendingPoolAddress];
   }
 
   /// @inheritdoc ILendingProtocolAdapter
@@ -93,4 +102,19 @@ contract MockGoldfinchAdapter is UUPSUpgradeableBase, ILendingProtocolAdapter {
   {
     return block.timestamp - 2 days;
   }
+
+  function setLendingPoolLate(address _lendingPoolAddress, bool _isLate)
+    external
+  {
+    lateLendingPools[_lendingPoolAddress] = _isLate;
+  }
+
+  function setLendingPoolLateWithinGracePeriod(
+    address _lendingPoolAddress,
+    bool _isLateWithinGracePeriod
+  ) external {
+    lateWithinGracePeriodLendingPools[
+      _lendingPoolAddress
+    ] = _isLateWithinGracePeriod;
+  }
 }
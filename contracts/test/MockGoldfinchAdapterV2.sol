@@ -0,0 +1,11 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {MockGoldfinchAdapter} from "./MockGoldfinchAdapter.sol";
+
+/// Contract to test the upgradeability of the MockGoldfinchAdapter deployed by the mock manifest
+contract MockGoldfinchAdapterV2 is MockGoldfinchAdapter {
+  function getVersion() external pure returns (string memory) {
+    return "v2";
+  }
+}
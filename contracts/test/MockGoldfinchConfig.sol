@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {IGoldfinchConfig} from "../external/goldfinch/IGoldfinchConfig.sol";
+
+/// @title MockGoldfinchConfig
+/// @author Carapace Finance
+/// @notice Mock of Goldfinch's GoldfinchConfig to run GoldfinchAdapter without a mainnet fork.
+/// GoldfinchAdapter uses a hardcoded config address, so the code of this contract is installed at that address.
+/// Config options are indexed by the enums in ConfigOptions.sol
+contract MockGoldfinchConfig is IGoldfinchConfig {
+  mapping(uint256 => address) public addresses;
+  mapping(uint256 => uint256) public numbers;
+
+  function setAddress(uint256 _index, address _address) external {
+    addresses[_index] = _address;
+  }
+
+  function setNumber(uint256 _index, uint256 _number) external {
+    numbers[_index] = _number;
+  }
+
+  function getAddress(uint256 _index) public view override returns (address) {
+    return addresses[_index];
+  }
+
+  function getNumber(uint256 _index) public view override returns (uint256) {
+    return numbers[_index];
+  }
+}
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import "@prb/math/contracts/PRBMathSD59x18.sol";
+
+/// @title MockPRBMathSD59x18
+/// @author Carapace Finance
+/// @notice Exposes the internal PRBMathSD59x18 functions used by the Carapace libraries,
+/// so that the off-chain port in the SDK can be tested against them
+contract MockPRBMathSD59x18 {
+  using PRBMathSD59x18 for int256;
+
+  function exp(int256 x) external pure returns (int256) {
+    return x.exp();
+  }
+
+  function exp2(int256 x) external pure returns (int256) {
+    return x.exp2();
+  }
+
+  function ln(int256 x) external pure returns (int256) {
+    return x.ln();
+  }
+
+  function log2(int256 x) external pure returns (int256) {
+    return x.log2();
+  }
+
+  function mul(int256 x, int256 y) external pure returns (int256) {
+    return x.mul(y);
+  }
+
+  function div(int256 x, int256 y) external pure returns (int256) {
+    return x.div(y);
+  }
+}
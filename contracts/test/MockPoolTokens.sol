@@ -0,0 +1,91 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {ERC721Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
+
+import {IPoolTokens} from "../external/goldfinch/IPoolTokens.sol";
+
+/// @title MockPoolTokens
+/// @author Carapace Finance
+/// @notice Mock of Goldfinch's PoolTokens, which represents junior & senior tranche positions as NFTs.
+/// Tranche ids follow Goldfinch's TranchingLogic: senior tranche ids are odd & junior tranche ids are even.
+contract MockPoolTokens is ERC721Upgradeable, IPoolTokens {
+  uint256 private lastTokenId;
+  mapping(uint256 => TokenInfo) private tokens;
+
+  function initialize() public initializer {
+    __ERC721_init("Mock Goldfinch V2 Pool Tokens", "MGFI-V2-PT");
+  }
+
+  /// @notice Mints a token representing a position in the specified tranche of the pool
+  function mint(
+    address _to,
+    address _pool,
+    uint256 _tranche,
+    uint256 _principalAmount
+  ) external returns (uint256 _tokenId) {
+    _tokenId = ++lastTokenId;
+    _mintToken(_to, _tokenId, _pool, _tranche, _principalAmount);
+  }
+
+  /// @notice Mints a token with the specified id, i.e. to mirror a position of the mainnet PoolTokens
+  function mintWithTokenId(
+    address _to,
+    uint256 _tokenId,
+    address _pool,
+    uint256 _tranche,
+    uint256 _principalAmount
+  ) external {
+    _mintToken(_to, _tokenId, _pool, _tranche, _principalAmount);
+    if (_tokenId > lastTokenId) {
+      lastTokenId = _tokenId;
+    }
+  }
+
+  /// @notice Records the redemption of the principal & interest of the token
+  function redeem(
+    uint256 _tokenId,
+    uint256 _principalRedeemed,
+    uint256 _interestRedeemed
+  ) external {
+    TokenInfo storage _token = tokens[_tokenId];
+    require(
+      _token.principalRedeemed + _principalRedeemed <= _token.principalAmount,
+      "MockPoolTokens: redeeming more than principal"
+    );
+    _token.principalRedeemed += _principalRedeemed;
+    _token.interestRedeemed += _interestRedeemed;
+  }
+
+  /// @notice Burns the token, i.e. when it is split or fully redeemed
+  function burn(uint256 _tokenId) external {
+    delete tokens[_tokenId];
+    _burn(_tokenId);
+  }
+
+  function _mintToken(
+    address _to,
+    uint256 _tokenId,
+    address _pool,
+    uint256 _tranche,
+    uint256 _principalAmount
+  ) internal {
+    tokens[_tokenId] = TokenInfo({
+      pool: _pool,
+      tranche: _tranche,
+      principalAmount: _principalAmount,
+      principalRedeemed: 0,
+      interestRedeemed: 0
+    });
+    _mint(_to, _tokenId);
+  }
+
+  function getTokenInfo(uint256 _tokenId)
+    external
+    view
+    override
+    returns (TokenInfo memory)
+  {
+    return tokens[_tokenId];
+  }
+}
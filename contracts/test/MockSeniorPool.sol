@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {ISeniorPool} from "../external/goldfinch/ISeniorPool.sol";
+import {ISeniorPoolStrategy} from "../external/goldfinch/ISeniorPoolStrategy.sol";
+import {ITranchedPool} from "../external/goldfinch/ITranchedPool.sol";
+
+/// @title MockSeniorPool
+/// @author Carapace Finance
+/// @notice Mock of Goldfinch's SeniorPool, which only tracks writedowns of the tranched pools
+contract MockSeniorPool is ISeniorPool {
+  mapping(address => uint256) private poolWritedowns;
+
+  function setWritedown(address _tranchedPool, uint256 _writedownAmount)
+    external
+  {
+    poolWritedowns[_tranchedPool] = _writedownAmount;
+  }
+
+  function writedowns(address _tranchedPool)
+    public
+    view
+    override
+    returns (uint256)
+  {
+    return poolWritedowns[_tranchedPool];
+  }
+}
+
+/// @title MockSeniorPoolStrategy
+/// @author Carapace Finance
+/// @notice Mock of Goldfinch's senior pool strategy with a fixed leverage ratio, which can be overridden per pool
+contract MockSeniorPoolStrategy is ISeniorPoolStrategy {
+  /// leverage ratio scaled to 18 decimals, i.e. 4X => 4 * 10 ** 18
+  uint256 public leverageRatio;
+  mapping(address => uint256) private poolLeverageRatios;
+
+  constructor(uint256 _leverageRatio) {
+    leverageRatio = _leverageRatio;
+  }
+
+  function setLeverageRatio(address _tranchedPool, uint256 _leverageRatio)
+    external
+  {
+    poolLeverageRatios[_tranchedPool] = _leverageRatio;
+  }
+
+  function getLeverageRatio(ITranchedPool _tranchedPool)
+    public
+    view
+    override
+    returns (uint256)
+  {
+    uint256 _poolLeverageRatio = poolLeverageRatios[address(_tranchedPool)];
+    return _poolLeverageRatio > 0 ? _poolLeverageRatio : leverageRatio;
+  }
+}
@@ -0,0 +1,54 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.17;
+
+import {ITranchedPool} from "../external/goldfinch/ITranchedPool.sol";
+import {MockCreditLine} from "./MockCreditLine.sol";
+
+/// @title MockTranchedPool
+/// @author Carapace Finance
+/// @notice Mock of Goldfinch's TranchedPool (lending pool) backed by a MockCreditLine
+contract MockTranchedPool is ITranchedPool {
+  uint256 public override juniorFeePercent;
+
+  /// number of times assess was called
+  uint256 public assessCount;
+
+  constructor(MockCreditLine _creditLine, uint256 _juniorFeePercent) {
+    creditLine = _creditLine;
+    juniorFeePercent = _juniorFeePercent;
+  }
+
+  function assess() external override {
+    ++assessCount;
+  }
+
+  /// @notice Borrower draws down the specified amount, which starts the term on the first drawdown
+  function drawdown(uint256 _amount) external {
+    _mockCreditLine().drawdown(_amount);
+  }
+
+  /// @notice Borrower pays the interest owed and the specified principal
+  function pay(uint256 _principalAmount) external {
+    _mockCreditLine().pay(_principalAmount);
+  }
+
+  /// @notice Borrower pays the specified amount, which is applied to the interest owed,
+  /// like a USDC transfer to the credit line of a Goldfinch lending pool followed by assess
+  function payAmount(uint256 _amount) external {
+    _mockCreditLine().payAmount(_amount);
+  }
+
+  /// @notice Sets the state, which is otherwise set by the constructor,
+  /// i.e. when the code of this contract is installed at the address of a mainnet lending pool
+  function setCreditLine(MockCreditLine _creditLine) external {
+    creditLine = _creditLine;
+  }
+
+  function setJuniorFeePercent(uint256 _juniorFeePercent) external {
+    juniorFeePercent = _juniorFeePercent;
+  }
+
+  function _mockCreditLine() internal view returns (MockCreditLine) {
+    return MockCreditLine(address(creditLine));
+  }
+}
@@ -15,4 +15,17 @@ contract MockUsdc is ERC20Upgradeable {
   function decimals() public view virtual override returns (uint8) {
     return 6;
   }
+
+  /// @dev Reverts with the same reason as USDC when the allowance is insufficient
+  function transferFrom(
+    address _from,
+    address _to,
+    uint256 _amount
+  ) public virtual override returns (bool) {
+    require(
+      allowance(_from, _msgSender()) >= _amount,
+      "ERC20: transfer amount exceeds allowance"
+    );
+    return super.transferFrom(_from, _to, _amount);
+  }
 }
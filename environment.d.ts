@@ -9,5 +9,7 @@ declare namespace NodeJS {
     ETHERSCAN_API_KEY: string;
     FIRST_POOL_SALT: string;
     SECOND_POOL_SALT: string;
+    OFFLINE_TESTS: string;
+    REPLAY_FORK_STATE: string;
   }
 }
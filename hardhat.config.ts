@@ -17,24 +17,51 @@ import "@nomicfoundation/hardhat-foundry";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import "hardhat-log-remover";
 
+import "./tasks/deploy";
+import "./tasks/upgrade";
+import "./tasks/check";
+import "./tasks/forkState";
+import "./tasks/indexer";
+import "./tasks/pool";
+import "./tasks/protection";
+import "./tasks/operator";
+import "./tasks/keeper";
+import "./tasks/watcher";
+import { readForkStateFixture } from "./utils/forkState";
+
 const {
   ALCHEMY_API_KEY,
   ETHERSCAN_API_KEY,
   MNEMONIC_WORDS,
-  WALLET_INITIAL_INDEX
+  WALLET_INITIAL_INDEX,
+  OFFLINE_TESTS,
+  REPLAY_FORK_STATE
 } = process.env;
 
+// recorded fork state is replayed into a plain hardhat network starting at the time of the fork block,
+// the fixture is read from FORK_STATE_FIXTURE or test/fixtures/forkState.json
+const forkStateFixture =
+  REPLAY_FORK_STATE === "true" ? readForkStateFixture() : undefined;
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
     hardhat: {
-      forking: {
-        url: `https://eth-mainnet.alchemyapi.io/v2/${ALCHEMY_API_KEY}`,
-        // url: "https://mainnet.gateway.tenderly.co/6ZPssnDskim7cIosJXAHVs",
-        // url: `https://mainnet.infura.io/v3/${INFURA_API_KEY}`,
-        // 09/23/2022: We are pinning to this block number to avoid goldfinch pool & token position changes
-        blockNumber: 15598870
-      },
+      // in offline mode, tests run against local mocks of USDC & Goldfinch instead of a mainnet fork,
+      // and the recorded fork state replaces the mainnet fork when replaying it
+      forking:
+        OFFLINE_TESTS === "true" || REPLAY_FORK_STATE === "true"
+          ? undefined
+          : {
+              url: `https://eth-mainnet.alchemyapi.io/v2/${ALCHEMY_API_KEY}`,
+              // url: "https://mainnet.gateway.tenderly.co/6ZPssnDskim7cIosJXAHVs",
+              // url: `https://mainnet.infura.io/v3/${INFURA_API_KEY}`,
+              // 09/23/2022: We are pinning to this block number to avoid goldfinch pool & token position changes
+              blockNumber: 15598870
+            },
+      initialDate: forkStateFixture
+        ? new Date(forkStateFixture.timestamp * 1000).toISOString()
+        : undefined,
       gas: "auto", // gasLimit
       gasPrice: 259000000000, // check the latest gas price market in https://www.ethgasstation.info/
       // accounts are set at the end of this file
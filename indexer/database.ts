@@ -0,0 +1,129 @@
+import * as fs from "fs";
+import * as path from "path";
+import initSqlJs, { BindParams, Database } from "sql.js";
+
+import { SCHEMA } from "./schema";
+
+/**
+ * SQLite database, which is kept in memory & written to the file on `save`.
+ */
+export interface SqliteDatabase {
+  db: Database;
+  /// undefined for an in-memory database
+  filePath?: string;
+  /// returns the number of rows inserted, updated or deleted
+  run: (sql: string, params?: BindParams) => number;
+  query: <T = any>(sql: string, params?: BindParams) => T[];
+  /// runs the callback in a transaction, which is rolled back when the callback throws
+  transaction: <T>(callback: () => T) => T;
+  save: () => void;
+  close: () => void;
+}
+
+/**
+ * SQLite database of the indexer
+ */
+export interface IndexerDatabase extends SqliteDatabase {
+  /// last block indexed completely, undefined when nothing has been indexed yet
+  getCheckpoint: () => number | undefined;
+  setCheckpoint: (blockNumber: number) => void;
+}
+
+/**
+ * Opens the database stored in the file or creates it when the file doesn't exist, and creates the missing tables.
+ * @param schema statements creating the tables of the database if they don't exist
+ * @param filePath path of the database file, an in-memory database is created when not specified
+ */
+const openSqliteDatabase = async (
+  schema: string,
+  filePath?: string
+): Promise<SqliteDatabase> => {
+  const SQL = await initSqlJs();
+  const db =
+    filePath && fs.existsSync(filePath)
+      ? new SQL.Database(fs.readFileSync(filePath))
+      : new SQL.Database();
+  db.run(schema);
+
+  const run = (sql: string, params?: BindParams): number => {
+    db.run(sql, params);
+    return db.getRowsModified();
+  };
+
+  const query = <T = any>(sql: string, params?: BindParams): T[] => {
+    const _statement = db.prepare(sql, params);
+    const _rows: T[] = [];
+    try {
+      while (_statement.step()) {
+        _rows.push(_statement.getAsObject() as any);
+      }
+    } finally {
+      _statement.free();
+    }
+    return _rows;
+  };
+
+  return {
+    db,
+    filePath,
+    run,
+    query,
+
+    transaction: <T>(callback: () => T): T => {
+      db.run("BEGIN");
+      try {
+        const _result = callback();
+        db.run("COMMIT");
+        return _result;
+      } catch (e) {
+        db.run("ROLLBACK");
+        throw e;
+      }
+    },
+
+    save: () => {
+      if (!filePath) {
+        return;
+      }
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      // write to a temporary file first, so that a crash doesn't leave a partially written database
+      const _tempFilePath = `${filePath}.tmp`;
+      fs.writeFileSync(_tempFilePath, Buffer.from(db.export()));
+      fs.renameSync(_tempFilePath, filePath);
+    },
+
+    close: () => {
+      db.close();
+    }
+  };
+};
+
+/**
+ * Opens the indexer database stored in the file or creates it when the file doesn't exist.
+ * @param filePath path of the database file, an in-memory database is created when not specified
+ */
+const openIndexerDatabase = async (
+  filePath?: string
+): Promise<IndexerDatabase> => {
+  const _database = await openSqliteDatabase(SCHEMA, filePath);
+
+  return {
+    ..._database,
+
+    getCheckpoint: () => {
+      const _rows = _database.query<{ block_number: number }>(
+        "SELECT block_number FROM checkpoint WHERE id = 0"
+      );
+      return _rows.length > 0 ? _rows[0].block_number : undefined;
+    },
+
+    setCheckpoint: (blockNumber: number) => {
+      _database.run(
+        "INSERT INTO checkpoint (id, block_number) VALUES (0, ?) ON CONFLICT (id) DO UPDATE SET block_number = excluded.block_number",
+        [blockNumber]
+      );
+    }
+  };
+};
+
+export { openSqliteDatabase, openIndexerDatabase };
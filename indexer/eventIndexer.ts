@@ -0,0 +1,661 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { Interface, Result } from "@ethersproject/abi";
+import { Log, Provider } from "@ethersproject/abstract-provider";
+import { SqlValue } from "sql.js";
+
+import { ProtectionPool__factory } from "../typechain-types/factories/contracts/core/pool/ProtectionPool__factory";
+import { DefaultStateManager__factory } from "../typechain-types/factories/contracts/core/DefaultStateManager__factory";
+import { ProtectionPoolCycleManager__factory } from "../typechain-types/factories/contracts/core/ProtectionPoolCycleManager__factory";
+import { AddressBook } from "../utils/addressBook";
+import { IndexerDatabase } from "./database";
+
+const DEFAULT_BATCH_SIZE = 2000;
+const DEFAULT_CONFIRMATION_DEPTH = 12;
+
+const PROTECTION_POOL_EVENTS = [
+  "ProtectionBought",
+  "ProtectionSold",
+  "ProtectionExpired",
+  "PremiumAccrued",
+  "WithdrawalRequested",
+  "WithdrawalMade",
+  "ProtectionPoolPhaseUpdated"
+];
+const DEFAULT_STATE_MANAGER_EVENTS = [
+  "LendingPoolLocked",
+  "LendingPoolUnlocked"
+];
+const POOL_CYCLE_MANAGER_EVENTS = ["ProtectionPoolCycleCreated"];
+
+/**
+ * Addresses of the contracts emitting the indexed events
+ */
+export interface IndexedContracts {
+  protectionPools: string[];
+  defaultStateManager: string;
+  protectionPoolCycleManager: string;
+}
+
+export interface EventIndexerConfig {
+  provider: Provider;
+  database: IndexerDatabase;
+  contracts: IndexedContracts;
+  /// first block to index when the database doesn't have a checkpoint yet, i.e. the deployment block
+  startBlock: number;
+  /// max number of blocks requested with a single eth_getLogs call, defaults to 2000
+  batchSize?: number;
+  /// number of confirmations after which a block is considered final, defaults to 12.
+  /// Hashes of the blocks which aren't final yet are stored to roll back their events when the chain is reorganized.
+  confirmationDepth?: number;
+}
+
+export interface IndexingResult {
+  fromBlock: number;
+  toBlock: number;
+  eventCount: number;
+  /// last block kept when the chain was reorganized since the previous run, undefined otherwise
+  rolledBackTo?: number;
+}
+
+/**
+ * Indexer rebuilding the history of the protection pools from the event logs into the indexer database.
+ */
+export interface EventIndexer {
+  /// indexes all events from the block after the checkpoint to the specified block, defaults to the latest block
+  indexTo: (toBlock?: number) => Promise<IndexingResult>;
+}
+
+/**
+ * Decoded event with the details of the log
+ */
+interface _IndexedEvent {
+  name: string;
+  args: Result;
+  log: Log;
+  blockTimestamp: number;
+  /// protection pool the event belongs to
+  pool: string;
+}
+
+/**
+ * Row of an event table, see schema.ts
+ */
+type _EventRow = { [column: string]: SqlValue };
+
+/**
+ * Adds the amounts to the uint256 columns stored as decimal strings & increments the counter columns
+ */
+const _increase = (
+  database: IndexerDatabase,
+  table: string,
+  key: { [column: string]: SqlValue },
+  amounts: { [column: string]: SqlValue },
+  counters: string[] = []
+) => {
+  const _keyColumns = Object.keys(key);
+  const _keyValues = _keyColumns.map((column) => key[column]);
+  const _where = _keyColumns.map((column) => `${column} = ?`).join(" AND ");
+
+  database.run(
+    `INSERT OR IGNORE INTO ${table} (${_keyColumns.join(
+      ", "
+    )}) VALUES (${_keyColumns.map(() => "?").join(", ")})`,
+    _keyValues
+  );
+  const _amountColumns = Object.keys(amounts);
+  const _row =
+    _amountColumns.length > 0
+      ? database.query(
+          `SELECT ${_amountColumns.join(", ")} FROM ${table} WHERE ${_where}`,
+          _keyValues
+        )[0]
+      : {};
+
+  const _assignments = _amountColumns
+    .map((column) => `${column} = ?`)
+    .concat(counters.map((column) => `${column} = ${column} + 1`));
+  database.run(
+    `UPDATE ${table} SET ${_assignments.join(", ")} WHERE ${_where}`,
+    _amountColumns
+      .map(
+        (column): SqlValue =>
+          BigNumber.from(_row[column])
+            .add(amounts[column] as string)
+            .toString()
+      )
+      .concat(_keyValues)
+  );
+};
+
+const _updatePool = (
+  database: IndexerDatabase,
+  row: _EventRow,
+  columns: { [column: string]: SqlValue } = {}
+) => {
+  const _columns: { [column: string]: SqlValue } = {
+    last_event_block: row.block_number,
+    ...columns
+  };
+  const _names = Object.keys(_columns);
+  database.run(
+    `UPDATE pools SET ${_names
+      .map((name) => `${name} = ?`)
+      .join(", ")} WHERE address = ?`,
+    _names.map((name) => _columns[name]).concat([row.pool])
+  );
+};
+
+const _toAddress = (address: string): string => address.toLowerCase();
+
+/**
+ * Handlers of the indexed events by the event name.
+ * Each event is stored as a row of its table & then applied to the aggregates, i.e. pools, buyers & sellers.
+ * Aggregates are only updated when the row is inserted, so that indexing the same log twice has no effect,
+ * and they can be rebuilt from the rows after a rollback.
+ */
+const _EVENT_HANDLERS: {
+  [eventName: string]: {
+    table: string;
+    toColumns: (args: Result) => { [column: string]: SqlValue };
+    apply: (database: IndexerDatabase, row: _EventRow) => void;
+  };
+} = {
+  ProtectionBought: {
+    table: "protection_purchases",
+    toColumns: (args) => ({
+      buyer: _toAddress(args.buyer),
+      lending_pool: _toAddress(args.lendingPoolAddress),
+      protection_amount: args.protectionAmount.toString(),
+      premium: args.premium.toString()
+    }),
+    apply: (database, row) => {
+      _increase(
+        database,
+        "buyers",
+        { pool: row.pool, buyer: row.buyer },
+        {
+          total_protection_bought: row.protection_amount,
+          total_premium: row.premium
+        },
+        ["protection_count"]
+      );
+      _increase(
+        database,
+        "pools",
+        { address: row.pool },
+        {
+          total_protection_bought: row.protection_amount,
+          total_premium: row.premium
+        }
+      );
+      _updatePool(database, row);
+    }
+  },
+
+  ProtectionExpired: {
+    table: "protection_expirations",
+    toColumns: (args) => ({
+      buyer: _toAddress(args.buyer),
+      lending_pool: _toAddress(args.lendingPoolAddress),
+      protection_amount: args.protectionAmount.toString()
+    }),
+    apply: (database, row) => {
+      _increase(database, "buyers", { pool: row.pool, buyer: row.buyer }, {}, [
+        "expired_protection_count"
+      ]);
+      _updatePool(database, row);
+    }
+  },
+
+  PremiumAccrued: {
+    table: "premium_accruals",
+    toColumns: (args) => ({
+      lending_pool: _toAddress(args.lendingPool),
+      premium_accrued: args.premiumAccrued.toString()
+    }),
+    apply: (database, row) => {
+      _increase(
+        database,
+        "pools",
+        { address: row.pool },
+        { total_premium_accrued: row.premium_accrued }
+      );
+      _updatePool(database, row);
+    }
+  },
+
+  ProtectionSold: {
+    table: "deposits",
+    toColumns: (args) => ({
+      seller: _toAddress(args.protectionSeller),
+      protection_amount: args.protectionAmount.toString()
+    }),
+    apply: (database, row) => {
+      _increase(
+        database,
+        "sellers",
+        { pool: row.pool, seller: row.seller },
+        { total_deposited: row.protection_amount }
+      );
+      _increase(
+        database,
+        "pools",
+        { address: row.pool },
+        { total_deposited: row.protection_amount }
+      );
+      _updatePool(database, row);
+    }
+  },
+
+  WithdrawalRequested: {
+    table: "withdrawal_requests",
+    toColumns: (args) => ({
+      seller: _toAddress(args.seller),
+      stoken_amount: args.sTokenAmount.toString(),
+      withdrawal_cycle_index: args.withdrawalCycleIndex.toNumber()
+    }),
+    apply: (database, row) => {
+      // a request replaces the earlier request of the seller for the same withdrawal cycle,
+      // only the rows before this one are considered, so that the rollback replays the requests in order
+      const [_replaced] = database.query<_EventRow>(
+        `SELECT stoken_amount FROM withdrawal_requests
+        WHERE pool = ? AND seller = ? AND withdrawal_cycle_index = ?
+        AND (block_number < ? OR (block_number = ? AND log_index < ?))
+        ORDER BY block_number DESC, log_index DESC LIMIT 1`,
+        [
+          row.pool,
+          row.seller,
+          row.withdrawal_cycle_index,
+          row.block_number,
+          row.block_number,
+          row.log_index
+        ]
+      );
+      _increase(
+        database,
+        "sellers",
+        { pool: row.pool, seller: row.seller },
+        {
+          total_requested_stokens: BigNumber.from(row.stoken_amount)
+            .sub(_replaced ? (_replaced.stoken_amount as string) : 0)
+            .toString()
+        }
+      );
+      _updatePool(database, row);
+    }
+  },
+
+  WithdrawalMade: {
+    table: "withdrawals",
+    toColumns: (args) => ({
+      seller: _toAddress(args.seller),
+      stoken_amount: args.tokenAmount.toString(),
+      receiver: _toAddress(args.receiver)
+    }),
+    apply: (database, row) => {
+      _increase(
+        database,
+        "sellers",
+        { pool: row.pool, seller: row.seller },
+        { total_withdrawn_stokens: row.stoken_amount }
+      );
+      _increase(
+        database,
+        "pools",
+        { address: row.pool },
+        { total_withdrawn_stokens: row.stoken_amount }
+      );
+      _updatePool(database, row);
+    }
+  },
+
+  ProtectionPoolPhaseUpdated: {
+    table: "pool_phase_updates",
+    toColumns: (args) => ({ phase: args.newPhase }),
+    apply: (database, row) => {
+      _updatePool(database, row, { phase: row.phase });
+    }
+  },
+
+  ProtectionPoolCycleCreated: {
+    table: "pool_cycles",
+    toColumns: (args) => ({
+      cycle_index: args.cycleIndex.toNumber(),
+      cycle_start_time: args.cycleStartTime.toNumber(),
+      open_cycle_duration: args.openCycleDuration.toNumber(),
+      cycle_duration: args.cycleDuration.toNumber()
+    }),
+    apply: (database, row) => {
+      _updatePool(database, row, { current_cycle_index: row.cycle_index });
+    }
+  },
+
+  LendingPoolLocked: {
+    table: "lending_pool_locks",
+    toColumns: (args) => ({
+      lending_pool: _toAddress(args.lendingPool),
+      snapshot_id: args.protectionPoolSnapshotId.toNumber(),
+      amount: args.amount.toString()
+    }),
+    apply: (database, row) => {
+      _updatePool(database, row);
+    }
+  },
+
+  LendingPoolUnlocked: {
+    table: "lending_pool_unlocks",
+    toColumns: (args) => ({
+      lending_pool: _toAddress(args.lendingPool),
+      amount: args.amount.toString()
+    }),
+    apply: (database, row) => {
+      _updatePool(database, row);
+    }
+  }
+};
+
+/**
+ * Stores the event as a row of its table & applies it to the aggregates when it hasn't been indexed yet
+ */
+const _indexEvent = (database: IndexerDatabase, event: _IndexedEvent) => {
+  const _handler = _EVENT_HANDLERS[event.name];
+  const _row: _EventRow = {
+    transaction_hash: event.log.transactionHash,
+    log_index: event.log.logIndex,
+    block_number: event.log.blockNumber,
+    block_timestamp: event.blockTimestamp,
+    pool: event.pool,
+    ..._handler.toColumns(event.args)
+  };
+  const _columns = Object.keys(_row);
+  const _inserted =
+    database.run(
+      `INSERT OR IGNORE INTO ${_handler.table} (${_columns.join(
+        ", "
+      )}) VALUES (${_columns.map(() => "?").join(", ")})`,
+      _columns.map((column) => _row[column])
+    ) > 0;
+  if (_inserted) {
+    _handler.apply(database, _row);
+  }
+};
+
+/**
+ * Deletes the rows of the events emitted after the block & rebuilds the aggregates from the remaining rows
+ */
+const _rollbackTo = (database: IndexerDatabase, blockNumber: number) => {
+  const _handlers = Object.keys(_EVENT_HANDLERS).map(
+    (eventName) => _EVENT_HANDLERS[eventName]
+  );
+  _handlers.forEach((handler) =>
+    database.run(`DELETE FROM ${handler.table} WHERE block_number > ?`, [
+      blockNumber
+    ])
+  );
+  database.run("DELETE FROM indexed_blocks WHERE block_number > ?", [
+    blockNumber
+  ]);
+
+  database.run("DELETE FROM buyers");
+  database.run("DELETE FROM sellers");
+  database.run(
+    "UPDATE pools SET phase = NULL, current_cycle_index = NULL, total_deposited = '0', total_withdrawn_stokens = '0', total_protection_bought = '0', total_premium = '0', total_premium_accrued = '0', last_event_block = NULL"
+  );
+
+  // aggregates depend on the order of the events, i.e. the pool phase
+  const _rows: { handler: typeof _handlers[0]; row: _EventRow }[] = [];
+  _handlers.forEach((handler) =>
+    database
+      .query<_EventRow>(`SELECT * FROM ${handler.table}`)
+      .forEach((row) => _rows.push({ handler, row }))
+  );
+  _rows
+    .sort((a, b) =>
+      a.row.block_number !== b.row.block_number
+        ? (a.row.block_number as number) - (b.row.block_number as number)
+        : (a.row.log_index as number) - (b.row.log_index as number)
+    )
+    .forEach(({ handler, row }) => handler.apply(database, row));
+
+  database.setCheckpoint(blockNumber);
+};
+
+/**
+ * Returns the contracts & the deployment block of a deployment described by the address book
+ */
+const getIndexedContracts = (
+  addressBook: AddressBook
+): { contracts: IndexedContracts; startBlock: number } => {
+  return {
+    contracts: {
+      protectionPools: addressBook.protectionPools.map((pool) => pool.proxy),
+      defaultStateManager: addressBook.contracts.DefaultStateManager.proxy,
+      protectionPoolCycleManager:
+        addressBook.contracts.ProtectionPoolCycleManager.proxy
+    },
+    startBlock: addressBook.contracts.ContractFactory.blockNumber
+  };
+};
+
+/**
+ * Creates an indexer of the events emitted by the protection pools, the default state manager & the pool cycle manager.
+ * Each batch of blocks is stored in a single transaction together with the checkpoint,
+ * so indexing resumes from the block after the checkpoint after a restart.
+ * Before indexing, the stored hashes of the blocks which aren't final yet are compared with the chain &
+ * the events after the latest block still on the chain are rolled back when the chain has been reorganized.
+ */
+const createEventIndexer = (config: EventIndexerConfig): EventIndexer => {
+  const { provider, database, contracts } = config;
+  const _batchSize = config.batchSize || DEFAULT_BATCH_SIZE;
+  const _confirmationDepth =
+    config.confirmationDepth !== undefined
+      ? config.confirmationDepth
+      : DEFAULT_CONFIRMATION_DEPTH;
+  const _pools = contracts.protectionPools.map(_toAddress);
+
+  const _sources: {
+    address: string;
+    contractInterface: Interface;
+    eventNames: string[];
+    /// returns the protection pool of the event, which is the emitter for pool events
+    getPool: (log: Log, args: Result) => string;
+  }[] = [
+    ..._pools.map((pool) => ({
+      address: pool,
+      contractInterface: ProtectionPool__factory.createInterface() as Interface,
+      eventNames: PROTECTION_POOL_EVENTS,
+      getPool: () => pool
+    })),
+    {
+      address: _toAddress(contracts.defaultStateManager),
+      contractInterface:
+        DefaultStateManager__factory.createInterface() as Interface,
+      eventNames: DEFAULT_STATE_MANAGER_EVENTS,
+      getPool: (log, args) => _toAddress(args.protectionPool)
+    },
+    {
+      address: _toAddress(contracts.protectionPoolCycleManager),
+      contractInterface:
+        ProtectionPoolCycleManager__factory.createInterface() as Interface,
+      eventNames: POOL_CYCLE_MANAGER_EVENTS,
+      getPool: (log, args) => _toAddress(args.poolAddress)
+    }
+  ];
+
+  _pools.forEach((pool) =>
+    database.run("INSERT OR IGNORE INTO pools (address) VALUES (?)", [pool])
+  );
+
+  const _getBlockHash = async (
+    blockNumber: number
+  ): Promise<string | undefined> => {
+    const _block = await provider.getBlock(blockNumber);
+    return _block ? _block.hash : undefined;
+  };
+
+  /**
+   * Returns the latest indexed block which is still on the chain, starting from the checkpoint.
+   * Throws when none of the stored blocks is on the chain, because the reorg is deeper than the confirmation depth.
+   */
+  const _findCommonAncestor = async (checkpoint: number): Promise<number> => {
+    const _indexedBlocks = database.query<{
+      block_number: number;
+      block_hash: string;
+    }>(
+      "SELECT block_number, block_hash FROM indexed_blocks WHERE block_number <= ? ORDER BY block_number DESC",
+      [checkpoint]
+    );
+    if (_indexedBlocks.length === 0) {
+      return checkpoint;
+    }
+    for (const _indexedBlock of _indexedBlocks) {
+      if (
+        (await _getBlockHash(_indexedBlock.block_number)) ===
+        _indexedBlock.block_hash
+      ) {
+        return _indexedBlock.block_number;
+      }
+    }
+    throw new Error(
+      `Chain reorganization deeper than the confirmation depth of ${_confirmationDepth} blocks, block ${
+        _indexedBlocks[_indexedBlocks.length - 1].block_number
+      } isn't on the chain anymore`
+    );
+  };
+
+  const _fetchEvents = async (
+    fromBlock: number,
+    toBlock: number
+  ): Promise<_IndexedEvent[]> => {
+    const _events: Omit<_IndexedEvent, "blockTimestamp">[] = [];
+    for (const _source of _sources) {
+      const _logs = await provider.getLogs({
+        address: _source.address,
+        topics: [
+          _source.eventNames.map((eventName) =>
+            _source.contractInterface.getEventTopic(eventName)
+          )
+        ],
+        fromBlock,
+        toBlock
+      });
+      _logs.forEach((log) => {
+        const _parsed = _source.contractInterface.parseLog(log);
+        const _pool = _source.getPool(log, _parsed.args);
+        // shared contracts emit events of pools which aren't indexed
+        if (_pools.indexOf(_pool) >= 0) {
+          _events.push({
+            name: _parsed.name,
+            args: _parsed.args,
+            log,
+            pool: _pool
+          });
+        }
+      });
+    }
+
+    const _blockTimestamps: { [blockNumber: number]: number } = {};
+    for (const _event of _events) {
+      if (_blockTimestamps[_event.log.blockNumber] === undefined) {
+        const _block = await provider.getBlock(_event.log.blockNumber);
+        // logs & blocks are fetched with separate calls, so the chain can be reorganized in between
+        if (!_block || _block.hash !== _event.log.blockHash) {
+          throw new Error(
+            `Chain reorganized while indexing block ${_event.log.blockNumber}, retry indexing`
+          );
+        }
+        _blockTimestamps[_event.log.blockNumber] = _block.timestamp;
+      }
+    }
+
+    return _events
+      .map((event) => ({
+        ...event,
+        blockTimestamp: _blockTimestamps[event.log.blockNumber]
+      }))
+      .sort((a, b) =>
+        a.log.blockNumber !== b.log.blockNumber
+          ? a.log.blockNumber - b.log.blockNumber
+          : a.log.logIndex - b.log.logIndex
+      );
+  };
+
+  return {
+    indexTo: async (toBlock?: number) => {
+      const _latestBlock = await provider.getBlockNumber();
+      const _toBlock = toBlock !== undefined ? toBlock : _latestBlock;
+
+      let _rolledBackTo: number | undefined;
+      let _checkpoint = database.getCheckpoint();
+      if (_checkpoint !== undefined) {
+        const _ancestor = await _findCommonAncestor(_checkpoint);
+        if (_ancestor < _checkpoint) {
+          database.transaction(() => _rollbackTo(database, _ancestor));
+          database.save();
+          _checkpoint = _rolledBackTo = _ancestor;
+        }
+      }
+      const _fromBlock =
+        _checkpoint !== undefined ? _checkpoint + 1 : config.startBlock;
+
+      let _eventCount = 0;
+      for (
+        let _batchStart = _fromBlock;
+        _batchStart <= _toBlock;
+        _batchStart += _batchSize
+      ) {
+        const _batchEnd = Math.min(_batchStart + _batchSize - 1, _toBlock);
+        const _events = await _fetchEvents(_batchStart, _batchEnd);
+
+        // hashes of the blocks which aren't final yet & the last block of the batch to detect reorgs
+        const _blockHashes: { blockNumber: number; blockHash: string }[] = [];
+        for (
+          let _blockNumber = Math.max(
+            _batchStart,
+            _latestBlock - _confirmationDepth + 1
+          );
+          _blockNumber <= _batchEnd;
+          _blockNumber++
+        ) {
+          _blockHashes.push({
+            blockNumber: _blockNumber,
+            blockHash: (await _getBlockHash(_blockNumber))!
+          });
+        }
+        if (_blockHashes.length === 0) {
+          _blockHashes.push({
+            blockNumber: _batchEnd,
+            blockHash: (await _getBlockHash(_batchEnd))!
+          });
+        }
+
+        database.transaction(() => {
+          _events.forEach((event) => _indexEvent(database, event));
+          _blockHashes.forEach(({ blockNumber, blockHash }) =>
+            database.run(
+              "INSERT OR REPLACE INTO indexed_blocks (block_number, block_hash) VALUES (?, ?)",
+              [blockNumber, blockHash]
+            )
+          );
+          // final blocks can't be reorganized, keep only the hash of the last one
+          database.run(
+            "DELETE FROM indexed_blocks WHERE block_number < (SELECT MAX(block_number) FROM indexed_blocks WHERE block_number <= ?)",
+            [_latestBlock - _confirmationDepth]
+          );
+          database.setCheckpoint(_batchEnd);
+        });
+        database.save();
+        _eventCount += _events.length;
+      }
+
+      return {
+        fromBlock: _fromBlock,
+        toBlock: _toBlock,
+        eventCount: _eventCount,
+        rolledBackTo: _rolledBackTo
+      };
+    }
+  };
+};
+
+export { createEventIndexer, getIndexedContracts };
@@ -0,0 +1,513 @@
+import { BigNumber } from "ethers";
+import { Provider } from "@ethersproject/abstract-provider";
+import { buildSchema, graphql, ExecutionResult, GraphQLSchema } from "graphql";
+
+import { ProtectionPool__factory } from "../typechain-types/factories/contracts/core/pool/ProtectionPool__factory";
+import { IndexerDatabase } from "./database";
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+const POOL_PHASES = ["OpenToSellers", "OpenToBuyers", "Open"];
+
+/**
+ * GraphQL schema of the indexed data, similar to the Carapace subgraph.
+ * uint256 amounts are returned as decimal strings in the token decimals.
+ */
+const SCHEMA = buildSchema(`
+  "uint256 as a decimal string"
+  scalar BigInt
+
+  enum PoolPhase {
+    OpenToSellers
+    OpenToBuyers
+    Open
+  }
+
+  enum ProtectionStatus {
+    ACTIVE
+    EXPIRED
+  }
+
+  input ProtectionFilter {
+    pool: String
+    buyer: String
+    lendingPool: String
+    status: ProtectionStatus
+  }
+
+  input WithdrawalRequestFilter {
+    pool: String
+    seller: String
+    withdrawalCycleIndex: Int
+  }
+
+  input LockedCapitalFilter {
+    pool: String
+    lendingPool: String
+    unlocked: Boolean
+  }
+
+  type Pool {
+    id: ID!
+    phase: PoolPhase
+    currentCycleIndex: Int
+    totalDeposited: BigInt!
+    totalWithdrawnSTokens: BigInt!
+    totalProtectionBought: BigInt!
+    totalPremium: BigInt!
+    totalPremiumAccrued: BigInt!
+    "current leverage ratio scaled to 18 decimals, read from the pool"
+    leverageRatio: BigInt!
+    protections(where: ProtectionFilter, first: Int, skip: Int): [Protection!]!
+    sellers(first: Int, skip: Int): [Seller!]!
+    cycles(first: Int, skip: Int): [PoolCycle!]!
+    lockedCapitals(where: LockedCapitalFilter, first: Int, skip: Int): [LockedCapital!]!
+  }
+
+  type Protection {
+    "transaction hash & log index of the ProtectionBought event"
+    id: ID!
+    pool: String!
+    buyer: String!
+    lendingPool: String!
+    protectionAmount: BigInt!
+    premium: BigInt!
+    blockNumber: Int!
+    timestamp: Int!
+    transactionHash: String!
+    "details read from the pool"
+    nftLpTokenId: BigInt!
+    startTimestamp: Int!
+    expirationTimestamp: Int!
+    expired: Boolean!
+  }
+
+  type Seller {
+    id: ID!
+    pool: String!
+    address: String!
+    totalDeposited: BigInt!
+    totalRequestedSTokens: BigInt!
+    totalWithdrawnSTokens: BigInt!
+    withdrawalRequests(first: Int, skip: Int): [WithdrawalRequest!]!
+  }
+
+  type WithdrawalRequest {
+    id: ID!
+    pool: String!
+    seller: String!
+    sTokenAmount: BigInt!
+    withdrawalCycleIndex: Int!
+    blockNumber: Int!
+    timestamp: Int!
+    transactionHash: String!
+  }
+
+  type LockedCapital {
+    id: ID!
+    pool: String!
+    lendingPool: String!
+    snapshotId: Int!
+    amount: BigInt!
+    "true when the lending pool has been unlocked after the capital was locked"
+    unlocked: Boolean!
+    blockNumber: Int!
+    timestamp: Int!
+    transactionHash: String!
+  }
+
+  type PoolCycle {
+    id: ID!
+    pool: String!
+    cycleIndex: Int!
+    startTime: Int!
+    openCycleDuration: Int!
+    cycleDuration: Int!
+    blockNumber: Int!
+  }
+
+  type IndexerStatus {
+    "last indexed block"
+    checkpoint: Int
+  }
+
+  type Query {
+    pools(first: Int, skip: Int): [Pool!]!
+    pool(id: ID!): Pool
+    protections(where: ProtectionFilter, first: Int, skip: Int): [Protection!]!
+    sellers(pool: String, first: Int, skip: Int): [Seller!]!
+    withdrawalRequests(where: WithdrawalRequestFilter, first: Int, skip: Int): [WithdrawalRequest!]!
+    lockedCapitals(where: LockedCapitalFilter, first: Int, skip: Int): [LockedCapital!]!
+    cycles(pool: String, first: Int, skip: Int): [PoolCycle!]!
+    indexerStatus: IndexerStatus!
+  }
+`);
+
+/**
+ * Protection details read from the pool, which aren't part of the ProtectionBought event
+ */
+interface _ProtectionDetails {
+  nftLpTokenId: string;
+  startTimestamp: number;
+  expirationTimestamp: number;
+  expired: boolean;
+}
+
+/**
+ * Per request context, which caches the values read from the chain
+ */
+interface _RequestContext {
+  getProtectionDetails: (pool: string) => Promise<_ProtectionDetails[]>;
+  getLatestTimestamp: () => Promise<number>;
+}
+
+interface _Page {
+  first?: number;
+  skip?: number;
+}
+
+const _toLimitOffset = (page: _Page): [number, number] => {
+  const _first = page.first !== undefined ? page.first : DEFAULT_PAGE_SIZE;
+  const _skip = page.skip !== undefined ? page.skip : 0;
+  if (_first < 0 || _first > MAX_PAGE_SIZE || _skip < 0) {
+    throw new Error(
+      `first must be between 0 and ${MAX_PAGE_SIZE} & skip must not be negative`
+    );
+  }
+  return [_first, _skip];
+};
+
+/**
+ * Builds the WHERE clause of the specified conditions, which are skipped when the value is undefined
+ */
+const _where = (conditions: [string, any][]): [string, any[]] => {
+  const _conditions = conditions.filter(
+    ([, value]) => value !== undefined && value !== null
+  );
+  return [
+    _conditions.length > 0
+      ? `WHERE ${_conditions.map(([sql]) => sql).join(" AND ")}`
+      : "",
+    _conditions.map(([, value]) => value)
+  ];
+};
+
+const _toAddress = (address?: string): string | undefined =>
+  address ? address.toLowerCase() : undefined;
+
+/**
+ * Creates the resolvers of the schema reading the indexed data from the database
+ * & the live data, i.e. leverage ratio, from the provider.
+ */
+const _createRootValue = (database: IndexerDatabase, provider: Provider) => {
+  const _toProtection = (row: any, context: _RequestContext) => {
+    const _getDetails = async () =>
+      (await context.getProtectionDetails(row.pool))[row.protection_index];
+    return {
+      id: `${row.transaction_hash}-${row.log_index}`,
+      pool: row.pool,
+      buyer: row.buyer,
+      lendingPool: row.lending_pool,
+      protectionAmount: row.protection_amount,
+      premium: row.premium,
+      blockNumber: row.block_number,
+      timestamp: row.block_timestamp,
+      transactionHash: row.transaction_hash,
+      nftLpTokenId: async () => (await _getDetails()).nftLpTokenId,
+      startTimestamp: async () => (await _getDetails()).startTimestamp,
+      expirationTimestamp: async () =>
+        (await _getDetails()).expirationTimestamp,
+      expired: async () => (await _getDetails()).expired
+    };
+  };
+
+  const _protections = async (
+    filter: {
+      pool?: string;
+      buyer?: string;
+      lendingPool?: string;
+      status?: "ACTIVE" | "EXPIRED";
+    },
+    page: _Page,
+    context: _RequestContext
+  ) => {
+    const [_limit, _offset] = _toLimitOffset(page);
+    const [_whereSql, _params] = _where([
+      ["pool = ?", _toAddress(filter.pool)],
+      ["buyer = ?", _toAddress(filter.buyer)],
+      ["lending_pool = ?", _toAddress(filter.lendingPool)]
+    ]);
+    const _rows = database.query(
+      `SELECT * FROM protections ${_whereSql} ORDER BY block_number, log_index`,
+      _params
+    );
+
+    let _filteredRows = _rows;
+    if (filter.status) {
+      // status depends on the time, so it is filtered after reading the protection details
+      const _expired: boolean[] = [];
+      for (const _row of _rows) {
+        _expired.push(
+          (await context.getProtectionDetails(_row.pool))[_row.protection_index]
+            .expired
+        );
+      }
+      _filteredRows = _rows.filter(
+        (row, index) => _expired[index] === (filter.status === "EXPIRED")
+      );
+    }
+    return _filteredRows
+      .slice(_offset, _offset + _limit)
+      .map((row) => _toProtection(row, context));
+  };
+
+  const _withdrawalRequests = (
+    filter: { pool?: string; seller?: string; withdrawalCycleIndex?: number },
+    page: _Page
+  ) => {
+    const [_limit, _offset] = _toLimitOffset(page);
+    const [_whereSql, _params] = _where([
+      ["pool = ?", _toAddress(filter.pool)],
+      ["seller = ?", _toAddress(filter.seller)],
+      ["withdrawal_cycle_index = ?", filter.withdrawalCycleIndex]
+    ]);
+    return database
+      .query(
+        `SELECT * FROM withdrawal_requests ${_whereSql} ORDER BY block_number, log_index LIMIT ? OFFSET ?`,
+        _params.concat([_limit, _offset])
+      )
+      .map((row) => ({
+        id: `${row.transaction_hash}-${row.log_index}`,
+        pool: row.pool,
+        seller: row.seller,
+        sTokenAmount: row.stoken_amount,
+        withdrawalCycleIndex: row.withdrawal_cycle_index,
+        blockNumber: row.block_number,
+        timestamp: row.block_timestamp,
+        transactionHash: row.transaction_hash
+      }));
+  };
+
+  const _sellers = (pool: string | undefined, page: _Page) => {
+    const [_limit, _offset] = _toLimitOffset(page);
+    const [_whereSql, _params] = _where([["pool = ?", _toAddress(pool)]]);
+    return database
+      .query(
+        `SELECT * FROM sellers ${_whereSql} ORDER BY pool, seller LIMIT ? OFFSET ?`,
+        _params.concat([_limit, _offset])
+      )
+      .map((row) => ({
+        id: `${row.pool}-${row.seller}`,
+        pool: row.pool,
+        address: row.seller,
+        totalDeposited: row.total_deposited,
+        totalRequestedSTokens: row.total_requested_stokens,
+        totalWithdrawnSTokens: row.total_withdrawn_stokens,
+        withdrawalRequests: (args: _Page) =>
+          _withdrawalRequests({ pool: row.pool, seller: row.seller }, args)
+      }));
+  };
+
+  const _lockedCapitals = (
+    filter: { pool?: string; lendingPool?: string; unlocked?: boolean },
+    page: _Page
+  ) => {
+    const [_limit, _offset] = _toLimitOffset(page);
+    const [_whereSql, _params] = _where([
+      ["pool = ?", _toAddress(filter.pool)],
+      ["lending_pool = ?", _toAddress(filter.lendingPool)],
+      [
+        "unlocked = ?",
+        filter.unlocked === undefined ? undefined : filter.unlocked ? 1 : 0
+      ]
+    ]);
+    // lending pool is unlocked for all capitals locked before the unlock
+    return database
+      .query(
+        `SELECT * FROM (
+          SELECT locks.*, EXISTS (
+            SELECT 1 FROM lending_pool_unlocks unlocks
+            WHERE unlocks.pool = locks.pool AND unlocks.lending_pool = locks.lending_pool
+              AND (unlocks.block_number > locks.block_number
+                OR (unlocks.block_number = locks.block_number AND unlocks.log_index > locks.log_index))
+          ) AS unlocked
+          FROM lending_pool_locks locks
+        ) ${_whereSql} ORDER BY block_number, log_index LIMIT ? OFFSET ?`,
+        _params.concat([_limit, _offset])
+      )
+      .map((row) => ({
+        id: `${row.transaction_hash}-${row.log_index}`,
+        pool: row.pool,
+        lendingPool: row.lending_pool,
+        snapshotId: row.snapshot_id,
+        amount: row.amount,
+        unlocked: row.unlocked === 1,
+        blockNumber: row.block_number,
+        timestamp: row.block_timestamp,
+        transactionHash: row.transaction_hash
+      }));
+  };
+
+  const _cycles = (pool: string | undefined, page: _Page) => {
+    const [_limit, _offset] = _toLimitOffset(page);
+    const [_whereSql, _params] = _where([["pool = ?", _toAddress(pool)]]);
+    return database
+      .query(
+        `SELECT * FROM pool_cycles ${_whereSql} ORDER BY block_number, log_index LIMIT ? OFFSET ?`,
+        _params.concat([_limit, _offset])
+      )
+      .map((row) => ({
+        id: `${row.pool}-${row.cycle_index}`,
+        pool: row.pool,
+        cycleIndex: row.cycle_index,
+        startTime: row.cycle_start_time,
+        openCycleDuration: row.open_cycle_duration,
+        cycleDuration: row.cycle_duration,
+        blockNumber: row.block_number
+      }));
+  };
+
+  const _toPool = (row: any) => ({
+    id: row.address,
+    phase: row.phase !== null ? POOL_PHASES[row.phase] : null,
+    currentCycleIndex: row.current_cycle_index,
+    totalDeposited: row.total_deposited,
+    totalWithdrawnSTokens: row.total_withdrawn_stokens,
+    totalProtectionBought: row.total_protection_bought,
+    totalPremium: row.total_premium,
+    totalPremiumAccrued: row.total_premium_accrued,
+    leverageRatio: async () =>
+      (
+        await ProtectionPool__factory.connect(
+          row.address,
+          provider
+        ).calculateLeverageRatio()
+      ).toString(),
+    protections: (
+      args: {
+        where?: { buyer?: string; lendingPool?: string; status?: any };
+      } & _Page,
+      context: _RequestContext
+    ) =>
+      _protections({ ...(args.where || {}), pool: row.address }, args, context),
+    sellers: (args: _Page) => _sellers(row.address, args),
+    cycles: (args: _Page) => _cycles(row.address, args),
+    lockedCapitals: (
+      args: { where?: { lendingPool?: string; unlocked?: boolean } } & _Page
+    ) => _lockedCapitals({ ...(args.where || {}), pool: row.address }, args)
+  });
+
+  return {
+    pools: (args: _Page) => {
+      const [_limit, _offset] = _toLimitOffset(args);
+      return database
+        .query("SELECT * FROM pools ORDER BY address LIMIT ? OFFSET ?", [
+          _limit,
+          _offset
+        ])
+        .map(_toPool);
+    },
+    pool: (args: { id: string }) => {
+      const _rows = database.query("SELECT * FROM pools WHERE address = ?", [
+        args.id.toLowerCase()
+      ]);
+      return _rows.length > 0 ? _toPool(_rows[0]) : null;
+    },
+    protections: (args: { where?: any } & _Page, context: _RequestContext) =>
+      _protections(args.where || {}, args, context),
+    sellers: (args: { pool?: string } & _Page) => _sellers(args.pool, args),
+    withdrawalRequests: (args: { where?: any } & _Page) =>
+      _withdrawalRequests(args.where || {}, args),
+    lockedCapitals: (args: { where?: any } & _Page) =>
+      _lockedCapitals(args.where || {}, args),
+    cycles: (args: { pool?: string } & _Page) => _cycles(args.pool, args),
+    indexerStatus: () => ({ checkpoint: database.getCheckpoint() })
+  };
+};
+
+/**
+ * Creates the context of a request, which reads the protection details of each pool once
+ */
+const _createRequestContext = (provider: Provider): _RequestContext => {
+  const _protectionDetails: {
+    [pool: string]: Promise<_ProtectionDetails[]>;
+  } = {};
+  let _latestTimestamp: Promise<number> | undefined;
+
+  const getLatestTimestamp = () => {
+    if (!_latestTimestamp) {
+      _latestTimestamp = provider
+        .getBlock("latest")
+        .then((block) => block.timestamp);
+    }
+    return _latestTimestamp;
+  };
+
+  return {
+    getLatestTimestamp,
+    getProtectionDetails: (pool: string) => {
+      if (!_protectionDetails[pool]) {
+        _protectionDetails[pool] = Promise.all([
+          ProtectionPool__factory.connect(pool, provider).getAllProtections(),
+          getLatestTimestamp()
+        ]).then(([protections, latestTimestamp]) =>
+          protections.map((protection) => {
+            const _expirationTimestamp = protection.startTimestamp
+              .add(protection.purchaseParams.protectionDurationInSeconds)
+              .toNumber();
+            return {
+              nftLpTokenId: BigNumber.from(
+                protection.purchaseParams.nftLpTokenId
+              ).toString(),
+              startTimestamp: protection.startTimestamp.toNumber(),
+              expirationTimestamp: _expirationTimestamp,
+              // expired flag of the pool is only updated when the premium is accrued
+              expired:
+                protection.expired || latestTimestamp > _expirationTimestamp
+            };
+          })
+        );
+      }
+      return _protectionDetails[pool];
+    }
+  };
+};
+
+/**
+ * GraphQL API over the indexer database
+ */
+export interface IndexerGraphQL {
+  schema: GraphQLSchema;
+  execute: (
+    query: string,
+    variables?: { [name: string]: any },
+    operationName?: string
+  ) => Promise<ExecutionResult>;
+}
+
+/**
+ * Creates the GraphQL API over the indexed data in the database.
+ * @param database indexer database
+ * @param provider used to read the live data, i.e. leverage ratio & protection details, from the pools
+ */
+const createIndexerGraphQL = (
+  database: IndexerDatabase,
+  provider: Provider
+): IndexerGraphQL => {
+  const _rootValue = _createRootValue(database, provider);
+  return {
+    schema: SCHEMA,
+    execute: (query, variables, operationName) =>
+      graphql({
+        schema: SCHEMA,
+        source: query,
+        rootValue: _rootValue,
+        contextValue: _createRequestContext(provider),
+        variableValues: variables,
+        operationName
+      })
+  };
+};
+
+export { createIndexerGraphQL };
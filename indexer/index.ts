@@ -0,0 +1,5 @@
+export * from "./database";
+export * from "./eventIndexer";
+export * from "./graphql";
+export * from "./server";
+export * from "./protections";
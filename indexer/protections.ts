@@ -0,0 +1,25 @@
+import { ProtectionReference } from "../sdk/buyerPortfolio";
+import { IndexerDatabase } from "./database";
+
+/**
+ * Returns the references of the protections bought by the buyer in all indexed pools,
+ * which are used to read the expired protections of the buyer, see `getBuyerPortfolio`.
+ * @param database indexer database
+ * @param buyer address of the protection buyer
+ */
+const getIndexedProtectionReferences = (
+  database: IndexerDatabase,
+  buyer: string
+): ProtectionReference[] => {
+  return database
+    .query(
+      "SELECT pool, protection_index FROM protections WHERE buyer = ? ORDER BY block_number, log_index",
+      [buyer.toLowerCase()]
+    )
+    .map((row) => ({
+      protectionPool: row.pool,
+      protectionIndex: row.protection_index
+    }));
+};
+
+export { getIndexedProtectionReferences };
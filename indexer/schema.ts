@@ -0,0 +1,136 @@
+/**
+ * Schema of the indexer database.
+ * Addresses are stored in lowercase & uint256 amounts as decimal strings, because they don't fit into SQLite integers.
+ * Event tables are keyed by the transaction hash & log index, so indexing the same log twice has no effect.
+ */
+const EVENT_COLUMNS = `
+  transaction_hash TEXT NOT NULL,
+  log_index INTEGER NOT NULL,
+  block_number INTEGER NOT NULL,
+  block_timestamp INTEGER NOT NULL,
+  pool TEXT NOT NULL`;
+
+const EVENT_PRIMARY_KEY = "PRIMARY KEY (transaction_hash, log_index)";
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS checkpoint (
+  id INTEGER PRIMARY KEY CHECK (id = 0),
+  block_number INTEGER NOT NULL
+);
+
+-- hashes of the indexed blocks, which aren't final yet, to detect chain reorganizations
+CREATE TABLE IF NOT EXISTS indexed_blocks (
+  block_number INTEGER PRIMARY KEY,
+  block_hash TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS pools (
+  address TEXT PRIMARY KEY,
+  phase INTEGER,
+  current_cycle_index INTEGER,
+  total_deposited TEXT NOT NULL DEFAULT '0',
+  total_withdrawn_stokens TEXT NOT NULL DEFAULT '0',
+  total_protection_bought TEXT NOT NULL DEFAULT '0',
+  total_premium TEXT NOT NULL DEFAULT '0',
+  total_premium_accrued TEXT NOT NULL DEFAULT '0',
+  last_event_block INTEGER
+);
+
+CREATE TABLE IF NOT EXISTS buyers (
+  pool TEXT NOT NULL,
+  buyer TEXT NOT NULL,
+  protection_count INTEGER NOT NULL DEFAULT 0,
+  expired_protection_count INTEGER NOT NULL DEFAULT 0,
+  total_protection_bought TEXT NOT NULL DEFAULT '0',
+  total_premium TEXT NOT NULL DEFAULT '0',
+  PRIMARY KEY (pool, buyer)
+);
+
+CREATE TABLE IF NOT EXISTS sellers (
+  pool TEXT NOT NULL,
+  seller TEXT NOT NULL,
+  total_deposited TEXT NOT NULL DEFAULT '0',
+  total_requested_stokens TEXT NOT NULL DEFAULT '0',
+  total_withdrawn_stokens TEXT NOT NULL DEFAULT '0',
+  PRIMARY KEY (pool, seller)
+);
+
+CREATE TABLE IF NOT EXISTS protection_purchases (${EVENT_COLUMNS},
+  buyer TEXT NOT NULL,
+  lending_pool TEXT NOT NULL,
+  protection_amount TEXT NOT NULL,
+  premium TEXT NOT NULL,
+  ${EVENT_PRIMARY_KEY}
+);
+CREATE INDEX IF NOT EXISTS protection_purchases_buyer ON protection_purchases (buyer);
+
+-- purchases with the index of the protection in ProtectionPool.getAllProtections, which is the order of the purchases in the pool
+CREATE VIEW IF NOT EXISTS protections AS
+SELECT *, ROW_NUMBER() OVER (PARTITION BY pool ORDER BY block_number, log_index) - 1 AS protection_index
+FROM protection_purchases;
+
+CREATE TABLE IF NOT EXISTS protection_expirations (${EVENT_COLUMNS},
+  buyer TEXT NOT NULL,
+  lending_pool TEXT NOT NULL,
+  protection_amount TEXT NOT NULL,
+  ${EVENT_PRIMARY_KEY}
+);
+CREATE INDEX IF NOT EXISTS protection_expirations_buyer ON protection_expirations (buyer);
+
+CREATE TABLE IF NOT EXISTS premium_accruals (${EVENT_COLUMNS},
+  lending_pool TEXT NOT NULL,
+  premium_accrued TEXT NOT NULL,
+  ${EVENT_PRIMARY_KEY}
+);
+
+CREATE TABLE IF NOT EXISTS deposits (${EVENT_COLUMNS},
+  seller TEXT NOT NULL,
+  protection_amount TEXT NOT NULL,
+  ${EVENT_PRIMARY_KEY}
+);
+CREATE INDEX IF NOT EXISTS deposits_seller ON deposits (seller);
+
+CREATE TABLE IF NOT EXISTS withdrawal_requests (${EVENT_COLUMNS},
+  seller TEXT NOT NULL,
+  stoken_amount TEXT NOT NULL,
+  withdrawal_cycle_index INTEGER NOT NULL,
+  ${EVENT_PRIMARY_KEY}
+);
+CREATE INDEX IF NOT EXISTS withdrawal_requests_seller ON withdrawal_requests (seller);
+
+CREATE TABLE IF NOT EXISTS withdrawals (${EVENT_COLUMNS},
+  seller TEXT NOT NULL,
+  stoken_amount TEXT NOT NULL,
+  receiver TEXT NOT NULL,
+  ${EVENT_PRIMARY_KEY}
+);
+CREATE INDEX IF NOT EXISTS withdrawals_seller ON withdrawals (seller);
+
+CREATE TABLE IF NOT EXISTS pool_phase_updates (${EVENT_COLUMNS},
+  phase INTEGER NOT NULL,
+  ${EVENT_PRIMARY_KEY}
+);
+
+CREATE TABLE IF NOT EXISTS pool_cycles (${EVENT_COLUMNS},
+  cycle_index INTEGER NOT NULL,
+  cycle_start_time INTEGER NOT NULL,
+  open_cycle_duration INTEGER NOT NULL,
+  cycle_duration INTEGER NOT NULL,
+  ${EVENT_PRIMARY_KEY}
+);
+
+CREATE TABLE IF NOT EXISTS lending_pool_locks (${EVENT_COLUMNS},
+  lending_pool TEXT NOT NULL,
+  snapshot_id INTEGER NOT NULL,
+  amount TEXT NOT NULL,
+  ${EVENT_PRIMARY_KEY}
+);
+
+CREATE TABLE IF NOT EXISTS lending_pool_unlocks (${EVENT_COLUMNS},
+  lending_pool TEXT NOT NULL,
+  amount TEXT NOT NULL,
+  ${EVENT_PRIMARY_KEY}
+);
+`;
+
+export { SCHEMA };
@@ -0,0 +1,142 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as url from "url";
+import { Provider } from "@ethersproject/abstract-provider";
+
+import { IndexerDatabase } from "./database";
+import { createIndexerGraphQL } from "./graphql";
+
+const GRAPHQL_PATH = "/graphql";
+const MAX_BODY_SIZE = 1024 * 1024;
+
+export interface GraphQLServerConfig {
+  /// indexer database the queries are resolved from
+  database: IndexerDatabase;
+
+  /// provider used to read the live fields from the pools
+  provider: Provider;
+
+  /// port to listen on, 0 picks a free port
+  port: number;
+
+  /// host to listen on, defaults to localhost
+  host?: string;
+}
+
+export interface GraphQLServer {
+  /// url of the graphql endpoint
+  url: string;
+
+  close: () => Promise<void>;
+}
+
+const _send = (response: http.ServerResponse, status: number, body: any) => {
+  response.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Content-Type"
+  });
+  response.end(body !== undefined ? JSON.stringify(body) : undefined);
+};
+
+const _readBody = (request: http.IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let _body = "";
+    request.on("data", (chunk) => {
+      _body += chunk;
+      if (_body.length > MAX_BODY_SIZE) {
+        reject(new Error("Request body is too large"));
+        request.destroy();
+      }
+    });
+    request.on("end", () => resolve(_body));
+    request.on("error", reject);
+  });
+
+/**
+ * Parses the graphql request from the query string of GET requests & the JSON body of POST requests
+ */
+const _parseRequest = async (
+  request: http.IncomingMessage
+): Promise<{ query: string; variables?: any; operationName?: string }> => {
+  if (request.method === "GET") {
+    const _query = url.parse(request.url || "", true).query;
+    return {
+      query: _query.query as string,
+      variables: _query.variables
+        ? JSON.parse(_query.variables as string)
+        : undefined,
+      operationName: _query.operationName as string | undefined
+    };
+  }
+  return JSON.parse(await _readBody(request));
+};
+
+/**
+ * Starts the HTTP server serving the GraphQL API over the indexer database at `/graphql`.
+ * Both GET requests with the `query` parameter & POST requests with a JSON body are supported.
+ */
+const startGraphQLServer = async (
+  config: GraphQLServerConfig
+): Promise<GraphQLServer> => {
+  const _graphql = createIndexerGraphQL(config.database, config.provider);
+  const _host = config.host || "localhost";
+
+  const _server = http.createServer(async (request, response) => {
+    if (url.parse(request.url || "").pathname !== GRAPHQL_PATH) {
+      return _send(response, 404, { errors: [{ message: "Not found" }] });
+    }
+    if (request.method === "OPTIONS") {
+      return _send(response, 204, undefined);
+    }
+    if (request.method !== "GET" && request.method !== "POST") {
+      return _send(response, 405, {
+        errors: [{ message: "Method not allowed" }]
+      });
+    }
+
+    let _request;
+    try {
+      _request = await _parseRequest(request);
+    } catch (error: any) {
+      return _send(response, 400, { errors: [{ message: error.message }] });
+    }
+    if (!_request || typeof _request.query !== "string") {
+      return _send(response, 400, {
+        errors: [{ message: "Request must contain a query" }]
+      });
+    }
+
+    try {
+      _send(
+        response,
+        200,
+        await _graphql.execute(
+          _request.query,
+          _request.variables,
+          _request.operationName
+        )
+      );
+    } catch (error: any) {
+      _send(response, 500, { errors: [{ message: error.message }] });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    _server.once("error", reject);
+    _server.listen(config.port, _host, () => resolve());
+  });
+
+  return {
+    url: `http://${_host}:${
+      (_server.address() as AddressInfo).port
+    }${GRAPHQL_PATH}`,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        _server.close((error) => (error ? reject(error) : resolve()))
+      )
+  };
+};
+
+export { startGraphQLServer };
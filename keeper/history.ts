@@ -0,0 +1,168 @@
+import { SqliteDatabase, openSqliteDatabase } from "../indexer/database";
+
+/**
+ * Jobs of the keeper, named after the function they call periodically
+ */
+export type KeeperJobName =
+  | "assessStates"
+  | "accruePremiumAndExpireProtections"
+  | "calculateAndSetPoolCycleState";
+
+export type JobRunStatus = "succeeded" | "failed";
+
+/**
+ * Transaction sent by a job run, or the batch skipped because there was nothing to update
+ */
+export interface JobTransaction {
+  /// contract called by the transaction
+  target: string;
+  /// function called by the transaction with its arguments, i.e. assessStateBatch(0x...,0x...)
+  description: string;
+  status: "succeeded" | "failed" | "skipped";
+  /// undefined when the transaction wasn't mined
+  transactionHash?: string;
+  blockNumber?: number;
+  /// number of times the transaction was sent, including the replacements with bumped fees
+  attempts: number;
+  error?: string;
+}
+
+export interface JobRun {
+  /// undefined until the run is recorded
+  id?: number;
+  job: KeeperJobName;
+  /// timestamp of the latest block when the run started, which schedules the next run
+  timestamp: number;
+  /// failed when any of the transactions failed
+  status: JobRunStatus;
+  transactions: JobTransaction[];
+  /// error which stopped the run before all transactions were sent
+  error?: string;
+}
+
+/**
+ * Run history of the keeper jobs stored in a SQLite database
+ */
+export interface KeeperHistory {
+  /// undefined for an in-memory history
+  filePath?: string;
+  /// records the run & returns its id
+  recordRun: (run: JobRun) => number;
+  getLastRun: (job: KeeperJobName) => JobRun | undefined;
+  /// latest runs first
+  getRuns: (filter?: { job?: KeeperJobName; limit?: number }) => JobRun[];
+  save: () => void;
+  close: () => void;
+}
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS job_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  job TEXT NOT NULL,
+  timestamp INTEGER NOT NULL,
+  status TEXT NOT NULL,
+  error TEXT
+);
+CREATE INDEX IF NOT EXISTS job_runs_job ON job_runs (job, id);
+
+CREATE TABLE IF NOT EXISTS job_transactions (
+  run_id INTEGER NOT NULL REFERENCES job_runs (id),
+  position INTEGER NOT NULL,
+  target TEXT NOT NULL,
+  description TEXT NOT NULL,
+  status TEXT NOT NULL,
+  transaction_hash TEXT,
+  block_number INTEGER,
+  attempts INTEGER NOT NULL,
+  error TEXT,
+  PRIMARY KEY (run_id, position)
+);
+`;
+
+const _readTransactions = (
+  database: SqliteDatabase,
+  runId: number
+): JobTransaction[] =>
+  database
+    .query(
+      "SELECT * FROM job_transactions WHERE run_id = ? ORDER BY position",
+      [runId]
+    )
+    .map((row) => ({
+      target: row.target,
+      description: row.description,
+      status: row.status,
+      transactionHash: row.transaction_hash ?? undefined,
+      blockNumber: row.block_number ?? undefined,
+      attempts: row.attempts,
+      error: row.error ?? undefined
+    }));
+
+/**
+ * Opens the run history stored in the file or creates it when the file doesn't exist.
+ * @param filePath path of the database file, an in-memory history is created when not specified
+ */
+const openKeeperHistory = async (filePath?: string): Promise<KeeperHistory> => {
+  const _database = await openSqliteDatabase(SCHEMA, filePath);
+
+  const _toJobRun = (row: any): JobRun => ({
+    id: row.id,
+    job: row.job,
+    timestamp: row.timestamp,
+    status: row.status,
+    transactions: _readTransactions(_database, row.id),
+    error: row.error ?? undefined
+  });
+
+  const getRuns = (filter: { job?: KeeperJobName; limit?: number } = {}) =>
+    _database
+      .query(
+        `SELECT * FROM job_runs ${
+          filter.job ? "WHERE job = $job" : ""
+        } ORDER BY id DESC LIMIT $limit`,
+        {
+          ...(filter.job && { $job: filter.job }),
+          $limit: filter.limit ?? -1
+        }
+      )
+      .map(_toJobRun);
+
+  return {
+    filePath,
+
+    recordRun: (run: JobRun) =>
+      _database.transaction(() => {
+        _database.run(
+          "INSERT INTO job_runs (job, timestamp, status, error) VALUES (?, ?, ?, ?)",
+          [run.job, run.timestamp, run.status, run.error ?? null]
+        );
+        const _runId = _database.query<{ id: number }>(
+          "SELECT last_insert_rowid() AS id"
+        )[0].id;
+        run.transactions.forEach((transaction, position) => {
+          _database.run(
+            "INSERT INTO job_transactions (run_id, position, target, description, status, transaction_hash, block_number, attempts, error) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)",
+            [
+              _runId,
+              position,
+              transaction.target,
+              transaction.description,
+              transaction.status,
+              transaction.transactionHash ?? null,
+              transaction.blockNumber ?? null,
+              transaction.attempts,
+              transaction.error ?? null
+            ]
+          );
+        });
+        return _runId;
+      }),
+
+    getLastRun: (job: KeeperJobName) => getRuns({ job, limit: 1 })[0],
+    getRuns,
+    save: _database.save,
+    close: _database.close
+  };
+};
+
+export { openKeeperHistory };
@@ -0,0 +1,4 @@
+export * from "./history";
+export * from "./transactionSender";
+export * from "./jobs";
+export * from "./keeper";
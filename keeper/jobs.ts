@@ -0,0 +1,212 @@
+import { PopulatedTransaction } from "ethers";
+
+import { ProtectionPool__factory } from "../typechain-types/factories/contracts/core/pool/ProtectionPool__factory";
+import { ReferenceLendingPools__factory } from "../typechain-types/factories/contracts/core/pool/ReferenceLendingPools__factory";
+import { CarapaceContracts } from "../sdk/contracts";
+import { formatError } from "../sdk/errors";
+import { JobTransaction, KeeperJobName } from "./history";
+import { SendTransactionError, TransactionSender } from "./transactionSender";
+
+// a pool cycle can move from Open to Locked & then to the Open state of a new cycle within a single run
+const MAX_CYCLE_TRANSITIONS = 2;
+
+export interface JobContext {
+  /// core contracts connected to a provider or the signer of the sender
+  contracts: CarapaceContracts;
+  sender: TransactionSender;
+  /// max number of lending pools assessed or accrued by a transaction
+  batchSize: number;
+}
+
+export type Job = (context: JobContext) => Promise<JobTransaction[]>;
+
+/**
+ * Sends the transaction & records its outcome, so a failed transaction doesn't stop the remaining batches
+ */
+const _sendTransaction = async (
+  sender: TransactionSender,
+  target: string,
+  description: string,
+  transaction: PopulatedTransaction
+): Promise<JobTransaction> => {
+  try {
+    const { receipt, attempts } = await sender.send(transaction);
+    return {
+      target,
+      description,
+      status: "succeeded",
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      attempts
+    };
+  } catch (error) {
+    return {
+      target,
+      description,
+      status: "failed",
+      attempts: (error as SendTransactionError).attempts ?? 0,
+      error: formatError(error)
+    };
+  }
+};
+
+const _getLendingPools = async (
+  contracts: CarapaceContracts,
+  protectionPool: string
+): Promise<string[]> => {
+  const _provider = contracts.contractFactory.provider;
+  return ReferenceLendingPools__factory.connect(
+    (
+      await ProtectionPool__factory.connect(
+        protectionPool,
+        _provider
+      ).getPoolInfo()
+    ).referenceLendingPools,
+    _provider
+  ).getLendingPools();
+};
+
+const _chunk = <T>(items: T[], size: number): T[][] => {
+  const _chunks: T[][] = [];
+  for (let _i = 0; _i < items.length; _i += size) {
+    _chunks.push(items.slice(_i, _i + size));
+  }
+  return _chunks;
+};
+
+/**
+ * Assesses all protection pools with assessStates when their lending pools fit in a batch,
+ * otherwise assesses the protection pools in batches of at most `batchSize` lending pools with assessStateBatch.
+ * A protection pool with more lending pools than the batch size is assessed alone.
+ */
+const assessStates: Job = async ({ contracts, sender, batchSize }) => {
+  const _defaultStateManager = contracts.defaultStateManager;
+  const _pools = await contracts.contractFactory.getProtectionPools();
+
+  const _batches: string[][] = [];
+  let _batch: string[] = [];
+  let _batchLendingPools = 0;
+  for (const _pool of _pools) {
+    const _lendingPools = (await _getLendingPools(contracts, _pool)).length;
+    if (_batch.length > 0 && _batchLendingPools + _lendingPools > batchSize) {
+      _batches.push(_batch);
+      _batch = [];
+      _batchLendingPools = 0;
+    }
+    _batch.push(_pool);
+    _batchLendingPools += _lendingPools;
+  }
+  if (_batch.length > 0) {
+    _batches.push(_batch);
+  }
+
+  if (_batches.length <= 1) {
+    return [
+      await _sendTransaction(
+        sender,
+        _defaultStateManager.address,
+        "assessStates()",
+        await _defaultStateManager.populateTransaction.assessStates()
+      )
+    ];
+  }
+
+  const _transactions: JobTransaction[] = [];
+  for (const _protectionPools of _batches) {
+    _transactions.push(
+      await _sendTransaction(
+        sender,
+        _defaultStateManager.address,
+        `assessStateBatch(${_protectionPools.join(",")})`,
+        await _defaultStateManager.populateTransaction.assessStateBatch(
+          _protectionPools
+        )
+      )
+    );
+  }
+  return _transactions;
+};
+
+/**
+ * Accrues the premium & expires the protections of the lending pools of each protection pool
+ * in batches of at most `batchSize` lending pools
+ */
+const accruePremiumAndExpireProtections: Job = async ({
+  contracts,
+  sender,
+  batchSize
+}) => {
+  const _provider = contracts.contractFactory.provider;
+  const _transactions: JobTransaction[] = [];
+  for (const _pool of await contracts.contractFactory.getProtectionPools()) {
+    const _protectionPool = ProtectionPool__factory.connect(_pool, _provider);
+    for (const _lendingPools of _chunk(
+      await _getLendingPools(contracts, _pool),
+      batchSize
+    )) {
+      _transactions.push(
+        await _sendTransaction(
+          sender,
+          _pool,
+          `accruePremiumAndExpireProtections(${_lendingPools.join(",")})`,
+          await _protectionPool.populateTransaction.accruePremiumAndExpireProtections(
+            _lendingPools
+          )
+        )
+      );
+    }
+  }
+  return _transactions;
+};
+
+/**
+ * Moves the cycle of each protection pool to its current state,
+ * skipping the pools whose cycle state wouldn't change
+ */
+const calculateAndSetPoolCycleState: Job = async ({ contracts, sender }) => {
+  const _cycleManager = contracts.protectionPoolCycleManager;
+  const _transactions: JobTransaction[] = [];
+  for (const _pool of await contracts.contractFactory.getProtectionPools()) {
+    const _description = `calculateAndSetPoolCycleState(${_pool})`;
+    let _transitions = 0;
+    while (_transitions < MAX_CYCLE_TRANSITIONS) {
+      const _newState =
+        await _cycleManager.callStatic.calculateAndSetPoolCycleState(_pool);
+      if (_newState === (await _cycleManager.getCurrentCycleState(_pool))) {
+        break;
+      }
+
+      const _transaction = await _sendTransaction(
+        sender,
+        _cycleManager.address,
+        _description,
+        await _cycleManager.populateTransaction.calculateAndSetPoolCycleState(
+          _pool
+        )
+      );
+      _transactions.push(_transaction);
+      _transitions++;
+      if (_transaction.status === "failed") {
+        break;
+      }
+    }
+
+    if (_transitions === 0) {
+      _transactions.push({
+        target: _cycleManager.address,
+        description: _description,
+        status: "skipped",
+        attempts: 0
+      });
+    }
+  }
+  return _transactions;
+};
+
+const JOBS: { [job in KeeperJobName]: Job } = {
+  assessStates,
+  accruePremiumAndExpireProtections,
+  calculateAndSetPoolCycleState
+};
+
+export { JOBS };
@@ -0,0 +1,201 @@
+import { CarapaceContracts } from "../sdk/contracts";
+import { formatError } from "../sdk/errors";
+import { JobRun, KeeperHistory, KeeperJobName } from "./history";
+import { JOBS } from "./jobs";
+import { TransactionSender } from "./transactionSender";
+
+const DEFAULT_BATCH_SIZE = 20;
+
+// order in which the due jobs run, so premium is accrued & cycles are moved after the lending pools are assessed
+const JOB_NAMES: KeeperJobName[] = [
+  "assessStates",
+  "accruePremiumAndExpireProtections",
+  "calculateAndSetPoolCycleState"
+];
+
+// default seconds between the runs of each job
+const DEFAULT_JOB_INTERVALS: { [job in KeeperJobName]: number } = {
+  assessStates: 60 * 60,
+  accruePremiumAndExpireProtections: 24 * 60 * 60,
+  calculateAndSetPoolCycleState: 60 * 60
+};
+
+export interface KeeperJobConfig {
+  /// seconds between the runs of the job, measured in block time
+  interval: number;
+  /// max number of lending pools assessed or accrued by a transaction, defaults to 20
+  batchSize?: number;
+}
+
+export interface KeeperConfig {
+  /// core contracts connected to a provider or the signer of the sender
+  contracts: CarapaceContracts;
+
+  /// sender of the transactions, its signer needs the operator role
+  sender: TransactionSender;
+
+  /// run history, which schedules the jobs across restarts
+  history: KeeperHistory;
+
+  /// schedule of each job, jobs without a schedule don't run
+  jobs: { [job in KeeperJobName]?: KeeperJobConfig };
+
+  /// called after each run is recorded
+  onRun?: (run: JobRun) => void;
+
+  /// called when the due jobs can't be determined, i.e. the node is unreachable
+  onError?: (error: any) => void;
+}
+
+export interface Keeper {
+  /// runs the job now, regardless of its schedule, & records the run
+  runJob: (job: KeeperJobName) => Promise<JobRun>;
+
+  /// runs the jobs whose interval has passed since their last run
+  runDueJobs: () => Promise<JobRun[]>;
+
+  /// runs the due jobs every `pollInterval` seconds until stopped
+  start: (pollInterval: number) => void;
+
+  /// stops polling & waits for the running jobs to finish
+  stop: () => Promise<void>;
+}
+
+/**
+ * Schedules the jobs in a comma separated list of job names, i.e. "assessStates, calculateAndSetPoolCycleState".
+ * Throws on an unknown job or an interval or batch size which isn't positive.
+ * @param jobs comma separated job names, defaults to all jobs
+ * @param intervals seconds between the runs of each job, defaults to DEFAULT_JOB_INTERVALS
+ * @param batchSize max number of lending pools assessed or accrued by a transaction, defaults to 20
+ */
+const parseKeeperJobs = (
+  jobs?: string,
+  intervals: { [job in KeeperJobName]?: number } = {},
+  batchSize: number = DEFAULT_BATCH_SIZE
+): KeeperConfig["jobs"] => {
+  const _jobNames =
+    jobs === undefined
+      ? JOB_NAMES
+      : jobs
+          .split(",")
+          .map((job) => job.trim())
+          .filter((job) => job.length > 0);
+  if (_jobNames.length === 0) {
+    throw new Error(`No jobs in "${jobs}", jobs are ${JOB_NAMES.join(", ")}`);
+  }
+  if (!(batchSize > 0)) {
+    throw new Error(`Batch size ${batchSize} isn't positive`);
+  }
+
+  const _jobs: KeeperConfig["jobs"] = {};
+  _jobNames.forEach((name) => {
+    const _job = name as KeeperJobName;
+    if (!JOB_NAMES.includes(_job)) {
+      throw new Error(`Unknown job ${name}, jobs are ${JOB_NAMES.join(", ")}`);
+    }
+    const _interval = intervals[_job] ?? DEFAULT_JOB_INTERVALS[_job];
+    if (!(_interval > 0)) {
+      throw new Error(`Interval ${_interval} of ${name} isn't positive`);
+    }
+    _jobs[_job] = { interval: _interval, batchSize };
+  });
+  return _jobs;
+};
+
+const _getTimestamp = async (contracts: CarapaceContracts) =>
+  (await contracts.contractFactory.provider.getBlock("latest")).timestamp;
+
+/**
+ * Creates the keeper running the operator jobs on their schedules.
+ * Jobs are scheduled in block time, so the schedule follows time travel on a local node.
+ * A failed run is retried after the interval of its job like a successful one.
+ */
+const createKeeper = (config: KeeperConfig): Keeper => {
+  const _jobs = JOB_NAMES.filter((job) => config.jobs[job]);
+
+  let _timer: NodeJS.Timeout | undefined;
+  let _running: Promise<void> | undefined;
+  let _stopped = true;
+
+  const runJob = async (job: KeeperJobName): Promise<JobRun> => {
+    const _run: JobRun = {
+      job,
+      timestamp: await _getTimestamp(config.contracts),
+      status: "succeeded",
+      transactions: []
+    };
+    try {
+      _run.transactions = await JOBS[job]({
+        contracts: config.contracts,
+        sender: config.sender,
+        batchSize: config.jobs[job]?.batchSize ?? DEFAULT_BATCH_SIZE
+      });
+      if (
+        _run.transactions.some((transaction) => transaction.status === "failed")
+      ) {
+        _run.status = "failed";
+      }
+    } catch (error) {
+      _run.status = "failed";
+      _run.error = formatError(error);
+    }
+
+    _run.id = config.history.recordRun(_run);
+    config.history.save();
+    config.onRun?.(_run);
+    return _run;
+  };
+
+  const runDueJobs = async (): Promise<JobRun[]> => {
+    const _timestamp = await _getTimestamp(config.contracts);
+    const _runs: JobRun[] = [];
+    for (const _job of _jobs) {
+      const _lastRun = config.history.getLastRun(_job);
+      if (
+        !_lastRun ||
+        _timestamp >= _lastRun.timestamp + config.jobs[_job]!.interval
+      ) {
+        _runs.push(await runJob(_job));
+      }
+    }
+    return _runs;
+  };
+
+  const _poll = (pollInterval: number) => {
+    _running = runDueJobs()
+      .then(() => undefined)
+      .catch((error) => config.onError?.(error))
+      .finally(() => {
+        if (!_stopped) {
+          _timer = setTimeout(() => _poll(pollInterval), pollInterval * 1000);
+        }
+      });
+  };
+
+  return {
+    runJob,
+    runDueJobs,
+
+    start: (pollInterval: number) => {
+      if (!_stopped) {
+        throw new Error("Keeper is already started");
+      }
+      _stopped = false;
+      _poll(pollInterval);
+    },
+
+    stop: async () => {
+      _stopped = true;
+      clearTimeout(_timer);
+      await _running;
+    }
+  };
+};
+
+export {
+  createKeeper,
+  parseKeeperJobs,
+  DEFAULT_BATCH_SIZE,
+  DEFAULT_JOB_INTERVALS,
+  JOB_NAMES
+};
@@ -0,0 +1,261 @@
+import { BigNumber, PopulatedTransaction, Signer } from "ethers";
+import { TransactionReceipt } from "@ethersproject/abstract-provider";
+
+import { toCarapaceError } from "../sdk/errors";
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_GAS_BUMP_PERCENT = 20;
+// nodes only accept a replacement transaction with at least 10% higher fees
+const MIN_GAS_BUMP_PERCENT = 10;
+const DEFAULT_CONFIRMATION_TIMEOUT = 120;
+const DEFAULT_RECEIPT_POLL_INTERVAL = 1;
+
+export interface TransactionSenderConfig {
+  signer: Signer;
+  /// max number of times a transaction is sent, including the replacements with bumped fees
+  maxAttempts?: number;
+  /// percent by which the fees of a replacement are increased, at least 10
+  gasBumpPercent?: number;
+  /// seconds to wait for the receipt before the transaction is replaced
+  confirmationTimeout?: number;
+  /// seconds between the receipt requests
+  receiptPollInterval?: number;
+}
+
+export interface SentTransaction {
+  receipt: TransactionReceipt;
+  /// number of times the transaction was sent, including the replacements with bumped fees
+  attempts: number;
+}
+
+/**
+ * Error thrown when a transaction reverted or wasn't mined
+ */
+export interface SendTransactionError extends Error {
+  /// number of times the transaction was sent, 0 when it reverted before it was sent
+  attempts: number;
+}
+
+/**
+ * Sends the transactions of a signer one after the other, managing the nonce locally,
+ * so a transaction stuck in the mempool is replaced with the same nonce instead of being queued behind.
+ */
+export interface TransactionSender {
+  signer: Signer;
+  /// sends the transaction, replacing it with bumped fees while it isn't mined within the confirmation timeout,
+  /// concurrent calls are queued until the previous transactions are mined or failed
+  send: (transaction: PopulatedTransaction) => Promise<SentTransaction>;
+}
+
+type _Fees =
+  | { gasPrice: BigNumber }
+  | { maxFeePerGas: BigNumber; maxPriorityFeePerGas: BigNumber };
+
+/**
+ * Error thrown by ethers when the node rejects a transaction
+ */
+interface _ProviderError {
+  code?: unknown;
+  message?: unknown;
+  /// error of the JSON-RPC response
+  error?: { message?: unknown };
+}
+
+const _toProviderError = (error: unknown): _ProviderError =>
+  typeof error === "object" && error !== null
+    ? (error as _ProviderError)
+    : { message: error };
+
+// messages of the error & of the error of the JSON-RPC response
+const _getMessages = (error: _ProviderError): string =>
+  `${error.message} ${error.error?.message}`;
+
+const _isNonceExpired = (error: unknown): boolean => {
+  const _error = _toProviderError(error);
+  return (
+    _error.code === "NONCE_EXPIRED" ||
+    /nonce (is )?too low|nonce has already been used/i.test(
+      _getMessages(_error)
+    )
+  );
+};
+
+const _isReplacementUnderpriced = (error: unknown): boolean => {
+  const _error = _toProviderError(error);
+  return (
+    _error.code === "REPLACEMENT_UNDERPRICED" ||
+    /replacement transaction underpriced/i.test(_getMessages(_error))
+  );
+};
+
+const _withAttempts = (
+  error: unknown,
+  attempts: number
+): SendTransactionError => {
+  const _error = error instanceof Error ? error : new Error(String(error));
+  (_error as SendTransactionError).attempts = attempts;
+  return _error as SendTransactionError;
+};
+
+const _sleep = (seconds: number) =>
+  new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+
+const createTransactionSender = (
+  config: TransactionSenderConfig
+): TransactionSender => {
+  const _signer = config.signer;
+  const _provider = _signer.provider!;
+  const _maxAttempts = config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const _gasBumpPercent = config.gasBumpPercent ?? DEFAULT_GAS_BUMP_PERCENT;
+  const _confirmationTimeout =
+    config.confirmationTimeout ?? DEFAULT_CONFIRMATION_TIMEOUT;
+  const _receiptPollInterval =
+    config.receiptPollInterval ?? DEFAULT_RECEIPT_POLL_INTERVAL;
+  if (_gasBumpPercent < MIN_GAS_BUMP_PERCENT) {
+    throw new Error(
+      `Gas bump of ${_gasBumpPercent}% is below the min bump of ${MIN_GAS_BUMP_PERCENT}% accepted for replacements`
+    );
+  }
+
+  // next nonce of the signer, read from the pending transaction count when undefined
+  let _nonce: number | undefined;
+  // last queued transaction, settled when it is mined or failed
+  let _queue: Promise<unknown> = Promise.resolve();
+
+  const _getFees = async (): Promise<_Fees> => {
+    const _feeData = await _provider.getFeeData();
+    return _feeData.maxFeePerGas && _feeData.maxPriorityFeePerGas
+      ? {
+          maxFeePerGas: _feeData.maxFeePerGas,
+          maxPriorityFeePerGas: _feeData.maxPriorityFeePerGas
+        }
+      : { gasPrice: _feeData.gasPrice! };
+  };
+
+  const _bump = (fee: BigNumber) => fee.mul(100 + _gasBumpPercent).div(100);
+  const _bumpFees = (fees: _Fees): _Fees =>
+    "gasPrice" in fees
+      ? { gasPrice: _bump(fees.gasPrice) }
+      : {
+          maxFeePerGas: _bump(fees.maxFeePerGas),
+          maxPriorityFeePerGas: _bump(fees.maxPriorityFeePerGas)
+        };
+
+  // any of the sent transactions with the same nonce can be mined
+  const _findReceipt = async (
+    hashes: string[]
+  ): Promise<TransactionReceipt | undefined> => {
+    for (const _hash of hashes) {
+      const _receipt = await _provider.getTransactionReceipt(_hash);
+      if (_receipt) {
+        return _receipt;
+      }
+    }
+    return undefined;
+  };
+
+  const _waitForReceipt = async (
+    hashes: string[]
+  ): Promise<TransactionReceipt | undefined> => {
+    const _deadline = Date.now() + _confirmationTimeout * 1000;
+    for (;;) {
+      const _receipt = await _findReceipt(hashes);
+      if (_receipt || Date.now() >= _deadline) {
+        return _receipt;
+      }
+      await _sleep(_receiptPollInterval);
+    }
+  };
+
+  const _mined = (receipt: TransactionReceipt, attempts: number) => {
+    _nonce = _nonce === undefined ? undefined : _nonce + 1;
+    if (receipt.status === 0) {
+      throw _withAttempts(
+        new Error(`Transaction ${receipt.transactionHash} reverted`),
+        attempts
+      );
+    }
+    return { receipt, attempts };
+  };
+
+  const _send = async (
+    transaction: PopulatedTransaction
+  ): Promise<SentTransaction> => {
+    // reverts are thrown by the gas estimation before a nonce is used
+    let _gasLimit: BigNumber;
+    try {
+      _gasLimit =
+        transaction.gasLimit ?? (await _signer.estimateGas(transaction));
+    } catch (error) {
+      throw _withAttempts(toCarapaceError(error), 0);
+    }
+
+    let _fees = await _getFees();
+    let _attempts = 0;
+    const _hashes: string[] = [];
+    while (_attempts < _maxAttempts) {
+      if (_nonce === undefined) {
+        _nonce = await _signer.getTransactionCount("pending");
+      }
+      if (_attempts > 0) {
+        _fees = _bumpFees(_fees);
+      }
+      _attempts++;
+
+      try {
+        const _response = await _signer.sendTransaction({
+          ...transaction,
+          ..._fees,
+          gasLimit: _gasLimit,
+          nonce: _nonce
+        });
+        _hashes.push(_response.hash);
+      } catch (error) {
+        if (_isNonceExpired(error)) {
+          const _receipt = await _findReceipt(_hashes);
+          if (_receipt) {
+            return _mined(_receipt, _attempts - 1);
+          }
+          // nonce was used by another transaction of the signer, send with the next nonce
+          _nonce = undefined;
+          _hashes.length = 0;
+          continue;
+        }
+        if (_isReplacementUnderpriced(error)) {
+          continue;
+        }
+        _nonce = undefined;
+        throw _withAttempts(toCarapaceError(error), _attempts);
+      }
+
+      const _receipt = await _waitForReceipt(_hashes);
+      if (_receipt) {
+        return _mined(_receipt, _attempts);
+      }
+    }
+
+    // transaction may still be mined, so the nonce is read from the pending transactions next time
+    _nonce = undefined;
+    throw _withAttempts(
+      new Error(
+        `Transaction wasn't mined after ${_attempts} attempts${
+          _hashes.length > 0 ? `, last sent ${_hashes[_hashes.length - 1]}` : ""
+        }`
+      ),
+      _attempts
+    );
+  };
+
+  // a transaction is sent after the previous one, so concurrent calls don't send with the same nonce
+  const send = (
+    transaction: PopulatedTransaction
+  ): Promise<SentTransaction> => {
+    const _sent = _queue.then(() => _send(transaction));
+    _queue = _sent.catch(() => undefined);
+    return _sent;
+  };
+
+  return { signer: _signer, send };
+};
+
+export { createTransactionSender };
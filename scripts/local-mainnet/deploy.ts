@@ -8,13 +8,19 @@ import {
 } from "../../test/test-data";
 
 (async () => {
-  await deployContracts(
-    PROTECTION_POOL_CYCLE_PARAMS,
-    PROTECTION_POOL_PARAMS,
-    GOLDFINCH_LENDING_POOLS,
-    LENDING_POOL_PROTOCOLS,
-    LENDING_POOL_PURCHASE_LIMIT_IN_DAYS
-  );
+  await deployContracts({
+    protectionPools: [
+      {
+        name: "sToken11",
+        symbol: "sT11",
+        protectionPoolCycleParams: PROTECTION_POOL_CYCLE_PARAMS,
+        protectionPoolParams: PROTECTION_POOL_PARAMS,
+        lendingPools: GOLDFINCH_LENDING_POOLS,
+        lendingPoolProtocols: LENDING_POOL_PROTOCOLS,
+        lendingPoolPurchaseLimitsInDays: LENDING_POOL_PURCHASE_LIMIT_IN_DAYS
+      }
+    ]
+  });
 })().catch((err) => {
   console.error(err);
 });
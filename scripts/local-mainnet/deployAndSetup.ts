@@ -42,23 +42,23 @@ export async function deployAndSetup(useMock: boolean) {
   }
 
   console.log("Deploying contracts...");
-  const result: DeployContractsResult = await deployContracts(
-    PROTECTION_POOL_CYCLE_PARAMS,
-    PROTECTION_POOL_PARAMS,
-    GOLDFINCH_LENDING_POOLS,
-    LENDING_POOL_PROTOCOLS,
-    LENDING_POOL_PURCHASE_LIMIT_IN_DAYS,
-    LATE_PAYMENT_GRACE_PERIOD_IN_DAYS,
+  const result: DeployContractsResult = await deployContracts({
+    protectionPools: [
+      {
+        name: "sToken11",
+        symbol: "sT11",
+        protectionPoolCycleParams: PROTECTION_POOL_CYCLE_PARAMS,
+        protectionPoolParams: PROTECTION_POOL_PARAMS,
+        lendingPools: GOLDFINCH_LENDING_POOLS,
+        lendingPoolProtocols: LENDING_POOL_PROTOCOLS,
+        lendingPoolPurchaseLimitsInDays: LENDING_POOL_PURCHASE_LIMIT_IN_DAYS,
+        latePaymentGracePeriodInDays: LATE_PAYMENT_GRACE_PERIOD_IN_DAYS
+      }
+    ],
     useMock
-  );
+  });
 
-  if (
-    !result.success ||
-    !result.deployer ||
-    !result.protectionPoolInstance ||
-    !result.protectionPoolCycleManagerInstance ||
-    (useMock && !result.mockUsdcInstance)
-  ) {
+  if (!result.success || (useMock && !result.mockUsdcInstance)) {
     console.error("Deploying contracts failed");
     return;
   }
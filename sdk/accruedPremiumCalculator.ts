@@ -0,0 +1,289 @@
+import { BigNumber, BigNumberish } from "ethers";
+
+import {
+  SCALE_18_DECIMALS,
+  SCALED_DAYS_IN_YEAR,
+  SECONDS_IN_DAY
+} from "./constants";
+import { div, exp, mul } from "./prbMath";
+import { calculatePremium, PremiumParams } from "./premiumCalculator";
+import {
+  calculateRiskFactor,
+  calculateRiskFactorUsingMinPremium
+} from "./riskFactorCalculator";
+
+/**
+ * Off-chain mirror of the AccruedPremiumCalculator library & the premium accrual of the protection pool.
+ * Results are identical to the on-chain results & errors are thrown where the library reverts.
+ */
+
+/**
+ * Params captured at the time of the protection purchase, which determine how the premium accrues
+ */
+export interface AccruedPremiumParams {
+  /// scaled to 18 decimals
+  K: BigNumberish;
+  /// scaled to 18 decimals
+  lambda: BigNumberish;
+  startTimestamp: BigNumberish;
+  protectionDurationInSeconds: BigNumberish;
+}
+
+/**
+ * Protection as returned by `getAllProtections` & `getActiveProtections` of the protection pool
+ */
+export interface AccruedPremiumProtectionInfo {
+  K: BigNumberish;
+  lambda: BigNumberish;
+  startTimestamp: BigNumberish;
+  purchaseParams: { protectionDurationInSeconds: BigNumberish };
+}
+
+/**
+ * Protection not bought yet, see ProtectionPool.buyProtection
+ */
+export interface AccruedPremiumQuote {
+  /// in underlying token decimals
+  protectionAmount: BigNumberish;
+  protectionDurationInSeconds: BigNumberish;
+  /// scaled to 18 decimals
+  protectionBuyerApy: BigNumberish;
+  /// current leverage ratio of the pool scaled to 18 decimals
+  leverageRatio: BigNumberish;
+  poolParameters: PremiumParams;
+  underlyingDecimals: number;
+  /// defaults to now
+  startTimestamp?: BigNumberish;
+}
+
+/**
+ * Premium accrued during a day of the protection
+ */
+export interface AccruedPremiumScheduleEntry {
+  /// 1 for the first day of the protection
+  day: number;
+  /// end of the day, which is the expiration timestamp for the last day
+  timestamp: number;
+  /// premium accrued during the day in underlying token decimals
+  accruedPremium: BigNumber;
+  /// premium accrued from the start of the protection to the end of the day in underlying token decimals
+  totalAccruedPremium: BigNumber;
+}
+
+export interface AccruedPremiumSchedule {
+  params: AccruedPremiumParams;
+  /// premium accrued until the expiration in underlying token decimals
+  totalPremium: BigNumber;
+  entries: AccruedPremiumScheduleEntry[];
+}
+
+/**
+ * Scales the amount from 18 decimals to the underlying token decimals,
+ * see ProtectionPoolHelper.scale18DecimalsAmtToUnderlyingDecimals
+ */
+const _scaleToUnderlyingDecimals = (
+  amount: BigNumber,
+  underlyingDecimals: number
+): BigNumber => {
+  return amount
+    .mul(BigNumber.from(10).pow(underlyingDecimals))
+    .div(SCALE_18_DECIMALS);
+};
+
+/**
+ * Calculates K & lambda scaled to 18 decimals, see AccruedPremiumCalculator.calculateKAndLambda.
+ * Formula for lambda: Risk Factor / 365.24
+ * Formula for K: protectionPremium / (1 - e^(-1 * protectionDurationInDays * lambda))
+ * @param protectionPremium scaled to 18 decimals
+ * @param protectionDurationInDays scaled to 18 decimals
+ * @param minCarapaceRiskPremiumPercent when greater than 0, the risk factor is calculated using the min premium
+ */
+const calculateKAndLambda = (
+  protectionPremium: BigNumberish,
+  protectionDurationInDays: BigNumberish,
+  currentLeverageRatio: BigNumberish,
+  leverageRatioFloor: BigNumberish,
+  leverageRatioCeiling: BigNumberish,
+  leverageRatioBuffer: BigNumberish,
+  curvature: BigNumberish,
+  minCarapaceRiskPremiumPercent: BigNumberish
+): { K: BigNumber; lambda: BigNumber } => {
+  const _riskFactor = BigNumber.from(minCarapaceRiskPremiumPercent).gt(0)
+    ? calculateRiskFactorUsingMinPremium(
+        minCarapaceRiskPremiumPercent,
+        protectionDurationInDays
+      )
+    : calculateRiskFactor(
+        currentLeverageRatio,
+        leverageRatioFloor,
+        leverageRatioCeiling,
+        leverageRatioBuffer,
+        curvature
+      );
+
+  const _lambda = _riskFactor.mul(100).div(SCALED_DAYS_IN_YEAR);
+
+  const _power1 = BigNumber.from(protectionDurationInDays)
+    .mul(-1)
+    .mul(_lambda)
+    .div(SCALE_18_DECIMALS);
+
+  return {
+    K: div(
+      BigNumber.from(protectionPremium),
+      SCALE_18_DECIMALS.sub(exp(_power1))
+    ),
+    lambda: _lambda
+  };
+};
+
+/**
+ * Calculates the accrued premium from the start to the end second of the protection scaled to 18 decimals,
+ * see AccruedPremiumCalculator.calculateAccruedPremium.
+ * Formula: K * (e^(-t * L) - e^(-T * L))
+ */
+const calculateAccruedPremium = (
+  fromSecond: BigNumberish,
+  toSecond: BigNumberish,
+  k: BigNumberish,
+  lambda: BigNumberish
+): BigNumber => {
+  const _power1 = BigNumber.from(fromSecond)
+    .mul(lambda)
+    .div(SECONDS_IN_DAY)
+    .mul(-1);
+  const _power2 = BigNumber.from(toSecond)
+    .mul(lambda)
+    .div(SECONDS_IN_DAY)
+    .mul(-1);
+
+  const _accruedPremium = mul(
+    BigNumber.from(k),
+    exp(_power1).sub(exp(_power2))
+  );
+
+  if (_accruedPremium.lt(0)) {
+    throw new Error("Assertion failed");
+  }
+  return _accruedPremium;
+};
+
+/**
+ * Returns the accrued premium params of a bought protection
+ */
+const getAccruedPremiumParams = (
+  protectionInfo: AccruedPremiumProtectionInfo
+): AccruedPremiumParams => {
+  return {
+    K: protectionInfo.K,
+    lambda: protectionInfo.lambda,
+    startTimestamp: protectionInfo.startTimestamp,
+    protectionDurationInSeconds:
+      protectionInfo.purchaseParams.protectionDurationInSeconds
+  };
+};
+
+/**
+ * Calculates the premium, K & lambda of a new protection the same way as ProtectionPool.buyProtection
+ */
+const quoteAccruedPremiumParams = (
+  quote: AccruedPremiumQuote
+): AccruedPremiumParams => {
+  const _premium = calculatePremium(
+    quote.protectionDurationInSeconds,
+    BigNumber.from(quote.protectionAmount)
+      .mul(SCALE_18_DECIMALS)
+      .div(BigNumber.from(10).pow(quote.underlyingDecimals)),
+    quote.protectionBuyerApy,
+    quote.leverageRatio,
+    quote.poolParameters
+  );
+
+  const _protectionDurationInDays = BigNumber.from(
+    quote.protectionDurationInSeconds
+  )
+    .mul(SCALE_18_DECIMALS)
+    .div(SECONDS_IN_DAY);
+
+  const { K, lambda } = calculateKAndLambda(
+    _premium.premiumAmount,
+    _protectionDurationInDays,
+    quote.leverageRatio,
+    quote.poolParameters.leverageRatioFloor,
+    quote.poolParameters.leverageRatioCeiling,
+    quote.poolParameters.leverageRatioBuffer,
+    quote.poolParameters.curvature,
+    _premium.isMinPremium
+      ? quote.poolParameters.minCarapaceRiskPremiumPercent
+      : 0
+  );
+
+  return {
+    K,
+    lambda,
+    startTimestamp:
+      quote.startTimestamp !== undefined
+        ? quote.startTimestamp
+        : Math.floor(Date.now() / 1000),
+    protectionDurationInSeconds: quote.protectionDurationInSeconds
+  };
+};
+
+/**
+ * Generates the daily accrual schedule of the premium from the start to the expiration of the protection.
+ * Premium accrued during a day is the amount accrued by the pool when the premium is accrued at the end of each day,
+ * see ProtectionPoolHelper.verifyAndAccruePremium.
+ * @param params params of a bought protection, see getAccruedPremiumParams, or a new protection, see quoteAccruedPremiumParams
+ * @param underlyingDecimals decimals of the underlying token of the pool
+ */
+const generateAccruedPremiumSchedule = (
+  params: AccruedPremiumParams,
+  underlyingDecimals: number
+): AccruedPremiumSchedule => {
+  const _startTimestamp = BigNumber.from(params.startTimestamp).toNumber();
+  const _durationInSeconds = BigNumber.from(
+    params.protectionDurationInSeconds
+  ).toNumber();
+  const _secondsInDay = SECONDS_IN_DAY.toNumber();
+
+  const _entries: AccruedPremiumScheduleEntry[] = [];
+  let _fromSecond = 0;
+  for (let _day = 1; _fromSecond < _durationInSeconds; _day++) {
+    const _toSecond = Math.min(_day * _secondsInDay, _durationInSeconds);
+    _entries.push({
+      day: _day,
+      timestamp: _startTimestamp + _toSecond,
+      accruedPremium: _scaleToUnderlyingDecimals(
+        calculateAccruedPremium(
+          _fromSecond,
+          _toSecond,
+          params.K,
+          params.lambda
+        ),
+        underlyingDecimals
+      ),
+      totalAccruedPremium: _scaleToUnderlyingDecimals(
+        calculateAccruedPremium(0, _toSecond, params.K, params.lambda),
+        underlyingDecimals
+      )
+    });
+    _fromSecond = _toSecond;
+  }
+
+  return {
+    params,
+    totalPremium:
+      _entries.length > 0
+        ? _entries[_entries.length - 1].totalAccruedPremium
+        : BigNumber.from(0),
+    entries: _entries
+  };
+};
+
+export {
+  calculateKAndLambda,
+  calculateAccruedPremium,
+  getAccruedPremiumParams,
+  quoteAccruedPremiumParams,
+  generateAccruedPremiumSchedule
+};
@@ -0,0 +1,170 @@
+import { BigNumber } from "ethers";
+
+import { ProtectionInfoStructOutput } from "../typechain-types/contracts/core/pool/ProtectionPool";
+import { ProtectionPool__factory } from "../typechain-types/factories/contracts/core/pool/ProtectionPool__factory";
+import { IERC20MetadataUpgradeable__factory } from "../typechain-types/factories/@openzeppelin/contracts-upgradeable/token/ERC20/extensions/IERC20MetadataUpgradeable__factory";
+import { CarapaceContracts } from "./contracts";
+import { formatUnderlying } from "./units";
+
+/**
+ * Reference to a protection bought from a pool, i.e. read from the indexed `ProtectionBought` events
+ */
+export interface ProtectionReference {
+  protectionPool: string;
+  /// index of the protection in ProtectionPool.getAllProtections, which is the order of the purchases in the pool
+  protectionIndex: number;
+}
+
+/**
+ * Protection of a buyer, amounts are in human-friendly units & timestamps in seconds since unix epoch
+ */
+export interface BuyerProtection {
+  protectionPool: string;
+  underlyingSymbol: string;
+  lendingPool: string;
+  nftLpTokenId: string;
+  protectionAmount: string;
+  premium: string;
+  startTimestamp: number;
+  expirationTimestamp: number;
+  /// true when the protection has ended, even when the pool hasn't marked it as expired yet
+  expired: boolean;
+  /// last moment `renewProtection` is allowed for the lending position, expiration + renewal grace period
+  renewalDeadline: number;
+  /// true when the protection has ended but the pool hasn't marked it as expired yet,
+  /// it can't be renewed until `accruePremiumAndExpireProtections` expires it
+  pendingExpiry: boolean;
+  /// true when the pool has marked the protection as expired & the renewal deadline hasn't passed
+  renewable: boolean;
+  /// remaining principal of the lending position, which caps the protection amount of a new purchase
+  remainingPrincipal: string;
+}
+
+export interface BuyerPortfolio {
+  buyer: string;
+  /// timestamp of the latest block the portfolio is read at
+  timestamp: number;
+  /// protections which haven't been marked as expired by the pools
+  activeProtections: BuyerProtection[];
+  /// expired protections of the specified protection references
+  expiredProtections: BuyerProtection[];
+}
+
+/**
+ * Reads the protections of the buyer in all protection pools created by the contract factory.
+ * Pools only keep the indexes of the active protections of a buyer,
+ * so the expired protections are read from the specified references, i.e. from the indexer database.
+ * @param contracts core contracts connected to a provider or a signer
+ * @param buyer address of the protection buyer
+ * @param protectionReferences protections bought by the buyer, the active ones are skipped
+ */
+const getBuyerPortfolio = async (
+  contracts: CarapaceContracts,
+  buyer: string,
+  protectionReferences: ProtectionReference[] = []
+): Promise<BuyerPortfolio> => {
+  const _provider = contracts.contractFactory.provider;
+  const _timestamp = (await _provider.getBlock("latest")).timestamp;
+  const _pools = await contracts.contractFactory.getProtectionPools();
+
+  const _activeProtections: BuyerProtection[] = [];
+  const _expiredProtections: BuyerProtection[] = [];
+  for (const _poolAddress of _pools) {
+    const _pool = ProtectionPool__factory.connect(_poolAddress, _provider);
+    const _poolInfo = await _pool.getPoolInfo();
+    const _underlyingToken = IERC20MetadataUpgradeable__factory.connect(
+      _poolInfo.underlyingToken,
+      _provider
+    );
+    const [_decimals, _symbol] = await Promise.all([
+      _underlyingToken.decimals(),
+      _underlyingToken.symbol()
+    ]);
+    const _gracePeriod =
+      _poolInfo.params.protectionRenewalGracePeriodInSeconds.toNumber();
+
+    const _toBuyerProtection = async (
+      protection: ProtectionInfoStructOutput
+    ): Promise<BuyerProtection> => {
+      const _purchaseParams = protection.purchaseParams;
+      const _expirationTimestamp = protection.startTimestamp
+        .add(_purchaseParams.protectionDurationInSeconds)
+        .toNumber();
+      const _renewalDeadline = _expirationTimestamp + _gracePeriod;
+      // remaining principal is read for msg.sender
+      const _remainingPrincipal: BigNumber =
+        await _pool.calculateMaxAllowedProtectionAmount(
+          _purchaseParams.lendingPoolAddress,
+          _purchaseParams.nftLpTokenId,
+          { from: buyer }
+        );
+      return {
+        protectionPool: _poolAddress,
+        underlyingSymbol: _symbol,
+        lendingPool: _purchaseParams.lendingPoolAddress,
+        nftLpTokenId: _purchaseParams.nftLpTokenId.toString(),
+        protectionAmount: formatUnderlying(
+          _purchaseParams.protectionAmount,
+          _decimals
+        ),
+        premium: formatUnderlying(protection.protectionPremium, _decimals),
+        startTimestamp: protection.startTimestamp.toNumber(),
+        expirationTimestamp: _expirationTimestamp,
+        expired: protection.expired || _timestamp > _expirationTimestamp,
+        renewalDeadline: _renewalDeadline,
+        pendingExpiry: !protection.expired && _timestamp > _expirationTimestamp,
+        renewable: protection.expired && _timestamp <= _renewalDeadline,
+        remainingPrincipal: formatUnderlying(_remainingPrincipal, _decimals)
+      };
+    };
+
+    for (const _protection of await _pool.getActiveProtections(buyer)) {
+      _activeProtections.push(await _toBuyerProtection(_protection));
+    }
+
+    const _references = protectionReferences.filter(
+      (reference) =>
+        reference.protectionPool.toLowerCase() === _poolAddress.toLowerCase()
+    );
+    if (_references.length > 0) {
+      const _allProtections = await _pool.getAllProtections();
+      const _expired: BuyerProtection[] = [];
+      for (const _reference of _references) {
+        const _protection = _allProtections[_reference.protectionIndex];
+        if (!_protection) {
+          throw new Error(
+            `Protection ${_reference.protectionIndex} doesn't exist in pool ${_poolAddress}`
+          );
+        }
+        if (
+          _protection.buyer.toLowerCase() === buyer.toLowerCase() &&
+          _protection.expired
+        ) {
+          _expired.push(await _toBuyerProtection(_protection));
+        }
+      }
+
+      // only the latest expired protection of a lending position can be renewed
+      _expired.forEach((protection) => {
+        protection.renewable =
+          protection.renewable &&
+          !_expired.some(
+            (other) =>
+              other.lendingPool === protection.lendingPool &&
+              other.nftLpTokenId === protection.nftLpTokenId &&
+              other.startTimestamp > protection.startTimestamp
+          );
+      });
+      _expiredProtections.push(..._expired);
+    }
+  }
+
+  return {
+    buyer,
+    timestamp: _timestamp,
+    activeProtections: _activeProtections,
+    expiredProtections: _expiredProtections
+  };
+};
+
+export { getBuyerPortfolio };
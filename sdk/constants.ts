@@ -0,0 +1,15 @@
+import { BigNumber } from "ethers";
+
+/**
+ * Off-chain copy of the system wide constants in Constants.sol
+ */
+
+const SCALE_18_DECIMALS: BigNumber = BigNumber.from("1000000000000000000");
+
+/// The number of days in a year scaled to 2 decimals.
+/// This needs to be divided by 100 to get the actual value.
+const SCALED_DAYS_IN_YEAR: BigNumber = BigNumber.from(36524);
+
+const SECONDS_IN_DAY: BigNumber = BigNumber.from(60 * 60 * 24);
+
+export { SCALE_18_DECIMALS, SCALED_DAYS_IN_YEAR, SECONDS_IN_DAY };
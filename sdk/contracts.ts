@@ -0,0 +1,79 @@
+import { Contract, Signer } from "ethers";
+import { Provider } from "@ethersproject/abstract-provider";
+
+import { ContractFactory } from "../typechain-types/contracts/core/ContractFactory";
+import { DefaultStateManager } from "../typechain-types/contracts/core/DefaultStateManager";
+import { ProtectionPoolCycleManager } from "../typechain-types/contracts/core/ProtectionPoolCycleManager";
+import { DefaultStateManager__factory } from "../typechain-types/factories/contracts/core/DefaultStateManager__factory";
+import { ProtectionPoolCycleManager__factory } from "../typechain-types/factories/contracts/core/ProtectionPoolCycleManager__factory";
+import { AddressBook } from "../utils/addressBook";
+
+// generated ContractFactory__factory doesn't compile, because the contract name clashes with ethers' ContractFactory,
+// so the contract factory is connected with the ABI of the functions used by the SDK
+const CONTRACT_FACTORY_ABI = [
+  "function getProtectionPools() view returns (address[])"
+];
+
+/**
+ * Functions of the ContractFactory in the `CONTRACT_FACTORY_ABI`, which are the only ones the SDK can call
+ */
+export type CarapaceContractFactory = Pick<
+  ContractFactory,
+  "address" | "provider" | "signer" | "getProtectionPools"
+>;
+
+/**
+ * Proxy addresses of the core contracts shared by all protection pools
+ */
+export interface CarapaceAddresses {
+  contractFactory: string;
+  defaultStateManager: string;
+  protectionPoolCycleManager: string;
+}
+
+export interface CarapaceContracts {
+  contractFactory: CarapaceContractFactory;
+  defaultStateManager: DefaultStateManager;
+  protectionPoolCycleManager: ProtectionPoolCycleManager;
+}
+
+/**
+ * Returns the proxy addresses of the core contracts in the address book `deployments/<network>.json`
+ */
+const getCarapaceAddresses = (addressBook: AddressBook): CarapaceAddresses => {
+  return {
+    contractFactory: addressBook.contracts.ContractFactory.proxy,
+    defaultStateManager: addressBook.contracts.DefaultStateManager.proxy,
+    protectionPoolCycleManager:
+      addressBook.contracts.ProtectionPoolCycleManager.proxy
+  };
+};
+
+const connectCarapaceContracts = (
+  addresses: CarapaceAddresses,
+  signerOrProvider: Signer | Provider
+): CarapaceContracts => {
+  const _contractFactory = new Contract(
+    addresses.contractFactory,
+    CONTRACT_FACTORY_ABI,
+    signerOrProvider
+  );
+  return {
+    contractFactory: {
+      address: _contractFactory.address,
+      provider: _contractFactory.provider,
+      signer: _contractFactory.signer,
+      getProtectionPools: _contractFactory.getProtectionPools
+    },
+    defaultStateManager: DefaultStateManager__factory.connect(
+      addresses.defaultStateManager,
+      signerOrProvider
+    ),
+    protectionPoolCycleManager: ProtectionPoolCycleManager__factory.connect(
+      addresses.protectionPoolCycleManager,
+      signerOrProvider
+    )
+  };
+};
+
+export { getCarapaceAddresses, connectCarapaceContracts };
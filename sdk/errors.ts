@@ -0,0 +1,354 @@
+import { BigNumber } from "ethers";
+import { ErrorFragment, Interface, defaultAbiCoder } from "ethers/lib/utils";
+
+import { ProtectionPool__factory } from "../typechain-types/factories/contracts/core/pool/ProtectionPool__factory";
+import { ReferenceLendingPools__factory } from "../typechain-types/factories/contracts/core/pool/ReferenceLendingPools__factory";
+import { DefaultStateManager__factory } from "../typechain-types/factories/contracts/core/DefaultStateManager__factory";
+import { PremiumCalculator__factory } from "../typechain-types/factories/contracts/core/PremiumCalculator__factory";
+import { ProtectionPoolCycleManager__factory } from "../typechain-types/factories/contracts/core/ProtectionPoolCycleManager__factory";
+import { GoldfinchAdapter__factory } from "../typechain-types/factories/contracts/adapters/GoldfinchAdapter__factory";
+import { AccruedPremiumCalculator__factory } from "../typechain-types/factories/contracts/libraries/AccruedPremiumCalculator__factory";
+import { ProtectionPoolHelper__factory } from "../typechain-types/factories/contracts/libraries/ProtectionPoolHelper__factory";
+import { RiskFactorCalculator__factory } from "../typechain-types/factories/contracts/libraries/RiskFactorCalculator__factory";
+import { IProtectionPool__factory } from "../typechain-types/factories/contracts/interfaces/IProtectionPool__factory";
+import { IReferenceLendingPools__factory } from "../typechain-types/factories/contracts/interfaces/IReferenceLendingPools__factory";
+import { IDefaultStateManager__factory } from "../typechain-types/factories/contracts/interfaces/IDefaultStateManager__factory";
+import { IProtectionPoolCycleManager__factory } from "../typechain-types/factories/contracts/interfaces/IProtectionPoolCycleManager__factory";
+import { formatPercent, formatSToken, formatUnderlying } from "./units";
+
+// selectors of the errors built into solidity, which aren't part of the ABIs
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+// see https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+const PANIC_REASONS: { [code: number]: string } = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division or modulo by zero",
+  0x21: "invalid enum value",
+  0x22: "invalid storage byte array",
+  0x31: "pop on an empty array",
+  0x32: "array index out of bounds",
+  0x41: "too much memory allocated",
+  0x51: "call to a zero-initialized function"
+};
+
+/**
+ * Errors of all core contracts, libraries & interfaces.
+ * ContractFactory is added manually, because its generated factory doesn't compile, see `contracts.ts`.
+ */
+const _ERROR_INTERFACE = ((): Interface => {
+  const _fragments: { [signature: string]: ErrorFragment } = {};
+  [
+    ProtectionPool__factory.abi,
+    ReferenceLendingPools__factory.abi,
+    DefaultStateManager__factory.abi,
+    PremiumCalculator__factory.abi,
+    ProtectionPoolCycleManager__factory.abi,
+    GoldfinchAdapter__factory.abi,
+    AccruedPremiumCalculator__factory.abi,
+    ProtectionPoolHelper__factory.abi,
+    RiskFactorCalculator__factory.abi,
+    IProtectionPool__factory.abi,
+    IReferenceLendingPools__factory.abi,
+    IDefaultStateManager__factory.abi,
+    IProtectionPoolCycleManager__factory.abi,
+    ["error LendingProtocolAdapterAlreadyAdded(uint8 protocol)"]
+  ].forEach((abi) => {
+    new Interface(abi as any).fragments
+      .filter((fragment) => fragment.type === "error")
+      .forEach((fragment) => {
+        _fragments[fragment.format()] = fragment as ErrorFragment;
+      });
+  });
+  return new Interface(Object.keys(_fragments).map((key) => _fragments[key]));
+})();
+
+/**
+ * Options to format the amounts in the explanations
+ */
+export interface DecodeErrorOptions {
+  /// decimals of the underlying token of the pool, amounts are shown in on-chain units when not specified
+  underlyingDecimals?: number;
+}
+
+/**
+ * Revert reason decoded from the revert data
+ */
+export interface DecodedError {
+  /// name of the custom error, i.e. PremiumExceedsMaxPremiumAmount, or Error & Panic for the built-in errors
+  name: string;
+  /// i.e. PremiumExceedsMaxPremiumAmount(uint256,uint256)
+  signature: string;
+  selector: string;
+  /// decoded arguments by name
+  args: { [name: string]: any };
+  /// explanation, which can be shown to the user
+  message: string;
+}
+
+/**
+ * Error thrown by the SDK when a transaction or a call reverted with a known error
+ */
+export interface CarapaceError extends Error {
+  decodedError: DecodedError;
+  /// error thrown by ethers
+  originalError: any;
+}
+
+type _Explain = (
+  args: { [name: string]: any },
+  formatAmount: (amount: BigNumber) => string
+) => string;
+
+const _EXPLANATIONS: { [name: string]: _Explain } = {
+  // ProtectionPool & ProtectionPoolHelper
+  LendingPoolNotSupported: (args) =>
+    `Lending pool ${args.lendingPoolAddress} is not supported by this protection pool`,
+  LendingPoolHasLatePayment: (args) =>
+    `Lending pool ${args.lendingPoolAddress} has a late payment, protection can't be bought until it is paid`,
+  LendingPoolExpired: (args) =>
+    `Lending pool ${args.lendingPoolAddress} has expired, protection can't be bought anymore`,
+  LendingPoolDefaulted: (args) =>
+    `Lending pool ${args.lendingPoolAddress} has defaulted, protection can't be bought anymore`,
+  ProtectionPurchaseNotAllowed: (args) =>
+    `Protection purchase for the NFT LP token ${args.params.nftLpTokenId} of lending pool ${args.params.lendingPoolAddress} is not allowed: ` +
+    "the protection amount can't exceed the remaining principal of the buyer's lending position " +
+    "& a new protection must be bought within the protection purchase limit of the lending pool",
+  ProtectionDurationTooShort: (args) =>
+    `Protection duration of ${args.protectionDurationInSeconds} seconds is shorter than the minimum protection duration of the pool`,
+  ProtectionDurationTooLong: (args) =>
+    `Protection duration of ${args.protectionDurationInSeconds} seconds exceeds the end of the next pool cycle`,
+  ProtectionPoolIsNotOpen: () =>
+    "Current pool cycle is locked, withdrawals can only be made during the open period of a cycle",
+  ProtectionPoolLeverageRatioTooHigh: (args) =>
+    `Leverage ratio of the pool would be ${formatPercent(
+      args.leverageRatio
+    )}, which is above the leverage ratio ceiling, so the deposit isn't allowed`,
+  ProtectionPoolLeverageRatioTooLow: (args) =>
+    `Leverage ratio of the pool would be ${formatPercent(
+      args.leverageRatio
+    )}, which is below the leverage ratio floor, so the protection can't be bought`,
+  ProtectionPoolHasNoMinCapitalRequired: (args, formatAmount) =>
+    `Protection pool has only ${formatAmount(
+      args.totalSTokenUnderlying
+    )} of capital, which is less than the minimum required capital`,
+  NoWithdrawalRequested: (args) =>
+    `${args.msgSender} has no withdrawal requested for the pool cycle ${args.poolCycleIndex}, ` +
+    "withdrawals must be requested two cycles in advance",
+  WithdrawalHigherThanRequested: (args) =>
+    `Withdrawal exceeds the ${formatSToken(
+      args.requestedSTokenAmount
+    )} sTokens requested by ${args.msgSender} for the current cycle`,
+  InsufficientSTokenBalance: (args) =>
+    `${args.msgSender} has only ${formatSToken(args.sTokenBalance)} sTokens`,
+  OnlyDefaultStateManager: (args) =>
+    `${args.msgSender} is not the default state manager`,
+  ProtectionPoolInOpenToSellersPhase: () =>
+    "Protection pool is open only to sellers, protection can't be bought yet",
+  ProtectionPoolInOpenToBuyersPhase: () =>
+    "Protection pool is open only to buyers, deposits aren't allowed until the pool is open",
+  ProtectionAlreadyExistsForLendingPoolPosition: () =>
+    "Lending position already has an active protection, renew it after it expires instead",
+  NoExpiredProtectionToRenew: () =>
+    "Lending position has no expired protection to renew, buy a new protection instead",
+  CanNotRenewProtectionAfterGracePeriod: () =>
+    "Renewal grace period of the expired protection has passed, buy a new protection instead",
+  CanNotRenewProtectionWithHigherRenewalAmount: () =>
+    "Protection can't be renewed with a higher amount than the expired protection",
+  PremiumExceedsMaxPremiumAmount: (args, formatAmount) =>
+    `Premium of ${formatAmount(
+      args.premiumAmount
+    )} exceeds the max premium of ${formatAmount(args.maxPremiumAmount)}`,
+  CallerIsNotOperator: (args) => `${args.msgSender} is not an operator`,
+
+  // ReferenceLendingPools
+  ReferenceLendingPoolsConstructionError: (args) =>
+    `Reference lending pools can't be created: ${args.error}`,
+  ReferenceLendingPoolNotSupported: (args) =>
+    `Lending pool ${args.lendingPoolAddress} is not part of the reference lending pools`,
+  ReferenceLendingPoolAlreadyAdded: (args) =>
+    `Lending pool ${args.lendingPoolAddress} is already part of the reference lending pools`,
+  ReferenceLendingPoolIsNotActive: (args) =>
+    `Lending pool ${args.lendingPoolAddress} is not active, it may be late, expired or defaulted`,
+  ReferenceLendingPoolIsZeroAddress: () =>
+    "Lending pool address can't be the zero address",
+  OnlyDefaultStateManagerCanAddLendingPool: () =>
+    "Only the default state manager can add lending pools",
+
+  // DefaultStateManager & ProtectionPoolCycleManager
+  NotContractFactory: (args) => `${args.msgSender} is not the contract factory`,
+  ProtectionPoolNotRegistered: (args) =>
+    `Protection pool ${args.protectionPool} is not registered`,
+  ProtectionPoolAlreadyRegistered: (args) =>
+    `Protection pool ${
+      args.protectionPool || args.poolAddress
+    } is already registered`,
+  ZeroContractFactoryAddress: () =>
+    "Contract factory address can't be the zero address",
+  InvalidCycleDuration: (args) =>
+    `Cycle duration of ${args.cycleDuration} seconds can't be shorter than the open cycle duration`,
+
+  // ContractFactory
+  LendingProtocolAdapterAlreadyAdded: (args) =>
+    `Adapter of the lending protocol ${args.protocol} is already added`
+};
+
+/**
+ * Errors of PRBMath are reverted when the premium can't be calculated for the inputs
+ */
+const _explainMathError = (name: string): string =>
+  `Premium calculation failed with ${name}, the protection parameters are out of the supported range`;
+
+const _toArgs = (
+  fragment: ErrorFragment,
+  values: ReadonlyArray<any>
+): { [name: string]: any } => {
+  const _args: { [name: string]: any } = {};
+  fragment.inputs.forEach((input, index) => {
+    _args[input.name || index.toString()] = values[index];
+  });
+  return _args;
+};
+
+/**
+ * Decodes the revert data returned by a reverted transaction or call.
+ * Returns undefined when the data doesn't contain a known error.
+ * @param data revert data, i.e. 0x4e487b71...
+ * @param options used to format the amounts in the explanation
+ */
+const decodeErrorData = (
+  data: string,
+  options: DecodeErrorOptions = {}
+): DecodedError | undefined => {
+  if (typeof data !== "string" || !/^0x[0-9a-fA-F]{8}/.test(data)) {
+    return undefined;
+  }
+  const _selector = data.slice(0, 10).toLowerCase();
+
+  try {
+    if (_selector === ERROR_STRING_SELECTOR) {
+      const [_reason] = defaultAbiCoder.decode(
+        ["string"],
+        "0x" + data.slice(10)
+      );
+      return {
+        name: "Error",
+        signature: "Error(string)",
+        selector: _selector,
+        args: { reason: _reason },
+        message: _reason
+      };
+    }
+    if (_selector === PANIC_SELECTOR) {
+      const [_code] = defaultAbiCoder.decode(
+        ["uint256"],
+        "0x" + data.slice(10)
+      );
+      return {
+        name: "Panic",
+        signature: "Panic(uint256)",
+        selector: _selector,
+        args: { code: _code },
+        message: `Transaction reverted with a panic: ${
+          PANIC_REASONS[_code.toNumber()] || `code ${_code.toHexString()}`
+        }`
+      };
+    }
+
+    const _fragment = _ERROR_INTERFACE.getError(_selector);
+    const _args = _toArgs(
+      _fragment,
+      _ERROR_INTERFACE.decodeErrorResult(_fragment, data)
+    );
+    const _formatAmount = (amount: BigNumber) =>
+      options.underlyingDecimals !== undefined
+        ? formatUnderlying(amount, options.underlyingDecimals)
+        : amount.toString();
+    const _explain = _EXPLANATIONS[_fragment.name];
+    return {
+      name: _fragment.name,
+      signature: _fragment.format(),
+      selector: _selector,
+      args: _args,
+      message: _explain
+        ? _explain(_args, _formatAmount)
+        : _explainMathError(_fragment.name)
+    };
+  } catch (error) {
+    // unknown selector or malformed data
+    return undefined;
+  }
+};
+
+/**
+ * Finds the revert data in the error thrown by ethers, which nests the error of the provider
+ */
+const getRevertData = (error: any, depth: number = 0): string | undefined => {
+  if (!error || typeof error !== "object" || depth > 5) {
+    return undefined;
+  }
+  if (typeof error.data === "string" && /^0x[0-9a-fA-F]{8}/.test(error.data)) {
+    return error.data;
+  }
+  for (const _key of ["data", "error", "cause"]) {
+    const _data = getRevertData(error[_key], depth + 1);
+    if (_data) {
+      return _data;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Decodes the revert reason of the error thrown by ethers for a reverted transaction or call.
+ * Returns undefined when the error doesn't contain known revert data.
+ */
+const decodeError = (
+  error: any,
+  options: DecodeErrorOptions = {}
+): DecodedError | undefined => {
+  // already decoded by toCarapaceError
+  if (error && error.decodedError) {
+    return error.decodedError;
+  }
+  const _data = getRevertData(error);
+  return _data ? decodeErrorData(_data, options) : undefined;
+};
+
+/**
+ * Converts the error thrown by ethers to a CarapaceError with the explanation as the message,
+ * or returns the error as is when it doesn't contain a known revert reason.
+ */
+const toCarapaceError = (
+  error: any,
+  options: DecodeErrorOptions = {}
+): CarapaceError | any => {
+  const _decodedError = decodeError(error, options);
+  if (!_decodedError) {
+    return error;
+  }
+  const _error = new Error(_decodedError.message) as CarapaceError;
+  _error.decodedError = _decodedError;
+  _error.originalError = error;
+  return _error;
+};
+
+/**
+ * Returns the explanation of the revert reason or the message of the error
+ */
+const formatError = (error: any, options: DecodeErrorOptions = {}): string => {
+  const _decodedError = decodeError(error, options);
+  if (_decodedError) {
+    return `${_decodedError.message} (${_decodedError.name})`;
+  }
+  return error && error.message ? error.message : String(error);
+};
+
+export {
+  decodeErrorData,
+  getRevertData,
+  decodeError,
+  toCarapaceError,
+  formatError
+};
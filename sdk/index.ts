@@ -0,0 +1,14 @@
+export * from "./units";
+export * from "./constants";
+export * as prbMath from "./prbMath";
+export * from "./riskFactorCalculator";
+export * from "./premiumCalculator";
+export * from "./accruedPremiumCalculator";
+export * from "./protectionPoolClient";
+export * from "./contracts";
+export * from "./sellerPortfolio";
+export * from "./buyerPortfolio";
+export * from "./errors";
+export * from "./purchaseDiagnostics";
+export * from "./withdrawalPlanner";
+export * from "./stateAssessment";
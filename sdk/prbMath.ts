@@ -0,0 +1,245 @@
+import { BigNumber, BigNumberish } from "ethers";
+
+/**
+ * Off-chain port of the PRBMathSD59x18 (v2.5.0) functions used by the Carapace libraries.
+ * All numbers are signed 59.18-decimal fixed-point numbers, i.e. 1.5 => 1.5 * 10 ** 18.
+ * Each function reproduces the integer arithmetic of the Solidity library step by step,
+ * so the results are identical to the on-chain results, including the truncation & rounding.
+ * Errors are thrown with the name of the custom error where the Solidity library reverts.
+ */
+
+const SCALE = BigNumber.from("1000000000000000000");
+const HALF_SCALE = BigNumber.from("500000000000000000");
+const DOUBLE_SCALE = SCALE.mul(SCALE);
+const LOG2_E = BigNumber.from("1442695040888963407");
+const MAX_SD59x18 = BigNumber.from(2).pow(255).sub(1);
+const MIN_SD59x18 = BigNumber.from(2).pow(255).mul(-1);
+
+// min & max inputs of exp & exp2, see PRBMathSD59x18.sol
+const EXP_MIN_INPUT = BigNumber.from("-41446531673892822322");
+const EXP_MAX_INPUT = BigNumber.from("133084258667509499441");
+const EXP2_MIN_INPUT = BigNumber.from("-59794705707972522261");
+const EXP2_MAX_INPUT = BigNumber.from(192).mul(SCALE);
+
+// root(2, 2^-i) in the 192.64-bit fixed-point format for the bits 63 to 0 of the fractional part, see PRBMath.exp2
+const EXP2_MAGIC_FACTORS: BigNumber[] = [
+  "0x16A09E667F3BCC909",
+  "0x1306FE0A31B7152DF",
+  "0x1172B83C7D517ADCE",
+  "0x10B5586CF9890F62A",
+  "0x1059B0D31585743AE",
+  "0x102C9A3E778060EE7",
+  "0x10163DA9FB33356D8",
+  "0x100B1AFA5ABCBED61",
+  "0x10058C86DA1C09EA2",
+  "0x1002C605E2E8CEC50",
+  "0x100162F3904051FA1",
+  "0x1000B175EFFDC76BA",
+  "0x100058BA01FB9F96D",
+  "0x10002C5CC37DA9492",
+  "0x1000162E525EE0547",
+  "0x10000B17255775C04",
+  "0x1000058B91B5BC9AE",
+  "0x100002C5C89D5EC6D",
+  "0x10000162E43F4F831",
+  "0x100000B1721BCFC9A",
+  "0x10000058B90CF1E6E",
+  "0x1000002C5C863B73F",
+  "0x100000162E430E5A2",
+  "0x1000000B172183551",
+  "0x100000058B90C0B49",
+  "0x10000002C5C8601CC",
+  "0x1000000162E42FFF0",
+  "0x10000000B17217FBB",
+  "0x1000000058B90BFCE",
+  "0x100000002C5C85FE3",
+  "0x10000000162E42FF1",
+  "0x100000000B17217F8",
+  "0x10000000058B90BFC",
+  "0x1000000002C5C85FE",
+  "0x100000000162E42FF",
+  "0x1000000000B17217F",
+  "0x100000000058B90C0",
+  "0x10000000002C5C860",
+  "0x1000000000162E430",
+  "0x10000000000B17218",
+  "0x1000000000058B90C",
+  "0x100000000002C5C86",
+  "0x10000000000162E43",
+  "0x100000000000B1721",
+  "0x10000000000058B91",
+  "0x1000000000002C5C8",
+  "0x100000000000162E4",
+  "0x1000000000000B172",
+  "0x100000000000058B9",
+  "0x10000000000002C5D",
+  "0x1000000000000162E",
+  "0x10000000000000B17",
+  "0x1000000000000058C",
+  "0x100000000000002C6",
+  "0x10000000000000163",
+  "0x100000000000000B1",
+  "0x10000000000000059",
+  "0x1000000000000002C",
+  "0x10000000000000016",
+  "0x1000000000000000B",
+  "0x10000000000000006",
+  "0x10000000000000003",
+  "0x10000000000000001",
+  "0x10000000000000001"
+].map((factor) => BigNumber.from(factor));
+
+const _abs = (x: BigNumber): BigNumber => (x.lt(0) ? x.mul(-1) : x);
+
+/**
+ * Calculates the binary exponent of x in the 192.64-bit fixed-point format, see PRBMath.exp2
+ */
+const _exp2Of192x64 = (x: BigNumber): BigNumber => {
+  // start from 0.5 in the 192.64-bit fixed-point format
+  let result = BigNumber.from(2).pow(191);
+  for (let i = 0; i < 64; i++) {
+    if (!x.and(BigNumber.from(2).pow(63 - i)).isZero()) {
+      result = result.mul(EXP2_MAGIC_FACTORS[i]).shr(64);
+    }
+  }
+  result = result.mul(SCALE);
+  return result.shr(191 - x.shr(64).toNumber());
+};
+
+/**
+ * Finds the zero-based index of the first one in the binary representation of x, see PRBMath.mostSignificantBit
+ */
+const _mostSignificantBit = (x: BigNumber): number => {
+  let msb = 0;
+  let _x = x;
+  for (const bits of [128, 64, 32, 16, 8, 4, 2]) {
+    if (_x.gte(BigNumber.from(2).pow(bits))) {
+      _x = _x.shr(bits);
+      msb += bits;
+    }
+  }
+  if (_x.gte(2)) {
+    msb += 1;
+  }
+  return msb;
+};
+
+/**
+ * Calculates the binary exponent of x, see PRBMathSD59x18.exp2
+ */
+const exp2 = (x: BigNumberish): BigNumber => {
+  const _x = BigNumber.from(x);
+  if (_x.lt(0)) {
+    if (_x.lt(EXP2_MIN_INPUT)) {
+      return BigNumber.from(0);
+    }
+    return DOUBLE_SCALE.div(exp2(_x.mul(-1)));
+  }
+
+  if (_x.gte(EXP2_MAX_INPUT)) {
+    throw new Error(`PRBMathSD59x18__Exp2InputTooBig(${_x.toString()})`);
+  }
+  // convert x to the 192.64-bit fixed-point format
+  return _exp2Of192x64(_x.shl(64).div(SCALE));
+};
+
+/**
+ * Calculates the natural exponent of x, see PRBMathSD59x18.exp
+ */
+const exp = (x: BigNumberish): BigNumber => {
+  const _x = BigNumber.from(x);
+  if (_x.lt(EXP_MIN_INPUT)) {
+    return BigNumber.from(0);
+  }
+  if (_x.gte(EXP_MAX_INPUT)) {
+    throw new Error(`PRBMathSD59x18__ExpInputTooBig(${_x.toString()})`);
+  }
+  return exp2(_x.mul(LOG2_E).add(HALF_SCALE).div(SCALE));
+};
+
+/**
+ * Calculates the binary logarithm of x using the iterative approximation, see PRBMathSD59x18.log2
+ */
+const log2 = (x: BigNumberish): BigNumber => {
+  let _x = BigNumber.from(x);
+  if (_x.lte(0)) {
+    throw new Error(`PRBMathSD59x18__LogInputTooSmall(${_x.toString()})`);
+  }
+
+  // log2(x) = -log2(1/x)
+  let sign = 1;
+  if (_x.lt(SCALE)) {
+    sign = -1;
+    _x = DOUBLE_SCALE.div(_x);
+  }
+
+  // integer part of the logarithm
+  const n = _mostSignificantBit(_x.div(SCALE));
+  let result = BigNumber.from(n).mul(SCALE);
+
+  // y = x * 2^(-n)
+  let y = _x.shr(n);
+  if (y.eq(SCALE)) {
+    return result.mul(sign);
+  }
+
+  // fractional part
+  for (let delta = HALF_SCALE; delta.gt(0); delta = delta.shr(1)) {
+    y = y.mul(y).div(SCALE);
+    if (y.gte(SCALE.mul(2))) {
+      result = result.add(delta);
+      y = y.shr(1);
+    }
+  }
+  return result.mul(sign);
+};
+
+/**
+ * Calculates the natural logarithm of x, see PRBMathSD59x18.ln
+ */
+const ln = (x: BigNumberish): BigNumber => {
+  return log2(x).mul(SCALE).div(LOG2_E);
+};
+
+/**
+ * Multiplies two fixed-point numbers rounding half up the absolute value of the product, see PRBMathSD59x18.mul
+ */
+const mul = (x: BigNumberish, y: BigNumberish): BigNumber => {
+  const _x = BigNumber.from(x);
+  const _y = BigNumber.from(y);
+  if (_x.eq(MIN_SD59x18) || _y.eq(MIN_SD59x18)) {
+    throw new Error("PRBMathSD59x18__MulInputTooSmall()");
+  }
+
+  // PRBMath.mulDivFixedPoint
+  const _product = _abs(_x).mul(_abs(_y));
+  const _roundUpUnit = _product.mod(SCALE).gt(HALF_SCALE.sub(1)) ? 1 : 0;
+  const rAbs = _product.div(SCALE).add(_roundUpUnit);
+  if (rAbs.gt(MAX_SD59x18)) {
+    throw new Error(`PRBMathSD59x18__MulOverflow(${rAbs.toString()})`);
+  }
+  return _x.lt(0) !== _y.lt(0) ? rAbs.mul(-1) : rAbs;
+};
+
+/**
+ * Divides two fixed-point numbers truncating the absolute value of the quotient, see PRBMathSD59x18.div
+ */
+const div = (x: BigNumberish, y: BigNumberish): BigNumber => {
+  const _x = BigNumber.from(x);
+  const _y = BigNumber.from(y);
+  if (_x.eq(MIN_SD59x18) || _y.eq(MIN_SD59x18)) {
+    throw new Error("PRBMathSD59x18__DivInputTooSmall()");
+  }
+  if (_y.isZero()) {
+    throw new Error("Division by zero");
+  }
+
+  // PRBMath.mulDiv
+  const rAbs = _abs(_x).mul(SCALE).div(_abs(_y));
+  if (rAbs.gt(MAX_SD59x18)) {
+    throw new Error(`PRBMathSD59x18__DivOverflow(${rAbs.toString()})`);
+  }
+  return _x.lt(0) !== _y.lt(0) ? rAbs.mul(-1) : rAbs;
+};
+
+export { SCALE, exp, exp2, ln, log2, mul, div };
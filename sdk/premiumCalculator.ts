@@ -0,0 +1,149 @@
+import { BigNumber, BigNumberish } from "ethers";
+
+import {
+  SCALE_18_DECIMALS,
+  SCALED_DAYS_IN_YEAR,
+  SECONDS_IN_DAY
+} from "./constants";
+import { exp } from "./prbMath";
+import {
+  calculateRiskFactor,
+  canCalculateRiskFactor
+} from "./riskFactorCalculator";
+
+/**
+ * Params of a protection pool used by the premium calculation, i.e. `getPoolInfo().params`.
+ * All params are scaled to 18 decimals.
+ */
+export interface PremiumParams {
+  leverageRatioFloor: BigNumberish;
+  leverageRatioCeiling: BigNumberish;
+  leverageRatioBuffer: BigNumberish;
+  curvature: BigNumberish;
+  minCarapaceRiskPremiumPercent: BigNumberish;
+  underlyingRiskPremiumPercent: BigNumberish;
+}
+
+/**
+ * Premium of a protection calculated off-chain
+ */
+export interface PremiumQuote {
+  /// in the units of the protection amount
+  premiumAmount: BigNumber;
+  /// true when the min carapace risk premium is used because the risk factor can't be calculated
+  isMinPremium: boolean;
+}
+
+/**
+ * Calculates protection duration in years scaled to 18 decimals.
+ * Formula: (protectionDurationInSeconds / SECONDS_IN_DAY) / 365.24
+ */
+const calculateDurationInYears = (
+  protectionDurationInSeconds: BigNumberish
+): BigNumber => {
+  return BigNumber.from(protectionDurationInSeconds)
+    .mul(100)
+    .mul(SCALE_18_DECIMALS)
+    .div(SECONDS_IN_DAY.mul(SCALED_DAYS_IN_YEAR));
+};
+
+/**
+ * Formula: carapacePremiumRate = 1 - (e ** (-1 * durationInYears * riskFactor))
+ */
+const _calculateCarapacePremiumRate = (
+  durationInYears: BigNumber,
+  riskFactor: BigNumber
+): BigNumber => {
+  const _power = durationInYears.mul(-1).mul(riskFactor).div(SCALE_18_DECIMALS);
+  return SCALE_18_DECIMALS.sub(exp(_power));
+};
+
+/**
+ * Formula: underlyingPremiumRate = underlyingRiskPremiumPercent * protectionBuyerApy * durationInYears
+ */
+const _calculateUnderlyingPremiumRate = (
+  durationInYears: BigNumber,
+  protectionBuyerApy: BigNumberish,
+  underlyingRiskPremiumPercent: BigNumberish
+): BigNumber => {
+  return BigNumber.from(underlyingRiskPremiumPercent)
+    .mul(protectionBuyerApy)
+    .mul(durationInYears)
+    .div(SCALE_18_DECIMALS.mul(SCALE_18_DECIMALS));
+};
+
+/**
+ * Calculates the premium of a protection without an RPC call, see PremiumCalculator.calculatePremium.
+ * The result is identical to the on-chain result.
+ * @param protectionDurationInSeconds
+ * @param protectionAmount
+ * @param protectionBuyerApy scaled to 18 decimals
+ * @param leverageRatio current leverage ratio of the pool scaled to 18 decimals
+ * @param poolParameters params of the protection pool
+ */
+const calculatePremium = (
+  protectionDurationInSeconds: BigNumberish,
+  protectionAmount: BigNumberish,
+  protectionBuyerApy: BigNumberish,
+  leverageRatio: BigNumberish,
+  poolParameters: PremiumParams
+): PremiumQuote => {
+  let _carapacePremiumRate = BigNumber.from(0);
+  let _isMinPremium = false;
+
+  const _durationInYears = calculateDurationInYears(
+    protectionDurationInSeconds
+  );
+
+  if (
+    canCalculateRiskFactor(
+      leverageRatio,
+      poolParameters.leverageRatioFloor,
+      poolParameters.leverageRatioCeiling
+    )
+  ) {
+    const _riskFactor = calculateRiskFactor(
+      leverageRatio,
+      poolParameters.leverageRatioFloor,
+      poolParameters.leverageRatioCeiling,
+      poolParameters.leverageRatioBuffer,
+      poolParameters.curvature
+    );
+    _carapacePremiumRate = _calculateCarapacePremiumRate(
+      _durationInYears,
+      _riskFactor
+    );
+  } else {
+    _isMinPremium = true;
+  }
+
+  /// carapacePremiumRateToUse = max(carapacePremiumRate, minCarapaceRiskPremiumPercent)
+  const _minCarapaceRiskPremiumPercent = BigNumber.from(
+    poolParameters.minCarapaceRiskPremiumPercent
+  );
+  const _carapacePremiumRateToUse = _carapacePremiumRate.gt(
+    _minCarapaceRiskPremiumPercent
+  )
+    ? _carapacePremiumRate
+    : _minCarapaceRiskPremiumPercent;
+
+  const _underlyingPremiumRate = _calculateUnderlyingPremiumRate(
+    _durationInYears,
+    protectionBuyerApy,
+    poolParameters.underlyingRiskPremiumPercent
+  );
+
+  if (_carapacePremiumRateToUse.lte(0)) {
+    throw new Error("Assertion failed");
+  }
+  const _premiumRate = _carapacePremiumRateToUse.add(_underlyingPremiumRate);
+
+  return {
+    premiumAmount: BigNumber.from(protectionAmount)
+      .mul(_premiumRate)
+      .div(SCALE_18_DECIMALS),
+    isMinPremium: _isMinPremium
+  };
+};
+
+export { calculateDurationInYears, calculatePremium };
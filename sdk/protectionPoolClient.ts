@@ -0,0 +1,438 @@
+import {
+  BigNumber,
+  BigNumberish,
+  ContractReceipt,
+  ContractTransaction,
+  Signer
+} from "ethers";
+import { Event } from "@ethersproject/contracts";
+
+import { ProtectionPool } from "../typechain-types/contracts/core/pool/ProtectionPool";
+import { ProtectionPool__factory } from "../typechain-types/factories/contracts/core/pool/ProtectionPool__factory";
+import { IERC20MetadataUpgradeable } from "../typechain-types/@openzeppelin/contracts-upgradeable/token/ERC20/extensions/IERC20MetadataUpgradeable";
+import { IERC20MetadataUpgradeable__factory } from "../typechain-types/factories/@openzeppelin/contracts-upgradeable/token/ERC20/extensions/IERC20MetadataUpgradeable__factory";
+import { ProtectionPurchaseParamsStruct } from "../typechain-types/contracts/interfaces/IReferenceLendingPools";
+import { toCarapaceError } from "./errors";
+import {
+  Amount,
+  daysToSeconds,
+  formatSToken,
+  formatUnderlying,
+  parseSToken,
+  parseUnderlying
+} from "./units";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+/**
+ * Protection purchase or renewal in human-friendly units
+ */
+export interface ProtectionPurchase {
+  lendingPoolAddress: string;
+  /// id of the ERC721 LP token representing the lending position, i.e. Goldfinch PoolTokens id
+  nftLpTokenId: BigNumberish;
+  /// in underlying tokens, i.e. "10000" USDC
+  protectionAmount: Amount;
+  protectionDurationInDays: number;
+}
+
+/**
+ * Decoded `ProtectionSold` event of a deposit with the sToken shares minted to the receiver
+ */
+export interface DepositResult {
+  receipt: ContractReceipt;
+  protectionSeller: string;
+  receiver: string;
+  /// in underlying tokens
+  protectionAmount: string;
+  sTokenShares: string;
+}
+
+/**
+ * Decoded `WithdrawalRequested` event
+ */
+export interface WithdrawalRequestResult {
+  receipt: ContractReceipt;
+  seller: string;
+  sTokenAmount: string;
+  /// index of the pool cycle when the withdrawal can be made
+  withdrawalCycleIndex: number;
+}
+
+/**
+ * Decoded `ProtectionSold` & `WithdrawalRequested` events of a deposit made together with a withdrawal request
+ */
+export interface DepositAndRequestWithdrawalResult extends DepositResult {
+  requestedSTokenAmount: string;
+  withdrawalCycleIndex: number;
+}
+
+/**
+ * Decoded `WithdrawalMade` event with the underlying tokens transferred to the receiver
+ */
+export interface WithdrawalResult {
+  receipt: ContractReceipt;
+  seller: string;
+  receiver: string;
+  sTokenAmount: string;
+  underlyingAmount: string;
+}
+
+/**
+ * Decoded `ProtectionBought` event of a purchase or renewal
+ */
+export interface ProtectionPurchaseResult {
+  receipt: ContractReceipt;
+  buyer: string;
+  lendingPoolAddress: string;
+  protectionAmount: string;
+  premium: string;
+}
+
+/**
+ * Premium of a protection purchase quoted by the pool at its current leverage ratio
+ */
+export interface ProtectionQuote {
+  premium: string;
+  /// true when the premium is calculated with the min carapace risk premium
+  isMinPremium: boolean;
+}
+
+export interface ClaimUnlockedCapitalResult {
+  receipt: ContractReceipt;
+  receiver: string;
+  /// 0 when there was no unlocked capital to claim
+  claimedAmount: string;
+}
+
+/**
+ * Client of a protection pool for sellers & buyers, which takes & returns amounts in human-friendly units,
+ * approves the underlying tokens when the allowance isn't sufficient and returns the decoded events.
+ */
+export interface ProtectionPoolClient {
+  protectionPool: ProtectionPool;
+  underlyingToken: IERC20MetadataUpgradeable;
+  underlyingDecimals: number;
+  deposit: (amount: Amount, receiver?: string) => Promise<DepositResult>;
+  requestWithdrawal: (sTokenAmount: Amount) => Promise<WithdrawalRequestResult>;
+  /// deposits for the signer & requests the withdrawal of the sTokens in the same transaction
+  depositAndRequestWithdrawal: (
+    amount: Amount,
+    sTokenAmount: Amount
+  ) => Promise<DepositAndRequestWithdrawalResult>;
+  withdraw: (
+    sTokenAmount: Amount,
+    receiver?: string
+  ) => Promise<WithdrawalResult>;
+  /// premium of ProtectionPool.calculateProtectionPremium, which uses the leverage ratio before the purchase,
+  /// while buyProtection & renewProtection charge the premium at the lower leverage ratio after the purchase
+  quoteProtection: (purchase: ProtectionPurchase) => Promise<ProtectionQuote>;
+  buyProtection: (
+    purchase: ProtectionPurchase,
+    maxPremium: Amount
+  ) => Promise<ProtectionPurchaseResult>;
+  renewProtection: (
+    purchase: ProtectionPurchase,
+    maxPremium: Amount
+  ) => Promise<ProtectionPurchaseResult>;
+  claimUnlockedCapital: (
+    receiver?: string
+  ) => Promise<ClaimUnlockedCapitalResult>;
+}
+
+const _findEvent = (receipt: ContractReceipt, eventName: string): Event => {
+  const _event = (receipt.events || []).find(
+    (event) => event.event === eventName
+  );
+  if (!_event || !_event.args) {
+    throw new Error(
+      `${eventName} event not found in transaction ${receipt.transactionHash}`
+    );
+  }
+  return _event;
+};
+
+/**
+ * Sums the underlying tokens transferred between the specified addresses in the transaction
+ */
+const _sumUnderlyingTransfers = (
+  receipt: ContractReceipt,
+  underlyingToken: IERC20MetadataUpgradeable,
+  from: string,
+  to: string
+): BigNumber => {
+  let _amount = BigNumber.from(0);
+  receipt.logs
+    .filter(
+      (log) =>
+        log.address.toLowerCase() === underlyingToken.address.toLowerCase()
+    )
+    .forEach((log) => {
+      const _log = underlyingToken.interface.parseLog(log);
+      if (
+        _log.name === "Transfer" &&
+        _log.args.from.toLowerCase() === from.toLowerCase() &&
+        _log.args.to.toLowerCase() === to.toLowerCase()
+      ) {
+        _amount = _amount.add(_log.args.value);
+      }
+    });
+  return _amount;
+};
+
+/**
+ * Creates a client of the protection pool connected to the signer, which sends all transactions.
+ * @param protectionPoolAddress address of the protection pool proxy
+ * @param signer seller or buyer
+ */
+const createProtectionPoolClient = async (
+  protectionPoolAddress: string,
+  signer: Signer
+): Promise<ProtectionPoolClient> => {
+  const protectionPool = ProtectionPool__factory.connect(
+    protectionPoolAddress,
+    signer
+  );
+  const underlyingToken = IERC20MetadataUpgradeable__factory.connect(
+    (await protectionPool.getPoolInfo()).underlyingToken,
+    signer
+  );
+  const underlyingDecimals = await underlyingToken.decimals();
+
+  const _parseUnderlying = (amount: Amount) =>
+    parseUnderlying(amount, underlyingDecimals);
+  const _formatUnderlying = (amount: BigNumberish) =>
+    formatUnderlying(amount, underlyingDecimals);
+
+  // reverted transactions are thrown as CarapaceError with the decoded revert reason
+  const _wait = async (
+    sendTransaction: () => Promise<ContractTransaction>
+  ): Promise<ContractReceipt> => {
+    try {
+      return await (await sendTransaction()).wait();
+    } catch (error) {
+      throw toCarapaceError(error, { underlyingDecimals });
+    }
+  };
+
+  const _ensureAllowance = async (amount: BigNumber) => {
+    const _allowance = await underlyingToken.allowance(
+      await signer.getAddress(),
+      protectionPool.address
+    );
+    if (_allowance.lt(amount)) {
+      await _wait(() =>
+        underlyingToken.approve(protectionPool.address, amount)
+      );
+    }
+  };
+
+  const _toPurchaseParams = (
+    purchase: ProtectionPurchase
+  ): ProtectionPurchaseParamsStruct => {
+    return {
+      lendingPoolAddress: purchase.lendingPoolAddress,
+      nftLpTokenId: purchase.nftLpTokenId,
+      protectionAmount: _parseUnderlying(purchase.protectionAmount),
+      protectionDurationInSeconds: daysToSeconds(
+        purchase.protectionDurationInDays
+      )
+    };
+  };
+
+  const _toPurchaseResult = (
+    receipt: ContractReceipt
+  ): ProtectionPurchaseResult => {
+    const _args = _findEvent(receipt, "ProtectionBought").args!;
+    return {
+      receipt,
+      buyer: _args.buyer,
+      lendingPoolAddress: _args.lendingPoolAddress,
+      protectionAmount: _formatUnderlying(_args.protectionAmount),
+      premium: _formatUnderlying(_args.premium)
+    };
+  };
+
+  const _toDepositResult = (
+    receipt: ContractReceipt,
+    receiver: string
+  ): DepositResult => {
+    const _soldArgs = _findEvent(receipt, "ProtectionSold").args!;
+    // sTokens are minted to the receiver
+    const _mintedArgs = (receipt.events || []).find(
+      (event) =>
+        event.event === "Transfer" &&
+        event.args!.from === ZERO_ADDRESS &&
+        event.args!.to.toLowerCase() === receiver.toLowerCase()
+    )!.args!;
+    return {
+      receipt,
+      protectionSeller: _soldArgs.protectionSeller,
+      receiver,
+      protectionAmount: _formatUnderlying(_soldArgs.protectionAmount),
+      sTokenShares: formatSToken(_mintedArgs.value)
+    };
+  };
+
+  return {
+    protectionPool,
+    underlyingToken,
+    underlyingDecimals,
+
+    deposit: async (amount: Amount, receiver?: string) => {
+      const _receiver = receiver || (await signer.getAddress());
+      const _amount = _parseUnderlying(amount);
+      await _ensureAllowance(_amount);
+
+      const _receipt = await _wait(() =>
+        protectionPool.deposit(_amount, _receiver)
+      );
+      return _toDepositResult(_receipt, _receiver);
+    },
+
+    requestWithdrawal: async (sTokenAmount: Amount) => {
+      const _receipt = await _wait(() =>
+        protectionPool.requestWithdrawal(parseSToken(sTokenAmount))
+      );
+      const _args = _findEvent(_receipt, "WithdrawalRequested").args!;
+      return {
+        receipt: _receipt,
+        seller: _args.seller,
+        sTokenAmount: formatSToken(_args.sTokenAmount),
+        withdrawalCycleIndex: _args.withdrawalCycleIndex.toNumber()
+      };
+    },
+
+    depositAndRequestWithdrawal: async (
+      amount: Amount,
+      sTokenAmount: Amount
+    ) => {
+      const _amount = _parseUnderlying(amount);
+      await _ensureAllowance(_amount);
+
+      const _receipt = await _wait(() =>
+        protectionPool.depositAndRequestWithdrawal(
+          _amount,
+          parseSToken(sTokenAmount)
+        )
+      );
+      const _requestArgs = _findEvent(_receipt, "WithdrawalRequested").args!;
+      return {
+        ..._toDepositResult(_receipt, await signer.getAddress()),
+        requestedSTokenAmount: formatSToken(_requestArgs.sTokenAmount),
+        withdrawalCycleIndex: _requestArgs.withdrawalCycleIndex.toNumber()
+      };
+    },
+
+    withdraw: async (sTokenAmount: Amount, receiver?: string) => {
+      const _receiver = receiver || (await signer.getAddress());
+      const _receipt = await _wait(() =>
+        protectionPool.withdraw(parseSToken(sTokenAmount), _receiver)
+      );
+      const _args = _findEvent(_receipt, "WithdrawalMade").args!;
+      return {
+        receipt: _receipt,
+        seller: _args.seller,
+        receiver: _args.receiver,
+        sTokenAmount: formatSToken(_args.tokenAmount),
+        underlyingAmount: _formatUnderlying(
+          _sumUnderlyingTransfers(
+            _receipt,
+            underlyingToken,
+            protectionPool.address,
+            _receiver
+          )
+        )
+      };
+    },
+
+    quoteProtection: async (purchase: ProtectionPurchase) => {
+      const [_premium, _isMinPremium] =
+        await protectionPool.calculateProtectionPremium(
+          _toPurchaseParams(purchase)
+        );
+      return {
+        premium: _formatUnderlying(_premium),
+        isMinPremium: _isMinPremium
+      };
+    },
+
+    buyProtection: async (purchase: ProtectionPurchase, maxPremium: Amount) => {
+      const _maxPremium = _parseUnderlying(maxPremium);
+      await _ensureAllowance(_maxPremium);
+      const _receipt = await _wait(() =>
+        protectionPool.buyProtection(_toPurchaseParams(purchase), _maxPremium)
+      );
+      return _toPurchaseResult(_receipt);
+    },
+
+    renewProtection: async (
+      purchase: ProtectionPurchase,
+      maxPremium: Amount
+    ) => {
+      const _maxPremium = _parseUnderlying(maxPremium);
+      await _ensureAllowance(_maxPremium);
+      const _receipt = await _wait(() =>
+        protectionPool.renewProtection(_toPurchaseParams(purchase), _maxPremium)
+      );
+      return _toPurchaseResult(_receipt);
+    },
+
+    claimUnlockedCapital: async (receiver?: string) => {
+      const _receiver = receiver || (await signer.getAddress());
+      const _receipt = await _wait(() =>
+        protectionPool.claimUnlockedCapital(_receiver)
+      );
+      return {
+        receipt: _receipt,
+        receiver: _receiver,
+        // pool doesn't emit an event for the claim, only the transfer of the underlying tokens
+        claimedAmount: _formatUnderlying(
+          _sumUnderlyingTransfers(
+            _receipt,
+            underlyingToken,
+            protectionPool.address,
+            _receiver
+          )
+        )
+      };
+    }
+  };
+};
+
+/**
+ * Resolves the sToken amount of a withdrawal specified either in underlying tokens or in sTokens.
+ * Underlying amount is converted to sTokens at the current exchange rate of the pool.
+ * @param client client of the protection pool
+ * @param underlyingAmount amount in underlying tokens
+ * @param sTokenAmount amount in sTokens, can't be specified with the underlying amount
+ * @param defaultUnderlyingAmount underlying amount used when neither amount is specified, i.e. the deposit amount
+ * @returns undefined when neither amount nor the default amount is specified
+ */
+const resolveSTokenAmount = async (
+  client: ProtectionPoolClient,
+  underlyingAmount?: Amount,
+  sTokenAmount?: Amount,
+  defaultUnderlyingAmount?: Amount
+): Promise<string | undefined> => {
+  if (underlyingAmount !== undefined && sTokenAmount !== undefined) {
+    throw new Error(
+      "Specify the amount either in underlying tokens or sTokens"
+    );
+  }
+  if (sTokenAmount !== undefined) {
+    return formatSToken(parseSToken(sTokenAmount));
+  }
+
+  const _underlyingAmount = underlyingAmount ?? defaultUnderlyingAmount;
+  if (_underlyingAmount === undefined) {
+    return undefined;
+  }
+  return formatSToken(
+    await client.protectionPool.convertToSToken(
+      parseUnderlying(_underlyingAmount, client.underlyingDecimals)
+    )
+  );
+};
+
+export { createProtectionPoolClient, resolveSTokenAmount };
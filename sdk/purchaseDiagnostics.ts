@@ -0,0 +1,558 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { parseEther } from "ethers/lib/utils";
+
+import { ProtectionPool__factory } from "../typechain-types/factories/contracts/core/pool/ProtectionPool__factory";
+import { ReferenceLendingPools__factory } from "../typechain-types/factories/contracts/core/pool/ReferenceLendingPools__factory";
+import { IPoolTokens__factory } from "../typechain-types/factories/contracts/external/goldfinch/IPoolTokens__factory";
+import { IERC20MetadataUpgradeable__factory } from "../typechain-types/factories/@openzeppelin/contracts-upgradeable/token/ERC20/extensions/IERC20MetadataUpgradeable__factory";
+import { SCALE_18_DECIMALS } from "./constants";
+import { CarapaceContracts } from "./contracts";
+import { calculatePremium } from "./premiumCalculator";
+import {
+  ProtectionPoolClient,
+  ProtectionPurchase,
+  ProtectionQuote
+} from "./protectionPoolClient";
+import { LENDING_POOL_STATUSES } from "./stateAssessment";
+import {
+  Amount,
+  daysToSeconds,
+  formatPercent,
+  formatUnderlying,
+  parseUnderlying
+} from "./units";
+
+// Address of Goldfinch's PoolTokens contract on mainnet
+const GOLDFINCH_POOL_TOKENS_ADDRESS: string =
+  "0x57686612C601Cb5213b01AA8e80AfEb24BBd01df";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// ProtectionPoolPhase & ProtectionPoolCycleState enums
+const POOL_PHASE_OPEN_TO_SELLERS = 0;
+const CYCLE_STATE_LOCKED = 2;
+
+// goldfinch tranched pools have a senior (odd) & a junior (even) tranche per slice
+const NUM_TRANCHES_PER_SLICE = 2;
+
+export type PurchaseCheckName =
+  | "poolNotPaused"
+  | "renewableProtection"
+  | "renewalGracePeriod"
+  | "renewalAmount"
+  | "poolPhase"
+  | "noExistingProtection"
+  | "minDuration"
+  | "maxDuration"
+  | "lendingPoolStatus"
+  | "purchaseLimit"
+  | "nftOwnership"
+  | "juniorTranche"
+  | "remainingPrincipal"
+  | "leverageRatio"
+  | "premium";
+
+export type PurchaseCheckStatus = "passed" | "failed" | "skipped";
+
+/**
+ * Result of one of the checks made by buyProtection/renewProtection
+ */
+export interface PurchaseCheck {
+  name: PurchaseCheckName;
+  /// skipped when the check can't be evaluated, i.e. the lending pool isn't supported
+  status: PurchaseCheckStatus;
+  message: string;
+  /// custom error or revert reason of the pool when the check fails
+  error?: string;
+}
+
+export interface ExplainPurchaseOptions {
+  /// true to explain renewProtection instead of buyProtection
+  isRenewal?: boolean;
+  /// address of Goldfinch's PoolTokens contract, NFT checks are skipped when there is no contract at the address
+  poolTokens?: string;
+}
+
+/**
+ * Diagnostics of a protection purchase or renewal, amounts are in human-friendly units & timestamps in seconds
+ */
+export interface PurchaseReport {
+  protectionPool: string;
+  buyer: string;
+  isRenewal: boolean;
+  /// timestamp of the latest block the checks are evaluated at
+  timestamp: number;
+  /// true when none of the checks failed
+  canPurchase: boolean;
+  /// checks in the order the pool makes them
+  checks: PurchaseCheck[];
+  /// renewals start right after the expiration of the renewed protection
+  startTimestamp: number;
+  expirationTimestamp: number;
+  /// leverage ratio of the pool after the purchase
+  leverageRatio: string;
+  /// remaining principal of the lending position, undefined when the lending pool isn't supported
+  remainingPrincipal?: string;
+  /// undefined when the premium can't be calculated
+  estimatedPremium?: string;
+  isMinPremium?: boolean;
+}
+
+/**
+ * Quote of a protection purchase with the max premium accepted by the buyer
+ */
+export interface PurchaseQuote {
+  /// premium quoted by the pool at its current leverage ratio
+  quote: ProtectionQuote;
+  /// checks of the purchase with the quoted premium as the max premium
+  report: PurchaseReport;
+  /// higher of the quoted & the estimated premium increased by the slippage
+  maxPremium: string;
+}
+
+const _isJuniorTrancheId = (trancheId: BigNumber): boolean => {
+  return !trancheId.isZero() && trancheId.mod(NUM_TRANCHES_PER_SLICE).isZero();
+};
+
+/**
+ * Evaluates all checks ProtectionPool.buyProtection or renewProtection makes before creating the protection,
+ * so every reason of a failing purchase is reported at once instead of the first revert only.
+ * Checks are evaluated at the latest block & the premium is estimated off-chain.
+ * @param contracts core contracts connected to a provider or a signer
+ * @param protectionPoolAddress address of the protection pool
+ * @param buyer address of the protection buyer
+ * @param purchase protection purchase or renewal
+ * @param maxPremium max premium the buyer is willing to pay in underlying tokens
+ * @param options
+ */
+const explainPurchase = async (
+  contracts: CarapaceContracts,
+  protectionPoolAddress: string,
+  buyer: string,
+  purchase: ProtectionPurchase,
+  maxPremium: Amount,
+  options: ExplainPurchaseOptions = {}
+): Promise<PurchaseReport> => {
+  const _isRenewal = !!options.isRenewal;
+  const _provider = contracts.contractFactory.provider;
+  const _timestamp = (await _provider.getBlock("latest")).timestamp;
+
+  const _pool = ProtectionPool__factory.connect(
+    protectionPoolAddress,
+    _provider
+  );
+  const _poolInfo = await _pool.getPoolInfo();
+  const _params = _poolInfo.params;
+  const _referenceLendingPools = ReferenceLendingPools__factory.connect(
+    _poolInfo.referenceLendingPools,
+    _provider
+  );
+  const _decimals = await IERC20MetadataUpgradeable__factory.connect(
+    _poolInfo.underlyingToken,
+    _provider
+  ).decimals();
+  const _formatUnderlying = (amount: BigNumberish) =>
+    formatUnderlying(amount, _decimals);
+
+  const _lendingPool = purchase.lendingPoolAddress.toLowerCase();
+  const _nftLpTokenId = BigNumber.from(purchase.nftLpTokenId);
+  const _protectionAmount = parseUnderlying(
+    purchase.protectionAmount,
+    _decimals
+  );
+  const _duration = daysToSeconds(purchase.protectionDurationInDays);
+  const _maxPremium = parseUnderlying(maxPremium, _decimals);
+
+  const _checks: PurchaseCheck[] = [];
+  const _check = (
+    name: PurchaseCheckName,
+    passed: boolean,
+    message: string,
+    error?: string
+  ) => {
+    _checks.push(
+      passed
+        ? { name, status: "passed", message }
+        : { name, status: "failed", message, error }
+    );
+  };
+  const _skip = (name: PurchaseCheckName, message: string) => {
+    _checks.push({ name, status: "skipped", message });
+  };
+
+  const _paused = await _pool.paused();
+  _check(
+    "poolNotPaused",
+    !_paused,
+    _paused ? "Protection pool is paused" : "Protection pool isn't paused",
+    "Pausable: paused"
+  );
+
+  const _protections = (await _pool.getAllProtections()).filter(
+    (protection) =>
+      protection.purchaseParams.lendingPoolAddress.toLowerCase() ===
+        _lendingPool && protection.purchaseParams.nftLpTokenId.eq(_nftLpTokenId)
+  );
+
+  /// renewal starts right after the latest expired protection of the buyer for the lending position
+  let _startTimestamp = _timestamp;
+  if (_isRenewal) {
+    const _expired = _protections
+      .filter(
+        (protection) =>
+          protection.expired &&
+          protection.buyer.toLowerCase() === buyer.toLowerCase()
+      )
+      .pop();
+    _check(
+      "renewableProtection",
+      _expired !== undefined,
+      _expired
+        ? "Buyer has an expired protection for the lending position"
+        : "Buyer has no expired protection for the lending position",
+      "NoExpiredProtectionToRenew"
+    );
+
+    if (_expired) {
+      const _expiration = _expired.startTimestamp
+        .add(_expired.purchaseParams.protectionDurationInSeconds)
+        .toNumber();
+      const _renewalDeadline =
+        _expiration + _params.protectionRenewalGracePeriodInSeconds.toNumber();
+      _check(
+        "renewalGracePeriod",
+        _timestamp <= _renewalDeadline,
+        `Renewal grace period ends at ${_renewalDeadline}`,
+        "CanNotRenewProtectionAfterGracePeriod"
+      );
+      _check(
+        "renewalAmount",
+        _protectionAmount.lte(_expired.purchaseParams.protectionAmount),
+        `Renewal amount can't be higher than the expired protection amount of ${_formatUnderlying(
+          _expired.purchaseParams.protectionAmount
+        )}`,
+        "CanNotRenewProtectionWithHigherRenewalAmount"
+      );
+      _startTimestamp = _expiration + 1;
+    } else {
+      _skip("renewalGracePeriod", "There is no protection to renew");
+      _skip("renewalAmount", "There is no protection to renew");
+    }
+  }
+  const _expirationTimestamp = _duration.add(_startTimestamp).toNumber();
+
+  _check(
+    "poolPhase",
+    _poolInfo.currentPhase !== POOL_PHASE_OPEN_TO_SELLERS,
+    _poolInfo.currentPhase === POOL_PHASE_OPEN_TO_SELLERS
+      ? "Protection pool is open to sellers only"
+      : "Protection pool is open to buyers",
+    "ProtectionPoolInOpenToSellersPhase"
+  );
+
+  const _existing = _protections.some((protection) => !protection.expired);
+  _check(
+    "noExistingProtection",
+    !_existing,
+    _existing
+      ? "Lending position already has an active protection"
+      : "Lending position has no active protection",
+    "ProtectionAlreadyExistsForLendingPoolPosition"
+  );
+
+  _check(
+    "minDuration",
+    _duration.gte(_params.minProtectionDurationInSeconds),
+    `Protection duration must be at least ${_params.minProtectionDurationInSeconds} seconds`,
+    "ProtectionDurationTooShort"
+  );
+
+  /// pool cycle state is updated before the expiration is compared with the end of the next cycle
+  const _poolCycle =
+    await contracts.protectionPoolCycleManager.getCurrentPoolCycle(
+      protectionPoolAddress
+    );
+  const _cycleDuration = _poolCycle.params.cycleDuration;
+  const _cycleStartTime =
+    _poolCycle.currentCycleState === CYCLE_STATE_LOCKED &&
+    _poolCycle.currentCycleStartTime.add(_cycleDuration).lt(_timestamp)
+      ? BigNumber.from(_timestamp)
+      : _poolCycle.currentCycleStartTime;
+  const _nextCycleEnd = _cycleStartTime.add(_cycleDuration.mul(2));
+  _check(
+    "maxDuration",
+    _nextCycleEnd.gte(_expirationTimestamp),
+    `Protection must expire by the end of the next pool cycle at ${_nextCycleEnd}`,
+    "ProtectionDurationTooLong"
+  );
+
+  const _status = await _referenceLendingPools.getLendingPoolStatus(
+    _lendingPool
+  );
+  const _isSupported = _status !== 0;
+  const _statusName = LENDING_POOL_STATUSES[_status];
+  const _statusErrors: { [status: string]: string } = {
+    NotSupported: "LendingPoolNotSupported",
+    Defaulted: "LendingPoolDefaulted",
+    Expired: "LendingPoolExpired"
+  };
+  /// late lending pools can't be protected, but the existing protections can be renewed
+  if (!_isRenewal) {
+    _statusErrors.LateWithinGracePeriod = "LendingPoolHasLatePayment";
+    _statusErrors.Late = "LendingPoolHasLatePayment";
+    _statusErrors.UnderReview = "LendingPoolHasLatePayment";
+  }
+  _check(
+    "lendingPoolStatus",
+    !_statusErrors[_statusName],
+    `Lending pool status is ${_statusName}`,
+    _statusErrors[_statusName]
+  );
+
+  if (_isRenewal) {
+    _skip("purchaseLimit", "Purchase limit doesn't apply to renewals");
+  } else if (!_isSupported) {
+    _skip("purchaseLimit", "Lending pool isn't supported");
+  } else {
+    const _purchaseLimit = (
+      await _referenceLendingPools.referenceLendingPools(_lendingPool)
+    ).protectionPurchaseLimitTimestamp;
+    _check(
+      "purchaseLimit",
+      _purchaseLimit.gte(_timestamp),
+      `Protection can be purchased until ${_purchaseLimit}`,
+      "ProtectionPurchaseNotAllowed"
+    );
+  }
+
+  /// remaining principal of a position is 0 when the buyer doesn't own a junior tranche token of the lending pool
+  const _poolTokensAddress =
+    options.poolTokens || GOLDFINCH_POOL_TOKENS_ADDRESS;
+  if ((await _provider.getCode(_poolTokensAddress)) === "0x") {
+    const _message = `PoolTokens contract isn't deployed at ${_poolTokensAddress}`;
+    _skip("nftOwnership", _message);
+    _skip("juniorTranche", _message);
+  } else {
+    const _poolTokens = IPoolTokens__factory.connect(
+      _poolTokensAddress,
+      _provider
+    );
+    const _tokenInfo = await _poolTokens.getTokenInfo(_nftLpTokenId);
+    // ownerOf reverts for burned or split tokens
+    const _owner = await _poolTokens
+      .ownerOf(_nftLpTokenId)
+      .catch(() => ZERO_ADDRESS);
+    _check(
+      "nftOwnership",
+      _tokenInfo.pool !== ZERO_ADDRESS &&
+        _owner.toLowerCase() === buyer.toLowerCase(),
+      `Token ${_nftLpTokenId} is owned by ${_owner}`,
+      "ProtectionPurchaseNotAllowed"
+    );
+    _check(
+      "juniorTranche",
+      _tokenInfo.pool.toLowerCase() === _lendingPool &&
+        _isJuniorTrancheId(_tokenInfo.tranche),
+      `Token ${_nftLpTokenId} is a tranche ${_tokenInfo.tranche} token of lending pool ${_tokenInfo.pool}`,
+      "ProtectionPurchaseNotAllowed"
+    );
+  }
+
+  let _remainingPrincipal: BigNumber | undefined;
+  if (_isSupported) {
+    _remainingPrincipal =
+      await _referenceLendingPools.calculateRemainingPrincipal(
+        _lendingPool,
+        buyer,
+        _nftLpTokenId
+      );
+    _check(
+      "remainingPrincipal",
+      _protectionAmount.lte(_remainingPrincipal),
+      `Protection amount can't be higher than the remaining principal of ${_formatUnderlying(
+        _remainingPrincipal
+      )}`,
+      "ProtectionPurchaseNotAllowed"
+    );
+  } else {
+    _skip("remainingPrincipal", "Lending pool isn't supported");
+  }
+
+  /// leverage ratio is calculated with the total protection including the purchase, see ProtectionPool._calculateLeverageRatio
+  const _poolDetails = await _pool.getPoolDetails();
+  const _totalCapital = _poolDetails._totalSTokenUnderlying;
+  const _totalProtection = _poolDetails._totalProtection.add(_protectionAmount);
+  let _leverageRatio: BigNumber;
+  if (_totalCapital.isZero()) {
+    _leverageRatio = _params.leverageRatioFloor.sub(
+      _params.leverageRatioBuffer
+    );
+  } else if (_totalProtection.isZero()) {
+    _leverageRatio =
+      _poolInfo.currentPhase === POOL_PHASE_OPEN_TO_SELLERS
+        ? _params.leverageRatioCeiling.sub(_params.leverageRatioBuffer)
+        : _params.leverageRatioCeiling.add(_params.leverageRatioBuffer);
+  } else {
+    _leverageRatio = _totalCapital.mul(SCALE_18_DECIMALS).div(_totalProtection);
+  }
+  _check(
+    "leverageRatio",
+    _leverageRatio.gte(_params.leverageRatioFloor),
+    `Leverage ratio after the purchase would be ${formatPercent(
+      _leverageRatio
+    )}, the floor is ${formatPercent(_params.leverageRatioFloor)}`,
+    "ProtectionPoolLeverageRatioTooLow"
+  );
+
+  let _estimatedPremium: BigNumber | undefined;
+  let _isMinPremium: boolean | undefined;
+  if (_isSupported) {
+    const _scale = BigNumber.from(10).pow(18 - _decimals);
+    try {
+      const _quote = calculatePremium(
+        _duration,
+        _protectionAmount.mul(_scale),
+        await _referenceLendingPools.calculateProtectionBuyerAPR(_lendingPool),
+        _leverageRatio,
+        _params
+      );
+      _estimatedPremium = _quote.premiumAmount.div(_scale);
+      _isMinPremium = _quote.isMinPremium;
+    } catch (error) {
+      _skip(
+        "premium",
+        `Premium can't be calculated: ${(error as Error).message}`
+      );
+    }
+    if (_estimatedPremium) {
+      _check(
+        "premium",
+        _estimatedPremium.lte(_maxPremium),
+        `Estimated premium is ${_formatUnderlying(
+          _estimatedPremium
+        )}, the max premium is ${_formatUnderlying(_maxPremium)}`,
+        "PremiumExceedsMaxPremiumAmount"
+      );
+    }
+  } else {
+    _skip("premium", "Lending pool isn't supported");
+  }
+
+  return {
+    protectionPool: protectionPoolAddress,
+    buyer,
+    isRenewal: _isRenewal,
+    timestamp: _timestamp,
+    canPurchase: !_checks.some((check) => check.status === "failed"),
+    checks: _checks,
+    startTimestamp: _startTimestamp,
+    expirationTimestamp: _expirationTimestamp,
+    leverageRatio: formatPercent(_leverageRatio),
+    remainingPrincipal:
+      _remainingPrincipal && _formatUnderlying(_remainingPrincipal),
+    estimatedPremium: _estimatedPremium && _formatUnderlying(_estimatedPremium),
+    isMinPremium: _isMinPremium
+  };
+};
+
+const _parseSlippage = (slippagePercent: Amount): BigNumber => {
+  const _slippage = parseEther(slippagePercent.toString());
+  if (_slippage.isNegative()) {
+    throw new Error(`Slippage ${slippagePercent}% can't be negative`);
+  }
+  return _slippage;
+};
+
+/**
+ * Calculates the max premium accepted by the buyer, which is the higher of the quoted & the estimated premium
+ * increased by the slippage.
+ * @param quotedPremium premium quoted by the pool
+ * @param estimatedPremium premium estimated by `explainPurchase`, the quoted premium is used when it is undefined
+ * @param slippagePercent max premium above the higher premium in percent, i.e. "1" for 1%
+ * @param decimals decimals of the underlying token, i.e. 6 for USDC
+ */
+const calculateMaxPremium = (
+  quotedPremium: Amount,
+  estimatedPremium: Amount | undefined,
+  slippagePercent: Amount,
+  decimals: number
+): string => {
+  const _slippage = _parseSlippage(slippagePercent);
+  const _quotedPremium = parseUnderlying(quotedPremium, decimals);
+  const _estimatedPremium = parseUnderlying(
+    estimatedPremium ?? quotedPremium,
+    decimals
+  );
+  const _basePremium = _estimatedPremium.gt(_quotedPremium)
+    ? _estimatedPremium
+    : _quotedPremium;
+  const _hundredPercent = parseEther("100");
+  return formatUnderlying(
+    _basePremium.mul(_hundredPercent.add(_slippage)).div(_hundredPercent),
+    decimals
+  );
+};
+
+/**
+ * Quotes the premium of the purchase & the max premium accepted by the buyer.
+ * Pool quotes the premium at its current leverage ratio, but charges it at the leverage ratio after the purchase,
+ * so the max premium is based on the higher of the quote & the premium estimated by `explainPurchase`.
+ * Throws when any check of the pool other than the premium fails.
+ * @param client client of the protection pool connected to the buyer
+ * @param contracts core contracts connected to a provider or a signer
+ * @param buyer address of the buyer
+ * @param purchase
+ * @param slippagePercent max premium above the higher premium in percent, i.e. "1" for 1%
+ * @param options
+ */
+const quotePurchase = async (
+  client: ProtectionPoolClient,
+  contracts: CarapaceContracts,
+  buyer: string,
+  purchase: ProtectionPurchase,
+  slippagePercent: Amount,
+  options: ExplainPurchaseOptions = {}
+): Promise<PurchaseQuote> => {
+  // fails on a negative slippage before quoting
+  _parseSlippage(slippagePercent);
+
+  const _quote = await client.quoteProtection(purchase);
+  const _report = await explainPurchase(
+    contracts,
+    client.protectionPool.address,
+    buyer,
+    purchase,
+    _quote.premium,
+    options
+  );
+  const _failedChecks = _report.checks.filter(
+    (check) => check.status === "failed" && check.name !== "premium"
+  );
+  if (_failedChecks.length > 0) {
+    throw new Error(
+      _failedChecks
+        .map((check) =>
+          check.error ? `${check.message} (${check.error})` : check.message
+        )
+        .join("\n")
+    );
+  }
+
+  return {
+    quote: _quote,
+    report: _report,
+    maxPremium: calculateMaxPremium(
+      _quote.premium,
+      _report.estimatedPremium,
+      slippagePercent,
+      client.underlyingDecimals
+    )
+  };
+};
+
+export {
+  GOLDFINCH_POOL_TOKENS_ADDRESS,
+  explainPurchase,
+  calculateMaxPremium,
+  quotePurchase
+};
@@ -0,0 +1,97 @@
+import { BigNumber, BigNumberish } from "ethers";
+
+import { SCALE_18_DECIMALS, SCALED_DAYS_IN_YEAR } from "./constants";
+import { ln } from "./prbMath";
+
+/**
+ * Off-chain mirror of the RiskFactorCalculator library.
+ * Results are identical to the on-chain results & errors are thrown where the library reverts.
+ */
+
+/**
+ * Subtracts like the checked uint256 arithmetic of Solidity, which reverts on underflow
+ */
+const _subUint = (a: BigNumber, b: BigNumber): BigNumber => {
+  if (a.lt(b)) {
+    throw new Error("Arithmetic operation underflowed");
+  }
+  return a.sub(b);
+};
+
+/**
+ * Divides like the signed arithmetic of Solidity, which truncates towards zero and reverts on division by zero
+ */
+const _divInt = (a: BigNumber, b: BigNumber): BigNumber => {
+  if (b.isZero()) {
+    throw new Error("Division by zero");
+  }
+  return a.div(b);
+};
+
+/**
+ * Calculates the risk factor scaled to 18 decimals, see RiskFactorCalculator.calculateRiskFactor.
+ * Formula: curvature * ((leverageRatioCeiling + BUFFER - currentLeverageRatio) / (currentLeverageRatio - leverageRatioFloor - BUFFER))
+ * All params must be scaled to 18 decimals.
+ */
+const calculateRiskFactor = (
+  currentLeverageRatio: BigNumberish,
+  leverageRatioFloor: BigNumberish,
+  leverageRatioCeiling: BigNumberish,
+  leverageRatioBuffer: BigNumberish,
+  curvature: BigNumberish
+): BigNumber => {
+  const _currentLeverageRatio = BigNumber.from(currentLeverageRatio);
+  const _leverageRatioBuffer = BigNumber.from(leverageRatioBuffer);
+
+  const _numerator = _subUint(
+    BigNumber.from(leverageRatioCeiling).add(_leverageRatioBuffer),
+    _currentLeverageRatio
+  );
+  const _denominator = _currentLeverageRatio.sub(
+    _subUint(BigNumber.from(leverageRatioFloor), _leverageRatioBuffer)
+  );
+
+  return _divInt(BigNumber.from(curvature).mul(_numerator), _denominator);
+};
+
+/**
+ * Calculates the risk factor using the minimum premium, see RiskFactorCalculator.calculateRiskFactorUsingMinPremium.
+ * Formula: riskFactor = (-1 * log(1 - min premium) / duration in days) * 365.24
+ * @param minCarapaceRiskPremiumPercent scaled to 18 decimals
+ * @param durationInDays scaled to 18 decimals
+ */
+const calculateRiskFactorUsingMinPremium = (
+  minCarapaceRiskPremiumPercent: BigNumberish,
+  durationInDays: BigNumberish
+): BigNumber => {
+  const _logValue = ln(SCALE_18_DECIMALS.sub(minCarapaceRiskPremiumPercent));
+
+  const _lambda = _divInt(
+    _logValue.mul(-1).mul(SCALE_18_DECIMALS),
+    BigNumber.from(durationInDays)
+  );
+
+  return _lambda.mul(SCALED_DAYS_IN_YEAR).div(100);
+};
+
+/**
+ * Risk factor can not be calculated when leverage ratio is outside of floor to ceiling range,
+ * see RiskFactorCalculator.canCalculateRiskFactor
+ */
+const canCalculateRiskFactor = (
+  leverageRatio: BigNumberish,
+  leverageRatioFloor: BigNumberish,
+  leverageRatioCeiling: BigNumberish
+): boolean => {
+  const _leverageRatio = BigNumber.from(leverageRatio);
+  return !(
+    _leverageRatio.lt(leverageRatioFloor) ||
+    _leverageRatio.gt(leverageRatioCeiling)
+  );
+};
+
+export {
+  calculateRiskFactor,
+  calculateRiskFactorUsingMinPremium,
+  canCalculateRiskFactor
+};
@@ -0,0 +1,230 @@
+import { BigNumber } from "ethers";
+
+import { ProtectionPoolCycleStructOutput } from "../typechain-types/contracts/core/ProtectionPoolCycleManager";
+import { ProtectionPool__factory } from "../typechain-types/factories/contracts/core/pool/ProtectionPool__factory";
+import { IERC20MetadataUpgradeable__factory } from "../typechain-types/factories/@openzeppelin/contracts-upgradeable/token/ERC20/extensions/IERC20MetadataUpgradeable__factory";
+import { CarapaceContracts } from "./contracts";
+import {
+  formatSToken,
+  formatUnderlying,
+  parseSToken,
+  parseUnderlying
+} from "./units";
+
+// withdrawal requested in a cycle can be made in the open period of the cycle after the next one
+const WITHDRAWAL_CYCLE_OFFSET = 2;
+
+/**
+ * Open period of a pool cycle, during which the withdrawals requested for the cycle can be made
+ */
+export interface WithdrawalWindow {
+  cycleIndex: number;
+  /// timestamps in seconds since unix epoch, withdraw succeeds until closesAt inclusive
+  opensAt: number;
+  closesAt: number;
+  /// true when the latest block is within the open period
+  isOpen: boolean;
+}
+
+export interface PendingWithdrawalRequest {
+  withdrawalCycleIndex: number;
+  sTokenAmount: string;
+  window: WithdrawalWindow;
+}
+
+/**
+ * Position of a seller in a protection pool, amounts are in human-friendly units
+ */
+export interface SellerPoolPosition {
+  protectionPool: string;
+  underlyingToken: string;
+  underlyingSymbol: string;
+  underlyingDecimals: number;
+  sTokenBalance: string;
+  /// value of the sTokens in underlying tokens
+  underlyingBalance: string;
+  currentCycleIndex: number;
+  /// requests which can be withdrawn in the current & next two cycles
+  pendingWithdrawalRequests: PendingWithdrawalRequest[];
+  /// capital unlocked after the lending pools became late & active again
+  claimableUnlockedCapital: string;
+  /// current window when the current cycle is open, otherwise the window of the next cycle
+  nextWithdrawalWindow: WithdrawalWindow;
+}
+
+export interface SellerPortfolio {
+  seller: string;
+  /// timestamp of the latest block the portfolio is read at
+  timestamp: number;
+  /// pools with sTokens, pending withdrawal requests or claimable capital of the seller
+  positions: SellerPoolPosition[];
+}
+
+/**
+ * Calculates the withdrawal window of the specified cycle from the current pool cycle.
+ * Windows of the future cycles assume that the cycles are renewed as soon as they end.
+ * @param poolCycle current cycle of the pool, see ProtectionPoolCycleManager.getCurrentPoolCycle
+ * @param cycleIndex index of the current or a future cycle
+ * @param timestamp current timestamp in seconds
+ */
+const getWithdrawalWindow = (
+  poolCycle: ProtectionPoolCycleStructOutput,
+  cycleIndex: number,
+  timestamp: number
+): WithdrawalWindow => {
+  const _cyclesAhead = cycleIndex - poolCycle.currentCycleIndex.toNumber();
+  if (_cyclesAhead < 0) {
+    throw new Error(
+      `Cycle ${cycleIndex} is before the current cycle ${poolCycle.currentCycleIndex}`
+    );
+  }
+
+  const _opensAt = poolCycle.currentCycleStartTime
+    .add(poolCycle.params.cycleDuration.mul(_cyclesAhead))
+    .toNumber();
+  const _closesAt = _opensAt + poolCycle.params.openCycleDuration.toNumber();
+  return {
+    cycleIndex,
+    opensAt: _opensAt,
+    closesAt: _closesAt,
+    isOpen: timestamp >= _opensAt && timestamp <= _closesAt
+  };
+};
+
+/**
+ * Returns the window of the current cycle when it is still open, otherwise the window of the next cycle
+ */
+const getNextWithdrawalWindow = (
+  poolCycle: ProtectionPoolCycleStructOutput,
+  timestamp: number
+): WithdrawalWindow => {
+  const _currentCycleIndex = poolCycle.currentCycleIndex.toNumber();
+  const _currentWindow = getWithdrawalWindow(
+    poolCycle,
+    _currentCycleIndex,
+    timestamp
+  );
+  return timestamp <= _currentWindow.closesAt
+    ? _currentWindow
+    : getWithdrawalWindow(poolCycle, _currentCycleIndex + 1, timestamp);
+};
+
+/**
+ * Reads the position of the seller in the protection pool: sToken balance & its underlying value,
+ * withdrawal requests of the current & next two cycles, claimable unlocked capital & the next withdrawal window.
+ * @param contracts core contracts connected to a provider or a signer
+ * @param protectionPoolAddress address of the protection pool
+ * @param seller address of the protection seller
+ * @param timestamp timestamp of the latest block, read from the provider when not specified
+ */
+const getSellerPoolPosition = async (
+  contracts: CarapaceContracts,
+  protectionPoolAddress: string,
+  seller: string,
+  timestamp?: number
+): Promise<SellerPoolPosition> => {
+  const _provider = contracts.contractFactory.provider;
+  const _timestamp =
+    timestamp ?? (await _provider.getBlock("latest")).timestamp;
+  const _pool = ProtectionPool__factory.connect(
+    protectionPoolAddress,
+    _provider
+  );
+  const _underlyingToken = IERC20MetadataUpgradeable__factory.connect(
+    (await _pool.getPoolInfo()).underlyingToken,
+    _provider
+  );
+  const [_decimals, _symbol, _sTokenBalance, _claimable, _poolCycle] =
+    await Promise.all([
+      _underlyingToken.decimals(),
+      _underlyingToken.symbol(),
+      _pool.balanceOf(seller),
+      contracts.defaultStateManager.calculateClaimableUnlockedAmount(
+        protectionPoolAddress,
+        seller
+      ),
+      contracts.protectionPoolCycleManager.getCurrentPoolCycle(
+        protectionPoolAddress
+      )
+    ]);
+
+  // requests made in the previous two cycles & in the current cycle
+  const _currentCycleIndex = _poolCycle.currentCycleIndex.toNumber();
+  const _requests: PendingWithdrawalRequest[] = [];
+  for (let _i = 0; _i <= WITHDRAWAL_CYCLE_OFFSET; _i++) {
+    const _cycleIndex = _currentCycleIndex + _i;
+    // requested amount is read for msg.sender
+    const _requested: BigNumber = await _pool.getRequestedWithdrawalAmount(
+      _cycleIndex,
+      { from: seller }
+    );
+    if (_requested.gt(0)) {
+      _requests.push({
+        withdrawalCycleIndex: _cycleIndex,
+        sTokenAmount: formatSToken(_requested),
+        window: getWithdrawalWindow(_poolCycle, _cycleIndex, _timestamp)
+      });
+    }
+  }
+
+  // conversion to underlying divides by the sToken supply, which is 0 in an empty pool
+  const _underlyingBalance = _sTokenBalance.isZero()
+    ? BigNumber.from(0)
+    : await _pool.getUnderlyingBalance(seller);
+  return {
+    protectionPool: protectionPoolAddress,
+    underlyingToken: _underlyingToken.address,
+    underlyingSymbol: _symbol,
+    underlyingDecimals: _decimals,
+    sTokenBalance: formatSToken(_sTokenBalance),
+    underlyingBalance: formatUnderlying(_underlyingBalance, _decimals),
+    currentCycleIndex: _currentCycleIndex,
+    pendingWithdrawalRequests: _requests,
+    claimableUnlockedCapital: formatUnderlying(_claimable, _decimals),
+    nextWithdrawalWindow: getNextWithdrawalWindow(_poolCycle, _timestamp)
+  };
+};
+
+/**
+ * Reads the position of the seller in all protection pools created by the contract factory,
+ * see getSellerPoolPosition.
+ * @param contracts core contracts connected to a provider or a signer
+ * @param seller address of the protection seller
+ */
+const getSellerPortfolio = async (
+  contracts: CarapaceContracts,
+  seller: string
+): Promise<SellerPortfolio> => {
+  const _provider = contracts.contractFactory.provider;
+  const _timestamp = (await _provider.getBlock("latest")).timestamp;
+  const _pools = await contracts.contractFactory.getProtectionPools();
+
+  const _positions = await Promise.all(
+    _pools.map((poolAddress) =>
+      getSellerPoolPosition(contracts, poolAddress, seller, _timestamp)
+    )
+  );
+
+  return {
+    seller,
+    timestamp: _timestamp,
+    // pools without sTokens, pending withdrawal requests & claimable capital are skipped
+    positions: _positions.filter(
+      (position) =>
+        !parseSToken(position.sTokenBalance).isZero() ||
+        position.pendingWithdrawalRequests.length > 0 ||
+        !parseUnderlying(
+          position.claimableUnlockedCapital,
+          position.underlyingDecimals
+        ).isZero()
+    )
+  };
+};
+
+export {
+  WITHDRAWAL_CYCLE_OFFSET,
+  getWithdrawalWindow,
+  getNextWithdrawalWindow,
+  getSellerPoolPosition,
+  getSellerPortfolio
+};
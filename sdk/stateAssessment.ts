@@ -0,0 +1,371 @@
+import { BigNumber, ContractReceipt } from "ethers";
+
+import { ProtectionPool__factory } from "../typechain-types/factories/contracts/core/pool/ProtectionPool__factory";
+import { ReferenceLendingPools__factory } from "../typechain-types/factories/contracts/core/pool/ReferenceLendingPools__factory";
+import { IERC20MetadataUpgradeable__factory } from "../typechain-types/factories/@openzeppelin/contracts-upgradeable/token/ERC20/extensions/IERC20MetadataUpgradeable__factory";
+import { CarapaceContracts } from "./contracts";
+import { toCarapaceError } from "./errors";
+import { SECONDS_PER_DAY, formatUnderlying } from "./units";
+
+export type LendingPoolStatusName =
+  | "NotSupported"
+  | "Active"
+  | "LateWithinGracePeriod"
+  | "Late"
+  | "UnderReview"
+  | "Defaulted"
+  | "Expired";
+
+// names of the LendingPoolStatus enum by value
+const LENDING_POOL_STATUSES: LendingPoolStatusName[] = [
+  "NotSupported",
+  "Active",
+  "LateWithinGracePeriod",
+  "Late",
+  "UnderReview",
+  "Defaulted",
+  "Expired"
+];
+
+/**
+ * Status of a lending pool stored in the DefaultStateManager & the status reported by the lending protocol
+ */
+export interface LendingPoolStatusSnapshot {
+  protectionPool: string;
+  lendingPool: string;
+  /// status stored by the last assessment, DefaultStateManager.getLendingPoolStatus
+  status: LendingPoolStatusName;
+  /// current status of the lending protocol, ReferenceLendingPools.assessState
+  reportedStatus: LendingPoolStatusName;
+}
+
+/**
+ * Status transition of a lending pool made by an assessment, amounts are in human-friendly units
+ */
+export interface LendingPoolTransition {
+  protectionPool: string;
+  lendingPool: string;
+  statusBefore: LendingPoolStatusName;
+  /// status reported by the lending protocol at the assessment
+  reportedStatus: LendingPoolStatusName;
+  statusAfter: LendingPoolStatusName;
+  /// capital locked by a LendingPoolLocked event & the snapshot of the sToken balances of the sellers
+  lockedAmount?: string;
+  snapshotId?: number;
+  /// capital released by a LendingPoolUnlocked event
+  unlockedAmount?: string;
+}
+
+export interface StateAssessmentOptions {
+  /// protection pools to assess with assessStateBatch, all registered pools are assessed with assessStates by default
+  protectionPools?: string[];
+  /// true to simulate the assessment with callStatic instead of sending the transaction
+  dryRun?: boolean;
+}
+
+export interface StateAssessmentReport {
+  /// assessed protection pools
+  protectionPools: string[];
+  dryRun: boolean;
+  /// undefined for a dry run
+  receipt?: ContractReceipt;
+  /// transitions of all lending pools of the assessed protection pools, including the unchanged ones
+  transitions: LendingPoolTransition[];
+}
+
+/**
+ * Reads the stored & reported statuses of the lending pools of the protection pools
+ * @param contracts core contracts connected to a provider or a signer
+ * @param protectionPools defaults to all protection pools created by the contract factory
+ */
+const getLendingPoolStatuses = async (
+  contracts: CarapaceContracts,
+  protectionPools?: string[]
+): Promise<LendingPoolStatusSnapshot[]> => {
+  const _provider = contracts.contractFactory.provider;
+  const _pools =
+    protectionPools || (await contracts.contractFactory.getProtectionPools());
+
+  const _snapshots: LendingPoolStatusSnapshot[] = [];
+  for (const _poolAddress of _pools) {
+    const _referenceLendingPools = ReferenceLendingPools__factory.connect(
+      (
+        await ProtectionPool__factory.connect(
+          _poolAddress,
+          _provider
+        ).getPoolInfo()
+      ).referenceLendingPools,
+      _provider
+    );
+    const [_lendingPools, _reportedStatuses] =
+      await _referenceLendingPools.assessState();
+    for (let _i = 0; _i < _lendingPools.length; _i++) {
+      _snapshots.push({
+        protectionPool: _poolAddress,
+        lendingPool: _lendingPools[_i],
+        status:
+          LENDING_POOL_STATUSES[
+            await contracts.defaultStateManager.getLendingPoolStatus(
+              _poolAddress,
+              _lendingPools[_i]
+            )
+          ],
+        reportedStatus: LENDING_POOL_STATUSES[_reportedStatuses[_i]]
+      });
+    }
+  }
+  return _snapshots;
+};
+
+/**
+ * Predicts the status after an assessment, see DefaultStateManager._assessLendingPool
+ * @param isLatePeriodOver true when two payment periods have passed since the lending pool became late
+ */
+const _predictStatus = (
+  status: LendingPoolStatusName,
+  reportedStatus: LendingPoolStatusName,
+  isLatePeriodOver: boolean
+): LendingPoolStatusName => {
+  if (
+    (status === "Active" || status === "LateWithinGracePeriod") &&
+    reportedStatus === "Late"
+  ) {
+    return "Late";
+  }
+  if (status === "Late") {
+    if (isLatePeriodOver && reportedStatus === "Active") {
+      return "Active";
+    }
+    // UnderReview replaces Defaulted until the default state transition is implemented
+    if (isLatePeriodOver && reportedStatus === "Late") {
+      return "UnderReview";
+    }
+    return "Late";
+  }
+  if (
+    status === "UnderReview" ||
+    status === "Defaulted" ||
+    status === "Expired"
+  ) {
+    return status;
+  }
+  return reportedStatus;
+};
+
+const _findTransition = (
+  transitions: LendingPoolTransition[],
+  protectionPool: string,
+  lendingPool: string
+): LendingPoolTransition | undefined =>
+  transitions.find(
+    (transition) =>
+      transition.protectionPool.toLowerCase() ===
+        protectionPool.toLowerCase() &&
+      transition.lendingPool.toLowerCase() === lendingPool.toLowerCase()
+  );
+
+/**
+ * Assesses the states of the lending pools of all registered protection pools or the specified ones,
+ * and reports the status transitions along with the capital locked or unlocked by the assessment.
+ *
+ * A dry run simulates the assessment with callStatic, so it fails like the transaction would,
+ * and predicts the transitions from the statuses reported by the lending protocols.
+ * Capital to lock is simulated for each lending pool separately, while an assessment locks the capital
+ * of the late lending pools of a protection pool one after the other.
+ * @param contracts core contracts connected to a signer with the operator role
+ * @param options
+ */
+const assessLendingPoolStates = async (
+  contracts: CarapaceContracts,
+  options: StateAssessmentOptions = {}
+): Promise<StateAssessmentReport> => {
+  const _defaultStateManager = contracts.defaultStateManager;
+  const _provider = contracts.contractFactory.provider;
+  const _registeredPools = await contracts.contractFactory.getProtectionPools();
+  const _pools = options.protectionPools || _registeredPools;
+  _pools.forEach((pool) => {
+    if (
+      !_registeredPools.some(
+        (registeredPool) => registeredPool.toLowerCase() === pool.toLowerCase()
+      )
+    ) {
+      throw new Error(`Protection pool ${pool} isn't registered`);
+    }
+  });
+
+  // amounts are formatted with the decimals of the underlying token of each protection pool
+  const _decimals: { [protectionPool: string]: number } = {};
+  for (const _poolAddress of _pools) {
+    _decimals[_poolAddress.toLowerCase()] =
+      await IERC20MetadataUpgradeable__factory.connect(
+        (
+          await ProtectionPool__factory.connect(
+            _poolAddress,
+            _provider
+          ).getPoolInfo()
+        ).underlyingToken,
+        _provider
+      ).decimals();
+  }
+  const _formatAmount = (protectionPool: string, amount: BigNumber) =>
+    formatUnderlying(amount, _decimals[protectionPool.toLowerCase()]);
+
+  const _before = await getLendingPoolStatuses(contracts, _pools);
+  if (!options.dryRun) {
+    let _receipt: ContractReceipt;
+    try {
+      _receipt = await (
+        await (options.protectionPools
+          ? _defaultStateManager.assessStateBatch(_pools)
+          : _defaultStateManager.assessStates())
+      ).wait();
+    } catch (error) {
+      throw toCarapaceError(error);
+    }
+
+    const _after = await getLendingPoolStatuses(contracts, _pools);
+    const _transitions: LendingPoolTransition[] = _before.map(
+      (snapshot, index) => ({
+        protectionPool: snapshot.protectionPool,
+        lendingPool: snapshot.lendingPool,
+        statusBefore: snapshot.status,
+        reportedStatus: snapshot.reportedStatus,
+        statusAfter: _after[index].status
+      })
+    );
+    _receipt.logs
+      .filter(
+        (log) =>
+          log.address.toLowerCase() ===
+          _defaultStateManager.address.toLowerCase()
+      )
+      .map((log) => _defaultStateManager.interface.parseLog(log))
+      .filter(
+        (event) =>
+          event.name === "LendingPoolLocked" ||
+          event.name === "LendingPoolUnlocked"
+      )
+      .forEach((event) => {
+        const _transition = _findTransition(
+          _transitions,
+          event.args.protectionPool,
+          event.args.lendingPool
+        )!;
+        const _amount = _formatAmount(
+          _transition.protectionPool,
+          event.args.amount
+        );
+        if (event.name === "LendingPoolLocked") {
+          _transition.lockedAmount = _amount;
+          _transition.snapshotId =
+            event.args.protectionPoolSnapshotId.toNumber();
+        } else {
+          _transition.unlockedAmount = _amount;
+        }
+      });
+
+    return {
+      protectionPools: _pools,
+      dryRun: false,
+      receipt: _receipt,
+      transitions: _transitions
+    };
+  }
+
+  try {
+    await (options.protectionPools
+      ? _defaultStateManager.callStatic.assessStateBatch(_pools)
+      : _defaultStateManager.callStatic.assessStates());
+  } catch (error) {
+    throw toCarapaceError(error);
+  }
+
+  const _timestamp = (await _provider.getBlock("latest")).timestamp;
+  const _transitions: LendingPoolTransition[] = [];
+  for (const _snapshot of _before) {
+    const _protectionPool = ProtectionPool__factory.connect(
+      _snapshot.protectionPool,
+      _provider
+    );
+
+    // lending pool became late at the block of its latest LendingPoolLocked event
+    let _isLatePeriodOver = false;
+    if (_snapshot.status === "Late") {
+      const _lockedEvents = await _defaultStateManager.queryFilter(
+        _defaultStateManager.filters.LendingPoolLocked(
+          _snapshot.lendingPool,
+          _snapshot.protectionPool
+        )
+      );
+      if (_lockedEvents.length === 0) {
+        throw new Error(
+          `LendingPoolLocked event of late lending pool ${_snapshot.lendingPool} in protection pool ${_snapshot.protectionPool} isn't found, the provider must serve the logs since the deployment`
+        );
+      }
+      const _lateTimestamp = (
+        await _lockedEvents[_lockedEvents.length - 1].getBlock()
+      ).timestamp;
+      const _paymentPeriodInDays = await ReferenceLendingPools__factory.connect(
+        (
+          await _protectionPool.getPoolInfo()
+        ).referenceLendingPools,
+        _provider
+      ).getPaymentPeriodInDays(_snapshot.lendingPool);
+      _isLatePeriodOver =
+        _timestamp >
+        _lateTimestamp + _paymentPeriodInDays.toNumber() * 2 * SECONDS_PER_DAY;
+    }
+
+    const _transition: LendingPoolTransition = {
+      protectionPool: _snapshot.protectionPool,
+      lendingPool: _snapshot.lendingPool,
+      statusBefore: _snapshot.status,
+      reportedStatus: _snapshot.reportedStatus,
+      statusAfter: _predictStatus(
+        _snapshot.status,
+        _snapshot.reportedStatus,
+        _isLatePeriodOver
+      )
+    };
+    if (
+      _transition.statusBefore !== "Late" &&
+      _transition.statusAfter === "Late"
+    ) {
+      // only the default state manager can lock the capital
+      const [_lockedAmount, _snapshotId] =
+        await _protectionPool.callStatic.lockCapital(_snapshot.lendingPool, {
+          from: _defaultStateManager.address
+        });
+      _transition.lockedAmount = _formatAmount(
+        _snapshot.protectionPool,
+        _lockedAmount
+      );
+      _transition.snapshotId = _snapshotId.toNumber();
+    } else if (
+      _transition.statusBefore === "Late" &&
+      _transition.statusAfter === "Active"
+    ) {
+      const _lockedCapitals = await _defaultStateManager.getLockedCapitals(
+        _snapshot.protectionPool,
+        _snapshot.lendingPool
+      );
+      _transition.unlockedAmount = _formatAmount(
+        _snapshot.protectionPool,
+        _lockedCapitals[_lockedCapitals.length - 1].amount
+      );
+    }
+    _transitions.push(_transition);
+  }
+
+  return {
+    protectionPools: _pools,
+    dryRun: true,
+    transitions: _transitions
+  };
+};
+
+export {
+  LENDING_POOL_STATUSES,
+  getLendingPoolStatuses,
+  assessLendingPoolStates
+};
@@ -0,0 +1,60 @@
+import { BigNumber, BigNumberish } from "ethers";
+import { formatUnits, parseEther, parseUnits } from "ethers/lib/utils";
+
+const SECONDS_PER_DAY: number = 24 * 60 * 60;
+
+// sTokens & percents (i.e. leverage ratio, risk premium) are scaled to 18 decimals on-chain
+const STOKEN_DECIMALS: number = 18;
+
+/**
+ * Amount in human-friendly units, i.e. "1000.5" USDC
+ */
+export type Amount = string | number;
+
+/**
+ * Converts the amount of underlying tokens, i.e. "1000.5" USDC, to on-chain units
+ * @param amount
+ * @param decimals decimals of the underlying token, i.e. 6 for USDC
+ */
+const parseUnderlying = (amount: Amount, decimals: number): BigNumber => {
+  return parseUnits(amount.toString(), decimals);
+};
+
+const formatUnderlying = (amount: BigNumberish, decimals: number): string => {
+  return formatUnits(amount, decimals);
+};
+
+const parseSToken = (amount: Amount): BigNumber => {
+  return parseUnits(amount.toString(), STOKEN_DECIMALS);
+};
+
+const formatSToken = (amount: BigNumberish): string => {
+  return formatUnits(amount, STOKEN_DECIMALS);
+};
+
+/**
+ * Converts the percent expressed as a fraction, i.e. "0.05" for 5%, to 18 decimals
+ */
+const parsePercent = (percent: Amount): BigNumber => {
+  return parseEther(percent.toString());
+};
+
+const formatPercent = (percent: BigNumberish): string => {
+  return formatUnits(percent, 18);
+};
+
+const daysToSeconds = (days: number): BigNumber => {
+  return BigNumber.from(Math.round(days * SECONDS_PER_DAY));
+};
+
+export {
+  SECONDS_PER_DAY,
+  STOKEN_DECIMALS,
+  parseUnderlying,
+  formatUnderlying,
+  parseSToken,
+  formatSToken,
+  parsePercent,
+  formatPercent,
+  daysToSeconds
+};
@@ -0,0 +1,228 @@
+import { BigNumber } from "ethers";
+
+import { ProtectionPoolCycleStructOutput } from "../typechain-types/contracts/core/ProtectionPoolCycleManager";
+import { ProtectionPool__factory } from "../typechain-types/factories/contracts/core/pool/ProtectionPool__factory";
+import { CarapaceContracts } from "./contracts";
+import {
+  WITHDRAWAL_CYCLE_OFFSET,
+  WithdrawalWindow,
+  getWithdrawalWindow
+} from "./sellerPortfolio";
+import { Amount, formatSToken, parseSToken } from "./units";
+
+export type PoolCycleState = "Open" | "Locked";
+
+/**
+ * Withdrawal request of a seller for a cycle, sToken amounts are in human-friendly units
+ */
+export interface PlannedWithdrawalRequest {
+  withdrawalCycleIndex: number;
+  sTokenAmount: string;
+  window: WithdrawalWindow;
+}
+
+export interface WithdrawalPlanOptions {
+  /// timestamp of the withdrawal request in seconds, defaults to the latest block
+  requestTimestamp?: number;
+  /// sTokens to request, defaults to the max amount the seller can request
+  sTokenAmount?: Amount;
+  /// sTokens transferred by the seller after the request
+  transferAmount?: Amount;
+}
+
+/**
+ * Plan of a withdrawal request, timestamps are in seconds since unix epoch.
+ * Cycles after the current one assume that each cycle is renewed as soon as it ends.
+ */
+export interface WithdrawalPlan {
+  protectionPool: string;
+  seller: string;
+  requestTimestamp: number;
+  /// cycle the request is made in & its state at the request timestamp
+  requestCycleIndex: number;
+  requestCycleState: PoolCycleState;
+  /// true when the pool cycle has to be updated before the request, i.e. by a withdrawal,
+  /// a protection purchase or ProtectionPoolCycleManager.calculateAndSetPoolCycleState,
+  /// otherwise the request applies to the stale cycle index stored in the cycle manager
+  requiresCycleUpdate: boolean;
+  /// withdrawal is allowed in the open period of the cycle after the next cycle of the request
+  withdrawalCycleIndex: number;
+  withdrawalWindow: WithdrawalWindow;
+  sTokenBalance: string;
+  /// max amount of sTokens which can be requested, balance minus the requests of the request cycle & the next one
+  maxSTokenAmount: string;
+  sTokenAmount: string;
+  /// requests of the request cycle & the next two cycles including the planned request
+  requests: PlannedWithdrawalRequest[];
+  /// requests after the transfer of `transferAmount` sTokens, undefined when there is no transfer
+  requestsAfterTransfer?: PlannedWithdrawalRequest[];
+}
+
+/**
+ * Caps the withdrawal requests to the sToken balance after a transfer, see ProtectionPool._afterTokenTransfer.
+ * Requests are capped starting from the earliest cycle, so the later requests shrink first.
+ * @param requests requests of the current cycle & the next two cycles ordered by cycle index
+ * @param balanceAfterTransfer sToken balance of the seller after the transfer
+ */
+const applySTokenTransfer = <T extends { sTokenAmount: BigNumber }>(
+  requests: T[],
+  balanceAfterTransfer: BigNumber
+): T[] => {
+  let _totalWithdrawalAllowed = balanceAfterTransfer;
+  return requests.map((request) => {
+    const _newAmount = request.sTokenAmount.lt(_totalWithdrawalAllowed)
+      ? request.sTokenAmount
+      : _totalWithdrawalAllowed;
+    _totalWithdrawalAllowed = _totalWithdrawalAllowed.sub(_newAmount);
+    return { ...request, sTokenAmount: _newAmount };
+  });
+};
+
+/**
+ * Projects the cycle index & state at the timestamp from the current cycle of the pool.
+ * Cycle manager moves to a new cycle when more than the cycle duration has passed since the cycle start.
+ */
+const _projectPoolCycle = (
+  poolCycle: ProtectionPoolCycleStructOutput,
+  timestamp: number
+): { cycleIndex: number; state: PoolCycleState } => {
+  const _cycleDuration = poolCycle.params.cycleDuration.toNumber();
+  const _currentCycleStartTime = poolCycle.currentCycleStartTime.toNumber();
+  const _elapsed = timestamp - _currentCycleStartTime;
+  if (_elapsed < 0) {
+    throw new Error(
+      `Request timestamp ${timestamp} is before the start of the current cycle ${_currentCycleStartTime}`
+    );
+  }
+
+  const _cyclesAhead =
+    _elapsed > 0 ? Math.floor((_elapsed - 1) / _cycleDuration) : 0;
+  const _cycleStartTime =
+    _currentCycleStartTime + _cyclesAhead * _cycleDuration;
+  return {
+    cycleIndex: poolCycle.currentCycleIndex.toNumber() + _cyclesAhead,
+    state:
+      timestamp - _cycleStartTime >
+      poolCycle.params.openCycleDuration.toNumber()
+        ? "Locked"
+        : "Open"
+  };
+};
+
+/**
+ * Plans a withdrawal request of the seller: the cycle the request applies to,
+ * the window in which `withdraw` succeeds & how the requests shrink when the seller transfers sTokens.
+ * @param contracts core contracts connected to a provider or a signer
+ * @param protectionPoolAddress address of the protection pool
+ * @param seller address of the protection seller
+ * @param options
+ */
+const planWithdrawal = async (
+  contracts: CarapaceContracts,
+  protectionPoolAddress: string,
+  seller: string,
+  options: WithdrawalPlanOptions = {}
+): Promise<WithdrawalPlan> => {
+  const _provider = contracts.contractFactory.provider;
+  const _pool = ProtectionPool__factory.connect(
+    protectionPoolAddress,
+    _provider
+  );
+  const [_latestBlock, _poolCycle, _balance] = await Promise.all([
+    _provider.getBlock("latest"),
+    contracts.protectionPoolCycleManager.getCurrentPoolCycle(
+      protectionPoolAddress
+    ),
+    _pool.balanceOf(seller)
+  ]);
+  const _requestTimestamp = options.requestTimestamp ?? _latestBlock.timestamp;
+
+  const _requestCycle = _projectPoolCycle(_poolCycle, _requestTimestamp);
+  const _withdrawalCycleIndex =
+    _requestCycle.cycleIndex + WITHDRAWAL_CYCLE_OFFSET;
+
+  // requests of the request cycle & the next two cycles, requested amount is read for msg.sender
+  const _requests: { withdrawalCycleIndex: number; sTokenAmount: BigNumber }[] =
+    [];
+  for (let _i = 0; _i <= WITHDRAWAL_CYCLE_OFFSET; _i++) {
+    const _cycleIndex = _requestCycle.cycleIndex + _i;
+    _requests.push({
+      withdrawalCycleIndex: _cycleIndex,
+      sTokenAmount: await _pool.getRequestedWithdrawalAmount(_cycleIndex, {
+        from: seller
+      })
+    });
+  }
+
+  // request replaces the existing request of the withdrawal cycle, see ProtectionPool._requestWithdrawal
+  const _pendingAmount = _requests[0].sTokenAmount.add(
+    _requests[1].sTokenAmount
+  );
+  const _maxAmount = _balance.gt(_pendingAmount)
+    ? _balance.sub(_pendingAmount)
+    : BigNumber.from(0);
+  const _amount =
+    options.sTokenAmount !== undefined
+      ? parseSToken(options.sTokenAmount)
+      : _maxAmount;
+  if (_amount.gt(_maxAmount)) {
+    throw new Error(
+      `Requested ${formatSToken(
+        _amount
+      )} sTokens exceed the max request of ${formatSToken(_maxAmount)} sTokens`
+    );
+  }
+  _requests[WITHDRAWAL_CYCLE_OFFSET].sTokenAmount = _amount;
+
+  const _toPlannedRequests = (
+    requests: { withdrawalCycleIndex: number; sTokenAmount: BigNumber }[]
+  ): PlannedWithdrawalRequest[] =>
+    requests.map((request) => ({
+      withdrawalCycleIndex: request.withdrawalCycleIndex,
+      sTokenAmount: formatSToken(request.sTokenAmount),
+      window: getWithdrawalWindow(
+        _poolCycle,
+        request.withdrawalCycleIndex,
+        _requestTimestamp
+      )
+    }));
+
+  let _requestsAfterTransfer: PlannedWithdrawalRequest[] | undefined;
+  if (options.transferAmount !== undefined) {
+    const _transferAmount = parseSToken(options.transferAmount);
+    if (_transferAmount.gt(_balance)) {
+      throw new Error(
+        `Transfer of ${formatSToken(
+          _transferAmount
+        )} sTokens exceeds the balance of ${formatSToken(_balance)} sTokens`
+      );
+    }
+    _requestsAfterTransfer = _toPlannedRequests(
+      applySTokenTransfer(_requests, _balance.sub(_transferAmount))
+    );
+  }
+
+  return {
+    protectionPool: protectionPoolAddress,
+    seller,
+    requestTimestamp: _requestTimestamp,
+    requestCycleIndex: _requestCycle.cycleIndex,
+    requestCycleState: _requestCycle.state,
+    requiresCycleUpdate: !_poolCycle.currentCycleIndex.eq(
+      _requestCycle.cycleIndex
+    ),
+    withdrawalCycleIndex: _withdrawalCycleIndex,
+    withdrawalWindow: getWithdrawalWindow(
+      _poolCycle,
+      _withdrawalCycleIndex,
+      _requestTimestamp
+    ),
+    sTokenBalance: formatSToken(_balance),
+    maxSTokenAmount: formatSToken(_maxAmount),
+    sTokenAmount: formatSToken(_amount),
+    requests: _toPlannedRequests(_requests),
+    requestsAfterTransfer: _requestsAfterTransfer
+  };
+};
+
+export { applySTokenTransfer, planWithdrawal };
@@ -0,0 +1,50 @@
+import { task } from "hardhat/config";
+
+/**
+ * Task to inspect the wiring of a deployment described by the address book `deployments/<network>.json`.
+ * Each invariant is reported as passed or failed and the task exits with a non-zero code on any failure,
+ * so that it can be used right after `deploy:manifest` or in CI.
+ */
+task(
+  "check:deployment",
+  "Checks the wiring of the deployed contracts and reports each invariant as passed or failed"
+)
+  .addOptionalParam(
+    "owner",
+    "Expected owner of all contracts, defaults to the deployer in the address book"
+  )
+  .setAction(async ({ owner }, hre) => {
+    // deployment utils depend on the hardhat runtime environment,
+    // so they can't be imported while the hardhat config is being loaded
+    const { readAddressBook, getAddressBookPath } = await import(
+      "../utils/addressBook"
+    );
+    const { checkDeployment } = await import("../utils/healthCheck");
+
+    const addressBook = readAddressBook(hre.network.name);
+    if (!addressBook) {
+      throw new Error(
+        `Address book ${getAddressBookPath(hre.network.name)} doesn't exist`
+      );
+    }
+
+    const results = await checkDeployment(addressBook, { owner });
+    results.forEach((result) => {
+      console.log(
+        "%s %s%s",
+        result.passed ? "PASS" : "FAIL",
+        result.name,
+        result.details ? ` (${result.details})` : ""
+      );
+    });
+
+    const failures = results.filter((result) => !result.passed).length;
+    console.log(
+      "\n%s of %s checks passed",
+      results.length - failures,
+      results.length
+    );
+    if (failures > 0) {
+      process.exitCode = 1;
+    }
+  });
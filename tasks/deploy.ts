@@ -0,0 +1,41 @@
+import * as fs from "fs";
+import { task, types } from "hardhat/config";
+
+/**
+ * Task to deploy all contracts described in a JSON/YAML deployment manifest.
+ * Address book with all deployed addresses is written to `deployments/<network>.json`.
+ * Example manifests can be found in `deployments/manifests`.
+ * Interrupted deployment is resumed when the task is rerun with the same manifest, unless `--reset` flag is specified.
+ */
+task(
+  "deploy:manifest",
+  "Deploys the contracts described in the deployment manifest and writes the address book"
+)
+  .addParam(
+    "manifest",
+    "Path to the deployment manifest (.json, .yaml or .yml)",
+    undefined,
+    types.inputFile
+  )
+  .addFlag(
+    "reset",
+    "Discards the state of the previous deployment and deploys all contracts again"
+  )
+  .setAction(async ({ manifest, reset }, hre) => {
+    // deploy utils depend on the hardhat runtime environment,
+    // so they can't be imported while the hardhat config is being loaded
+    const { deployContractsFromManifest } = await import("../utils/deploy");
+    const { DEPLOYMENTS_DIR } = await import("../utils/addressBook");
+    const { getDeploymentStatePath } = await import("../utils/deploymentState");
+
+    const statePath = getDeploymentStatePath(hre.network.name, DEPLOYMENTS_DIR);
+    if (reset && fs.existsSync(statePath)) {
+      fs.unlinkSync(statePath);
+      console.log("Removed the deployment state:", statePath);
+    }
+
+    const result = await deployContractsFromManifest(manifest);
+    if (!result.success) {
+      throw new Error(`Deployment using the manifest ${manifest} failed`);
+    }
+  });
@@ -0,0 +1,75 @@
+import * as fs from "fs";
+import * as path from "path";
+import { hexValue } from "ethers/lib/utils";
+import { task, types } from "hardhat/config";
+
+/**
+ * Task to record the mainnet state touched by the tests into a fixture, which is committed
+ * & replayed with `REPLAY_FORK_STATE=true` so that the tests run against the real mainnet contracts without an RPC provider.
+ * The tests run against the pinned fork block through a local proxy, which records the state fetched by the hardhat network.
+ * The fixture is written to FORK_STATE_FIXTURE or test/fixtures/forkState.json, the path replayed by `REPLAY_FORK_STATE=true`.
+ */
+task(
+  "record:fork-state",
+  "Runs the tests against the mainnet fork and records the mainnet state touched by them into a fixture"
+)
+  .addOptionalParam(
+    "port",
+    "Port of the local recording proxy",
+    8546,
+    types.int
+  )
+  .setAction(async ({ port }, hre) => {
+    const {
+      getForkStateFixturePath,
+      startForkStateRecorder,
+      writeForkStateFixture
+    } = await import("../utils/forkState");
+
+    const forking = hre.config.networks.hardhat.forking;
+    if (!forking || !forking.enabled || forking.blockNumber === undefined) {
+      console.error(
+        "Recording the fork state requires forking from a pinned block, unset OFFLINE_TESTS & REPLAY_FORK_STATE"
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    const recorder = await startForkStateRecorder(forking.url, port);
+    // the hardhat network isn't initialized yet, so it forks through the recorder
+    forking.url = recorder.url;
+    // responses cached by previous runs aren't fetched again, so they wouldn't be recorded
+    fs.rmSync(path.join(hre.config.paths.cache, "hardhat-network-fork"), {
+      recursive: true,
+      force: true
+    });
+
+    let failures: number;
+    let forkBlock: { timestamp: string };
+    try {
+      failures = await hre.run("test");
+      forkBlock = await hre.network.provider.send("eth_getBlockByNumber", [
+        hexValue(forking.blockNumber),
+        false
+      ]);
+    } finally {
+      await recorder.stop();
+    }
+    if (failures > 0) {
+      console.error("Tests failed, the fork state isn't recorded");
+      process.exitCode = 1;
+      return;
+    }
+
+    const recorded = recorder.getFixture(
+      forking.blockNumber,
+      parseInt(forkBlock.timestamp)
+    );
+    writeForkStateFixture(recorded);
+    console.log(
+      "Recorded the state of %s accounts at block %s into %s",
+      Object.keys(recorded.accounts).length,
+      recorded.blockNumber,
+      getForkStateFixturePath()
+    );
+  });
@@ -0,0 +1,195 @@
+import * as path from "path";
+import { task, types } from "hardhat/config";
+
+/**
+ * Task to index the events of the contracts in the address book `deployments/<network>.json`
+ * into the indexer database. Rerunning the task resumes from the block after the stored checkpoint.
+ */
+task(
+  "index:events",
+  "Indexes the events of the deployed protection pools into a local SQLite database"
+)
+  .addOptionalParam(
+    "database",
+    "Path of the database file, defaults to indexer/data/<network>.sqlite"
+  )
+  .addOptionalParam(
+    "toBlock",
+    "Last block to index, defaults to the latest block",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "batchSize",
+    "Max number of blocks requested with a single eth_getLogs call",
+    2000,
+    types.int
+  )
+  .addOptionalParam(
+    "confirmationDepth",
+    "Number of confirmations after which a block is considered final, events of reorganized blocks within this depth are rolled back",
+    12,
+    types.int
+  )
+  .setAction(
+    async ({ database, toBlock, batchSize, confirmationDepth }, hre) => {
+      // address book & indexer depend on the typechain types generated by the compilation,
+      // so they can't be imported while the hardhat config is being loaded
+      const { readAddressBook, getAddressBookPath } = await import(
+        "../utils/addressBook"
+      );
+      const { openIndexerDatabase, createEventIndexer, getIndexedContracts } =
+        await import("../indexer");
+
+      const addressBook = readAddressBook(hre.network.name);
+      if (!addressBook) {
+        throw new Error(
+          `Address book ${getAddressBookPath(hre.network.name)} doesn't exist`
+        );
+      }
+
+      const indexerDatabase = await openIndexerDatabase(
+        database ||
+          path.join(
+            __dirname,
+            "..",
+            "indexer",
+            "data",
+            `${hre.network.name}.sqlite`
+          )
+      );
+      try {
+        const { contracts, startBlock } = getIndexedContracts(addressBook);
+        const result = await createEventIndexer({
+          provider: hre.ethers.provider,
+          database: indexerDatabase,
+          contracts,
+          startBlock,
+          batchSize,
+          confirmationDepth
+        }).indexTo(toBlock);
+
+        if (result.rolledBackTo !== undefined) {
+          console.log(
+            "Chain was reorganized, rolled back the events after block %s",
+            result.rolledBackTo
+          );
+        }
+        console.log(
+          "Indexed %s events from block %s to %s into %s",
+          result.eventCount,
+          result.fromBlock,
+          result.toBlock,
+          indexerDatabase.filePath
+        );
+      } finally {
+        indexerDatabase.close();
+      }
+    }
+  );
+
+/**
+ * Task to serve the GraphQL API over the indexer database,
+ * while indexing the new blocks at the specified poll interval.
+ */
+task(
+  "graphql:serve",
+  "Serves a GraphQL API over the indexed events, indexing the new blocks in the background"
+)
+  .addOptionalParam(
+    "database",
+    "Path of the database file, defaults to indexer/data/<network>.sqlite"
+  )
+  .addOptionalParam("port", "Port to listen on", 4000, types.int)
+  .addOptionalParam(
+    "pollInterval",
+    "Interval in seconds to index the new blocks, 0 disables indexing",
+    15,
+    types.int
+  )
+  .addOptionalParam(
+    "confirmationDepth",
+    "Number of confirmations after which a block is considered final",
+    12,
+    types.int
+  )
+  .setAction(
+    async ({ database, port, pollInterval, confirmationDepth }, hre) => {
+      const { readAddressBook, getAddressBookPath } = await import(
+        "../utils/addressBook"
+      );
+      const {
+        openIndexerDatabase,
+        createEventIndexer,
+        getIndexedContracts,
+        startGraphQLServer
+      } = await import("../indexer");
+
+      const addressBook = readAddressBook(hre.network.name);
+      if (!addressBook) {
+        throw new Error(
+          `Address book ${getAddressBookPath(hre.network.name)} doesn't exist`
+        );
+      }
+
+      const indexerDatabase = await openIndexerDatabase(
+        database ||
+          path.join(
+            __dirname,
+            "..",
+            "indexer",
+            "data",
+            `${hre.network.name}.sqlite`
+          )
+      );
+      const { contracts, startBlock } = getIndexedContracts(addressBook);
+      const indexer = createEventIndexer({
+        provider: hre.ethers.provider,
+        database: indexerDatabase,
+        contracts,
+        startBlock,
+        confirmationDepth
+      });
+
+      const _index = async () => {
+        try {
+          const result = await indexer.indexTo();
+          if (result.eventCount > 0 || result.rolledBackTo !== undefined) {
+            console.log(
+              "Indexed %s events up to block %s",
+              result.eventCount,
+              result.toBlock
+            );
+          }
+        } catch (error: any) {
+          console.error("Indexing failed: %s", error.message);
+        }
+      };
+
+      if (pollInterval > 0) {
+        await _index();
+      }
+      const server = await startGraphQLServer({
+        database: indexerDatabase,
+        provider: hre.ethers.provider,
+        port
+      });
+      console.log("GraphQL API is served at %s", server.url);
+
+      // indexes the new blocks until the process is stopped
+      await new Promise<void>((resolve) => {
+        const _timer =
+          pollInterval > 0
+            ? setInterval(_index, pollInterval * 1000)
+            : undefined;
+        process.once("SIGINT", async () => {
+          if (_timer) {
+            clearInterval(_timer);
+          }
+          await server.close();
+          indexerDatabase.close();
+          resolve();
+        });
+      });
+    }
+  );
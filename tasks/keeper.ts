@@ -0,0 +1,203 @@
+import * as path from "path";
+import { task, types } from "hardhat/config";
+
+import { connectContracts, formatTimestamp, runTaskAction } from "./utils";
+
+const _defaultHistoryPath = (network: string) =>
+  path.join(__dirname, "..", "keeper", "data", `${network}.sqlite`);
+
+/**
+ * Task to run the operator jobs on their schedules until the process is stopped.
+ * Runs are recorded in the keeper history, so a restarted keeper resumes the schedules.
+ */
+task(
+  "keeper:run",
+  "Runs assessStates, accruePremiumAndExpireProtections & calculateAndSetPoolCycleState on their schedules"
+)
+  .addOptionalParam(
+    "history",
+    "Path of the run history database, defaults to keeper/data/<network>.sqlite"
+  )
+  .addOptionalParam("jobs", "Comma separated jobs to run, defaults to all jobs")
+  .addOptionalParam(
+    "assessInterval",
+    "Seconds between the runs of assessStates, defaults to 3600",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "accrueInterval",
+    "Seconds between the runs of accruePremiumAndExpireProtections, defaults to 86400",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "cycleInterval",
+    "Seconds between the runs of calculateAndSetPoolCycleState, defaults to 3600",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "batchSize",
+    "Max number of lending pools assessed or accrued by a transaction",
+    20,
+    types.int
+  )
+  .addOptionalParam(
+    "pollInterval",
+    "Seconds between the checks for due jobs",
+    60,
+    types.int
+  )
+  .addOptionalParam(
+    "maxAttempts",
+    "Max number of times a transaction is sent, including the replacements with bumped fees",
+    3,
+    types.int
+  )
+  .addOptionalParam(
+    "gasBump",
+    "Percent by which the fees of a replacement transaction are increased",
+    20,
+    types.int
+  )
+  .addOptionalParam(
+    "confirmationTimeout",
+    "Seconds to wait for a transaction to be mined before it is replaced",
+    120,
+    types.int
+  )
+  .addOptionalParam(
+    "operator",
+    "Address of the signer with the operator role, defaults to the operator in the address book"
+  )
+  .addFlag("once", "Run the due jobs once & exit")
+  .setAction(async (args, hre) => {
+    await runTaskAction(async () => {
+      const {
+        openKeeperHistory,
+        createTransactionSender,
+        createKeeper,
+        parseKeeperJobs
+      } = await import("../keeper");
+
+      const _jobs = parseKeeperJobs(
+        args.jobs,
+        {
+          assessStates: args.assessInterval,
+          accruePremiumAndExpireProtections: args.accrueInterval,
+          calculateAndSetPoolCycleState: args.cycleInterval
+        },
+        args.batchSize
+      );
+
+      const { addressBook, contracts } = await connectContracts(hre);
+      const _operator = await hre.ethers.getSigner(
+        args.operator || addressBook.operator
+      );
+      const sender = createTransactionSender({
+        signer: _operator,
+        maxAttempts: args.maxAttempts,
+        gasBumpPercent: args.gasBump,
+        confirmationTimeout: args.confirmationTimeout
+      });
+      const history = await openKeeperHistory(
+        args.history || _defaultHistoryPath(hre.network.name)
+      );
+
+      const keeper = createKeeper({
+        contracts,
+        sender,
+        history,
+        jobs: _jobs,
+        onRun: (run) => {
+          console.log(
+            "%s %s at %s (run %s)",
+            run.job,
+            run.status,
+            formatTimestamp(run.timestamp),
+            run.id
+          );
+          if (run.error) {
+            console.error("  Error: %s", run.error);
+          }
+          run.transactions.forEach((transaction) => {
+            console.log(
+              "  %s %s%s%s",
+              transaction.status,
+              transaction.description,
+              transaction.transactionHash
+                ? ` in tx ${transaction.transactionHash} (block ${transaction.blockNumber}, attempt ${transaction.attempts})`
+                : "",
+              transaction.error ? `: ${transaction.error}` : ""
+            );
+          });
+        },
+        onError: (error) =>
+          console.error("Checking the due jobs failed: %s", error.message)
+      });
+
+      console.log(
+        "Keeper is running %s as %s, history is stored in %s",
+        Object.keys(_jobs).join(", "),
+        _operator.address,
+        history.filePath
+      );
+      try {
+        if (args.once) {
+          await keeper.runDueJobs();
+          return;
+        }
+
+        // runs the due jobs until the process is stopped
+        await new Promise<void>((resolve) => {
+          keeper.start(args.pollInterval);
+          process.once("SIGINT", async () => {
+            await keeper.stop();
+            resolve();
+          });
+        });
+      } finally {
+        history.close();
+      }
+    });
+  });
+
+/**
+ * Task to print the latest runs of the keeper jobs
+ */
+task("keeper:history", "Prints the latest runs of the keeper jobs")
+  .addOptionalParam(
+    "history",
+    "Path of the run history database, defaults to keeper/data/<network>.sqlite"
+  )
+  .addOptionalParam("job", "Prints the runs of this job only")
+  .addOptionalParam("limit", "Number of runs to print", 20, types.int)
+  .setAction(async ({ history, job, limit }, hre) => {
+    await runTaskAction(async () => {
+      const { openKeeperHistory } = await import("../keeper");
+
+      const _history = await openKeeperHistory(
+        history || _defaultHistoryPath(hre.network.name)
+      );
+      try {
+        console.table(
+          _history.getRuns({ job, limit }).map((run) => ({
+            id: run.id,
+            job: run.job,
+            timestamp: formatTimestamp(run.timestamp),
+            status: run.status,
+            sent: run.transactions.filter(
+              (transaction) => transaction.status !== "skipped"
+            ).length,
+            failed: run.transactions.filter(
+              (transaction) => transaction.status === "failed"
+            ).length,
+            error: run.error ?? ""
+          }))
+        );
+      } finally {
+        _history.close();
+      }
+    });
+  });
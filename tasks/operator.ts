@@ -0,0 +1,80 @@
+import { task } from "hardhat/config";
+
+import { connectContracts, runTaskAction } from "./utils";
+
+/**
+ * Task to assess the states of the lending pools & report the status transitions made by the assessment
+ */
+task(
+  "operator:assess",
+  "Assesses the states of the lending pools of the protection pools and prints the status transitions"
+)
+  .addOptionalParam(
+    "pools",
+    "Comma separated addresses or names of the protection pools to assess with assessStateBatch, defaults to all pools"
+  )
+  .addOptionalParam(
+    "operator",
+    "Address of the signer with the operator role, defaults to the operator in the address book"
+  )
+  .addFlag(
+    "dryRun",
+    "Simulate the assessment with callStatic & predict the transitions without sending the transaction"
+  )
+  .setAction(async ({ pools, operator, dryRun }, hre) => {
+    await runTaskAction(async () => {
+      const { assessLendingPoolStates } = await import("../sdk");
+      const { findProtectionPools } = await import("../utils/addressBook");
+
+      const { addressBook } = await connectContracts(hre);
+      const _operator = await hre.ethers.getSigner(
+        operator || addressBook.operator
+      );
+      const { contracts } = await connectContracts(hre, _operator);
+      const _protectionPools: string[] | undefined =
+        pools &&
+        findProtectionPools(addressBook, pools).map((pool) => pool.proxy);
+
+      const report = await assessLendingPoolStates(contracts, {
+        protectionPools: _protectionPools,
+        dryRun
+      });
+
+      const _method = _protectionPools ? "assessStateBatch" : "assessStates";
+      if (report.receipt) {
+        console.log(
+          "%s sent by %s in tx %s (block %s)",
+          _method,
+          await _operator.getAddress(),
+          report.receipt.transactionHash,
+          report.receipt.blockNumber
+        );
+      } else {
+        console.log(
+          "Dry run of %s by %s succeeded, transitions are predicted from the statuses reported by the lending protocols",
+          _method,
+          await _operator.getAddress()
+        );
+      }
+
+      const _poolNames: { [address: string]: string } = {};
+      addressBook.protectionPools.forEach((pool) => {
+        _poolNames[pool.proxy.toLowerCase()] = pool.name;
+      });
+      console.table(
+        report.transitions.map((transition) => ({
+          pool:
+            _poolNames[transition.protectionPool.toLowerCase()] ||
+            transition.protectionPool,
+          lendingPool: transition.lendingPool,
+          before: transition.statusBefore,
+          reported: transition.reportedStatus,
+          after: transition.statusAfter,
+          changed: transition.statusBefore !== transition.statusAfter,
+          locked: transition.lockedAmount ?? "",
+          snapshotId: transition.snapshotId ?? "",
+          unlocked: transition.unlockedAmount ?? ""
+        }))
+      );
+    });
+  });
@@ -0,0 +1,306 @@
+import { task } from "hardhat/config";
+
+import {
+  ConnectedPool,
+  connectPool,
+  formatTimestamp,
+  runTaskAction
+} from "./utils";
+
+/**
+ * Prints the sToken balance, pending withdrawal requests & claimable capital of the seller in the pool
+ */
+const _printPosition = async (pool: ConnectedPool) => {
+  const { getSellerPoolPosition } = await import("../sdk");
+
+  const position = await getSellerPoolPosition(
+    pool.contracts,
+    pool.poolAddress,
+    pool.signerAddress
+  );
+  console.log(
+    "sToken balance of %s: %s (%s %s), claimable unlocked capital: %s %s",
+    pool.signerAddress,
+    position.sTokenBalance,
+    position.underlyingBalance,
+    position.underlyingSymbol,
+    position.claimableUnlockedCapital,
+    position.underlyingSymbol
+  );
+  if (position.pendingWithdrawalRequests.length > 0) {
+    console.table(
+      position.pendingWithdrawalRequests.map((request) => ({
+        cycle: request.withdrawalCycleIndex,
+        sTokens: request.sTokenAmount,
+        opensAt: formatTimestamp(request.window.opensAt),
+        closesAt: formatTimestamp(request.window.closesAt)
+      }))
+    );
+  } else {
+    console.log("No pending withdrawal requests");
+  }
+};
+
+/**
+ * Task to deposit underlying tokens into a protection pool in exchange for sTokens
+ */
+task("pool:deposit", "Deposits underlying tokens into a protection pool")
+  .addParam("pool", "Address or name of the protection pool")
+  .addParam("amount", "Amount in underlying tokens, i.e. 1000.5 USDC")
+  .addOptionalParam(
+    "receiver",
+    "Receiver of the sTokens, defaults to the first signer"
+  )
+  .setAction(async ({ pool, amount, receiver }, hre) => {
+    await runTaskAction(async () => {
+      const _pool = await connectPool(hre, pool);
+      const result = await _pool.client.deposit(amount, receiver);
+      console.log(
+        "Deposited %s, minted %s sTokens to %s",
+        result.protectionAmount,
+        result.sTokenShares,
+        result.receiver
+      );
+      await _printPosition(_pool);
+    });
+  });
+
+/**
+ * Task to request a withdrawal, which can be made in the open period of the cycle after the next cycle
+ */
+task(
+  "pool:request-withdrawal",
+  "Requests a withdrawal from a protection pool, the withdrawal can be made in the cycle after the next cycle"
+)
+  .addParam("pool", "Address or name of the protection pool")
+  .addOptionalParam(
+    "amount",
+    "Amount in underlying tokens, converted to sTokens at the current exchange rate"
+  )
+  .addOptionalParam("sTokens", "Amount in sTokens instead of underlying tokens")
+  .setAction(async ({ pool, amount, sTokens }, hre) => {
+    await runTaskAction(async () => {
+      const { resolveSTokenAmount } = await import("../sdk");
+      const _pool = await connectPool(hre, pool);
+      const sTokenAmount = await resolveSTokenAmount(
+        _pool.client,
+        amount,
+        sTokens
+      );
+      if (sTokenAmount === undefined) {
+        throw new Error("Amount of the withdrawal request isn't specified");
+      }
+
+      const result = await _pool.client.requestWithdrawal(sTokenAmount);
+      console.log(
+        "Requested withdrawal of %s sTokens in cycle %s",
+        result.sTokenAmount,
+        result.withdrawalCycleIndex
+      );
+      await _printPosition(_pool);
+    });
+  });
+
+/**
+ * Task to withdraw the sTokens requested for the current cycle
+ */
+task(
+  "pool:withdraw",
+  "Withdraws the sTokens requested for the current cycle from a protection pool"
+)
+  .addParam("pool", "Address or name of the protection pool")
+  .addOptionalParam(
+    "amount",
+    "Amount in underlying tokens, converted to sTokens at the current exchange rate, defaults to the requested amount"
+  )
+  .addOptionalParam("sTokens", "Amount in sTokens instead of underlying tokens")
+  .addOptionalParam(
+    "receiver",
+    "Receiver of the underlying tokens, defaults to the first signer"
+  )
+  .setAction(async ({ pool, amount, sTokens, receiver }, hre) => {
+    await runTaskAction(async () => {
+      const { resolveSTokenAmount, formatSToken } = await import("../sdk");
+      const _pool = await connectPool(hre, pool);
+      let sTokenAmount = await resolveSTokenAmount(
+        _pool.client,
+        amount,
+        sTokens
+      );
+      if (sTokenAmount === undefined) {
+        sTokenAmount = formatSToken(
+          await _pool.client.protectionPool.getCurrentRequestedWithdrawalAmount(
+            { from: _pool.signerAddress }
+          )
+        );
+      }
+
+      const result = await _pool.client.withdraw(sTokenAmount, receiver);
+      console.log(
+        "Withdrew %s sTokens for %s underlying tokens to %s",
+        result.sTokenAmount,
+        result.underlyingAmount,
+        result.receiver
+      );
+      await _printPosition(_pool);
+    });
+  });
+
+/**
+ * Task to deposit & request a withdrawal in a single transaction
+ */
+task(
+  "pool:deposit-and-request",
+  "Deposits underlying tokens into a protection pool and requests a withdrawal in a single transaction"
+)
+  .addParam("pool", "Address or name of the protection pool")
+  .addParam("amount", "Amount to deposit in underlying tokens")
+  .addOptionalParam(
+    "withdrawalAmount",
+    "Amount to request in underlying tokens, converted to sTokens at the current exchange rate, defaults to the deposit amount"
+  )
+  .addOptionalParam(
+    "withdrawalSTokens",
+    "Amount to request in sTokens instead of underlying tokens"
+  )
+  .setAction(
+    async ({ pool, amount, withdrawalAmount, withdrawalSTokens }, hre) => {
+      await runTaskAction(async () => {
+        const { resolveSTokenAmount } = await import("../sdk");
+        const _pool = await connectPool(hre, pool);
+        // withdrawal of the deposited amount by default
+        const sTokenAmount = await resolveSTokenAmount(
+          _pool.client,
+          withdrawalAmount,
+          withdrawalSTokens,
+          amount
+        );
+        if (sTokenAmount === undefined) {
+          throw new Error("Amount of the withdrawal request isn't specified");
+        }
+
+        const result = await _pool.client.depositAndRequestWithdrawal(
+          amount,
+          sTokenAmount
+        );
+        console.log(
+          "Deposited %s, minted %s sTokens & requested withdrawal of %s sTokens in cycle %s",
+          result.protectionAmount,
+          result.sTokenShares,
+          result.requestedSTokenAmount,
+          result.withdrawalCycleIndex
+        );
+        await _printPosition(_pool);
+      });
+    }
+  );
+
+/**
+ * Task to claim the capital unlocked after the lending pools became active again
+ */
+task(
+  "pool:claim-unlocked",
+  "Claims the unlocked capital of the seller from a protection pool"
+)
+  .addParam("pool", "Address or name of the protection pool")
+  .addOptionalParam(
+    "receiver",
+    "Receiver of the unlocked capital, defaults to the first signer"
+  )
+  .setAction(async ({ pool, receiver }, hre) => {
+    await runTaskAction(async () => {
+      const _pool = await connectPool(hre, pool);
+      const result = await _pool.client.claimUnlockedCapital(receiver);
+      console.log(
+        "Claimed %s underlying tokens to %s",
+        result.claimedAmount,
+        result.receiver
+      );
+      await _printPosition(_pool);
+    });
+  });
+
+/**
+ * Task to plan a withdrawal request of a seller: the cycle the request applies to,
+ * the window in which the withdrawal succeeds and how the requests shrink when sTokens are transferred.
+ */
+task(
+  "pool:plan-withdrawal",
+  "Plans a withdrawal request from a protection pool based on its cycle parameters"
+)
+  .addParam("pool", "Address or name of the protection pool")
+  .addOptionalParam(
+    "seller",
+    "Address of the seller, defaults to the first signer"
+  )
+  .addOptionalParam(
+    "amount",
+    "sTokens to request, defaults to the max amount the seller can request"
+  )
+  .addOptionalParam(
+    "at",
+    "Time of the request as a unix timestamp or an ISO date, defaults to the latest block"
+  )
+  .addOptionalParam(
+    "transfer",
+    "sTokens transferred by the seller after the request"
+  )
+  .setAction(async ({ pool, seller, amount, at, transfer }, hre) => {
+    await runTaskAction(async () => {
+      const { planWithdrawal } = await import("../sdk");
+      const _pool = await connectPool(hre, pool);
+
+      let requestTimestamp: number | undefined;
+      if (at !== undefined) {
+        requestTimestamp = /^\d+$/.test(at)
+          ? parseInt(at)
+          : Math.floor(Date.parse(at) / 1000);
+        if (isNaN(requestTimestamp)) {
+          throw new Error(`Invalid request time ${at}`);
+        }
+      }
+
+      const plan = await planWithdrawal(
+        _pool.contracts,
+        _pool.poolAddress,
+        seller || _pool.signerAddress,
+        { requestTimestamp, sTokenAmount: amount, transferAmount: transfer }
+      );
+
+      console.log(
+        "Request of %s sTokens at %s is made in cycle %s (%s)",
+        plan.sTokenAmount,
+        formatTimestamp(plan.requestTimestamp),
+        plan.requestCycleIndex,
+        plan.requestCycleState
+      );
+      if (plan.requiresCycleUpdate) {
+        console.log(
+          "Pool cycle must be updated before the request, otherwise the request applies to an earlier cycle"
+        );
+      }
+      console.log(
+        "Withdrawal is allowed in cycle %s from %s to %s",
+        plan.withdrawalCycleIndex,
+        formatTimestamp(plan.withdrawalWindow.opensAt),
+        formatTimestamp(plan.withdrawalWindow.closesAt)
+      );
+      console.log(
+        "sToken balance: %s, max request: %s",
+        plan.sTokenBalance,
+        plan.maxSTokenAmount
+      );
+
+      console.table(
+        plan.requests.map((request, index) => ({
+          cycle: request.withdrawalCycleIndex,
+          opensAt: formatTimestamp(request.window.opensAt),
+          closesAt: formatTimestamp(request.window.closesAt),
+          requested: request.sTokenAmount,
+          ...(plan.requestsAfterTransfer && {
+            afterTransfer: plan.requestsAfterTransfer[index].sTokenAmount
+          })
+        }))
+      );
+    });
+  });
@@ -0,0 +1,232 @@
+import { task, types } from "hardhat/config";
+import {
+  ConfigurableTaskDefinition,
+  HardhatRuntimeEnvironment
+} from "hardhat/types";
+
+// type-only import, the SDK can't be loaded while the hardhat config is being loaded
+import type { ProtectionPurchase, PurchaseQuote } from "../sdk";
+
+import {
+  ConnectedPool,
+  connectContracts,
+  connectPool,
+  formatTimestamp,
+  runTaskAction
+} from "./utils";
+
+const DEFAULT_SLIPPAGE_PERCENT = "1";
+
+/**
+ * Adds the params of a protection purchase shared by the quote, buy & renew tasks
+ */
+const _addPurchaseParams = (definition: ConfigurableTaskDefinition) =>
+  definition
+    .addParam("pool", "Address or name of the protection pool")
+    .addParam("lendingPool", "Address of the lending pool to protect")
+    .addParam("tokenId", "Id of the NFT LP token of the lending position")
+    .addParam(
+      "amount",
+      "Protection amount in underlying tokens, i.e. 10000 USDC"
+    )
+    .addParam("days", "Protection duration in days", undefined, types.float)
+    .addOptionalParam(
+      "slippage",
+      "Max premium above the higher of the quoted & the estimated premium in percent",
+      DEFAULT_SLIPPAGE_PERCENT
+    );
+
+interface PurchaseArgs {
+  pool: string;
+  lendingPool: string;
+  tokenId: string;
+  amount: string;
+  days: number;
+  slippage: string;
+}
+
+const _toPurchase = (args: PurchaseArgs): ProtectionPurchase => ({
+  lendingPoolAddress: args.lendingPool,
+  nftLpTokenId: args.tokenId,
+  protectionAmount: args.amount,
+  protectionDurationInDays: args.days
+});
+
+/**
+ * Quotes the premium of the purchase & the max premium the buyer accepts, see `quotePurchase` of the SDK
+ */
+const _quotePurchase = async (
+  pool: ConnectedPool,
+  purchase: ProtectionPurchase,
+  slippagePercent: string,
+  isRenewal: boolean
+): Promise<PurchaseQuote> => {
+  const { quotePurchase } = await import("../sdk");
+  return quotePurchase(
+    pool.client,
+    pool.contracts,
+    pool.signerAddress,
+    purchase,
+    slippagePercent,
+    { isRenewal }
+  );
+};
+
+/**
+ * Prints the quote of the pool, the estimated premium & the max premium with slippage
+ */
+const _printQuote = async (pool: ConnectedPool, quote: PurchaseQuote) => {
+  const _symbol = await pool.client.underlyingToken.symbol();
+  console.log(
+    "Premium quoted by the pool: %s %s%s",
+    quote.quote.premium,
+    _symbol,
+    quote.quote.isMinPremium ? " (min premium)" : ""
+  );
+  console.log(
+    "Premium at the leverage ratio %s after the purchase: %s %s",
+    quote.report.leverageRatio,
+    quote.report.estimatedPremium,
+    _symbol
+  );
+  console.log("Max premium with slippage: %s %s", quote.maxPremium, _symbol);
+  console.log(
+    "Protection from %s to %s",
+    formatTimestamp(quote.report.startTimestamp),
+    formatTimestamp(quote.report.expirationTimestamp)
+  );
+};
+
+/**
+ * Buys or renews the protection with the max premium quoted with slippage & prints the `ProtectionBought` event
+ */
+const _purchase = async (
+  hre: HardhatRuntimeEnvironment,
+  args: PurchaseArgs,
+  isRenewal: boolean
+) => {
+  const _pool = await connectPool(hre, args.pool);
+  const _purchaseParams = _toPurchase(args);
+  const _quote = await _quotePurchase(
+    _pool,
+    _purchaseParams,
+    args.slippage,
+    isRenewal
+  );
+  await _printQuote(_pool, _quote);
+
+  const result = isRenewal
+    ? await _pool.client.renewProtection(_purchaseParams, _quote.maxPremium)
+    : await _pool.client.buyProtection(_purchaseParams, _quote.maxPremium);
+  console.log(
+    "ProtectionBought in tx %s (block %s): buyer %s, lending pool %s, protection amount %s, premium %s",
+    result.receipt.transactionHash,
+    result.receipt.blockNumber,
+    result.buyer,
+    result.lendingPoolAddress,
+    result.protectionAmount,
+    result.premium
+  );
+};
+
+/**
+ * Task to quote the premium of a protection purchase without sending a transaction
+ */
+_addPurchaseParams(
+  task(
+    "protection:quote",
+    "Quotes the premium of a protection purchase from a protection pool"
+  )
+)
+  .addFlag("renewal", "Quote the renewal of an expired protection")
+  .setAction(async (args, hre) => {
+    await runTaskAction(async () => {
+      const _pool = await connectPool(hre, args.pool);
+      await _printQuote(
+        _pool,
+        await _quotePurchase(
+          _pool,
+          _toPurchase(args),
+          args.slippage,
+          args.renewal
+        )
+      );
+    });
+  });
+
+/**
+ * Task to buy a protection for a lending position
+ */
+_addPurchaseParams(
+  task(
+    "protection:buy",
+    "Buys a protection from a protection pool, failing when the premium exceeds the higher of the quoted & the estimated premium plus slippage"
+  )
+).setAction(async (args, hre) => {
+  await runTaskAction(() => _purchase(hre, args, false));
+});
+
+/**
+ * Task to renew an expired protection within the renewal grace period
+ */
+_addPurchaseParams(
+  task(
+    "protection:renew",
+    "Renews an expired protection, failing when the premium exceeds the higher of the quoted & the estimated premium plus slippage"
+  )
+).setAction(async (args, hre) => {
+  await runTaskAction(() => _purchase(hre, args, true));
+});
+
+/**
+ * Task to list the active protections of a buyer in all protection pools
+ */
+task(
+  "protection:list",
+  "Lists the active protections of a buyer in all protection pools"
+)
+  .addOptionalParam(
+    "buyer",
+    "Address of the buyer, defaults to the first signer"
+  )
+  .addOptionalParam(
+    "pool",
+    "Address or name of a protection pool to list the protections of"
+  )
+  .setAction(async ({ buyer, pool }, hre) => {
+    const { getBuyerPortfolio } = await import("../sdk");
+    const { findProtectionPool } = await import("../utils/addressBook");
+    const { addressBook, contracts } = await connectContracts(hre);
+
+    const _buyer =
+      buyer || (await (await hre.ethers.getSigners())[0].getAddress());
+    const _poolAddress =
+      pool && findProtectionPool(addressBook, pool).proxy.toLowerCase();
+    const _protections = (
+      await getBuyerPortfolio(contracts, _buyer)
+    ).activeProtections.filter(
+      (protection) =>
+        !_poolAddress ||
+        protection.protectionPool.toLowerCase() === _poolAddress
+    );
+
+    if (_protections.length === 0) {
+      console.log("No active protections of %s", _buyer);
+      return;
+    }
+    console.log("Active protections of %s", _buyer);
+    console.table(
+      _protections.map((protection) => ({
+        pool: protection.protectionPool,
+        lendingPool: protection.lendingPool,
+        tokenId: protection.nftLpTokenId,
+        amount: `${protection.protectionAmount} ${protection.underlyingSymbol}`,
+        premium: `${protection.premium} ${protection.underlyingSymbol}`,
+        start: formatTimestamp(protection.startTimestamp),
+        expiration: formatTimestamp(protection.expirationTimestamp),
+        renewalDeadline: formatTimestamp(protection.renewalDeadline),
+        expired: protection.expired,
+        pendingExpiry: protection.pendingExpiry
+      }))
+    );
+  });
@@ -0,0 +1,81 @@
+import { task, types } from "hardhat/config";
+
+/**
+ * Task to upgrade the deployed proxies of a contract to a new implementation,
+ * i.e. all protection pools created by the ContractFactory.
+ * Proxies are read from the address book `deployments/<network>.json` written by `deploy:manifest`
+ * and the upgrade is recorded in the same address book.
+ */
+task(
+  "upgrade:proxies",
+  "Validates & upgrades the deployed proxies to a new implementation and records it in the address book"
+)
+  .addParam(
+    "target",
+    "Proxies to upgrade: ProtectionPool, ReferenceLendingPools, PremiumCalculator, ProtectionPoolCycleManager, DefaultStateManager, ContractFactory or GoldfinchAdapter"
+  )
+  .addParam(
+    "implementation",
+    "Name of the new implementation contract, i.e. ProtectionPoolV2"
+  )
+  .addOptionalParam(
+    "reference",
+    "Name of the current implementation contract, defaults to the last recorded upgrade or the deployed contract"
+  )
+  .addOptionalParam(
+    "proxies",
+    "Comma separated addresses of the proxies to upgrade, defaults to all proxies of the target"
+  )
+  .addOptionalParam(
+    "initializer",
+    "Function of the new implementation called on each proxy after the upgrade"
+  )
+  .addOptionalParam(
+    "initializerArgs",
+    "JSON array of the initializer arguments",
+    "[]",
+    types.json
+  )
+  .addFlag("dryRun", "Only validates the upgrade without upgrading the proxies")
+  .setAction(
+    async ({
+      target,
+      implementation,
+      reference,
+      proxies,
+      initializer,
+      initializerArgs,
+      dryRun
+    }) => {
+      // upgrade utils depend on the hardhat runtime environment,
+      // so they can't be imported while the hardhat config is being loaded
+      const { upgradeProxies } = await import("../utils/upgrade");
+      const { toCarapaceError } = await import("../sdk/errors");
+
+      let result;
+      try {
+        result = await upgradeProxies({
+          target,
+          implementation,
+          reference,
+          proxies: proxies
+            ? proxies.split(",").map((proxy: string) => proxy.trim())
+            : undefined,
+          initializer,
+          initializerArgs,
+          dryRun
+        });
+      } catch (error) {
+        // i.e. initializer reverted with a custom error
+        throw toCarapaceError(error);
+      }
+
+      console.log(
+        dryRun
+          ? "Validated upgrade of %s proxies"
+          : "Upgraded %s proxies to %s",
+        result.proxies.length,
+        result.implementation
+      );
+    }
+  );
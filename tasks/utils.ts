@@ -0,0 +1,77 @@
+import { Signer } from "ethers";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const formatTimestamp = (timestamp: number): string =>
+  new Date(timestamp * 1000).toISOString();
+
+/**
+ * Connects the core contracts of the address book `deployments/<network>.json` to the signer,
+ * or to the provider of the network when the signer isn't specified
+ */
+const connectContracts = async (
+  hre: HardhatRuntimeEnvironment,
+  signer?: Signer
+) => {
+  // address book & SDK depend on the typechain types generated by the compilation,
+  // so they can't be imported while the hardhat config is being loaded
+  const { readAddressBook, getAddressBookPath } = await import(
+    "../utils/addressBook"
+  );
+  const { connectCarapaceContracts, getCarapaceAddresses } = await import(
+    "../sdk"
+  );
+
+  const addressBook = readAddressBook(hre.network.name);
+  if (!addressBook) {
+    throw new Error(
+      `Address book ${getAddressBookPath(hre.network.name)} doesn't exist`
+    );
+  }
+
+  return {
+    addressBook,
+    contracts: connectCarapaceContracts(
+      getCarapaceAddresses(addressBook),
+      signer || hre.ethers.provider
+    )
+  };
+};
+
+/**
+ * Connects the core contracts & the client of the pool, found by its address or name in the address book,
+ * to the first signer.
+ */
+const connectPool = async (
+  hre: HardhatRuntimeEnvironment,
+  poolAddressOrName: string
+) => {
+  const { findProtectionPool } = await import("../utils/addressBook");
+  const { createProtectionPoolClient } = await import("../sdk");
+
+  const { addressBook, contracts } = await connectContracts(hre);
+  const [signer] = await hre.ethers.getSigners();
+  const poolAddress = findProtectionPool(addressBook, poolAddressOrName).proxy;
+  return {
+    contracts,
+    poolAddress,
+    signerAddress: await signer.getAddress(),
+    client: await createProtectionPoolClient(poolAddress, signer)
+  };
+};
+
+export type ConnectedPool = Awaited<ReturnType<typeof connectPool>>;
+
+/**
+ * Runs the action of a task sending transactions, printing reverts of the core contracts as readable errors
+ */
+const runTaskAction = async (action: () => Promise<void>) => {
+  try {
+    await action();
+  } catch (error) {
+    const { formatError } = await import("../sdk");
+    console.error("Error: %s", formatError(error));
+    process.exitCode = 1;
+  }
+};
+
+export { connectContracts, connectPool, formatTimestamp, runTaskAction };
@@ -0,0 +1,72 @@
+import { task, types } from "hardhat/config";
+
+import { connectContracts, runTaskAction } from "./utils";
+
+/**
+ * Task to alert on the status changes of the lending pools & their payments due soon until the process is stopped
+ */
+task(
+  "watch:lending-pools",
+  "Watches the status & payment schedule of the lending pools of every basket and sends alerts to the console, a file & a webhook"
+)
+  .addOptionalParam(
+    "dueWithinDays",
+    "Warns when the next payment of an active lending pool is due within this number of days",
+    7,
+    types.float
+  )
+  .addOptionalParam(
+    "pollInterval",
+    "Seconds between the polls of the lending pools",
+    60,
+    types.int
+  )
+  .addOptionalParam(
+    "file",
+    "Path of the file the alerts are appended to as JSON lines"
+  )
+  .addOptionalParam("webhook", "Url the alerts are posted to as JSON")
+  .addFlag("once", "Poll once & exit")
+  .setAction(
+    async ({ dueWithinDays, pollInterval, file, webhook, once }, hre) => {
+      await runTaskAction(async () => {
+        const { createLendingPoolWatcher, createAlertSinks } = await import(
+          "../watcher"
+        );
+
+        const { contracts } = await connectContracts(hre);
+        const sinks = createAlertSinks({ file, webhook });
+
+        const watcher = createLendingPoolWatcher({
+          contracts,
+          sinks,
+          dueWithinDays,
+          onError: (error, sink) =>
+            console.error(
+              "%s failed: %s",
+              sink ? `Sending the alert to ${sink.name}` : "Polling",
+              error.message
+            )
+        });
+        console.log(
+          "Watching the lending pools, alerts are sent to %s",
+          sinks.map((sink) => sink.name).join(", ")
+        );
+
+        if (once) {
+          const alerts = await watcher.poll();
+          console.log("%s alerts were raised", alerts.length);
+          return;
+        }
+
+        // polls until the process is stopped
+        await new Promise<void>((resolve) => {
+          watcher.start(pollInterval);
+          process.once("SIGINT", async () => {
+            await watcher.stop();
+            resolve();
+          });
+        });
+      });
+    }
+  );
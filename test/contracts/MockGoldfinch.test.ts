@@ -0,0 +1,292 @@
+import { expect } from "chai";
+import { parseEther } from "ethers/lib/utils";
+import { Signer } from "ethers/lib/ethers";
+import { ethers, network, upgrades } from "hardhat";
+
+import { GoldfinchAdapter } from "../../typechain-types/contracts/adapters/GoldfinchAdapter";
+import { MockTranchedPool } from "../../typechain-types/contracts/test/MockTranchedPool";
+import { MockCreditLine } from "../../typechain-types/contracts/test/MockCreditLine";
+import { parseUSDC } from "../utils/usdc";
+import { getDaysInSeconds, getLatestBlockTimestamp } from "../utils/time";
+import {
+  MockGoldfinch,
+  createMockTranchedPool,
+  deployMockGoldfinch,
+  getMockCreditLine,
+  makeMockTranchedPoolLate,
+  mintJuniorPoolToken,
+  mintSeniorPoolToken,
+  payToMockTranchedPool,
+  repayMockTranchedPool
+} from "../utils/mockGoldfinch";
+
+const testMockGoldfinch: Function = (deployer: Signer, account1: Signer) => {
+  describe("GoldfinchAdapter with mock Goldfinch protocol", () => {
+    let _snapshotId: string;
+    let _goldfinch: MockGoldfinch;
+    let _goldfinchAdapter: GoldfinchAdapter;
+    let _tranchedPool: MockTranchedPool;
+    let _creditLine: MockCreditLine;
+    let _drawdownTimestamp: number;
+
+    before(async () => {
+      // mock config replaces the GoldfinchConfig of the mainnet fork, revert it after the tests
+      _snapshotId = await network.provider.send("evm_snapshot", []);
+
+      _goldfinch = await deployMockGoldfinch(deployer);
+      _goldfinchAdapter = (await upgrades.deployProxy(
+        await ethers.getContractFactory("GoldfinchAdapter", deployer),
+        [await deployer.getAddress()]
+      )) as GoldfinchAdapter;
+
+      _tranchedPool = await createMockTranchedPool(deployer, {
+        drawdownAmount: parseUSDC("1000000")
+      });
+      _drawdownTimestamp = await getLatestBlockTimestamp();
+      _creditLine = await getMockCreditLine(_tranchedPool);
+    });
+
+    after(async () => {
+      expect(await network.provider.send("evm_revert", [_snapshotId])).to.eq(
+        true
+      );
+    });
+
+    describe("calculateProtectionBuyerAPR", () => {
+      it("...should calculate the junior tranche APR", async () => {
+        // 0.15 * (1 - 0.1 + (4 * 0.2)) = 0.255
+        expect(
+          await _goldfinchAdapter.calculateProtectionBuyerAPR(
+            _tranchedPool.address
+          )
+        ).to.eq(parseEther("0.255"));
+      });
+
+      it("...should use the leverage ratio of the pool", async () => {
+        await _goldfinch.seniorPoolStrategy.setLeverageRatio(
+          _tranchedPool.address,
+          parseEther("3")
+        );
+
+        // 0.15 * (1 - 0.1 + (3 * 0.2)) = 0.225
+        expect(
+          await _goldfinchAdapter.calculateProtectionBuyerAPR(
+            _tranchedPool.address
+          )
+        ).to.eq(parseEther("0.225"));
+      });
+    });
+
+    describe("calculateRemainingPrincipal", () => {
+      let _lender: string;
+
+      before(async () => {
+        _lender = await account1.getAddress();
+      });
+
+      it("...should return the remaining principal of a junior tranche token", async () => {
+        const _tokenId = await mintJuniorPoolToken(
+          _goldfinch.poolTokens,
+          _tranchedPool.address,
+          _lender,
+          parseUSDC("50000")
+        );
+        await _goldfinch.poolTokens.redeem(_tokenId, parseUSDC("10000"), 0);
+
+        expect(
+          await _goldfinchAdapter.calculateRemainingPrincipal(
+            _tranchedPool.address,
+            _lender,
+            _tokenId
+          )
+        ).to.eq(parseUSDC("40000"));
+      });
+
+      it("...should return 0 for a senior tranche token", async () => {
+        const _tokenId = await mintSeniorPoolToken(
+          _goldfinch.poolTokens,
+          _tranchedPool.address,
+          _lender,
+          parseUSDC("50000")
+        );
+
+        expect(
+          await _goldfinchAdapter.calculateRemainingPrincipal(
+            _tranchedPool.address,
+            _lender,
+            _tokenId
+          )
+        ).to.eq(0);
+      });
+
+      it("...should return 0 for a token of another lender or pool", async () => {
+        const _tokenId = await mintJuniorPoolToken(
+          _goldfinch.poolTokens,
+          _tranchedPool.address,
+          _lender,
+          parseUSDC("50000")
+        );
+
+        expect(
+          await _goldfinchAdapter.calculateRemainingPrincipal(
+            _tranchedPool.address,
+            await deployer.getAddress(),
+            _tokenId
+          )
+        ).to.eq(0);
+        expect(
+          await _goldfinchAdapter.calculateRemainingPrincipal(
+            _creditLine.address,
+            _lender,
+            _tokenId
+          )
+        ).to.eq(0);
+      });
+
+      it("...should return 0 for a burned token", async () => {
+        const _tokenId = await mintJuniorPoolToken(
+          _goldfinch.poolTokens,
+          _tranchedPool.address,
+          _lender,
+          parseUSDC("50000")
+        );
+        await _goldfinch.poolTokens.burn(_tokenId);
+
+        expect(
+          await _goldfinchAdapter.calculateRemainingPrincipal(
+            _tranchedPool.address,
+            _lender,
+            _tokenId
+          )
+        ).to.eq(0);
+      });
+    });
+
+    describe("payment terms", () => {
+      it("...should return the payment period", async () => {
+        expect(
+          await _goldfinchAdapter.getPaymentPeriodInDays(_tranchedPool.address)
+        ).to.eq(30);
+      });
+
+      it("...should return the term end starting from the first drawdown", async () => {
+        expect(
+          await _goldfinchAdapter.getLendingPoolTermEndTimestamp(
+            _tranchedPool.address
+          )
+        ).to.eq(getDaysInSeconds(365).add(_drawdownTimestamp));
+      });
+    });
+
+    describe("isLendingPoolLate", () => {
+      it("...should return false for a pool with current payment", async () => {
+        expect(await _goldfinchAdapter.isLendingPoolLate(_tranchedPool.address))
+          .to.be.false;
+      });
+
+      it("...should return true for a pool with late payment", async () => {
+        await makeMockTranchedPoolLate(_tranchedPool, 1);
+
+        expect(await _goldfinchAdapter.isLendingPoolLate(_tranchedPool.address))
+          .to.be.true;
+        expect(
+          await _goldfinchAdapter.isLendingPoolLateWithinGracePeriod(
+            _tranchedPool.address,
+            7
+          )
+        ).to.be.true;
+      });
+
+      it("...should return false for grace period when a pool is late beyond it", async () => {
+        await makeMockTranchedPoolLate(_tranchedPool, 10);
+
+        expect(
+          await _goldfinchAdapter.isLendingPoolLateWithinGracePeriod(
+            _tranchedPool.address,
+            7
+          )
+        ).to.be.false;
+      });
+
+      it("...should work for a lending pool with CreditLine v1", async () => {
+        await _creditLine.setIsLateReverts(true);
+        expect(await _goldfinchAdapter.isLendingPoolLate(_tranchedPool.address))
+          .to.be.true;
+
+        await _creditLine.setIsLateReverts(false);
+      });
+
+      it("...should stay late after a payment short of the interest owed", async () => {
+        // interest of a payment period: 1,000,000 * 0.15 * 30 / 365 = 12328.767123
+        await _tranchedPool.payAmount(parseUSDC("10000"));
+
+        expect(await _goldfinchAdapter.isLendingPoolLate(_tranchedPool.address))
+          .to.be.true;
+        expect(await _creditLine.interestOwed()).to.eq(
+          parseUSDC("2328.767123")
+        );
+        expect(await _creditLine.collectedPaymentBalance()).to.eq(
+          parseUSDC("10000")
+        );
+      });
+
+      it("...should return false after the payments cover the interest owed", async () => {
+        const _lastFullPaymentTime = await _creditLine.lastFullPaymentTime();
+        await _tranchedPool.payAmount(parseUSDC("2328.767123"));
+
+        expect(await _goldfinchAdapter.isLendingPoolLate(_tranchedPool.address))
+          .to.be.false;
+        expect(await _creditLine.interestOwed()).to.eq(0);
+        expect(await _creditLine.collectedPaymentBalance()).to.eq(0);
+        expect(await _creditLine.lastFullPaymentTime()).to.be.gt(
+          _lastFullPaymentTime
+        );
+      });
+
+      it("...should return false after the payment is made", async () => {
+        await payToMockTranchedPool(_tranchedPool);
+
+        expect(await _goldfinchAdapter.isLendingPoolLate(_tranchedPool.address))
+          .to.be.false;
+        expect(
+          await _goldfinchAdapter.getLatestPaymentTimestamp(
+            _tranchedPool.address
+          )
+        ).to.eq(await _creditLine.lastFullPaymentTime());
+        expect(await _tranchedPool.assessCount()).to.eq(1);
+      });
+    });
+
+    describe("isLendingPoolExpired", () => {
+      it("...should return false for a pool with balance before term end", async () => {
+        expect(
+          await _goldfinchAdapter.isLendingPoolExpired(_tranchedPool.address)
+        ).to.be.false;
+      });
+
+      it("...should return true for a repaid pool", async () => {
+        await repayMockTranchedPool(_tranchedPool);
+
+        expect(await _creditLine.balance()).to.eq(0);
+        expect(
+          await _goldfinchAdapter.isLendingPoolExpired(_tranchedPool.address)
+        ).to.be.true;
+      });
+
+      it("...should return true for a pool after term end", async () => {
+        const _pool = await createMockTranchedPool(deployer, {
+          termInDays: 90,
+          drawdownAmount: parseUSDC("1000")
+        });
+        await (
+          await getMockCreditLine(_pool)
+        ).setTermEndTime((await getLatestBlockTimestamp()) - 1);
+
+        expect(await _goldfinchAdapter.isLendingPoolExpired(_pool.address)).to
+          .be.true;
+      });
+    });
+  });
+};
+
+export { testMockGoldfinch };
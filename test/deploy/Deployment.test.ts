@@ -0,0 +1,625 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, network, upgrades } from "hardhat";
+import { parseEther } from "ethers/lib/utils";
+import { ContractFactory } from "../../typechain-types/contracts/core/ContractFactory";
+import { ProtectionPoolCycleManager } from "../../typechain-types/contracts/core/ProtectionPoolCycleManager";
+import { ProtectionPool } from "../../typechain-types/contracts/core/pool/ProtectionPool";
+import {
+  AddressBook,
+  findProtectionPool,
+  findProtectionPools,
+  readAddressBook
+} from "../../utils/addressBook";
+import {
+  DeploymentConfig,
+  DeploymentContext,
+  getProtectionPoolContractFactory
+} from "../../utils/deploy";
+import {
+  DeploymentState,
+  getDeploymentConfigHash
+} from "../../utils/deploymentState";
+import {
+  DeploymentManifest,
+  loadDeploymentManifest,
+  resolveDeploymentManifest,
+  validateDeploymentManifest
+} from "../../utils/manifest";
+import { MOCK_MANIFEST_PATH } from "../utils/mockContext";
+import { getDaysInSeconds } from "../utils/time";
+import { parseUSDC } from "../utils/usdc";
+
+const testDeployment: Function = (
+  deployContracts: Function,
+  deployContractsFromManifest: Function
+) => {
+  describe("Deployment", () => {
+    let _deploymentsDir: string;
+
+    before(async () => {
+      _deploymentsDir = fs.mkdtempSync(
+        path.join(os.tmpdir(), "carapace-deployments-")
+      );
+    });
+
+    after(async () => {
+      fs.rmSync(_deploymentsDir, { recursive: true, force: true });
+    });
+
+    describe("loadDeploymentManifest", () => {
+      let _manifest: DeploymentManifest;
+
+      before(async () => {
+        _manifest = loadDeploymentManifest(MOCK_MANIFEST_PATH);
+      });
+
+      it("...should load YAML manifest", async () => {
+        expect(_manifest.useMock).to.be.true;
+        expect(_manifest.protectionPools.length).to.eq(2);
+        expect(_manifest.protectionPools[0].symbol).to.eq("sT11");
+        expect(_manifest.protectionPools[0].lendingPools.length).to.eq(3);
+        expect(_manifest.protectionPools[1].symbol).to.eq("sT12");
+        expect(_manifest.protectionPools[1].lendingPools.length).to.eq(1);
+      });
+
+      it("...should load JSON manifest", async () => {
+        const _jsonManifestPath = path.join(_deploymentsDir, "manifest.json");
+        fs.writeFileSync(_jsonManifestPath, JSON.stringify(_manifest));
+
+        expect(loadDeploymentManifest(_jsonManifestPath)).to.deep.eq(_manifest);
+      });
+
+      it("...should fail for unsupported manifest format", async () => {
+        expect(() => loadDeploymentManifest("manifest.txt")).to.throw(
+          "Unsupported deployment manifest format"
+        );
+      });
+
+      it("...should fail when a required field is missing", async () => {
+        const _invalidManifest: any = {
+          ..._manifest,
+          protectionPools: [
+            _manifest.protectionPools[0],
+            { ..._manifest.protectionPools[1], cycleParams: {} }
+          ]
+        };
+        expect(() => validateDeploymentManifest(_invalidManifest)).to.throw(
+          "protectionPools[1].cycleParams.openCycleDurationInDays is required"
+        );
+      });
+
+      it("...should fail when a lending pool address is invalid", async () => {
+        const _pool = _manifest.protectionPools[0];
+        const _invalidManifest: any = {
+          ..._manifest,
+          protectionPools: [
+            {
+              ..._pool,
+              lendingPools: [{ ..._pool.lendingPools[0], address: "0x123" }]
+            }
+          ]
+        };
+        expect(() => validateDeploymentManifest(_invalidManifest)).to.throw(
+          "protectionPools[0].lendingPools[0].address is not a valid address"
+        );
+      });
+
+      it("...should fail when a pool symbol is not unique", async () => {
+        const _invalidManifest: any = {
+          ..._manifest,
+          protectionPools: [
+            _manifest.protectionPools[0],
+            { ..._manifest.protectionPools[1], symbol: "sT11" }
+          ]
+        };
+        expect(() => validateDeploymentManifest(_invalidManifest)).to.throw(
+          "protectionPools[1].symbol sT11 is not unique"
+        );
+      });
+    });
+
+    describe("resolveDeploymentManifest", () => {
+      it("...should convert manifest into on-chain units", async () => {
+        const _config = await resolveDeploymentManifest(
+          loadDeploymentManifest(MOCK_MANIFEST_PATH)
+        );
+        const _signers = await ethers.getSigners();
+
+        const [_firstPool, _secondPool] = _config.protectionPools;
+
+        expect(_firstPool.name).to.eq("sToken11");
+        expect(_firstPool.protectionPoolParams.leverageRatioFloor).to.eq(
+          parseEther("0.5")
+        );
+        expect(_firstPool.protectionPoolParams.minRequiredCapital).to.eq(
+          parseUSDC("100000")
+        );
+        expect(_firstPool.protectionPoolCycleParams.cycleDuration).to.eq(
+          getDaysInSeconds(90)
+        );
+        expect(_firstPool.lendingPoolProtocols).to.deep.eq([0, 0, 0]);
+        expect(_firstPool.lendingPoolPurchaseLimitsInDays).to.deep.eq([
+          270, 270, 270
+        ]);
+        expect(_firstPool.latePaymentGracePeriodInDays).to.eq(7);
+        expect(_firstPool.underlyingToken).to.be.undefined;
+
+        expect(_secondPool.name).to.eq("sToken12");
+        expect(_secondPool.protectionPoolParams.leverageRatioFloor).to.eq(
+          parseEther("0.3")
+        );
+        expect(_secondPool.protectionPoolCycleParams.cycleDuration).to.eq(
+          getDaysInSeconds(60)
+        );
+        expect(_secondPool.lendingPoolPurchaseLimitsInDays).to.deep.eq([180]);
+        expect(_secondPool.latePaymentGracePeriodInDays).to.eq(14);
+
+        expect(await _config.deployer?.getAddress()).to.eq(
+          await _signers[0].getAddress()
+        );
+        expect(_config.operatorAddress).to.eq(await _signers[5].getAddress());
+      });
+
+      it("...should fail for unsupported lending protocol", async () => {
+        const _manifest = loadDeploymentManifest(MOCK_MANIFEST_PATH);
+        _manifest.protectionPools[1].lendingPools[0].protocol = "Maple";
+
+        let _error: any;
+        try {
+          await resolveDeploymentManifest(_manifest);
+        } catch (e) {
+          _error = e;
+        }
+        expect(_error?.message).to.contain(
+          "unsupported lending protocol Maple"
+        );
+      });
+    });
+
+    describe("deployContracts", () => {
+      let _firstContext: DeploymentContext;
+      let _secondContext: DeploymentContext;
+
+      before(async () => {
+        const _config = await resolveDeploymentManifest(
+          loadDeploymentManifest(MOCK_MANIFEST_PATH)
+        );
+        const _signers = await ethers.getSigners();
+
+        // deploy 2 contexts in parallel using different deployers
+        const _results = await Promise.all([
+          deployContracts({ ..._config, deployer: _signers[6] }),
+          deployContracts({
+            ..._config,
+            deployer: _signers[7],
+            protectionPools: [
+              {
+                ..._config.protectionPools[0],
+                name: "sToken21",
+                symbol: "sT21"
+              }
+            ]
+          })
+        ]);
+        expect(_results[0].success).to.be.true;
+        expect(_results[1].success).to.be.true;
+        [_firstContext, _secondContext] = _results;
+      });
+
+      it("...should deploy independent contexts", async () => {
+        expect(await _firstContext.deployer.getAddress()).to.not.eq(
+          await _secondContext.deployer.getAddress()
+        );
+        expect(_firstContext.cpContractFactoryInstance.address).to.not.eq(
+          _secondContext.cpContractFactoryInstance.address
+        );
+        expect(
+          await _firstContext.cpContractFactoryInstance.getProtectionPools()
+        ).to.deep.eq(
+          _firstContext.protectionPoolInstances.map((pool) => pool.address)
+        );
+        expect(
+          await _secondContext.cpContractFactoryInstance.getProtectionPools()
+        ).to.deep.eq([_secondContext.protectionPoolInstance.address]);
+        expect(await _firstContext.protectionPoolInstance.name()).to.eq(
+          "sToken11"
+        );
+        expect(await _secondContext.protectionPoolInstance.name()).to.eq(
+          "sToken21"
+        );
+      });
+
+      it("...should create all configured pools sharing the same contracts", async () => {
+        const _pools = _firstContext.protectionPoolInstances;
+        expect(_pools.length).to.eq(2);
+        expect(_pools[0].address).to.eq(
+          _firstContext.protectionPoolInstance.address
+        );
+        expect(await _pools[1].name()).to.eq("sToken12");
+        expect(await _pools[1].symbol()).to.eq("sT12");
+
+        for (let i = 0; i < _pools.length; i++) {
+          const _poolInfo = await _pools[i].getPoolInfo();
+          expect(_poolInfo.referenceLendingPools).to.eq(
+            _firstContext.referenceLendingPoolsInstances[i].address
+          );
+          expect(_poolInfo.underlyingToken).to.eq(
+            _firstContext.mockUsdcInstance?.address
+          );
+          expect(
+            await _firstContext.protectionPoolCycleManagerInstance.getCurrentCycleState(
+              _pools[i].address
+            )
+          ).to.eq(1);
+          expect(
+            await _firstContext.defaultStateManagerInstance.getPoolStateUpdateTimestamp(
+              _pools[i].address
+            )
+          ).to.be.gt(0);
+        }
+      });
+
+      it("...should create each pool with its own params & basket", async () => {
+        const [_firstPoolInfo, _secondPoolInfo] = await Promise.all(
+          _firstContext.protectionPoolInstances.map((pool) =>
+            pool.getPoolInfo()
+          )
+        );
+        expect(_firstPoolInfo.params.leverageRatioFloor).to.eq(
+          parseEther("0.5")
+        );
+        expect(_secondPoolInfo.params.leverageRatioFloor).to.eq(
+          parseEther("0.3")
+        );
+        expect(_secondPoolInfo.params.minRequiredCapital).to.eq(
+          parseUSDC("50000")
+        );
+
+        const [_firstBasket, _secondBasket] = await Promise.all(
+          _firstContext.referenceLendingPoolsInstances.map((rlp) =>
+            rlp.getLendingPools()
+          )
+        );
+        expect(_firstBasket.length).to.eq(3);
+        expect(_secondBasket.map((p) => p.toLowerCase())).to.deep.eq([
+          "0xd09a57127bc40d680be7cb061c2a6629fe71abef"
+        ]);
+      });
+
+      it("...should set the deployer of each context as the owner", async () => {
+        for (const _context of [_firstContext, _secondContext]) {
+          const _deployerAddress = await _context.deployer.getAddress();
+          expect(await _context.cpContractFactoryInstance.owner()).to.eq(
+            _deployerAddress
+          );
+          expect(await _context.defaultStateManagerInstance.owner()).to.eq(
+            _deployerAddress
+          );
+          expect(await _context.protectionPoolInstance.owner()).to.eq(
+            _deployerAddress
+          );
+        }
+      });
+
+      it("...should link the protection pool factory with the libraries of the context", async () => {
+        const _bytecode = (
+          await getProtectionPoolContractFactory(_secondContext)
+        ).bytecode.toLowerCase();
+
+        expect(_bytecode).to.contain(
+          _secondContext.protectionPoolHelperInstance.address
+            .slice(2)
+            .toLowerCase()
+        );
+        expect(_bytecode).to.not.contain(
+          _firstContext.protectionPoolHelperInstance.address
+            .slice(2)
+            .toLowerCase()
+        );
+      });
+    });
+
+    describe("deployContractsFromManifest", () => {
+      let _addressBook: AddressBook;
+
+      before(async () => {
+        const _result = await deployContractsFromManifest(
+          MOCK_MANIFEST_PATH,
+          _deploymentsDir
+        );
+        expect(_result.success).to.be.true;
+        _addressBook = readAddressBook(
+          network.name,
+          _deploymentsDir
+        ) as AddressBook;
+      });
+
+      it("...should write the address book", async () => {
+        expect(_addressBook).to.not.be.undefined;
+        expect(_addressBook.network).to.eq(network.name);
+        expect(_addressBook.chainId).to.eq(network.config.chainId);
+      });
+
+      it("...should record the linked libraries", async () => {
+        const _libraries = _addressBook.libraries;
+        expect(_libraries.AccruedPremiumCalculator.libraries).to.deep.eq({
+          RiskFactorCalculator: _libraries.RiskFactorCalculator.address
+        });
+        expect(_libraries.ProtectionPoolHelper.libraries).to.deep.eq({
+          AccruedPremiumCalculator: _libraries.AccruedPremiumCalculator.address
+        });
+        expect(_addressBook.protectionPools[1].libraries).to.deep.eq({
+          AccruedPremiumCalculator: _libraries.AccruedPremiumCalculator.address,
+          ProtectionPoolHelper: _libraries.ProtectionPoolHelper.address
+        });
+      });
+
+      it("...should record the proxy & implementation addresses", async () => {
+        const _proxies = [
+          ...Object.keys(_addressBook.contracts).map(
+            (name) => _addressBook.contracts[name]
+          ),
+          _addressBook.lendingProtocolAdapters.Goldfinch,
+          ..._addressBook.referenceLendingPools,
+          ..._addressBook.protectionPools
+        ];
+        expect(_proxies.length).to.eq(10);
+
+        for (const _proxy of _proxies) {
+          expect(
+            await upgrades.erc1967.getImplementationAddress(_proxy.proxy)
+          ).to.eq(_proxy.implementation);
+          expect(_proxy.blockNumber).to.be.gt(0);
+        }
+      });
+
+      it("...should record the contracts created by the ContractFactory", async () => {
+        const _contractFactory = (await ethers.getContractAt(
+          "ContractFactory",
+          _addressBook.contracts.ContractFactory.proxy
+        )) as ContractFactory;
+
+        expect(await _contractFactory.getProtectionPools()).to.deep.eq(
+          _addressBook.protectionPools.map((pool) => pool.proxy)
+        );
+        expect(
+          await _contractFactory.getReferenceLendingPoolsList()
+        ).to.deep.eq(
+          _addressBook.referenceLendingPools.map((rlp) => rlp.proxy)
+        );
+        expect(await _contractFactory.getLendingProtocolAdapter(0)).to.eq(
+          _addressBook.lendingProtocolAdapters.Goldfinch.proxy
+        );
+      });
+
+      it("...should create the protection pools described in the manifest", async () => {
+        expect(
+          _addressBook.protectionPools.map((pool) => pool.symbol)
+        ).to.deep.eq(["sT11", "sT12"]);
+
+        for (let i = 0; i < _addressBook.protectionPools.length; i++) {
+          const _poolDeployment = _addressBook.protectionPools[i];
+          const _protectionPool = (await ethers.getContractAt(
+            "ProtectionPool",
+            _poolDeployment.proxy
+          )) as ProtectionPool;
+
+          expect(await _protectionPool.name()).to.eq(_poolDeployment.name);
+          expect(await _protectionPool.symbol()).to.eq(_poolDeployment.symbol);
+          expect(_poolDeployment.underlyingToken).to.eq(
+            _addressBook.contracts.MockUsdc.proxy
+          );
+          expect(_poolDeployment.referenceLendingPools).to.eq(
+            _addressBook.referenceLendingPools[i].proxy
+          );
+          expect(
+            (await _protectionPool.getPoolInfo()).referenceLendingPools
+          ).to.eq(_poolDeployment.referenceLendingPools);
+        }
+      });
+
+      it("...should find the protection pools by address or name", async () => {
+        const _pool = _addressBook.protectionPools[1];
+        expect(findProtectionPool(_addressBook, _pool.name)).to.eq(_pool);
+        expect(
+          findProtectionPool(_addressBook, _pool.proxy.toLowerCase())
+        ).to.eq(_pool);
+        expect(() => findProtectionPool(_addressBook, "sToken99")).to.throw(
+          `Protection pool sToken99 isn't in the address book of ${network.name}`
+        );
+      });
+
+      it("...should find the protection pools in a comma separated list", async () => {
+        const [_pool1, _pool2] = _addressBook.protectionPools;
+        expect(
+          findProtectionPools(
+            _addressBook,
+            ` ${_pool2.name}, ${_pool1.proxy.toLowerCase()},`
+          )
+        ).to.deep.eq([_pool2, _pool1]);
+        expect(findProtectionPools(_addressBook, _pool1.name)).to.deep.eq([
+          _pool1
+        ]);
+        expect(() =>
+          findProtectionPools(_addressBook, `${_pool1.name},sToken99`)
+        ).to.throw(
+          `Protection pool sToken99 isn't in the address book of ${network.name}`
+        );
+        expect(() => findProtectionPools(_addressBook, " , ")).to.throw(
+          'No protection pools in " , "'
+        );
+      });
+    });
+
+    describe("resumable deployment", () => {
+      let _config: DeploymentConfig;
+      let _statePath: string;
+      let _interruptedState: DeploymentState;
+
+      const readState = (): DeploymentState =>
+        JSON.parse(fs.readFileSync(_statePath, "utf8"));
+
+      before(async () => {
+        _statePath = path.join(_deploymentsDir, "resumable.state.json");
+        _config = {
+          ...(await resolveDeploymentManifest(
+            loadDeploymentManifest(MOCK_MANIFEST_PATH)
+          )),
+          statePath: _statePath
+        };
+      });
+
+      it("...should record completed steps when deployment is interrupted", async () => {
+        // protocols of the second pool don't match its lending pools,
+        // so createReferenceLendingPools reverts
+        const _interruptedConfig: DeploymentConfig = {
+          ..._config,
+          protectionPools: [
+            _config.protectionPools[0],
+            { ..._config.protectionPools[1], lendingPoolProtocols: [0, 0] }
+          ]
+        };
+        const _result = await deployContracts(_interruptedConfig);
+        expect(_result.success).to.be.false;
+
+        _interruptedState = readState();
+        expect(_interruptedState.configHash).to.eq(
+          getDeploymentConfigHash(_interruptedConfig)
+        );
+        expect(Object.keys(_interruptedState.steps)).to.deep.eq([
+          "RiskFactorCalculator",
+          "AccruedPremiumCalculator",
+          "PremiumCalculator",
+          "ProtectionPoolCycleManager",
+          "DefaultStateManager",
+          "ProtectionPoolHelper",
+          "ContractFactory",
+          "ProtectionPoolCycleManager.setContractFactory",
+          "DefaultStateManager.setContractFactory",
+          "GoldfinchAdapterImplementation",
+          "GoldfinchAdapter",
+          "ReferenceLendingPoolsImplementation",
+          "ProtectionPoolImplementation",
+          "MockUsdc",
+          "ReferenceLendingPools:sT11",
+          "ProtectionPool:sT11"
+        ]);
+      });
+
+      it("...should not resume the deployment with a different config", async () => {
+        const _blockNumber = await ethers.provider.getBlockNumber();
+        const _result = await deployContracts({ ..._config, useMock: false });
+
+        expect(_result.success).to.be.false;
+        expect(await ethers.provider.getBlockNumber()).to.eq(_blockNumber);
+        expect(readState()).to.deep.eq(_interruptedState);
+      });
+
+      it("...should only execute missing steps when deployment is resumed", async () => {
+        // the revert stands in for an interruption of the deployment with the valid config,
+        // i.e. a dropped connection to the node
+        fs.writeFileSync(
+          _statePath,
+          JSON.stringify({
+            ..._interruptedState,
+            configHash: getDeploymentConfigHash(_config)
+          })
+        );
+
+        const _resumedAtBlock = await ethers.provider.getBlockNumber();
+        const _result = await deployContracts(_config);
+        expect(_result.success).to.be.true;
+
+        const _state = readState();
+        Object.keys(_interruptedState.steps).forEach((stepName) => {
+          expect(_state.steps[stepName]).to.deep.eq(
+            _interruptedState.steps[stepName]
+          );
+        });
+        ["ReferenceLendingPools:sT12", "ProtectionPool:sT12"].forEach(
+          (stepName) => {
+            expect(_state.steps[stepName].blockNumber).to.be.gt(
+              _resumedAtBlock
+            );
+          }
+        );
+
+        // resumed deployment reuses the libraries & proxies of the interrupted deployment
+        const _addressBook: AddressBook = _result.addressBook;
+        expect(_addressBook.libraries.RiskFactorCalculator.address).to.eq(
+          _interruptedState.steps.RiskFactorCalculator.address
+        );
+        expect(_addressBook.libraries.ProtectionPoolHelper.address).to.eq(
+          _interruptedState.steps.ProtectionPoolHelper.address
+        );
+        expect(_addressBook.contracts.ContractFactory.proxy).to.eq(
+          _interruptedState.steps.ContractFactory.proxy
+        );
+        expect(_addressBook.protectionPools[0].proxy).to.eq(
+          _interruptedState.steps["ProtectionPool:sT11"].proxy
+        );
+        expect(_addressBook.protectionPools[1].libraries).to.deep.eq({
+          AccruedPremiumCalculator:
+            _interruptedState.steps.AccruedPremiumCalculator.address,
+          ProtectionPoolHelper:
+            _interruptedState.steps.ProtectionPoolHelper.address
+        });
+      });
+
+      it("...should create the remaining pool using the contracts of the interrupted deployment", async () => {
+        const _steps = _interruptedState.steps;
+        const _contractFactory = (await ethers.getContractAt(
+          "ContractFactory",
+          _steps.ContractFactory.proxy
+        )) as ContractFactory;
+        const _poolCycleManager = (await ethers.getContractAt(
+          "ProtectionPoolCycleManager",
+          _steps.ProtectionPoolCycleManager.proxy
+        )) as ProtectionPoolCycleManager;
+
+        const _pools = await _contractFactory.getProtectionPools();
+        expect(_pools).to.deep.eq([
+          _steps["ProtectionPool:sT11"].proxy,
+          readState().steps["ProtectionPool:sT12"].proxy
+        ]);
+        expect(await _poolCycleManager.contractFactoryAddress()).to.eq(
+          _contractFactory.address
+        );
+        // pool is registered in the cycle manager with an open cycle
+        expect(await _poolCycleManager.getCurrentCycleState(_pools[1])).to.eq(
+          1
+        );
+      });
+
+      it("...should not execute any step when deployment is already completed", async () => {
+        const _blockNumber = await ethers.provider.getBlockNumber();
+        const _result = await deployContracts(_config);
+
+        expect(_result.success).to.be.true;
+        expect(await ethers.provider.getBlockNumber()).to.eq(_blockNumber);
+      });
+
+      it("...should fail when the state refers to non-existing contracts", async () => {
+        const _staleStatePath = path.join(_deploymentsDir, "stale.state.json");
+        const _state = readState();
+        _state.steps.RiskFactorCalculator.address =
+          "0x0000000000000000000000000000000000000001";
+        fs.writeFileSync(_staleStatePath, JSON.stringify(_state));
+
+        const _blockNumber = await ethers.provider.getBlockNumber();
+        const _result = await deployContracts({
+          ..._config,
+          statePath: _staleStatePath
+        });
+
+        expect(_result.success).to.be.false;
+        expect(await ethers.provider.getBlockNumber()).to.eq(_blockNumber);
+      });
+    });
+  });
+};
+
+export { testDeployment };
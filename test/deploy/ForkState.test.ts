@@ -0,0 +1,233 @@
+import { expect } from "chai";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { fetchJson } from "ethers/lib/utils";
+import { ethers, network } from "hardhat";
+
+import {
+  ForkStateFixture,
+  ForkStateRecorder,
+  startForkStateRecorder
+} from "../../utils/forkState";
+import { replayForkState } from "../utils/forkState";
+
+// pinned fork block of the mainnet tests
+const FORK_BLOCK = 15598870;
+const FORK_BLOCK_TAG = ethers.utils.hexValue(FORK_BLOCK);
+const CONTRACT_ADDRESS = "0x8481a6EbAf5c7DABc3F7e09e44A89531fd31F822";
+const EOA_ADDRESS = "0x4902b20bb3b8e7776cbcdcb6e3397e7f6b4e449e";
+// returns 1 when called
+const RUNTIME_CODE = "0x600160005260206000f3";
+const STORAGE_SLOT =
+  "0x0000000000000000000000000000000000000000000000000000000000000003";
+const STORAGE_VALUE =
+  "0x00000000000000000000000000000000000000000000000000000000000004d2";
+const ZERO_STORAGE_VALUE =
+  "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+/**
+ * Mainnet node stand-in answering with the results of the `${method}:${params}` keys,
+ * responses to batch requests are in the reverse order of the requests
+ */
+const _startUpstream = async (results: { [request: string]: string }) => {
+  const _server = http.createServer((request, response) => {
+    let _body = "";
+    request.on("data", (chunk) => (_body += chunk));
+    request.on("end", () => {
+      const _respond = (rpcRequest: any) => ({
+        jsonrpc: "2.0",
+        id: rpcRequest.id,
+        result: results[`${rpcRequest.method}:${rpcRequest.params.join(",")}`]
+      });
+      const _request = JSON.parse(_body);
+      response.writeHead(200, { "Content-Type": "application/json" });
+      response.end(
+        JSON.stringify(
+          Array.isArray(_request)
+            ? _request.map(_respond).reverse()
+            : _respond(_request)
+        )
+      );
+    });
+  });
+  await new Promise<void>((resolve) => _server.listen(0, "127.0.0.1", resolve));
+  return {
+    url: `http://127.0.0.1:${(_server.address() as AddressInfo).port}`,
+    stop: () => new Promise((resolve) => _server.close(resolve))
+  };
+};
+
+const testForkState: Function = () => {
+  describe("ForkState", () => {
+    describe("startForkStateRecorder", () => {
+      let _upstream: Awaited<ReturnType<typeof _startUpstream>>;
+      let _recorder: ForkStateRecorder;
+
+      before(async () => {
+        _upstream = await _startUpstream({
+          [`eth_getCode:${CONTRACT_ADDRESS},${FORK_BLOCK_TAG}`]: RUNTIME_CODE,
+          [`eth_getBalance:${CONTRACT_ADDRESS},${FORK_BLOCK_TAG}`]: "0x0",
+          [`eth_getTransactionCount:${CONTRACT_ADDRESS},${FORK_BLOCK_TAG}`]:
+            "0x1",
+          [`eth_getStorageAt:${CONTRACT_ADDRESS},0x3,${FORK_BLOCK_TAG}`]:
+            STORAGE_VALUE,
+          [`eth_getStorageAt:${CONTRACT_ADDRESS},0x4,${FORK_BLOCK_TAG}`]:
+            ZERO_STORAGE_VALUE,
+          [`eth_getCode:${EOA_ADDRESS},${FORK_BLOCK_TAG}`]: "0x",
+          [`eth_getBalance:${EOA_ADDRESS},${FORK_BLOCK_TAG}`]:
+            "0x1bc16d674ec80000",
+          [`eth_getTransactionCount:${EOA_ADDRESS},${FORK_BLOCK_TAG}`]: "0x0",
+          "eth_chainId:": "0x1"
+        });
+        _recorder = await startForkStateRecorder(_upstream.url, 0);
+      });
+
+      after(async () => {
+        await _recorder.stop();
+        await _upstream.stop();
+      });
+
+      it("...should forward the requests to the upstream node", async () => {
+        expect(
+          await fetchJson(
+            _recorder.url,
+            JSON.stringify({
+              jsonrpc: "2.0",
+              id: 1,
+              method: "eth_chainId",
+              params: []
+            })
+          )
+        ).to.deep.eq({ jsonrpc: "2.0", id: 1, result: "0x1" });
+      });
+
+      it("...should record the responses to the batch requests by their ids", async () => {
+        const _batch = [
+          ["eth_getCode", [CONTRACT_ADDRESS, FORK_BLOCK_TAG]],
+          ["eth_getBalance", [CONTRACT_ADDRESS, FORK_BLOCK_TAG]],
+          ["eth_getTransactionCount", [CONTRACT_ADDRESS, FORK_BLOCK_TAG]],
+          ["eth_getCode", [EOA_ADDRESS, FORK_BLOCK_TAG]],
+          ["eth_getBalance", [EOA_ADDRESS, FORK_BLOCK_TAG]],
+          ["eth_getTransactionCount", [EOA_ADDRESS, FORK_BLOCK_TAG]]
+        ].map(([method, params], i) => ({
+          jsonrpc: "2.0",
+          id: i + 10,
+          method,
+          params
+        }));
+        const _responses = await fetchJson(
+          _recorder.url,
+          JSON.stringify(_batch)
+        );
+        expect(_responses.map((response: any) => response.id)).to.deep.eq([
+          15, 14, 13, 12, 11, 10
+        ]);
+
+        for (const _slot of ["0x3", "0x4"]) {
+          await fetchJson(
+            _recorder.url,
+            JSON.stringify({
+              jsonrpc: "2.0",
+              id: 20,
+              method: "eth_getStorageAt",
+              params: [CONTRACT_ADDRESS, _slot, FORK_BLOCK_TAG]
+            })
+          );
+        }
+
+        // zero values & the EOA code aren't recorded
+        expect(_recorder.getFixture(FORK_BLOCK, 1664000000)).to.deep.eq({
+          blockNumber: FORK_BLOCK,
+          timestamp: 1664000000,
+          accounts: {
+            [CONTRACT_ADDRESS.toLowerCase()]: {
+              code: RUNTIME_CODE,
+              nonce: "0x1",
+              storage: { "0x3": STORAGE_VALUE }
+            },
+            [EOA_ADDRESS]: {
+              balance: "0x1bc16d674ec80000",
+              storage: {}
+            }
+          }
+        });
+      });
+    });
+
+    describe("replayForkState", () => {
+      let _snapshotId: string;
+
+      before(async () => {
+        _snapshotId = await network.provider.send("evm_snapshot", []);
+      });
+
+      after(async () => {
+        expect(await network.provider.send("evm_revert", [_snapshotId])).to.eq(
+          true
+        );
+      });
+
+      it("...should set the code, balance, nonce & storage of the accounts", async () => {
+        const _fixture: ForkStateFixture = {
+          blockNumber: FORK_BLOCK,
+          timestamp: 1664000000,
+          accounts: {
+            [CONTRACT_ADDRESS.toLowerCase()]: {
+              code: RUNTIME_CODE,
+              nonce: "0x2",
+              storage: { [STORAGE_SLOT]: STORAGE_VALUE }
+            },
+            [EOA_ADDRESS]: {
+              balance: "0x1bc16d674ec80000",
+              nonce: "0x7",
+              storage: {}
+            }
+          }
+        };
+        const _blockNumber = await ethers.provider.getBlockNumber();
+
+        await replayForkState(_fixture);
+
+        expect(await ethers.provider.getCode(CONTRACT_ADDRESS)).to.eq(
+          RUNTIME_CODE
+        );
+        expect(
+          await ethers.provider.call({ to: CONTRACT_ADDRESS, data: "0x" })
+        ).to.eq(ethers.utils.hexZeroPad("0x1", 32));
+        expect(
+          await ethers.provider.getTransactionCount(CONTRACT_ADDRESS)
+        ).to.eq(2);
+        expect(await ethers.provider.getStorageAt(CONTRACT_ADDRESS, 3)).to.eq(
+          STORAGE_VALUE
+        );
+        expect(await ethers.provider.getBalance(EOA_ADDRESS)).to.eq(
+          ethers.utils.parseEther("2")
+        );
+        expect(await ethers.provider.getTransactionCount(EOA_ADDRESS)).to.eq(7);
+        // all slots are set in a single block
+        expect(await ethers.provider.getBlockNumber()).to.eq(_blockNumber + 1);
+      });
+
+      it("...should fail when the fixture hasn't been recorded", async () => {
+        const _fixturePath = process.env.FORK_STATE_FIXTURE;
+        process.env.FORK_STATE_FIXTURE = "test/fixtures/missing.json";
+        try {
+          await replayForkState();
+          expect.fail("replayForkState should fail");
+        } catch (e: any) {
+          expect(e.message).to.contain(
+            "test/fixtures/missing.json doesn't exist, record it with the record:fork-state task"
+          );
+        } finally {
+          if (_fixturePath === undefined) {
+            delete process.env.FORK_STATE_FIXTURE;
+          } else {
+            process.env.FORK_STATE_FIXTURE = _fixturePath;
+          }
+        }
+      });
+    });
+  });
+};
+
+export { testForkState };
@@ -0,0 +1,108 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { DeploymentContext } from "../../utils/deploy";
+import { checkDeployment, HealthCheckResult } from "../../utils/healthCheck";
+import { MockContext, deployMockContext } from "../utils/mockContext";
+
+const getFailures = (results: HealthCheckResult[]): string[] =>
+  results.filter((result) => !result.passed).map((result) => result.name);
+
+const testHealthCheck: Function = (deployContracts: Function) => {
+  describe("HealthCheck", () => {
+    let _mockContext: MockContext;
+    let _context: DeploymentContext;
+
+    before(async () => {
+      const _deployer = (await ethers.getSigners())[8];
+      _mockContext = await deployMockContext(deployContracts, _deployer);
+      _context = _mockContext.context;
+    });
+
+    after(async () => {
+      await _mockContext.revert();
+    });
+
+    describe("checkDeployment", () => {
+      it("...should pass all checks for a complete deployment", async () => {
+        const _results = await checkDeployment(_context.addressBook);
+
+        expect(getFailures(_results)).to.deep.eq([]);
+        // 2 pools with 3 + 1 lending pools
+        expect(
+          _results.filter((result) => result.name.indexOf("cycle state") >= 0)
+            .length
+        ).to.eq(2);
+        expect(
+          _results.filter((result) => result.name.indexOf("adapter for") >= 0)
+            .length
+        ).to.eq(4);
+      });
+
+      it("...should fail when contracts are owned by another account", async () => {
+        const _results = await checkDeployment(_context.addressBook, {
+          owner: await _context.account1.getAddress()
+        });
+        const _failures = getFailures(_results);
+
+        // factory, cycle manager, state manager, premium calculator, 2 pools, 2 baskets & adapter
+        expect(_failures.length).to.eq(9);
+        _failures.forEach((failure) => {
+          expect(failure).to.contain("is owned by");
+        });
+      });
+
+      it("...should fail when the DefaultStateManager is not linked to the ContractFactory", async () => {
+        await _context.defaultStateManagerInstance.setContractFactory(
+          await _context.account1.getAddress()
+        );
+
+        const _failures = getFailures(
+          await checkDeployment(_context.addressBook)
+        );
+        expect(_failures).to.deep.eq([
+          "DefaultStateManager is linked to the ContractFactory"
+        ]);
+
+        await _context.defaultStateManagerInstance.setContractFactory(
+          _context.cpContractFactoryInstance.address
+        );
+      });
+
+      it("...should fail when no account has OPERATOR_ROLE", async () => {
+        await _context.defaultStateManagerInstance.revokeRole(
+          ethers.utils.id("OPERATOR_ROLE"),
+          await _context.operator.getAddress()
+        );
+
+        const _failures = getFailures(
+          await checkDeployment(_context.addressBook)
+        );
+        expect(_failures).to.deep.eq([
+          "DefaultStateManager has an account with OPERATOR_ROLE",
+          `Operator ${_context.addressBook.operator} from the address book has OPERATOR_ROLE`
+        ]);
+      });
+
+      it("...should only report missing contracts when the address book is stale", async () => {
+        const _results = await checkDeployment({
+          ..._context.addressBook,
+          contracts: {
+            ..._context.addressBook.contracts,
+            ContractFactory: {
+              ..._context.addressBook.contracts.ContractFactory,
+              proxy: "0x0000000000000000000000000000000000000001"
+            }
+          }
+        });
+
+        expect(_results.length).to.eq(1);
+        expect(getFailures(_results)).to.deep.eq([
+          "All contracts in the address book are deployed"
+        ]);
+        expect(_results[0].details).to.eq("missing ContractFactory");
+      });
+    });
+  });
+};
+
+export { testHealthCheck };
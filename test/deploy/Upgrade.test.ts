@@ -0,0 +1,252 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, network, upgrades } from "hardhat";
+import { AddressBook, readAddressBook } from "../../utils/addressBook";
+import { upgradeProxies } from "../../utils/upgrade";
+import { ProtectionPoolV2 } from "../../typechain-types/contracts/test/ProtectionPoolV2";
+import { ReferenceLendingPoolsV2 } from "../../typechain-types/contracts/test/ReferenceLendingPoolsV2";
+import { DefaultStateManagerV2 } from "../../typechain-types/contracts/test/DefaultStateManagerV2";
+import { MockGoldfinchAdapterV2 } from "../../typechain-types/contracts/test/MockGoldfinchAdapterV2";
+import { MOCK_MANIFEST_PATH } from "../utils/mockContext";
+
+const testUpgrade: Function = (deployContractsFromManifest: Function) => {
+  describe("Upgrade", () => {
+    let _deploymentsDir: string;
+    let _deployedAddressBook: AddressBook;
+
+    const readBook = (): AddressBook =>
+      readAddressBook(network.name, _deploymentsDir) as AddressBook;
+
+    const upgradeAndCatch = async (config: any): Promise<any> => {
+      try {
+        await upgradeProxies({ ...config, deploymentsDir: _deploymentsDir });
+      } catch (e) {
+        return e;
+      }
+    };
+
+    before(async () => {
+      _deploymentsDir = fs.mkdtempSync(
+        path.join(os.tmpdir(), "carapace-upgrades-")
+      );
+      const _result = await deployContractsFromManifest(
+        MOCK_MANIFEST_PATH,
+        _deploymentsDir
+      );
+      expect(_result.success).to.be.true;
+      _deployedAddressBook = readBook();
+    });
+
+    after(async () => {
+      fs.rmSync(_deploymentsDir, { recursive: true, force: true });
+    });
+
+    describe("upgradeProxies", () => {
+      it("...should fail for unsupported target", async () => {
+        const _error = await upgradeAndCatch({
+          target: "MockUsdc",
+          implementation: "MockUsdc"
+        });
+        expect(_error?.message).to.contain("Unsupported upgrade target");
+      });
+
+      it("...should fail when the address book doesn't exist", async () => {
+        let _error: any;
+        try {
+          await upgradeProxies({
+            target: "ProtectionPool",
+            implementation: "ProtectionPoolV2",
+            deploymentsDir: path.join(_deploymentsDir, "missing")
+          });
+        } catch (e) {
+          _error = e;
+        }
+        expect(_error?.message).to.contain("doesn't exist");
+      });
+
+      it("...should fail upon invalid upgrade without upgrading any proxy", async () => {
+        const _blockNumber = await ethers.provider.getBlockNumber();
+        const _error = await upgradeAndCatch({
+          target: "ProtectionPool",
+          implementation: "ProtectionPoolV2NotUpgradable"
+        });
+
+        expect(_error?.message).to.contain("is not upgrade safe");
+        expect(await ethers.provider.getBlockNumber()).to.eq(_blockNumber);
+        expect(readBook()).to.deep.eq(_deployedAddressBook);
+      });
+
+      it("...should fail for a proxy not belonging to the target", async () => {
+        const _error = await upgradeAndCatch({
+          target: "ProtectionPool",
+          implementation: "ProtectionPoolV2",
+          proxies: [_deployedAddressBook.referenceLendingPools[0].proxy]
+        });
+        expect(_error?.message).to.contain("is not a proxy of ProtectionPool");
+      });
+
+      it("...should only validate the upgrade in a dry run", async () => {
+        const _blockNumber = await ethers.provider.getBlockNumber();
+        const _result = await upgradeProxies({
+          target: "ProtectionPool",
+          implementation: "ProtectionPoolV2",
+          dryRun: true,
+          deploymentsDir: _deploymentsDir
+        });
+
+        expect(_result.implementation).to.be.undefined;
+        expect(_result.proxies).to.deep.eq(
+          _deployedAddressBook.protectionPools.map((pool) => pool.proxy)
+        );
+        expect(await ethers.provider.getBlockNumber()).to.eq(_blockNumber);
+        expect(readBook()).to.deep.eq(_deployedAddressBook);
+      });
+
+      it("...should upgrade all protection pools with relinked libraries", async () => {
+        const _result = await upgradeProxies({
+          target: "ProtectionPool",
+          implementation: "ProtectionPoolV2",
+          deploymentsDir: _deploymentsDir
+        });
+        const _libraries = _deployedAddressBook.libraries;
+        expect(_result.libraries).to.deep.eq({
+          AccruedPremiumCalculator: _libraries.AccruedPremiumCalculator.address,
+          ProtectionPoolHelper: _libraries.ProtectionPoolHelper.address
+        });
+
+        const _addressBook = readBook();
+        expect(_addressBook.protectionPools.length).to.eq(2);
+        for (let i = 0; i < _addressBook.protectionPools.length; i++) {
+          const _pool = _addressBook.protectionPools[i];
+          expect(
+            await upgrades.erc1967.getImplementationAddress(_pool.proxy)
+          ).to.eq(_result.implementation);
+          expect(_pool.implementation).to.eq(_result.implementation);
+          expect(_pool.libraries).to.deep.eq(_result.libraries);
+          expect(_pool.upgrades?.length).to.eq(1);
+          expect(_pool.upgrades?.[0].contractName).to.eq("ProtectionPoolV2");
+          expect(_pool.upgrades?.[0].previousImplementation).to.eq(
+            _deployedAddressBook.protectionPools[i].implementation
+          );
+
+          // existing storage is preserved & new storage is usable
+          const _upgradedPool = (await ethers.getContractAt(
+            "ProtectionPoolV2",
+            _pool.proxy
+          )) as ProtectionPoolV2;
+          expect(await _upgradedPool.name()).to.eq(_pool.name);
+          await _upgradedPool.addToTestMapping(_pool.proxy, 42);
+          expect(await _upgradedPool.testMapping(_pool.proxy)).to.eq(42);
+        }
+      });
+
+      it("...should validate the next upgrade against the last recorded upgrade", async () => {
+        // ProtectionPool is missing the storage of ProtectionPoolV2
+        const _error = await upgradeAndCatch({
+          target: "ProtectionPool",
+          implementation: "ProtectionPool"
+        });
+        expect(_error?.message).to.contain(
+          "New storage layout is incompatible"
+        );
+      });
+
+      it("...should upgrade the specified proxies & call the initializer", async () => {
+        const [_firstRlp, _secondRlp] =
+          _deployedAddressBook.referenceLendingPools;
+        const _result = await upgradeProxies({
+          target: "ReferenceLendingPools",
+          implementation: "ReferenceLendingPoolsV2",
+          proxies: [_secondRlp.proxy],
+          initializer: "setTestVariable",
+          initializerArgs: [42],
+          deploymentsDir: _deploymentsDir
+        });
+        expect(_result.proxies).to.deep.eq([_secondRlp.proxy]);
+
+        const _upgradedRlp = (await ethers.getContractAt(
+          "ReferenceLendingPoolsV2",
+          _secondRlp.proxy
+        )) as ReferenceLendingPoolsV2;
+        expect(await _upgradedRlp.getTestVariable()).to.eq(42);
+        expect(
+          await upgrades.erc1967.getImplementationAddress(_firstRlp.proxy)
+        ).to.eq(_firstRlp.implementation);
+
+        const _addressBook = readBook();
+        expect(_addressBook.referenceLendingPools[0]).to.deep.eq(_firstRlp);
+        expect(
+          _addressBook.referenceLendingPools[1].upgrades?.[0].initializer
+        ).to.eq("setTestVariable");
+      });
+
+      it("...should upgrade the DefaultStateManager", async () => {
+        const _result = await upgradeProxies({
+          target: "DefaultStateManager",
+          implementation: "DefaultStateManagerV2",
+          deploymentsDir: _deploymentsDir
+        });
+
+        const _defaultStateManager = (await ethers.getContractAt(
+          "DefaultStateManagerV2",
+          _deployedAddressBook.contracts.DefaultStateManager.proxy
+        )) as DefaultStateManagerV2;
+        expect(await _defaultStateManager.getVersion()).to.eq("v2");
+        expect(readBook().contracts.DefaultStateManager.implementation).to.eq(
+          _result.implementation
+        );
+      });
+
+      it("...should validate the GoldfinchAdapter upgrade against the deployed contract", async () => {
+        // mock adapter is deployed by the mock manifest
+        expect(
+          _deployedAddressBook.lendingProtocolAdapters.Goldfinch.contractName
+        ).to.eq("MockGoldfinchAdapter");
+
+        // GoldfinchAdapterV2 is missing the storage of MockGoldfinchAdapter
+        const _error = await upgradeAndCatch({
+          target: "GoldfinchAdapter",
+          implementation: "GoldfinchAdapterV2"
+        });
+        expect(_error?.message).to.contain("Deleted `lateLendingPools`");
+      });
+
+      it("...should validate the upgrade against the specified reference", async () => {
+        const _result = await upgradeProxies({
+          target: "GoldfinchAdapter",
+          implementation: "GoldfinchAdapterV2",
+          reference: "GoldfinchAdapter",
+          dryRun: true,
+          deploymentsDir: _deploymentsDir
+        });
+
+        expect(_result.implementation).to.be.undefined;
+        expect(readBook().lendingProtocolAdapters.Goldfinch.upgrades).to.be
+          .undefined;
+      });
+
+      it("...should upgrade the GoldfinchAdapter deployed by the mock manifest", async () => {
+        const _result = await upgradeProxies({
+          target: "GoldfinchAdapter",
+          implementation: "MockGoldfinchAdapterV2",
+          deploymentsDir: _deploymentsDir
+        });
+
+        expect(
+          await upgrades.erc1967.getImplementationAddress(
+            _deployedAddressBook.lendingProtocolAdapters.Goldfinch.proxy
+          )
+        ).to.eq(_result.implementation);
+        const _adapter = (await ethers.getContractAt(
+          "MockGoldfinchAdapterV2",
+          _deployedAddressBook.lendingProtocolAdapters.Goldfinch.proxy
+        )) as MockGoldfinchAdapterV2;
+        expect(await _adapter.getVersion()).to.eq("v2");
+      });
+    });
+  });
+};
+
+export { testUpgrade };
@@ -1,3 +1,4 @@
+import { ethers } from "hardhat";
 import { testProtectionPool } from "./contracts/ProtectionPool.test";
 import { testContractFactory } from "./contracts/ContractFactory.test";
 import { testProtectionPoolCycleManager } from "./contracts/ProtectionPoolCycleManager.test";
@@ -6,29 +7,34 @@ import { testPremiumCalculator } from "./contracts/PremiumCalculator.test";
 import { testRiskFactorCalculator } from "./contracts/RiskFactorCalculator.test";
 
 import { testGoldfinchAdapter } from "./contracts/GoldfinchAdapter.test";
+import { testMockGoldfinch } from "./contracts/MockGoldfinch.test";
 import { testReferenceLendingPools } from "./contracts/ReferenceLendingPools.test";
 import { testDefaultStateManager } from "./contracts/DefaultStateManager.test";
+import { testDeployment } from "./deploy/Deployment.test";
+import { testUpgrade } from "./deploy/Upgrade.test";
+import { testHealthCheck } from "./deploy/HealthCheck.test";
+import { testForkState } from "./deploy/ForkState.test";
+import { testProtectionPoolClient } from "./sdk/ProtectionPoolClient.test";
+import { testPremiumMath } from "./sdk/PremiumMath.test";
+import { testAccruedPremiumSchedule } from "./sdk/AccruedPremiumSchedule.test";
+import { testSellerPortfolio } from "./sdk/SellerPortfolio.test";
+import { testBuyerPortfolio } from "./sdk/BuyerPortfolio.test";
+import { testErrors } from "./sdk/Errors.test";
+import { testPurchaseDiagnostics } from "./sdk/PurchaseDiagnostics.test";
+import { testWithdrawalPlanner } from "./sdk/WithdrawalPlanner.test";
+import { testStateAssessment } from "./sdk/StateAssessment.test";
+import { testEventIndexer } from "./indexer/EventIndexer.test";
+import { testGraphQLServer } from "./indexer/GraphQLServer.test";
+import { testKeeper } from "./keeper/Keeper.test";
+import { testLendingPoolWatcher } from "./watcher/LendingPoolWatcher.test";
+import { isOfflineMode } from "./utils/utils";
+import { setupOfflineMode } from "./utils/offline";
+import { isReplayingForkState, replayForkState } from "./utils/forkState";
 
 import {
-  deployer,
-  operator,
-  account1,
-  account2,
-  account3,
-  account4,
+  DeploymentContext,
   deployContracts,
-  protectionPoolImplementation,
-  protectionPoolInstance,
-  cpContractFactoryInstance,
-  premiumCalculatorInstance,
-  referenceLendingPoolsInstance,
-  protectionPoolCycleManagerInstance,
-  accruedPremiumCalculatorInstance,
-  riskFactorCalculatorInstance,
-  goldfinchAdapterImplementation,
-  goldfinchAdapterInstance,
-  referenceLendingPoolsImplementation,
-  defaultStateManagerInstance,
+  deployContractsFromManifest,
   getLatestReferenceLendingPoolsInstance,
   getProtectionPoolContractFactory
 } from "../utils/deploy";
@@ -42,100 +48,128 @@ import {
 } from "./test-data";
 
 describe("start testing", () => {
+  let context: DeploymentContext;
+
   before("deploy contracts", async () => {
     const start = Date.now();
-    await deployContracts(
-      PROTECTION_POOL_CYCLE_PARAMS,
-      PROTECTION_POOL_PARAMS,
-      GOLDFINCH_LENDING_POOLS,
-      LENDING_POOL_PROTOCOLS,
-      LENDING_POOL_PURCHASE_LIMIT_IN_DAYS
-    );
+    if (isOfflineMode()) {
+      await setupOfflineMode((await ethers.getSigners())[0]);
+    } else if (isReplayingForkState()) {
+      await replayForkState();
+    }
+    const result = await deployContracts({
+      protectionPools: [
+        {
+          name: "sToken11",
+          symbol: "sT11",
+          protectionPoolCycleParams: PROTECTION_POOL_CYCLE_PARAMS,
+          protectionPoolParams: PROTECTION_POOL_PARAMS,
+          lendingPools: GOLDFINCH_LENDING_POOLS,
+          lendingPoolProtocols: LENDING_POOL_PROTOCOLS,
+          lendingPoolPurchaseLimitsInDays: LENDING_POOL_PURCHASE_LIMIT_IN_DAYS
+        }
+      ]
+    });
+    if (!result.success) {
+      throw new Error("Deploying contracts failed");
+    }
+    context = result;
     console.log(`Deployed contracts in ${(Date.now() - start) / 1000} seconds`);
   });
 
   describe("run all the tests", () => {
     it("run the RiskFactorCalculator test", async () => {
-      testRiskFactorCalculator(riskFactorCalculatorInstance);
+      testRiskFactorCalculator(context.riskFactorCalculatorInstance);
     });
 
     it("run the AccruedPremiumCalculator test", async () => {
-      testAccruedPremiumCalculator(accruedPremiumCalculatorInstance);
+      testAccruedPremiumCalculator(context.accruedPremiumCalculatorInstance);
     });
 
     it("run the PremiumCalculator test", async () => {
       testPremiumCalculator(
-        deployer,
-        account1,
-        premiumCalculatorInstance,
-        riskFactorCalculatorInstance
+        context.deployer,
+        context.account1,
+        context.premiumCalculatorInstance,
+        context.riskFactorCalculatorInstance
       );
     });
 
-    it("run the GoldfinchAdapter test", async () => {
-      testGoldfinchAdapter(
-        deployer,
-        account1,
-        goldfinchAdapterImplementation,
-        goldfinchAdapterInstance
-      );
+    // GoldfinchAdapter & ReferenceLendingPools specs verify the state of mainnet lending pools,
+    // which is only partially mirrored by the mocks in offline mode
+    if (!isOfflineMode()) {
+      it("run the GoldfinchAdapter test", async () => {
+        testGoldfinchAdapter(
+          context.deployer,
+          context.account1,
+          context.goldfinchAdapterImplementation,
+          context.goldfinchAdapterInstance
+        );
+      });
+    }
+
+    it("run the MockGoldfinch test", async () => {
+      testMockGoldfinch(context.deployer, context.account1);
     });
 
     it("run the ContractFactory test", async () => {
       testContractFactory(
-        deployer,
-        operator,
-        account1,
-        cpContractFactoryInstance,
-        premiumCalculatorInstance,
-        referenceLendingPoolsInstance,
-        protectionPoolCycleManagerInstance,
-        defaultStateManagerInstance,
-        protectionPoolImplementation,
-        referenceLendingPoolsImplementation,
+        context.deployer,
+        context.operator,
+        context.account1,
+        context.cpContractFactoryInstance,
+        context.premiumCalculatorInstance,
+        context.referenceLendingPoolsInstance,
+        context.protectionPoolCycleManagerInstance,
+        context.defaultStateManagerInstance,
+        context.protectionPoolImplementation,
+        context.referenceLendingPoolsImplementation,
         getLatestReferenceLendingPoolsInstance
       );
     });
 
-    it("Run ReferenceLendingPools test", async () => {
-      testReferenceLendingPools(
-        deployer,
-        account1,
-        referenceLendingPoolsImplementation,
-        referenceLendingPoolsInstance,
-        cpContractFactoryInstance,
-        defaultStateManagerInstance,
-        protectionPoolInstance,
-        GOLDFINCH_LENDING_POOLS
-      );
-    });
+    if (!isOfflineMode()) {
+      it("Run ReferenceLendingPools test", async () => {
+        testReferenceLendingPools(
+          context.deployer,
+          context.account1,
+          context.referenceLendingPoolsImplementation,
+          context.referenceLendingPoolsInstance,
+          context.cpContractFactoryInstance,
+          context.defaultStateManagerInstance,
+          context.protectionPoolInstance,
+          GOLDFINCH_LENDING_POOLS
+        );
+      });
+    }
 
     it("run the ProtectionPool test", async () => {
       testProtectionPool(
-        deployer,
-        operator,
-        account1,
-        account2,
-        account3,
-        account4,
-        protectionPoolInstance,
-        protectionPoolImplementation,
-        referenceLendingPoolsInstance,
-        protectionPoolCycleManagerInstance,
-        defaultStateManagerInstance,
-        getProtectionPoolContractFactory
+        context.deployer,
+        context.operator,
+        context.account1,
+        context.account2,
+        context.account3,
+        context.account4,
+        context.protectionPoolInstance,
+        context.protectionPoolImplementation,
+        context.referenceLendingPoolsInstance,
+        context.protectionPoolCycleManagerInstance,
+        context.defaultStateManagerInstance,
+        (contractName?: string) =>
+          getProtectionPoolContractFactory(context, contractName)
       );
     });
 
     it("run DefaultStateManager test", async () => {
       testDefaultStateManager(
-        deployer,
-        account1,
-        account3,
-        operator,
-        defaultStateManagerInstance,
-        cpContractFactoryInstance,
-        protectionPoolInstance,
+        context.deployer,
+        context.account1,
+        context.account3,
+        context.operator,
+        context.defaultStateManagerInstance,
+        context.cpContractFactoryInstance,
+        context.protectionPoolInstance,
         GOLDFINCH_LENDING_POOLS
       );
     });
@@ -143,11 +177,86 @@ describe("start testing", () => {
     // Run this spec last because it moves time forward a lot and that impacts the pool tests
     it("run the ProtectionPoolCycleManager test", async () => {
       testProtectionPoolCycleManager(
-        deployer,
-        account1,
-        protectionPoolCycleManagerInstance,
-        cpContractFactoryInstance.address
+        context.deployer,
+        context.account1,
+        context.protectionPoolCycleManagerInstance,
+        context.cpContractFactoryInstance.address
+      );
+    });
+
+    // Run this spec after all contract specs because it deploys another set of contracts
+    it("run the Deployment test", async () => {
+      testDeployment(deployContracts, deployContractsFromManifest);
+    });
+
+    it("run the Upgrade test", async () => {
+      testUpgrade(deployContractsFromManifest);
+    });
+
+    it("run the HealthCheck test", async () => {
+      testHealthCheck(deployContracts);
+    });
+
+    it("run the ForkState test", async () => {
+      testForkState();
+    });
+
+    it("run the ProtectionPoolClient test", async () => {
+      testProtectionPoolClient(deployContracts);
+    });
+
+    it("run the PremiumMath test", async () => {
+      testPremiumMath(
+        context.premiumCalculatorInstance,
+        context.riskFactorCalculatorInstance
       );
     });
+
+    it("run the AccruedPremiumSchedule test", async () => {
+      testAccruedPremiumSchedule(
+        context.accruedPremiumCalculatorInstance,
+        context.premiumCalculatorInstance
+      );
+    });
+
+    it("run the SellerPortfolio test", async () => {
+      testSellerPortfolio(deployContracts);
+    });
+
+    it("run the BuyerPortfolio test", async () => {
+      testBuyerPortfolio(deployContracts);
+    });
+
+    it("run the Errors test", async () => {
+      testErrors(deployContracts);
+    });
+
+    it("run the PurchaseDiagnostics test", async () => {
+      testPurchaseDiagnostics(deployContracts);
+    });
+
+    it("run the WithdrawalPlanner test", async () => {
+      testWithdrawalPlanner(deployContracts);
+    });
+
+    it("run the StateAssessment test", async () => {
+      testStateAssessment(deployContracts);
+    });
+
+    it("run the EventIndexer test", async () => {
+      testEventIndexer(deployContracts);
+    });
+
+    it("run the GraphQLServer test", async () => {
+      testGraphQLServer(deployContracts);
+    });
+
+    it("run the Keeper test", async () => {
+      testKeeper(deployContracts);
+    });
+
+    it("run the LendingPoolWatcher test", async () => {
+      testLendingPoolWatcher(deployContracts);
+    });
   });
 });
@@ -0,0 +1,396 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Signer } from "ethers";
+import { ethers, network } from "hardhat";
+
+import { DeploymentContext } from "../../utils/deploy";
+import { IndexerDatabase, openIndexerDatabase } from "../../indexer/database";
+import {
+  IndexedContracts,
+  createEventIndexer,
+  getIndexedContracts
+} from "../../indexer/eventIndexer";
+import { createProtectionPoolClient } from "../../sdk/protectionPoolClient";
+import { MockContext, deployMockContext } from "../utils/mockContext";
+import { parseUSDC } from "../utils/usdc";
+import { moveForwardTimeByDays } from "../utils/time";
+
+const LENDING_POOL_ADDRESS = "0xb26b42dd5771689d0a7faeea32825ff9710b9c11";
+
+const testEventIndexer: Function = (deployContracts: Function) => {
+  describe("EventIndexer", () => {
+    let _mockContext: MockContext;
+    let _context: DeploymentContext;
+    let _seller: Signer;
+    let _buyer: Signer;
+    let _contracts: IndexedContracts;
+    let _startBlock: number;
+    let _databasePath: string;
+    let _database: IndexerDatabase;
+    let _pool: string;
+    let _sellerAddress: string;
+    let _buyerAddress: string;
+
+    const _indexTo = async (toBlock?: number) =>
+      createEventIndexer({
+        provider: ethers.provider,
+        database: _database,
+        contracts: _contracts,
+        startBlock: _startBlock,
+        batchSize: 10
+      }).indexTo(toBlock);
+
+    before(async () => {
+      const _signers = await ethers.getSigners();
+      _seller = _signers[11];
+      _buyer = _signers[12];
+      _sellerAddress = (await _seller.getAddress()).toLowerCase();
+      _buyerAddress = (await _buyer.getAddress()).toLowerCase();
+      // time is moved forward to expire protections, revert it after the tests
+      _mockContext = await deployMockContext(deployContracts, _seller);
+      _context = _mockContext.context;
+      _pool = _context.protectionPoolInstance.address.toLowerCase();
+
+      ({ contracts: _contracts, startBlock: _startBlock } = getIndexedContracts(
+        _context.addressBook
+      ));
+
+      _databasePath = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")),
+        "hardhat.sqlite"
+      );
+      _database = await openIndexerDatabase(_databasePath);
+
+      await _context.mockUsdcInstance!.transfer(
+        _buyerAddress,
+        parseUSDC("10000")
+      );
+      const _sellerClient = await createProtectionPoolClient(
+        _context.protectionPoolInstance.address,
+        _seller
+      );
+      await _sellerClient.deposit("100000");
+      await _sellerClient.requestWithdrawal("1000");
+      await _context.protectionPoolInstance.connect(_seller).movePoolPhase();
+      await (
+        await createProtectionPoolClient(
+          _context.protectionPoolInstance.address,
+          _buyer
+        )
+      ).buyProtection(
+        {
+          lendingPoolAddress: LENDING_POOL_ADDRESS,
+          nftLpTokenId: 1,
+          protectionAmount: "50000",
+          protectionDurationInDays: 20
+        },
+        "2000"
+      );
+    });
+
+    after(async () => {
+      _database.close();
+      fs.rmSync(path.dirname(_databasePath), { recursive: true, force: true });
+      await _mockContext.revert();
+    });
+
+    describe("indexTo", () => {
+      it("...should index the events from the deployment block & store the checkpoint", async () => {
+        const _latestBlock = await ethers.provider.getBlockNumber();
+
+        const _result = await _indexTo();
+
+        expect(_result.fromBlock).to.eq(_startBlock);
+        expect(_result.toBlock).to.eq(_latestBlock);
+        expect(_result.eventCount).to.be.gt(0);
+        expect(_database.getCheckpoint()).to.eq(_latestBlock);
+        expect(fs.existsSync(_databasePath)).to.be.true;
+      });
+
+      it("...should index the cycles & the phase of all pools", async () => {
+        const _pools = _database.query(
+          "SELECT address, phase, current_cycle_index FROM pools ORDER BY address"
+        );
+        expect(_pools.length).to.eq(2);
+
+        const _cycles = _database.query(
+          "SELECT pool, cycle_index FROM pool_cycles"
+        );
+        expect(_cycles.length).to.eq(2);
+        expect(_cycles.map((cycle) => cycle.pool).sort()).to.deep.eq(
+          _pools.map((pool) => pool.address)
+        );
+
+        // OpenToBuyers
+        expect(_pools.find((pool) => pool.address === _pool).phase).to.eq(1);
+        expect(
+          _pools.find((pool) => pool.address === _pool).current_cycle_index
+        ).to.eq(0);
+      });
+
+      it("...should index the deposit & the withdrawal request of the seller", async () => {
+        const _deposits = _database.query(
+          "SELECT seller, protection_amount FROM deposits WHERE pool = ?",
+          [_pool]
+        );
+        expect(_deposits).to.deep.eq([
+          {
+            seller: _sellerAddress,
+            protection_amount: parseUSDC("100000").toString()
+          }
+        ]);
+
+        const _requests = _database.query(
+          "SELECT stoken_amount, withdrawal_cycle_index FROM withdrawal_requests WHERE seller = ?",
+          [_sellerAddress]
+        );
+        expect(_requests).to.deep.eq([
+          {
+            stoken_amount: ethers.utils.parseEther("1000").toString(),
+            withdrawal_cycle_index: 2
+          }
+        ]);
+
+        const [_sellerRow] = _database.query(
+          "SELECT * FROM sellers WHERE pool = ? AND seller = ?",
+          [_pool, _sellerAddress]
+        );
+        expect(_sellerRow.total_deposited).to.eq(
+          parseUSDC("100000").toString()
+        );
+        expect(_sellerRow.total_requested_stokens).to.eq(
+          ethers.utils.parseEther("1000").toString()
+        );
+      });
+
+      it("...should index the protection bought by the buyer", async () => {
+        const [_purchase] = _database.query(
+          "SELECT * FROM protection_purchases WHERE buyer = ?",
+          [_buyerAddress]
+        );
+        expect(_purchase.pool).to.eq(_pool);
+        expect(_purchase.lending_pool).to.eq(LENDING_POOL_ADDRESS);
+        expect(_purchase.protection_amount).to.eq(
+          parseUSDC("50000").toString()
+        );
+        expect(_purchase.block_timestamp).to.eq(
+          (await ethers.provider.getBlock(_purchase.block_number)).timestamp
+        );
+
+        const [_buyerRow] = _database.query(
+          "SELECT * FROM buyers WHERE pool = ? AND buyer = ?",
+          [_pool, _buyerAddress]
+        );
+        expect(_buyerRow.protection_count).to.eq(1);
+        expect(_buyerRow.total_premium).to.eq(_purchase.premium);
+
+        const [_poolRow] = _database.query(
+          "SELECT total_deposited, total_protection_bought, total_premium FROM pools WHERE address = ?",
+          [_pool]
+        );
+        expect(_poolRow).to.deep.eq({
+          total_deposited: parseUSDC("100000").toString(),
+          total_protection_bought: parseUSDC("50000").toString(),
+          total_premium: _purchase.premium
+        });
+      });
+
+      it("...should resume from the checkpoint stored in the database file", async () => {
+        const _checkpoint = _database.getCheckpoint()!;
+        await moveForwardTimeByDays(21);
+        await _context.protectionPoolInstance
+          .connect(_context.operator)
+          .accruePremiumAndExpireProtections([]);
+        _database.close();
+        _database = await openIndexerDatabase(_databasePath);
+
+        const _result = await _indexTo();
+
+        expect(_result.fromBlock).to.eq(_checkpoint + 1);
+        expect(_result.eventCount).to.eq(2);
+
+        const _accruals = _database.query(
+          "SELECT premium_accrued FROM premium_accruals WHERE pool = ?",
+          [_pool]
+        );
+        expect(_accruals.length).to.eq(1);
+        const [_poolRow] = _database.query(
+          "SELECT total_premium, total_premium_accrued FROM pools WHERE address = ?",
+          [_pool]
+        );
+        expect(_poolRow.total_premium_accrued).to.eq(
+          _accruals[0].premium_accrued
+        );
+        const [_buyerRow] = _database.query(
+          "SELECT expired_protection_count FROM buyers WHERE pool = ? AND buyer = ?",
+          [_pool, _buyerAddress]
+        );
+        expect(_buyerRow.expired_protection_count).to.eq(1);
+      });
+
+      it("...should not change the aggregates when the events are indexed again", async () => {
+        const _pools = _database.query("SELECT * FROM pools");
+        const _buyers = _database.query("SELECT * FROM buyers");
+        const _sellers = _database.query("SELECT * FROM sellers");
+        const _latestBlock = _database.getCheckpoint()!;
+
+        _database.setCheckpoint(_startBlock - 1);
+        await _indexTo(_latestBlock);
+
+        expect(_database.query("SELECT * FROM pools")).to.deep.eq(_pools);
+        expect(_database.query("SELECT * FROM buyers")).to.deep.eq(_buyers);
+        expect(_database.query("SELECT * FROM sellers")).to.deep.eq(_sellers);
+      });
+
+      it("...should ignore the events of the pools which aren't indexed", async () => {
+        const _otherDatabase = await openIndexerDatabase();
+        try {
+          await createEventIndexer({
+            provider: ethers.provider,
+            database: _otherDatabase,
+            contracts: { ..._contracts, protectionPools: [_pool] },
+            startBlock: _startBlock
+          }).indexTo();
+
+          expect(
+            _otherDatabase.query("SELECT DISTINCT pool FROM pool_cycles")
+          ).to.deep.eq([{ pool: _pool }]);
+        } finally {
+          _otherDatabase.close();
+        }
+      });
+    });
+
+    describe("chain reorganization", () => {
+      const _buyProtection = async (
+        nftLpTokenId: number,
+        protectionAmount: string
+      ) =>
+        (
+          await createProtectionPoolClient(
+            _context.protectionPoolInstance.address,
+            _buyer
+          )
+        ).buyProtection(
+          {
+            lendingPoolAddress: LENDING_POOL_ADDRESS,
+            nftLpTokenId,
+            protectionAmount,
+            protectionDurationInDays: 15
+          },
+          "2000"
+        );
+
+      const _requestWithdrawal = async (sTokenAmount: string) =>
+        _context.protectionPoolInstance
+          .connect(_seller)
+          .requestWithdrawal(ethers.utils.parseEther(sTokenAmount));
+
+      const _getPositions = () => ({
+        buyer: _database.query(
+          "SELECT protection_count, total_protection_bought FROM buyers WHERE pool = ? AND buyer = ?",
+          [_pool, _buyerAddress]
+        )[0],
+        seller: _database.query(
+          "SELECT total_requested_stokens FROM sellers WHERE pool = ? AND seller = ?",
+          [_pool, _sellerAddress]
+        )[0],
+        pool: _database.query(
+          "SELECT total_protection_bought FROM pools WHERE address = ?",
+          [_pool]
+        )[0]
+      });
+
+      it("...should roll back the events of the reorganized blocks & correct the positions", async () => {
+        await _indexTo();
+        const _forkBlock = await ethers.provider.getBlockNumber();
+        const _forkSnapshotId = await network.provider.send("evm_snapshot", []);
+
+        // chain A: protection bought & withdrawal request of the same cycle replaced
+        await _buyProtection(2, "30000");
+        await _requestWithdrawal("2000");
+        expect((await _indexTo()).rolledBackTo).to.be.undefined;
+        expect(_getPositions()).to.deep.eq({
+          buyer: {
+            protection_count: 2,
+            total_protection_bought: parseUSDC("80000").toString()
+          },
+          seller: {
+            total_requested_stokens: ethers.utils.parseEther("2000").toString()
+          },
+          pool: { total_protection_bought: parseUSDC("80000").toString() }
+        });
+
+        // chain B replaces chain A from the fork block & is longer than chain A
+        await network.provider.send("evm_revert", [_forkSnapshotId]);
+        await _requestWithdrawal("500");
+        await network.provider.send("hardhat_mine", ["0x5"]);
+
+        const _result = await _indexTo();
+
+        expect(_result.rolledBackTo).to.eq(_forkBlock);
+        expect(_result.fromBlock).to.eq(_forkBlock + 1);
+        expect(_database.getCheckpoint()).to.eq(
+          await ethers.provider.getBlockNumber()
+        );
+        expect(_getPositions()).to.deep.eq({
+          buyer: {
+            protection_count: 1,
+            total_protection_bought: parseUSDC("50000").toString()
+          },
+          seller: {
+            total_requested_stokens: ethers.utils.parseEther("500").toString()
+          },
+          pool: { total_protection_bought: parseUSDC("50000").toString() }
+        });
+        expect(
+          _database.query(
+            "SELECT COUNT(*) AS count FROM protection_purchases WHERE block_number > ?",
+            [_forkBlock]
+          )[0].count
+        ).to.eq(0);
+      });
+
+      it("...should fail when the chain is reorganized deeper than the confirmation depth", async () => {
+        const _otherDatabase = await openIndexerDatabase();
+        const _indexer = createEventIndexer({
+          provider: ethers.provider,
+          database: _otherDatabase,
+          contracts: _contracts,
+          startBlock: _startBlock,
+          confirmationDepth: 1
+        });
+        try {
+          await _indexer.indexTo();
+          const _forkSnapshotId = await network.provider.send(
+            "evm_snapshot",
+            []
+          );
+          // blocks after the fork block become final
+          await _requestWithdrawal("100");
+          await network.provider.send("hardhat_mine", ["0x2"]);
+          await _indexer.indexTo();
+          await network.provider.send("hardhat_mine", ["0x3"]);
+          await _indexer.indexTo();
+
+          await network.provider.send("evm_revert", [_forkSnapshotId]);
+          await _requestWithdrawal("200");
+          await network.provider.send("hardhat_mine", ["0xa"]);
+
+          await _indexer.indexTo();
+          expect.fail("indexTo should fail");
+        } catch (e: any) {
+          expect(e.message).to.contain(
+            "Chain reorganization deeper than the confirmation depth of 1 blocks"
+          );
+        } finally {
+          _otherDatabase.close();
+        }
+      });
+    });
+  });
+};
+
+export { testEventIndexer };
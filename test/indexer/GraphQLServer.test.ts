@@ -0,0 +1,341 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { Signer } from "ethers";
+import { ethers } from "hardhat";
+
+import { DeploymentContext } from "../../utils/deploy";
+import { IndexerDatabase, openIndexerDatabase } from "../../indexer/database";
+import {
+  createEventIndexer,
+  getIndexedContracts
+} from "../../indexer/eventIndexer";
+import { GraphQLServer, startGraphQLServer } from "../../indexer/server";
+import { createProtectionPoolClient } from "../../sdk/protectionPoolClient";
+import { MockContext, deployMockContext } from "../utils/mockContext";
+import { parseUSDC } from "../utils/usdc";
+import { moveForwardTimeByDays } from "../utils/time";
+
+const LENDING_POOL_ADDRESS = "0xb26b42dd5771689d0a7faeea32825ff9710b9c11";
+
+const testGraphQLServer: Function = (deployContracts: Function) => {
+  describe("GraphQLServer", () => {
+    let _mockContext: MockContext;
+    let _context: DeploymentContext;
+    let _seller: Signer;
+    let _buyer: Signer;
+    let _databasePath: string;
+    let _database: IndexerDatabase;
+    let _server: GraphQLServer;
+    let _pool: string;
+    let _sellerAddress: string;
+    let _buyerAddress: string;
+
+    const _request = (
+      method: string,
+      requestUrl: string,
+      body?: any
+    ): Promise<{ status: number; body: any }> =>
+      new Promise((resolve, reject) => {
+        const _httpRequest = http.request(
+          requestUrl,
+          { method, headers: { "Content-Type": "application/json" } },
+          (response) => {
+            let _body = "";
+            response.on("data", (chunk) => (_body += chunk));
+            response.on("end", () =>
+              resolve({
+                status: response.statusCode!,
+                body: _body ? JSON.parse(_body) : undefined
+              })
+            );
+          }
+        );
+        _httpRequest.on("error", reject);
+        _httpRequest.end(body !== undefined ? JSON.stringify(body) : undefined);
+      });
+
+    const _query = async (query: string, variables?: any) => {
+      const _response = await _request("POST", _server.url, {
+        query,
+        variables
+      });
+      expect(_response.status).to.eq(200);
+      return _response.body;
+    };
+
+    before(async () => {
+      const _signers = await ethers.getSigners();
+      _seller = _signers[11];
+      _buyer = _signers[12];
+      _sellerAddress = (await _seller.getAddress()).toLowerCase();
+      _buyerAddress = (await _buyer.getAddress()).toLowerCase();
+      // time is moved forward to expire the protection, revert it after the tests
+      _mockContext = await deployMockContext(deployContracts, _seller);
+      _context = _mockContext.context;
+      _pool = _context.protectionPoolInstance.address.toLowerCase();
+
+      await _context.mockUsdcInstance!.transfer(
+        _buyerAddress,
+        parseUSDC("10000")
+      );
+      const _sellerClient = await createProtectionPoolClient(
+        _context.protectionPoolInstance.address,
+        _seller
+      );
+      await _sellerClient.deposit("100000");
+      await _sellerClient.requestWithdrawal("1000");
+      await _context.protectionPoolInstance.connect(_seller).movePoolPhase();
+      const _buyerClient = await createProtectionPoolClient(
+        _context.protectionPoolInstance.address,
+        _buyer
+      );
+      await _buyerClient.buyProtection(
+        {
+          lendingPoolAddress: LENDING_POOL_ADDRESS,
+          nftLpTokenId: 1,
+          protectionAmount: "50000",
+          protectionDurationInDays: 20
+        },
+        "2000"
+      );
+      await _buyerClient.buyProtection(
+        {
+          lendingPoolAddress: LENDING_POOL_ADDRESS,
+          nftLpTokenId: 2,
+          protectionAmount: "20000",
+          protectionDurationInDays: 60
+        },
+        "2000"
+      );
+
+      _databasePath = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")),
+        "hardhat.sqlite"
+      );
+      _database = await openIndexerDatabase(_databasePath);
+      const { contracts, startBlock } = getIndexedContracts(
+        _context.addressBook
+      );
+      await createEventIndexer({
+        provider: ethers.provider,
+        database: _database,
+        contracts,
+        startBlock
+      }).indexTo();
+
+      _server = await startGraphQLServer({
+        database: _database,
+        provider: ethers.provider,
+        port: 0
+      });
+    });
+
+    after(async () => {
+      await _server.close();
+      _database.close();
+      fs.rmSync(path.dirname(_databasePath), { recursive: true, force: true });
+      await _mockContext.revert();
+    });
+
+    describe("pools", () => {
+      it("...should return the indexed pools with the live leverage ratio", async () => {
+        const { data, errors } = await _query(
+          `query ($id: ID!) {
+            pool(id: $id) {
+              id
+              phase
+              currentCycleIndex
+              totalDeposited
+              totalProtectionBought
+              leverageRatio
+              cycles { cycleIndex }
+            }
+            pools { id }
+          }`,
+          { id: _context.protectionPoolInstance.address }
+        );
+
+        expect(errors).to.be.undefined;
+        expect(data.pools.length).to.eq(2);
+        expect(data.pool.id).to.eq(_pool);
+        expect(data.pool.phase).to.eq("OpenToBuyers");
+        expect(data.pool.currentCycleIndex).to.eq(0);
+        expect(data.pool.totalDeposited).to.eq(parseUSDC("100000").toString());
+        expect(data.pool.totalProtectionBought).to.eq(
+          parseUSDC("70000").toString()
+        );
+        expect(data.pool.leverageRatio).to.eq(
+          (
+            await _context.protectionPoolInstance.calculateLeverageRatio()
+          ).toString()
+        );
+        expect(data.pool.cycles).to.deep.eq([{ cycleIndex: 0 }]);
+      });
+
+      it("...should return null for an unknown pool", async () => {
+        const { data } = await _query(
+          `{ pool(id: "${LENDING_POOL_ADDRESS}") { id } }`
+        );
+        expect(data.pool).to.be.null;
+      });
+    });
+
+    describe("protections", () => {
+      it("...should filter the protections by buyer & lending pool", async () => {
+        const { data, errors } = await _query(
+          `query ($buyer: String, $lendingPool: String) {
+            protections(where: { buyer: $buyer, lendingPool: $lendingPool }) {
+              pool
+              buyer
+              protectionAmount
+              nftLpTokenId
+              expirationTimestamp
+              expired
+            }
+          }`,
+          {
+            buyer: await _buyer.getAddress(),
+            lendingPool: LENDING_POOL_ADDRESS
+          }
+        );
+
+        expect(errors).to.be.undefined;
+        expect(data.protections.length).to.eq(2);
+        expect(data.protections[0].pool).to.eq(_pool);
+        expect(data.protections[0].buyer).to.eq(_buyerAddress);
+        expect(data.protections[0].protectionAmount).to.eq(
+          parseUSDC("50000").toString()
+        );
+        expect(data.protections[1].protectionAmount).to.eq(
+          parseUSDC("20000").toString()
+        );
+        expect(data.protections[0].nftLpTokenId).to.eq("1");
+        expect(data.protections[0].expired).to.be.false;
+
+        const _protection = (
+          await _context.protectionPoolInstance.getAllProtections()
+        )[0];
+        expect(data.protections[0].expirationTimestamp).to.eq(
+          _protection.startTimestamp
+            .add(_protection.purchaseParams.protectionDurationInSeconds)
+            .toNumber()
+        );
+
+        const { data: _otherBuyer } = await _query(
+          `{ protections(where: { buyer: "${_sellerAddress}" }) { id } }`
+        );
+        expect(_otherBuyer.protections).to.deep.eq([]);
+      });
+
+      it("...should paginate the protections", async () => {
+        const { data } = await _query(
+          `{
+            first: protections(first: 1) { protectionAmount }
+            second: protections(first: 1, skip: 1) { protectionAmount }
+          }`
+        );
+
+        expect(data.first).to.deep.eq([
+          { protectionAmount: parseUSDC("50000").toString() }
+        ]);
+        expect(data.second).to.deep.eq([
+          { protectionAmount: parseUSDC("20000").toString() }
+        ]);
+      });
+
+      it("...should filter the protections by status after the protection expires", async () => {
+        await moveForwardTimeByDays(21);
+
+        const { data } = await _query(
+          `{
+            active: protections(where: { status: ACTIVE }) { protectionAmount expired }
+            expired: protections(where: { status: EXPIRED }) { protectionAmount expired }
+          }`
+        );
+
+        expect(data.active).to.deep.eq([
+          { protectionAmount: parseUSDC("20000").toString(), expired: false }
+        ]);
+        expect(data.expired).to.deep.eq([
+          { protectionAmount: parseUSDC("50000").toString(), expired: true }
+        ]);
+      });
+
+      it("...should reject a page size above the limit", async () => {
+        const { errors } = await _query("{ protections(first: 5000) { id } }");
+        expect(errors[0].message).to.contain("first must be between 0 and");
+      });
+    });
+
+    describe("sellers", () => {
+      it("...should return the sellers with their withdrawal requests", async () => {
+        const { data, errors } = await _query(
+          `query ($pool: String) {
+            sellers(pool: $pool) {
+              address
+              totalDeposited
+              withdrawalRequests { sTokenAmount withdrawalCycleIndex }
+            }
+            withdrawalRequests(where: { withdrawalCycleIndex: 2 }) { seller }
+          }`,
+          { pool: _pool }
+        );
+
+        expect(errors).to.be.undefined;
+        expect(data.sellers).to.deep.eq([
+          {
+            address: _sellerAddress,
+            totalDeposited: parseUSDC("100000").toString(),
+            withdrawalRequests: [
+              {
+                sTokenAmount: ethers.utils.parseEther("1000").toString(),
+                withdrawalCycleIndex: 2
+              }
+            ]
+          }
+        ]);
+        expect(data.withdrawalRequests).to.deep.eq([
+          { seller: _sellerAddress }
+        ]);
+      });
+    });
+
+    describe("http", () => {
+      it("...should serve GET requests with the query parameter", async () => {
+        const _response = await _request(
+          "GET",
+          `${_server.url}?query=${encodeURIComponent(
+            "{ indexerStatus { checkpoint } lockedCapitals { id } }"
+          )}`
+        );
+
+        expect(_response.status).to.eq(200);
+        expect(_response.body.data.indexerStatus.checkpoint).to.eq(
+          _database.getCheckpoint()
+        );
+        expect(_response.body.data.lockedCapitals).to.deep.eq([]);
+      });
+
+      it("...should reject requests without a query", async () => {
+        const _response = await _request("POST", _server.url, {});
+        expect(_response.status).to.eq(400);
+        expect(_response.body.errors[0].message).to.eq(
+          "Request must contain a query"
+        );
+      });
+
+      it("...should return 404 outside of the graphql path", async () => {
+        const _response = await _request(
+          "GET",
+          _server.url.replace("/graphql", "/")
+        );
+        expect(_response.status).to.eq(404);
+      });
+    });
+  });
+};
+
+export { testGraphQLServer };
@@ -0,0 +1,379 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Signer } from "ethers";
+import { ethers, network } from "hardhat";
+
+import { DeploymentContext } from "../../utils/deploy";
+import { CarapaceContracts } from "../../sdk/contracts";
+import { KeeperHistory, openKeeperHistory } from "../../keeper/history";
+import {
+  TransactionSender,
+  createTransactionSender
+} from "../../keeper/transactionSender";
+import {
+  DEFAULT_JOB_INTERVALS,
+  KeeperConfig,
+  createKeeper,
+  parseKeeperJobs
+} from "../../keeper/keeper";
+import { MockContext, deployMockContext } from "../utils/mockContext";
+import { moveForwardTimeByDays } from "../utils/time";
+
+const JOBS: KeeperConfig["jobs"] = {
+  assessStates: { interval: 60 * 60 },
+  accruePremiumAndExpireProtections: { interval: 24 * 60 * 60, batchSize: 2 },
+  calculateAndSetPoolCycleState: { interval: 60 * 60 }
+};
+
+const testKeeper: Function = (deployContracts: Function) => {
+  describe("Keeper", () => {
+    let _mockContext: MockContext;
+    let _context: DeploymentContext;
+    let _operator: Signer;
+    let _contracts: CarapaceContracts;
+    let _sender: TransactionSender;
+    let _historyPath: string;
+    let _history: KeeperHistory;
+    let _pools: string[];
+
+    before(async () => {
+      const _deployer = (await ethers.getSigners())[16];
+      _mockContext = await deployMockContext(deployContracts, _deployer);
+      _context = _mockContext.context;
+      _operator = _context.operator;
+      _contracts = _mockContext.contracts;
+      _pools = await _contracts.contractFactory.getProtectionPools();
+      _sender = createTransactionSender({ signer: _operator });
+
+      _historyPath = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "keeper-")),
+        "keeper.sqlite"
+      );
+      _history = await openKeeperHistory(_historyPath);
+    });
+
+    after(async () => {
+      _history.close();
+      fs.rmSync(path.dirname(_historyPath), { recursive: true, force: true });
+      await _mockContext.revert();
+    });
+
+    describe("runDueJobs", () => {
+      it("...should run all jobs on the first run", async () => {
+        const _runs = await createKeeper({
+          contracts: _contracts,
+          sender: _sender,
+          history: _history,
+          jobs: JOBS
+        }).runDueJobs();
+
+        expect(_runs.map((run) => run.job)).to.deep.eq([
+          "assessStates",
+          "accruePremiumAndExpireProtections",
+          "calculateAndSetPoolCycleState"
+        ]);
+        _runs.forEach((run) => expect(run.status).to.eq("succeeded"));
+
+        const [_assess, _accrue, _cycle] = _runs;
+        expect(_assess.transactions.length).to.eq(1);
+        expect(_assess.transactions[0].description).to.eq("assessStates()");
+        expect(_assess.transactions[0].transactionHash).to.be.a("string");
+        expect(_assess.transactions[0].attempts).to.eq(1);
+
+        // 3 lending pools of the first pool are accrued in batches of 2 & the lending pool of the second pool alone
+        expect(
+          _accrue.transactions.map((transaction) => transaction.target)
+        ).to.deep.eq([_pools[0], _pools[0], _pools[1]]);
+        _accrue.transactions.forEach((transaction) =>
+          expect(transaction.status).to.eq("succeeded")
+        );
+
+        // cycles of both pools are still open
+        expect(
+          _cycle.transactions.map((transaction) => transaction.status)
+        ).to.deep.eq(["skipped", "skipped"]);
+      });
+
+      it("...should record the runs in the history", async () => {
+        const _lastRun = _history.getLastRun(
+          "accruePremiumAndExpireProtections"
+        );
+        expect(_lastRun?.status).to.eq("succeeded");
+        expect(_lastRun?.transactions.length).to.eq(3);
+        expect(_history.getRuns().map((run) => run.job)).to.deep.eq([
+          "calculateAndSetPoolCycleState",
+          "accruePremiumAndExpireProtections",
+          "assessStates"
+        ]);
+      });
+
+      it("...should not run the jobs before their interval passed", async () => {
+        const _runs = await createKeeper({
+          contracts: _contracts,
+          sender: _sender,
+          history: _history,
+          jobs: JOBS
+        }).runDueJobs();
+        expect(_runs).to.be.empty;
+      });
+
+      it("...should run the jobs on their own schedules", async () => {
+        await moveForwardTimeByDays(2 / 24);
+        const _runs = await createKeeper({
+          contracts: _contracts,
+          sender: _sender,
+          history: _history,
+          jobs: JOBS
+        }).runDueJobs();
+        expect(_runs.map((run) => run.job)).to.deep.eq([
+          "assessStates",
+          "calculateAndSetPoolCycleState"
+        ]);
+      });
+
+      it("...should lock the cycle of the pool whose open period is over", async () => {
+        // open period is 7 days for the first pool & 10 days for the second pool
+        await moveForwardTimeByDays(8);
+        const _runs = await createKeeper({
+          contracts: _contracts,
+          sender: _sender,
+          history: _history,
+          jobs: JOBS
+        }).runDueJobs();
+        expect(_runs.length).to.eq(3);
+
+        const _cycle = _runs[2];
+        expect(_cycle.status).to.eq("succeeded");
+        expect(
+          _cycle.transactions.map((transaction) => transaction.status)
+        ).to.deep.eq(["succeeded", "skipped"]);
+        expect(
+          await _contracts.protectionPoolCycleManager.getCurrentCycleState(
+            _pools[0]
+          )
+        ).to.eq(2); // Locked
+        expect(
+          await _contracts.protectionPoolCycleManager.getCurrentCycleState(
+            _pools[1]
+          )
+        ).to.eq(1); // Open
+      });
+    });
+
+    describe("runJob", () => {
+      it("...should assess the pools in batches when their lending pools don't fit in a batch", async () => {
+        const _run = await createKeeper({
+          contracts: _contracts,
+          sender: _sender,
+          history: _history,
+          jobs: { assessStates: { interval: 60 * 60, batchSize: 3 } }
+        }).runJob("assessStates");
+
+        expect(_run.status).to.eq("succeeded");
+        expect(
+          _run.transactions.map((transaction) => transaction.description)
+        ).to.deep.eq([
+          `assessStateBatch(${_pools[0]})`,
+          `assessStateBatch(${_pools[1]})`
+        ]);
+      });
+
+      it("...should record the failed transactions of a signer without the operator role", async () => {
+        const _run = await createKeeper({
+          contracts: _contracts,
+          sender: createTransactionSender({
+            signer: (await ethers.getSigners())[16]
+          }),
+          history: _history,
+          jobs: JOBS
+        }).runJob("accruePremiumAndExpireProtections");
+
+        expect(_run.status).to.eq("failed");
+        expect(_run.transactions.length).to.eq(3);
+        _run.transactions.forEach((transaction) => {
+          expect(transaction.status).to.eq("failed");
+          expect(transaction.attempts).to.eq(0);
+          expect(transaction.error).to.contain("CallerIsNotOperator");
+        });
+        expect(
+          _history.getLastRun("accruePremiumAndExpireProtections")?.status
+        ).to.eq("failed");
+      });
+    });
+
+    describe("openKeeperHistory", () => {
+      it("...should resume the schedules from the reopened history", async () => {
+        const _runCount = _history.getRuns().length;
+        _history.close();
+        _history = await openKeeperHistory(_historyPath);
+
+        expect(_history.getRuns().length).to.eq(_runCount);
+        const _runs = await createKeeper({
+          contracts: _contracts,
+          sender: _sender,
+          history: _history,
+          jobs: JOBS
+        }).runDueJobs();
+        expect(_runs).to.be.empty;
+      });
+    });
+
+    describe("parseKeeperJobs", () => {
+      it("...should schedule all jobs at their default intervals", async () => {
+        expect(parseKeeperJobs()).to.deep.eq({
+          assessStates: { interval: 60 * 60, batchSize: 20 },
+          accruePremiumAndExpireProtections: {
+            interval: 24 * 60 * 60,
+            batchSize: 20
+          },
+          calculateAndSetPoolCycleState: { interval: 60 * 60, batchSize: 20 }
+        });
+      });
+
+      it("...should schedule the listed jobs at the specified intervals", async () => {
+        expect(
+          parseKeeperJobs(
+            " calculateAndSetPoolCycleState,accruePremiumAndExpireProtections ,",
+            { accruePremiumAndExpireProtections: 600, assessStates: 60 },
+            5
+          )
+        ).to.deep.eq({
+          calculateAndSetPoolCycleState: {
+            interval: DEFAULT_JOB_INTERVALS.calculateAndSetPoolCycleState,
+            batchSize: 5
+          },
+          accruePremiumAndExpireProtections: { interval: 600, batchSize: 5 }
+        });
+      });
+
+      it("...should not schedule an unknown job", async () => {
+        expect(() => parseKeeperJobs("assessStates,assess")).to.throw(
+          "Unknown job assess, jobs are assessStates, accruePremiumAndExpireProtections, calculateAndSetPoolCycleState"
+        );
+        expect(() => parseKeeperJobs(" ,")).to.throw('No jobs in " ,"');
+      });
+
+      it("...should not accept an interval or batch size which isn't positive", async () => {
+        expect(() =>
+          parseKeeperJobs("assessStates", { assessStates: 0 })
+        ).to.throw("Interval 0 of assessStates isn't positive");
+        expect(() => parseKeeperJobs(undefined, {}, 0)).to.throw(
+          "Batch size 0 isn't positive"
+        );
+      });
+    });
+
+    describe("createTransactionSender", () => {
+      it("...should not accept a gas bump below 10%", async () => {
+        try {
+          createTransactionSender({ signer: _operator, gasBumpPercent: 5 });
+          expect.fail("Expected an error");
+        } catch (error: any) {
+          expect(error.message).to.contain("below the min bump of 10%");
+        }
+      });
+
+      it("...should replace a transaction which isn't mined with bumped fees", async () => {
+        const _sender = createTransactionSender({
+          signer: _operator,
+          confirmationTimeout: 1,
+          receiptPollInterval: 0.1
+        });
+        const _transaction =
+          await _contracts.defaultStateManager.populateTransaction.assessStates();
+
+        await network.provider.send("evm_setAutomine", [false]);
+        try {
+          const _sent = _sender.send(_transaction);
+
+          // waits for the replacement of the first transaction before mining it
+          let _firstHash: string | undefined;
+          for (;;) {
+            const _pending: any[] = await network.provider.send(
+              "eth_pendingTransactions",
+              []
+            );
+            if (_pending.length > 0) {
+              _firstHash = _firstHash ?? _pending[0].hash;
+              if (_pending[0].hash !== _firstHash) {
+                break;
+              }
+            }
+            await new Promise((resolve) => setTimeout(resolve, 100));
+          }
+          await network.provider.send("evm_mine", []);
+
+          const { receipt, attempts } = await _sent;
+          expect(attempts).to.eq(2);
+          expect(receipt.status).to.eq(1);
+          expect(receipt.transactionHash).to.not.eq(_firstHash);
+        } finally {
+          await network.provider.send("evm_setAutomine", [true]);
+        }
+      });
+
+      it("...should send with the next nonce after a transaction sent by another client", async () => {
+        const _transaction =
+          await _contracts.defaultStateManager.populateTransaction.assessStates();
+        await _sender.send(_transaction);
+
+        // nonce cached by the sender is used by this transaction
+        await (
+          await _contracts.defaultStateManager.connect(_operator).assessStates()
+        ).wait();
+
+        const { receipt } = await _sender.send(_transaction);
+        expect(receipt.status).to.eq(1);
+        expect(receipt.from).to.eq(await _operator.getAddress());
+      });
+
+      it("...should send the concurrent transactions one after the other", async () => {
+        const _transaction =
+          await _contracts.defaultStateManager.populateTransaction.assessStates();
+        const _sender = createTransactionSender({ signer: _operator });
+
+        const _sent = await Promise.all([
+          _sender.send(_transaction),
+          _sender.send(_transaction),
+          _sender.send(_transaction)
+        ]);
+
+        const _nonces = await Promise.all(
+          _sent.map(
+            async ({ receipt }) =>
+              (
+                await ethers.provider.getTransaction(receipt.transactionHash)
+              ).nonce
+          )
+        );
+        expect(_nonces).to.deep.eq([
+          _nonces[0],
+          _nonces[0] + 1,
+          _nonces[0] + 2
+        ]);
+        _sent.forEach(({ receipt, attempts }) => {
+          expect(receipt.status).to.eq(1);
+          expect(attempts).to.eq(1);
+        });
+      });
+
+      it("...should throw the reverts without sending the transaction", async () => {
+        try {
+          await createTransactionSender({
+            signer: (await ethers.getSigners())[16]
+          }).send(
+            await _contracts.defaultStateManager.populateTransaction.assessStates()
+          );
+          expect.fail("Expected an error");
+        } catch (error: any) {
+          expect(error.attempts).to.eq(0);
+          expect(error.message).to.contain("AccessControl");
+        }
+      });
+    });
+  });
+};
+
+export { testKeeper };
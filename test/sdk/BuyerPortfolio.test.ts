@@ -0,0 +1,214 @@
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { ethers } from "hardhat";
+
+import { DeploymentContext } from "../../utils/deploy";
+import { openIndexerDatabase } from "../../indexer/database";
+import {
+  createEventIndexer,
+  getIndexedContracts
+} from "../../indexer/eventIndexer";
+import { getIndexedProtectionReferences } from "../../indexer/protections";
+import { CarapaceContracts } from "../../sdk/contracts";
+import { getBuyerPortfolio } from "../../sdk/buyerPortfolio";
+import { createProtectionPoolClient } from "../../sdk/protectionPoolClient";
+import { MockContext, deployMockContext } from "../utils/mockContext";
+import { parseUSDC } from "../utils/usdc";
+import { moveForwardTimeByDays } from "../utils/time";
+
+const LENDING_POOL_ADDRESS = "0xb26b42dd5771689d0a7faeea32825ff9710b9c11";
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const testBuyerPortfolio: Function = (deployContracts: Function) => {
+  describe("BuyerPortfolio", () => {
+    let _mockContext: MockContext;
+    let _context: DeploymentContext;
+    let _buyer: Signer;
+    let _buyerAddress: string;
+    let _contracts: CarapaceContracts;
+    let _premium: string;
+
+    const _getIndexedReferences = async () => {
+      const _database = await openIndexerDatabase();
+      try {
+        const { contracts, startBlock } = getIndexedContracts(
+          _context.addressBook
+        );
+        await createEventIndexer({
+          provider: ethers.provider,
+          database: _database,
+          contracts,
+          startBlock
+        }).indexTo();
+        return getIndexedProtectionReferences(_database, _buyerAddress);
+      } finally {
+        _database.close();
+      }
+    };
+
+    before(async () => {
+      const _signers = await ethers.getSigners();
+      const _seller = _signers[15];
+      _buyer = _signers[16];
+      _buyerAddress = await _buyer.getAddress();
+      // time is moved forward to expire the protection, revert it after the tests
+      _mockContext = await deployMockContext(deployContracts, _seller);
+      _context = _mockContext.context;
+      _contracts = _mockContext.contracts;
+
+      await _context.mockUsdcInstance!.transfer(
+        _buyerAddress,
+        parseUSDC("10000")
+      );
+      await (
+        await createProtectionPoolClient(
+          _context.protectionPoolInstance.address,
+          _seller
+        )
+      ).deposit("100000");
+      await _context.protectionPoolInstance.connect(_seller).movePoolPhase();
+
+      const _buyerClient = await createProtectionPoolClient(
+        _context.protectionPoolInstance.address,
+        _buyer
+      );
+      ({ premium: _premium } = await _buyerClient.buyProtection(
+        {
+          lendingPoolAddress: LENDING_POOL_ADDRESS,
+          nftLpTokenId: 1,
+          protectionAmount: "50000",
+          protectionDurationInDays: 20
+        },
+        "2000"
+      ));
+      await _buyerClient.buyProtection(
+        {
+          lendingPoolAddress: LENDING_POOL_ADDRESS,
+          nftLpTokenId: 2,
+          protectionAmount: "20000",
+          protectionDurationInDays: 60
+        },
+        "2000"
+      );
+    });
+
+    after(async () => {
+      await _mockContext.revert();
+    });
+
+    describe("getBuyerPortfolio", () => {
+      it("...should return the active protections with their renewal deadlines", async () => {
+        const _portfolio = await getBuyerPortfolio(_contracts, _buyerAddress);
+
+        expect(_portfolio.expiredProtections).to.deep.eq([]);
+        expect(_portfolio.activeProtections.length).to.eq(2);
+
+        const [_protection] = _portfolio.activeProtections;
+        expect(_protection.protectionPool).to.eq(
+          _context.protectionPoolInstance.address
+        );
+        expect(_protection.lendingPool.toLowerCase()).to.eq(
+          LENDING_POOL_ADDRESS
+        );
+        expect(_protection.nftLpTokenId).to.eq("1");
+        expect(_protection.protectionAmount).to.eq("50000.0");
+        expect(_protection.premium).to.eq(_premium);
+        expect(_protection.expirationTimestamp).to.eq(
+          _protection.startTimestamp + 20 * SECONDS_PER_DAY
+        );
+        // renewal grace period of the pool is 14 days
+        expect(_protection.renewalDeadline).to.eq(
+          _protection.expirationTimestamp + 14 * SECONDS_PER_DAY
+        );
+        expect(_protection.expired).to.be.false;
+        expect(_protection.pendingExpiry).to.be.false;
+        expect(_protection.renewable).to.be.false;
+        // mock adapter returns 500,000 USDC as the remaining principal
+        expect(_protection.remainingPrincipal).to.eq("500000.0");
+      });
+
+      it("...should not be renewable before the pool marks the ended protection as expired", async () => {
+        await moveForwardTimeByDays(21);
+
+        const _portfolio = await getBuyerPortfolio(_contracts, _buyerAddress);
+        const [_protection] = _portfolio.activeProtections;
+        expect(_protection.nftLpTokenId).to.eq("1");
+        expect(_protection.expired).to.be.true;
+        expect(_protection.pendingExpiry).to.be.true;
+        expect(_protection.renewable).to.be.false;
+        expect(_protection.renewalDeadline).to.be.gt(_portfolio.timestamp);
+      });
+
+      it("...should return the expired protection from the indexed protections", async () => {
+        await _context.protectionPoolInstance
+          .connect(_context.operator)
+          .accruePremiumAndExpireProtections([]);
+
+        const _references = await _getIndexedReferences();
+        expect(_references).to.deep.eq([
+          {
+            protectionPool:
+              _context.protectionPoolInstance.address.toLowerCase(),
+            protectionIndex: 0
+          },
+          {
+            protectionPool:
+              _context.protectionPoolInstance.address.toLowerCase(),
+            protectionIndex: 1
+          }
+        ]);
+
+        const _portfolio = await getBuyerPortfolio(
+          _contracts,
+          _buyerAddress,
+          _references
+        );
+        expect(
+          _portfolio.activeProtections.map(
+            (protection) => protection.nftLpTokenId
+          )
+        ).to.deep.eq(["2"]);
+        expect(_portfolio.expiredProtections.length).to.eq(1);
+        expect(_portfolio.expiredProtections[0].nftLpTokenId).to.eq("1");
+        expect(_portfolio.expiredProtections[0].expired).to.be.true;
+        expect(_portfolio.expiredProtections[0].pendingExpiry).to.be.false;
+        expect(_portfolio.expiredProtections[0].renewable).to.be.true;
+        expect(_portfolio.expiredProtections[0].renewalDeadline).to.be.gt(
+          _portfolio.timestamp
+        );
+      });
+
+      it("...should not be renewable after the renewal deadline", async () => {
+        await moveForwardTimeByDays(14);
+
+        const _portfolio = await getBuyerPortfolio(
+          _contracts,
+          _buyerAddress,
+          await _getIndexedReferences()
+        );
+        expect(_portfolio.expiredProtections[0].renewable).to.be.false;
+        expect(_portfolio.expiredProtections[0].renewalDeadline).to.be.lt(
+          _portfolio.timestamp
+        );
+      });
+
+      it("...should fail for a reference to an unknown protection", async () => {
+        try {
+          await getBuyerPortfolio(_contracts, _buyerAddress, [
+            {
+              protectionPool: _context.protectionPoolInstance.address,
+              protectionIndex: 5
+            }
+          ]);
+          expect.fail("should have thrown");
+        } catch (error: any) {
+          expect(error.message).to.eq(
+            `Protection 5 doesn't exist in pool ${_context.protectionPoolInstance.address}`
+          );
+        }
+      });
+    });
+  });
+};
+
+export { testBuyerPortfolio };
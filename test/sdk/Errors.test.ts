@@ -0,0 +1,230 @@
+import { expect } from "chai";
+import { BigNumber, Signer } from "ethers";
+import { ethers } from "hardhat";
+import { ParamType } from "ethers/lib/utils";
+
+import { DeploymentContext } from "../../utils/deploy";
+import { decodeError, decodeErrorData, formatError } from "../../sdk/errors";
+import { createProtectionPoolClient } from "../../sdk/protectionPoolClient";
+import { IProtectionPool__factory } from "../../typechain-types/factories/contracts/interfaces/IProtectionPool__factory";
+import { IReferenceLendingPools__factory } from "../../typechain-types/factories/contracts/interfaces/IReferenceLendingPools__factory";
+import { IDefaultStateManager__factory } from "../../typechain-types/factories/contracts/interfaces/IDefaultStateManager__factory";
+import { IProtectionPoolCycleManager__factory } from "../../typechain-types/factories/contracts/interfaces/IProtectionPoolCycleManager__factory";
+import { AccruedPremiumCalculator__factory } from "../../typechain-types/factories/contracts/libraries/AccruedPremiumCalculator__factory";
+import { MockContext, deployMockContext } from "../utils/mockContext";
+import { parseUSDC } from "../utils/usdc";
+
+const LENDING_POOL_ADDRESS = "0xb26b42dd5771689d0a7faeea32825ff9710b9c11";
+
+/**
+ * Returns a value of the param type, which can be encoded
+ */
+const _defaultValue = (param: ParamType): any => {
+  if (param.baseType === "tuple") {
+    return param.components.map(_defaultValue);
+  }
+  if (param.baseType === "address") {
+    return ethers.constants.AddressZero;
+  }
+  if (param.baseType === "string") {
+    return "";
+  }
+  if (param.baseType === "bool") {
+    return false;
+  }
+  return 0;
+};
+
+const testErrors: Function = (deployContracts: Function) => {
+  describe("Errors", () => {
+    describe("decodeErrorData", () => {
+      const _interface = IProtectionPool__factory.createInterface();
+
+      it("...should decode the custom error with the explanation", async () => {
+        const _decoded = decodeErrorData(
+          _interface.encodeErrorResult("PremiumExceedsMaxPremiumAmount", [
+            parseUSDC("12.5"),
+            parseUSDC("10")
+          ]),
+          { underlyingDecimals: 6 }
+        );
+
+        expect(_decoded!.name).to.eq("PremiumExceedsMaxPremiumAmount");
+        expect(_decoded!.signature).to.eq(
+          "PremiumExceedsMaxPremiumAmount(uint256,uint256)"
+        );
+        expect(_decoded!.args.premiumAmount).to.eq(parseUSDC("12.5"));
+        expect(_decoded!.args.maxPremiumAmount).to.eq(parseUSDC("10"));
+        expect(_decoded!.message).to.eq(
+          "Premium of 12.5 exceeds the max premium of 10.0"
+        );
+      });
+
+      it("...should show the amounts in on-chain units without the decimals", async () => {
+        const _decoded = decodeErrorData(
+          _interface.encodeErrorResult("PremiumExceedsMaxPremiumAmount", [
+            parseUSDC("12.5"),
+            parseUSDC("10")
+          ])
+        );
+        expect(_decoded!.message).to.eq(
+          "Premium of 12500000 exceeds the max premium of 10000000"
+        );
+      });
+
+      it("...should decode the struct arguments", async () => {
+        const _decoded = decodeErrorData(
+          _interface.encodeErrorResult("ProtectionPurchaseNotAllowed", [
+            [LENDING_POOL_ADDRESS, 590, parseUSDC("100"), 86400]
+          ])
+        );
+        expect(_decoded!.args.params.nftLpTokenId).to.eq(590);
+        expect(_decoded!.message).to.contain(
+          "Protection purchase for the NFT LP token 590 of lending pool"
+        );
+      });
+
+      it("...should decode the errors of the libraries", async () => {
+        const _decoded = decodeErrorData(
+          AccruedPremiumCalculator__factory.createInterface().encodeErrorResult(
+            "PRBMathSD59x18__ExpInputTooBig",
+            [BigNumber.from(10).pow(20)]
+          )
+        );
+        expect(_decoded!.name).to.eq("PRBMathSD59x18__ExpInputTooBig");
+        expect(_decoded!.message).to.contain(
+          "the protection parameters are out of the supported range"
+        );
+      });
+
+      it("...should decode the built-in errors", async () => {
+        // built-in errors can't be encoded with an Interface
+        expect(
+          decodeErrorData(
+            ethers.utils.hexConcat([
+              "0x08c379a0",
+              ethers.utils.defaultAbiCoder.encode(
+                ["string"],
+                ["Ownable: caller is not the owner"]
+              )
+            ])
+          )!.message
+        ).to.eq("Ownable: caller is not the owner");
+        expect(
+          decodeErrorData(
+            ethers.utils.hexConcat([
+              "0x4e487b71",
+              ethers.utils.defaultAbiCoder.encode(["uint256"], [0x12])
+            ])
+          )!.message
+        ).to.eq(
+          "Transaction reverted with a panic: division or modulo by zero"
+        );
+      });
+
+      it("...should return undefined for unknown data", async () => {
+        expect(decodeErrorData("0x12345678")).to.be.undefined;
+        expect(decodeErrorData("0x")).to.be.undefined;
+      });
+
+      it("...should explain all errors of the core contracts", async () => {
+        [
+          IProtectionPool__factory.createInterface(),
+          IReferenceLendingPools__factory.createInterface(),
+          IDefaultStateManager__factory.createInterface(),
+          IProtectionPoolCycleManager__factory.createInterface()
+        ].forEach((contractInterface) => {
+          Object.values(contractInterface.errors).forEach((fragment) => {
+            const _decoded = decodeErrorData(
+              contractInterface.encodeErrorResult(
+                fragment,
+                fragment.inputs.map(_defaultValue)
+              )
+            );
+            expect(_decoded!.name).to.eq(fragment.name);
+            expect(_decoded!.message).not.to.contain("Premium calculation");
+          });
+        });
+      });
+    });
+
+    describe("revert errors", () => {
+      let _mockContext: MockContext;
+      let _context: DeploymentContext;
+      let _seller: Signer;
+
+      before(async () => {
+        _seller = (await ethers.getSigners())[17];
+        _mockContext = await deployMockContext(deployContracts, _seller);
+        _context = _mockContext.context;
+      });
+
+      after(async () => {
+        await _mockContext.revert();
+      });
+
+      it("...should throw the decoded error from the SDK client", async () => {
+        const _client = await createProtectionPoolClient(
+          _context.protectionPoolInstance.address,
+          _seller
+        );
+        try {
+          await _client.buyProtection(
+            {
+              lendingPoolAddress: LENDING_POOL_ADDRESS,
+              nftLpTokenId: 1,
+              protectionAmount: "10000",
+              protectionDurationInDays: 20
+            },
+            "100"
+          );
+          expect.fail("buyProtection should fail");
+        } catch (e: any) {
+          expect(e.decodedError.name).to.eq(
+            "ProtectionPoolInOpenToSellersPhase"
+          );
+          expect(e.message).to.eq(
+            "Protection pool is open only to sellers, protection can't be bought yet"
+          );
+          expect(e.originalError).not.to.be.undefined;
+        }
+      });
+
+      it("...should decode the arguments of the reverted transaction", async () => {
+        const _sellerAddress = await _seller.getAddress();
+        try {
+          await _context.protectionPoolInstance
+            .connect(_seller)
+            .withdraw(1, _sellerAddress);
+          expect.fail("withdraw should fail");
+        } catch (e: any) {
+          const _decoded = decodeError(e);
+          expect(_decoded!.name).to.eq("NoWithdrawalRequested");
+          expect(_decoded!.args.msgSender).to.eq(_sellerAddress);
+          expect(_decoded!.args.poolCycleIndex).to.eq(0);
+          expect(formatError(e)).to.eq(
+            `${_sellerAddress} has no withdrawal requested for the pool cycle 0, ` +
+              "withdrawals must be requested two cycles in advance (NoWithdrawalRequested)"
+          );
+        }
+      });
+
+      it("...should decode the revert reason of a failed call", async () => {
+        try {
+          await _context.defaultStateManagerInstance
+            .connect(_seller)
+            .registerProtectionPool(_context.protectionPoolInstance.address);
+          expect.fail("registerProtectionPool should fail");
+        } catch (e: any) {
+          expect(decodeError(e)!.name).to.eq("NotContractFactory");
+        }
+      });
+
+      it("...should return the message of an error without revert data", async () => {
+        expect(formatError(new Error("network error"))).to.eq("network error");
+      });
+    });
+  });
+};
+
+export { testErrors };
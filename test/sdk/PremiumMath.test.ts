@@ -0,0 +1,247 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { parseEther } from "ethers/lib/utils";
+import { ethers } from "hardhat";
+
+import { PremiumCalculator } from "../../typechain-types/contracts/core/PremiumCalculator";
+import { RiskFactorCalculator } from "../../typechain-types/contracts/libraries/RiskFactorCalculator";
+import { MockPRBMathSD59x18 } from "../../typechain-types/contracts/test/MockPRBMathSD59x18";
+import * as prbMath from "../../sdk/prbMath";
+import {
+  calculateRiskFactor,
+  calculateRiskFactorUsingMinPremium,
+  canCalculateRiskFactor
+} from "../../sdk/riskFactorCalculator";
+import { calculatePremium } from "../../sdk/premiumCalculator";
+import { getDaysInSeconds } from "../utils/time";
+import { parseUSDC } from "../utils/usdc";
+import { createRandom, expectSameResult } from "../utils/differential";
+
+const testPremiumMath: Function = (
+  premiumCalculator: PremiumCalculator,
+  riskFactorCalculator: RiskFactorCalculator
+) => {
+  describe("Off-chain premium math", () => {
+    const _random = createRandom(20230214);
+    let _prbMath: MockPRBMathSD59x18;
+
+    before(async () => {
+      _prbMath = (await (
+        await ethers.getContractFactory("MockPRBMathSD59x18")
+      ).deploy()) as MockPRBMathSD59x18;
+      await _prbMath.deployed();
+    });
+
+    describe("prbMath", () => {
+      it("...should match exp & exp2 across the whole input range", async () => {
+        for (let i = 0; i < 500; i++) {
+          // exp returns 0 below -41.44 & reverts from 133.08
+          const _x =
+            i % 2 === 0
+              ? _random.between(parseEther("-45"), parseEther("135"))
+              : _random.signed(_random.magnitude(20));
+          await expectSameResult(
+            `exp(${_x})`,
+            () => _prbMath.exp(_x),
+            () => prbMath.exp(_x)
+          );
+          await expectSameResult(
+            `exp2(${_x})`,
+            () => _prbMath.exp2(_x),
+            () => prbMath.exp2(_x)
+          );
+        }
+      });
+
+      it("...should match ln & log2 for all magnitudes", async () => {
+        for (let i = 0; i < 500; i++) {
+          const _x =
+            i % 10 === 0
+              ? _random.signed(_random.magnitude(3)).sub(1)
+              : _random.magnitude(60);
+          await expectSameResult(
+            `ln(${_x})`,
+            () => _prbMath.ln(_x),
+            () => prbMath.ln(_x)
+          );
+          await expectSameResult(
+            `log2(${_x})`,
+            () => _prbMath.log2(_x),
+            () => prbMath.log2(_x)
+          );
+        }
+      });
+
+      it("...should match the rounding of mul & the truncation of div", async () => {
+        for (let i = 0; i < 500; i++) {
+          const _x = _random.signed(_random.magnitude(40));
+          const _y = _random.signed(_random.magnitude(40));
+          await expectSameResult(
+            `mul(${_x}, ${_y})`,
+            () => _prbMath.mul(_x, _y),
+            () => prbMath.mul(_x, _y)
+          );
+          await expectSameResult(
+            `div(${_x}, ${_y})`,
+            () => _prbMath.div(_x, _y),
+            () => prbMath.div(_x, _y)
+          );
+        }
+      });
+    });
+
+    describe("riskFactorCalculator", () => {
+      it("...should match calculateRiskFactor & canCalculateRiskFactor", async () => {
+        for (let i = 0; i < 1000; i++) {
+          const _floor = _random.between(parseEther("0.05"), parseEther("1"));
+          const _buffer = _random.between(BigNumber.from(0), parseEther("0.1"));
+          const _ceiling = _floor.add(
+            _random.between(parseEther("0.05"), parseEther("2"))
+          );
+          const _curvature = _random.between(
+            parseEther("0.01"),
+            parseEther("0.5")
+          );
+          // leverage ratio is mostly within the range, but also outside of it to match the reverts
+          const _leverageRatio = _random.between(
+            _floor.sub(parseEther("0.2")).gt(0)
+              ? _floor.sub(parseEther("0.2"))
+              : BigNumber.from(0),
+            _ceiling.add(parseEther("0.2"))
+          );
+
+          await expectSameResult(
+            `calculateRiskFactor(${_leverageRatio}, ${_floor}, ${_ceiling}, ${_buffer}, ${_curvature})`,
+            () =>
+              riskFactorCalculator.calculateRiskFactor(
+                _leverageRatio,
+                _floor,
+                _ceiling,
+                _buffer,
+                _curvature
+              ),
+            () =>
+              calculateRiskFactor(
+                _leverageRatio,
+                _floor,
+                _ceiling,
+                _buffer,
+                _curvature
+              )
+          );
+          await expectSameResult(
+            `canCalculateRiskFactor(${_leverageRatio}, ${_floor}, ${_ceiling})`,
+            () =>
+              riskFactorCalculator.canCalculateRiskFactor(
+                _leverageRatio,
+                _floor,
+                _ceiling
+              ),
+            () => canCalculateRiskFactor(_leverageRatio, _floor, _ceiling)
+          );
+        }
+      });
+
+      it("...should match calculateRiskFactorUsingMinPremium", async () => {
+        for (let i = 0; i < 1000; i++) {
+          const _minPremium =
+            i % 50 === 0
+              ? _random.between(parseEther("0.99"), parseEther("1.01"))
+              : _random.between(parseEther("0.001"), parseEther("0.5"));
+          // duration in days scaled to 18 decimals
+          const _durationInDays = _random.between(
+            BigNumber.from(1),
+            parseEther("730")
+          );
+
+          await expectSameResult(
+            `calculateRiskFactorUsingMinPremium(${_minPremium}, ${_durationInDays})`,
+            () =>
+              riskFactorCalculator.calculateRiskFactorUsingMinPremium(
+                _minPremium,
+                _durationInDays
+              ),
+            () =>
+              calculateRiskFactorUsingMinPremium(_minPremium, _durationInDays)
+          );
+        }
+      });
+    });
+
+    describe("premiumCalculator", () => {
+      it("...should return the same premium as PremiumCalculator.calculatePremium", async () => {
+        for (let i = 0; i < 1000; i++) {
+          const _floor = _random.between(parseEther("0.1"), parseEther("0.5"));
+          const _ceiling = _floor.add(
+            _random.between(parseEther("0.1"), parseEther("1"))
+          );
+          const _params = {
+            leverageRatioFloor: _floor,
+            leverageRatioCeiling: _ceiling,
+            leverageRatioBuffer: _random.between(
+              BigNumber.from(0),
+              parseEther("0.1")
+            ),
+            minRequiredCapital: parseUSDC("100000"),
+            curvature: _random.between(parseEther("0.01"), parseEther("0.5")),
+            minCarapaceRiskPremiumPercent: _random.between(
+              parseEther("0.005"),
+              parseEther("0.1")
+            ),
+            underlyingRiskPremiumPercent: _random.between(
+              parseEther("0.05"),
+              parseEther("0.5")
+            ),
+            minProtectionDurationInSeconds: getDaysInSeconds(10),
+            protectionRenewalGracePeriodInSeconds: getDaysInSeconds(14)
+          };
+          const _durationInSeconds = _random.between(
+            BigNumber.from(1),
+            getDaysInSeconds(730)
+          );
+          const _protectionAmount = _random.between(
+            parseUSDC("1"),
+            parseUSDC("10000000")
+          );
+          const _protectionBuyerApy = _random.between(
+            BigNumber.from(0),
+            parseEther("0.5")
+          );
+          // leverage ratio outside of the range uses the min premium
+          const _leverageRatio = _random.between(
+            parseEther("0.05"),
+            _ceiling.add(parseEther("0.5"))
+          );
+
+          await expectSameResult(
+            `calculatePremium(${_durationInSeconds}, ${_protectionAmount}, ${_protectionBuyerApy}, ${_leverageRatio}, ${JSON.stringify(
+              _params
+            )})`,
+            async () => {
+              const _result = await premiumCalculator.calculatePremium(
+                _durationInSeconds,
+                _protectionAmount,
+                _protectionBuyerApy,
+                _leverageRatio,
+                _params
+              );
+              return {
+                premiumAmount: _result._premiumAmount,
+                isMinPremium: _result._isMinPremium
+              };
+            },
+            () =>
+              calculatePremium(
+                _durationInSeconds,
+                _protectionAmount,
+                _protectionBuyerApy,
+                _leverageRatio,
+                _params
+              )
+          );
+        }
+      });
+    });
+  });
+};
+
+export { testPremiumMath };
@@ -0,0 +1,336 @@
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { ethers } from "hardhat";
+
+import { DeploymentContext } from "../../utils/deploy";
+import {
+  ProtectionPoolClient,
+  createProtectionPoolClient,
+  resolveSTokenAmount
+} from "../../sdk/protectionPoolClient";
+import { MockContext, deployMockContext } from "../utils/mockContext";
+import { formatUSDC, parseUSDC } from "../utils/usdc";
+import { moveForwardTimeByDays } from "../utils/time";
+
+const LENDING_POOL_ADDRESS = "0xb26b42dd5771689d0a7faeea32825ff9710b9c11";
+
+const testProtectionPoolClient: Function = (deployContracts: Function) => {
+  describe("ProtectionPoolClient", () => {
+    let _mockContext: MockContext;
+    let _context: DeploymentContext;
+    let _seller: Signer;
+    let _buyer: Signer;
+    let _sellerClient: ProtectionPoolClient;
+    let _buyerClient: ProtectionPoolClient;
+
+    before(async () => {
+      const _signers = await ethers.getSigners();
+      _seller = _signers[9];
+      _buyer = _signers[10];
+      // time is moved forward to withdraw, revert it after the tests
+      _mockContext = await deployMockContext(deployContracts, _seller);
+      _context = _mockContext.context;
+
+      await _context.mockUsdcInstance!.transfer(
+        await _buyer.getAddress(),
+        parseUSDC("10000")
+      );
+
+      _sellerClient = await createProtectionPoolClient(
+        _context.protectionPoolInstance.address,
+        _seller
+      );
+      _buyerClient = await createProtectionPoolClient(
+        _context.protectionPoolInstance.address,
+        _buyer
+      );
+    });
+
+    after(async () => {
+      await _mockContext.revert();
+    });
+
+    it("...should read the underlying token of the pool", async () => {
+      expect(_sellerClient.underlyingToken.address).to.eq(
+        _context.mockUsdcInstance!.address
+      );
+      expect(_sellerClient.underlyingDecimals).to.eq(6);
+    });
+
+    describe("deposit", () => {
+      it("...should approve the underlying amount & return the sold protection & minted shares", async () => {
+        const _result = await _sellerClient.deposit("100000");
+
+        expect(_result.protectionSeller).to.eq(await _seller.getAddress());
+        expect(_result.receiver).to.eq(await _seller.getAddress());
+        expect(_result.protectionAmount).to.eq("100000.0");
+        expect(_result.sTokenShares).to.eq("100000.0");
+        expect(
+          await _context.protectionPoolInstance.balanceOf(
+            await _seller.getAddress()
+          )
+        ).to.eq(ethers.utils.parseEther("100000"));
+      });
+
+      it("...should use the existing allowance", async () => {
+        await _context
+          .mockUsdcInstance!.connect(_seller)
+          .approve(_context.protectionPoolInstance.address, parseUSDC("1000"));
+
+        const _result = await _sellerClient.deposit(500.5);
+
+        expect(_result.protectionAmount).to.eq("500.5");
+        // only the approval transaction sent by the test
+        expect(
+          await _context.mockUsdcInstance!.allowance(
+            await _seller.getAddress(),
+            _context.protectionPoolInstance.address
+          )
+        ).to.eq(parseUSDC("499.5"));
+      });
+    });
+
+    describe("requestWithdrawal", () => {
+      it("...should return the requested amount & the withdrawal cycle", async () => {
+        const _result = await _sellerClient.requestWithdrawal("1000");
+
+        expect(_result.seller).to.eq(await _seller.getAddress());
+        expect(_result.sTokenAmount).to.eq("1000.0");
+        expect(_result.withdrawalCycleIndex).to.eq(2);
+      });
+    });
+
+    describe("depositAndRequestWithdrawal", () => {
+      it("...should return the minted shares & the request replacing the request of the withdrawal cycle", async () => {
+        const _result = await _sellerClient.depositAndRequestWithdrawal(
+          "100",
+          "1500"
+        );
+
+        expect(_result.receiver).to.eq(await _seller.getAddress());
+        expect(_result.protectionAmount).to.eq("100.0");
+        expect(_result.sTokenShares).to.eq("100.0");
+        expect(_result.requestedSTokenAmount).to.eq("1500.0");
+        expect(_result.withdrawalCycleIndex).to.eq(2);
+        expect(
+          await _context.protectionPoolInstance
+            .connect(_seller)
+            .getRequestedWithdrawalAmount(2)
+        ).to.eq(ethers.utils.parseEther("1500"));
+      });
+    });
+
+    describe("quoteProtection", () => {
+      it("...should return the premium calculated by the pool in USDC", async () => {
+        const _purchase = {
+          lendingPoolAddress: LENDING_POOL_ADDRESS,
+          nftLpTokenId: 1,
+          protectionAmount: "50000",
+          protectionDurationInDays: 20
+        };
+
+        const _quote = await _buyerClient.quoteProtection(_purchase);
+
+        const [_premium, _isMinPremium] =
+          await _context.protectionPoolInstance.calculateProtectionPremium({
+            lendingPoolAddress: LENDING_POOL_ADDRESS,
+            nftLpTokenId: 1,
+            protectionAmount: parseUSDC("50000"),
+            protectionDurationInSeconds: 20 * 24 * 60 * 60
+          });
+        expect(parseUSDC(_quote.premium)).to.be.gt(0);
+        expect(_quote.premium).to.eq(formatUSDC(_premium));
+        expect(_quote.isMinPremium).to.eq(_isMinPremium);
+      });
+    });
+
+    describe("buyProtection", () => {
+      before(async () => {
+        await _context.protectionPoolInstance.connect(_seller).movePoolPhase();
+      });
+
+      it("...should approve the max premium & return the bought protection with premium", async () => {
+        const _balanceBefore = await _context.mockUsdcInstance!.balanceOf(
+          await _buyer.getAddress()
+        );
+
+        const _result = await _buyerClient.buyProtection(
+          {
+            lendingPoolAddress: LENDING_POOL_ADDRESS,
+            nftLpTokenId: 1,
+            protectionAmount: "50000",
+            protectionDurationInDays: 20
+          },
+          "2000"
+        );
+
+        expect(_result.buyer).to.eq(await _buyer.getAddress());
+        expect(_result.lendingPoolAddress.toLowerCase()).to.eq(
+          LENDING_POOL_ADDRESS
+        );
+        expect(_result.protectionAmount).to.eq("50000.0");
+        expect(parseUSDC(_result.premium)).to.be.gt(0);
+        expect(parseUSDC(_result.premium)).to.be.lte(parseUSDC("2000"));
+        expect(
+          formatUSDC(
+            _balanceBefore.sub(
+              await _context.mockUsdcInstance!.balanceOf(
+                await _buyer.getAddress()
+              )
+            )
+          )
+        ).to.eq(_result.premium);
+      });
+
+      it("...should fail when the premium exceeds the max premium", async () => {
+        try {
+          await _buyerClient.buyProtection(
+            {
+              lendingPoolAddress: LENDING_POOL_ADDRESS,
+              nftLpTokenId: 2,
+              protectionAmount: "10000",
+              protectionDurationInDays: 20
+            },
+            "1"
+          );
+          expect.fail("buyProtection should fail");
+        } catch (e: any) {
+          expect(e.decodedError.name).to.eq("PremiumExceedsMaxPremiumAmount");
+          expect(e.message).to.match(
+            /^Premium of [0-9.]+ exceeds the max premium of 1.0$/
+          );
+        }
+      });
+    });
+
+    describe("renewProtection", () => {
+      it("...should return the renewed protection", async () => {
+        await moveForwardTimeByDays(21);
+        await _context.protectionPoolInstance
+          .connect(_context.operator)
+          .accruePremiumAndExpireProtections([]);
+
+        const _result = await _buyerClient.renewProtection(
+          {
+            lendingPoolAddress: LENDING_POOL_ADDRESS,
+            nftLpTokenId: 1,
+            protectionAmount: "40000",
+            protectionDurationInDays: 10
+          },
+          "2000"
+        );
+
+        expect(_result.buyer).to.eq(await _buyer.getAddress());
+        expect(_result.protectionAmount).to.eq("40000.0");
+        expect(parseUSDC(_result.premium)).to.be.gt(0);
+      });
+    });
+
+    describe("claimUnlockedCapital", () => {
+      it("...should return 0 when there is no unlocked capital", async () => {
+        const _result = await _sellerClient.claimUnlockedCapital();
+
+        expect(_result.receiver).to.eq(await _seller.getAddress());
+        expect(_result.claimedAmount).to.eq("0.0");
+      });
+    });
+
+    describe("withdraw", () => {
+      it("...should return the withdrawn sTokens & underlying amount transferred to the receiver", async () => {
+        // move to the open period of the withdrawal cycle 2
+        for (let i = 0; i < 2; i++) {
+          await moveForwardTimeByDays(91);
+          // locks the current cycle & then starts the next one
+          await _context.protectionPoolCycleManagerInstance.calculateAndSetPoolCycleState(
+            _context.protectionPoolInstance.address
+          );
+          await _context.protectionPoolCycleManagerInstance.calculateAndSetPoolCycleState(
+            _context.protectionPoolInstance.address
+          );
+        }
+        expect(
+          await _context.protectionPoolCycleManagerInstance.getCurrentCycleIndex(
+            _context.protectionPoolInstance.address
+          )
+        ).to.eq(2);
+        const _receiver = await _buyer.getAddress();
+        const _balanceBefore = await _context.mockUsdcInstance!.balanceOf(
+          _receiver
+        );
+
+        const _result = await _sellerClient.withdraw("1000", _receiver);
+
+        expect(_result.seller).to.eq(await _seller.getAddress());
+        expect(_result.receiver).to.eq(_receiver);
+        expect(_result.sTokenAmount).to.eq("1000.0");
+        // accrued premium increases the value of sTokens
+        expect(parseUSDC(_result.underlyingAmount)).to.be.gt(parseUSDC("1000"));
+        expect(
+          (await _context.mockUsdcInstance!.balanceOf(_receiver)).sub(
+            _balanceBefore
+          )
+        ).to.eq(parseUSDC(_result.underlyingAmount));
+      });
+    });
+
+    describe("resolveSTokenAmount", () => {
+      let _sTokensOf1000USDC: string;
+
+      before(async () => {
+        _sTokensOf1000USDC = ethers.utils.formatEther(
+          await _context.protectionPoolInstance.convertToSToken(
+            parseUSDC("1000")
+          )
+        );
+        // accrued premium increases the value of sTokens
+        expect(ethers.utils.parseEther(_sTokensOf1000USDC)).to.be.lt(
+          ethers.utils.parseEther("1000")
+        );
+      });
+
+      it("...should convert the underlying amount to sTokens at the exchange rate of the pool", async () => {
+        expect(await resolveSTokenAmount(_sellerClient, "1000")).to.eq(
+          _sTokensOf1000USDC
+        );
+      });
+
+      it("...should return the amount in sTokens", async () => {
+        expect(await resolveSTokenAmount(_sellerClient, undefined, 1500)).to.eq(
+          "1500.0"
+        );
+        expect(
+          await resolveSTokenAmount(_sellerClient, undefined, "1500", "1000")
+        ).to.eq("1500.0");
+      });
+
+      it("...should convert the default underlying amount when no amount is specified", async () => {
+        expect(
+          await resolveSTokenAmount(_sellerClient, undefined, undefined, "1000")
+        ).to.eq(_sTokensOf1000USDC);
+        expect(
+          await resolveSTokenAmount(_sellerClient, "500", undefined, "1000")
+        ).to.eq(
+          ethers.utils.formatEther(
+            await _context.protectionPoolInstance.convertToSToken(
+              parseUSDC("500")
+            )
+          )
+        );
+        expect(await resolveSTokenAmount(_sellerClient)).to.be.undefined;
+      });
+
+      it("...should fail when the amount is specified both in underlying tokens & sTokens", async () => {
+        try {
+          await resolveSTokenAmount(_sellerClient, "1000", "1000");
+          expect.fail("resolveSTokenAmount should fail");
+        } catch (e: any) {
+          expect(e.message).to.eq(
+            "Specify the amount either in underlying tokens or sTokens"
+          );
+        }
+      });
+    });
+  });
+};
+
+export { testProtectionPoolClient };
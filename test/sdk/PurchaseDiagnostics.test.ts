@@ -0,0 +1,343 @@
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { ethers } from "hardhat";
+
+import { DeploymentContext } from "../../utils/deploy";
+import { CarapaceContracts } from "../../sdk/contracts";
+import {
+  ProtectionPoolClient,
+  ProtectionPurchase,
+  createProtectionPoolClient
+} from "../../sdk/protectionPoolClient";
+import {
+  PurchaseCheckName,
+  PurchaseReport,
+  calculateMaxPremium,
+  explainPurchase,
+  quotePurchase
+} from "../../sdk/purchaseDiagnostics";
+import { MockContext, deployMockContext } from "../utils/mockContext";
+import { POOL_TOKENS_ADDRESS } from "../utils/goldfinch";
+import { parseUSDC } from "../utils/usdc";
+import { moveForwardTimeByDays } from "../utils/time";
+
+const LENDING_POOL_ADDRESS = "0xb26b42dd5771689d0a7faeea32825ff9710b9c11";
+const SECONDS_PER_DAY = 24 * 60 * 60;
+// address without a PoolTokens contract, so the ownership & tranche checks are skipped
+const NO_POOL_TOKENS_ADDRESS = "0x000000000000000000000000000000000000dEaD";
+// owner of junior tranche tokens 645 of the lending pool & 591 of another lending pool,
+// on mainnet & in the PoolTokens mock of the offline mode
+const LENDER_ADDRESS = "0x4902b20bb3b8e7776cbcdcb6e3397e7f6b4e449e";
+
+const PURCHASE: ProtectionPurchase = {
+  lendingPoolAddress: LENDING_POOL_ADDRESS,
+  nftLpTokenId: 1,
+  protectionAmount: "50000",
+  protectionDurationInDays: 20
+};
+
+const _failedChecks = (report: PurchaseReport) =>
+  report.checks
+    .filter((check) => check.status === "failed")
+    .map((check) => check.error);
+
+const _checkStatuses = (report: PurchaseReport, names: PurchaseCheckName[]) =>
+  names.map(
+    (name) => report.checks.find((check) => check.name === name)?.status
+  );
+
+const testPurchaseDiagnostics: Function = (deployContracts: Function) => {
+  describe("PurchaseDiagnostics", () => {
+    let _mockContext: MockContext;
+    let _context: DeploymentContext;
+    let _seller: Signer;
+    let _buyerAddress: string;
+    let _buyerClient: ProtectionPoolClient;
+    let _contracts: CarapaceContracts;
+
+    const _explain = (
+      purchase: ProtectionPurchase,
+      maxPremium: string,
+      isRenewal?: boolean
+    ) =>
+      explainPurchase(
+        _contracts,
+        _context.protectionPoolInstance.address,
+        _buyerAddress,
+        purchase,
+        maxPremium,
+        // offline mode & the mainnet fork have a PoolTokens contract at the Goldfinch address
+        { isRenewal, poolTokens: NO_POOL_TOKENS_ADDRESS }
+      );
+
+    before(async () => {
+      const _signers = await ethers.getSigners();
+      _seller = _signers[18];
+      const _buyer = _signers[19];
+      _buyerAddress = await _buyer.getAddress();
+      // time is moved forward to expire the protection, revert it after the tests
+      _mockContext = await deployMockContext(deployContracts, _seller);
+      _context = _mockContext.context;
+      _contracts = _mockContext.contracts;
+
+      await _context.mockUsdcInstance!.transfer(
+        _buyerAddress,
+        parseUSDC("10000")
+      );
+      await (
+        await createProtectionPoolClient(
+          _context.protectionPoolInstance.address,
+          _seller
+        )
+      ).deposit("100000");
+      _buyerClient = await createProtectionPoolClient(
+        _context.protectionPoolInstance.address,
+        _buyer
+      );
+    });
+
+    after(async () => {
+      await _mockContext.revert();
+    });
+
+    describe("explainPurchase", () => {
+      it("...should fail the phase check when the pool is open to sellers only", async () => {
+        const _report = await _explain(PURCHASE, "2000");
+
+        expect(_report.canPurchase).to.be.false;
+        expect(_failedChecks(_report)).to.deep.eq([
+          "ProtectionPoolInOpenToSellersPhase"
+        ]);
+        // PoolTokens contract doesn't exist at the address
+        expect(
+          _report.checks
+            .filter((check) => check.status === "skipped")
+            .map((check) => check.name)
+        ).to.deep.eq(["nftOwnership", "juniorTranche"]);
+      });
+
+      it("...should estimate the premium the pool charges for the purchase", async () => {
+        await _context.protectionPoolInstance.connect(_seller).movePoolPhase();
+
+        const _report = await _explain(PURCHASE, "2000");
+        expect(_report.canPurchase).to.be.true;
+        expect(_report.isRenewal).to.be.false;
+        expect(_report.leverageRatio).to.eq("2.0");
+        // mock adapter returns 500,000 USDC as the remaining principal
+        expect(_report.remainingPrincipal).to.eq("500000.0");
+        expect(_report.expirationTimestamp).to.eq(
+          _report.startTimestamp + 20 * SECONDS_PER_DAY
+        );
+
+        const { premium } = await _buyerClient.buyProtection(PURCHASE, "2000");
+        expect(_report.estimatedPremium).to.eq(premium);
+      });
+
+      it("...should report every failed check at once", async () => {
+        const _report = await _explain(
+          {
+            ...PURCHASE,
+            protectionAmount: "600000",
+            protectionDurationInDays: 200
+          },
+          "1"
+        );
+
+        expect(_report.canPurchase).to.be.false;
+        expect(_failedChecks(_report)).to.deep.eq([
+          "ProtectionAlreadyExistsForLendingPoolPosition",
+          "ProtectionDurationTooLong",
+          "ProtectionPurchaseNotAllowed",
+          "ProtectionPoolLeverageRatioTooLow",
+          "PremiumExceedsMaxPremiumAmount"
+        ]);
+      });
+
+      it("...should fail the checks of an unsupported lending pool", async () => {
+        const _report = await _explain(
+          {
+            ...PURCHASE,
+            lendingPoolAddress: _buyerAddress,
+            protectionDurationInDays: 5
+          },
+          "2000"
+        );
+
+        expect(_failedChecks(_report)).to.deep.eq([
+          "ProtectionDurationTooShort",
+          "LendingPoolNotSupported"
+        ]);
+        expect(_report.remainingPrincipal).to.be.undefined;
+        expect(_report.estimatedPremium).to.be.undefined;
+      });
+
+      it("...should explain the renewal of the expired protection", async () => {
+        const _before = await _explain(PURCHASE, "2000", true);
+        expect(_failedChecks(_before)).to.deep.eq([
+          "NoExpiredProtectionToRenew",
+          "ProtectionAlreadyExistsForLendingPoolPosition"
+        ]);
+
+        await moveForwardTimeByDays(21);
+        await _context.protectionPoolInstance
+          .connect(_context.operator)
+          .accruePremiumAndExpireProtections([]);
+
+        const _report = await _explain(PURCHASE, "2000", true);
+        expect(_report.canPurchase).to.be.true;
+        const [_protection] =
+          await _context.protectionPoolInstance.getAllProtections();
+        expect(_report.startTimestamp).to.eq(
+          _protection.startTimestamp.toNumber() + 20 * SECONDS_PER_DAY + 1
+        );
+
+        const _higherAmount = await _explain(
+          { ...PURCHASE, protectionAmount: "60000" },
+          "2000",
+          true
+        );
+        expect(_failedChecks(_higherAmount)).to.deep.eq([
+          "CanNotRenewProtectionWithHigherRenewalAmount"
+        ]);
+      });
+    });
+
+    describe("calculateMaxPremium", () => {
+      it("...should add the slippage to the higher of the quoted & the estimated premium", async () => {
+        expect(calculateMaxPremium("100", "120", "1", 6)).to.eq("121.2");
+        expect(calculateMaxPremium("120", "100", "1", 6)).to.eq("121.2");
+        expect(calculateMaxPremium("100", undefined, "0.5", 6)).to.eq("100.5");
+        expect(calculateMaxPremium("33.333333", "0", "0", 6)).to.eq(
+          "33.333333"
+        );
+      });
+
+      it("...should not accept a negative slippage", async () => {
+        expect(() => calculateMaxPremium("100", "120", "-1", 6)).to.throw(
+          "Slippage -1% can't be negative"
+        );
+      });
+    });
+
+    describe("quotePurchase", () => {
+      // lending position without a protection
+      const _purchase: ProtectionPurchase = {
+        ...PURCHASE,
+        nftLpTokenId: 2,
+        protectionAmount: "10000"
+      };
+
+      const _quote = (purchase: ProtectionPurchase, slippagePercent: string) =>
+        quotePurchase(
+          _buyerClient,
+          _contracts,
+          _buyerAddress,
+          purchase,
+          slippagePercent,
+          { poolTokens: NO_POOL_TOKENS_ADDRESS }
+        );
+
+      it("...should fail when a check other than the premium fails", async () => {
+        try {
+          await _quote({ ..._purchase, protectionDurationInDays: 200 }, "1");
+          expect.fail("quotePurchase should fail");
+        } catch (e: any) {
+          expect(e.message).to.contain("(ProtectionDurationTooLong)");
+        }
+      });
+
+      it("...should not quote with a negative slippage", async () => {
+        try {
+          await _quote(_purchase, "-0.5");
+          expect.fail("quotePurchase should fail");
+        } catch (e: any) {
+          expect(e.message).to.eq("Slippage -0.5% can't be negative");
+        }
+      });
+
+      it("...should reject the purchase when the premium exceeds the quote plus slippage", async () => {
+        const { quote, maxPremium } = await _quote(_purchase, "5");
+        expect(maxPremium).to.eq(
+          calculateMaxPremium(quote.premium, undefined, "5", 6)
+        );
+
+        // premium of a 10% larger protection exceeds the quote by 10%
+        try {
+          await _buyerClient.buyProtection(
+            { ..._purchase, protectionAmount: "11000" },
+            maxPremium
+          );
+          expect.fail("buyProtection should fail");
+        } catch (e: any) {
+          expect(e.decodedError.name).to.eq("PremiumExceedsMaxPremiumAmount");
+        }
+      });
+
+      it("...should buy the protection with the max premium", async () => {
+        const { report, maxPremium } = await _quote(_purchase, "1");
+        expect(maxPremium).to.eq(
+          calculateMaxPremium(report.estimatedPremium!, undefined, "1", 6)
+        );
+
+        const { premium } = await _buyerClient.buyProtection(
+          _purchase,
+          maxPremium
+        );
+        expect(premium).to.eq(report.estimatedPremium);
+      });
+    });
+
+    // offline mode installs the PoolTokens mock at the address of the PoolTokens contract on mainnet
+    describe("explainPurchase with PoolTokens", () => {
+      const _explainWithPoolTokens = (buyer: string, nftLpTokenId: number) =>
+        explainPurchase(
+          _contracts,
+          _context.protectionPoolInstance.address,
+          buyer,
+          { ...PURCHASE, nftLpTokenId },
+          "2000",
+          { poolTokens: POOL_TOKENS_ADDRESS }
+        );
+
+      it("...should pass the checks of a junior tranche token owned by the buyer", async () => {
+        const _report = await _explainWithPoolTokens(LENDER_ADDRESS, 645);
+
+        expect(
+          _checkStatuses(_report, ["nftOwnership", "juniorTranche"])
+        ).to.deep.eq(["passed", "passed"]);
+      });
+
+      it("...should fail the ownership check of a token owned by another account", async () => {
+        const _report = await _explainWithPoolTokens(_buyerAddress, 645);
+
+        expect(
+          _checkStatuses(_report, ["nftOwnership", "juniorTranche"])
+        ).to.deep.eq(["failed", "passed"]);
+        expect(
+          _report.checks.find((check) => check.name === "nftOwnership")!.message
+        ).to.eq(
+          `Token 645 is owned by ${ethers.utils.getAddress(LENDER_ADDRESS)}`
+        );
+      });
+
+      it("...should fail the tranche check of a token of another lending pool", async () => {
+        const _report = await _explainWithPoolTokens(LENDER_ADDRESS, 591);
+
+        expect(
+          _checkStatuses(_report, ["nftOwnership", "juniorTranche"])
+        ).to.deep.eq(["passed", "failed"]);
+        expect(_report.canPurchase).to.be.false;
+      });
+
+      it("...should fail both checks of a token which doesn't exist", async () => {
+        const _report = await _explainWithPoolTokens(LENDER_ADDRESS, 0);
+
+        expect(
+          _checkStatuses(_report, ["nftOwnership", "juniorTranche"])
+        ).to.deep.eq(["failed", "failed"]);
+      });
+    });
+  });
+};
+
+export { testPurchaseDiagnostics };
@@ -0,0 +1,149 @@
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { ethers } from "hardhat";
+
+import { DeploymentContext } from "../../utils/deploy";
+import { CarapaceContracts } from "../../sdk/contracts";
+import {
+  getSellerPortfolio,
+  getWithdrawalWindow
+} from "../../sdk/sellerPortfolio";
+import { createProtectionPoolClient } from "../../sdk/protectionPoolClient";
+import { MockContext, deployMockContext } from "../utils/mockContext";
+import { parseUSDC } from "../utils/usdc";
+import { moveForwardTimeByDays } from "../utils/time";
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const testSellerPortfolio: Function = (deployContracts: Function) => {
+  describe("SellerPortfolio", () => {
+    let _mockContext: MockContext;
+    let _context: DeploymentContext;
+    let _seller: Signer;
+    let _sellerAddress: string;
+    let _contracts: CarapaceContracts;
+
+    before(async () => {
+      _seller = (await ethers.getSigners())[13];
+      _sellerAddress = await _seller.getAddress();
+      // time is moved forward to close the withdrawal window, revert it after the tests
+      _mockContext = await deployMockContext(deployContracts, _seller);
+      _context = _mockContext.context;
+      _contracts = _mockContext.contracts;
+
+      const _sellerClient = await createProtectionPoolClient(
+        _context.protectionPoolInstance.address,
+        _seller
+      );
+      await _sellerClient.deposit("100000");
+      await _sellerClient.requestWithdrawal("1000");
+    });
+
+    after(async () => {
+      await _mockContext.revert();
+    });
+
+    describe("getSellerPortfolio", () => {
+      it("...should return only the pools with a position of the seller", async () => {
+        const _portfolio = await getSellerPortfolio(_contracts, _sellerAddress);
+
+        expect(_portfolio.seller).to.eq(_sellerAddress);
+        expect(_portfolio.positions.length).to.eq(1);
+        expect(_portfolio.positions[0].protectionPool).to.eq(
+          _context.protectionPoolInstance.address
+        );
+        expect(_portfolio.positions[0].underlyingSymbol).to.eq(
+          await _context.mockUsdcInstance!.symbol()
+        );
+      });
+
+      it("...should return the sToken & underlying balances", async () => {
+        const [_position] = (
+          await getSellerPortfolio(_contracts, _sellerAddress)
+        ).positions;
+
+        expect(_position.sTokenBalance).to.eq(
+          ethers.utils.formatEther(
+            await _context.protectionPoolInstance.balanceOf(_sellerAddress)
+          )
+        );
+        expect(_position.underlyingBalance).to.eq("100000.0");
+        expect(_position.claimableUnlockedCapital).to.eq("0.0");
+      });
+
+      it("...should return the pending withdrawal request with its window", async () => {
+        const [_position] = (
+          await getSellerPortfolio(_contracts, _sellerAddress)
+        ).positions;
+        const _poolCycle =
+          await _contracts.protectionPoolCycleManager.getCurrentPoolCycle(
+            _context.protectionPoolInstance.address
+          );
+        const _opensAt = _poolCycle.currentCycleStartTime
+          .add(_poolCycle.params.cycleDuration.mul(2))
+          .toNumber();
+
+        expect(_position.currentCycleIndex).to.eq(0);
+        expect(_position.pendingWithdrawalRequests).to.deep.eq([
+          {
+            withdrawalCycleIndex: 2,
+            sTokenAmount: "1000.0",
+            window: {
+              cycleIndex: 2,
+              opensAt: _opensAt,
+              closesAt: _opensAt + 7 * SECONDS_PER_DAY,
+              isOpen: false
+            }
+          }
+        ]);
+      });
+
+      it("...should return the current cycle as the next withdrawal window while it is open", async () => {
+        const _portfolio = await getSellerPortfolio(_contracts, _sellerAddress);
+        const _window = _portfolio.positions[0].nextWithdrawalWindow;
+
+        expect(_window.cycleIndex).to.eq(0);
+        expect(_window.isOpen).to.be.true;
+        expect(_window.opensAt).to.be.lte(_portfolio.timestamp);
+        expect(_window.closesAt).to.eq(_window.opensAt + 7 * SECONDS_PER_DAY);
+      });
+
+      it("...should return the window of the next cycle after the current one closes", async () => {
+        await moveForwardTimeByDays(8);
+
+        const _portfolio = await getSellerPortfolio(_contracts, _sellerAddress);
+        const _window = _portfolio.positions[0].nextWithdrawalWindow;
+
+        expect(_window.cycleIndex).to.eq(1);
+        expect(_window.isOpen).to.be.false;
+        expect(_window.opensAt).to.be.gt(_portfolio.timestamp);
+      });
+
+      it("...should return no positions for an address without positions", async () => {
+        const _portfolio = await getSellerPortfolio(
+          _contracts,
+          await (await ethers.getSigners())[14].getAddress()
+        );
+        expect(_portfolio.positions).to.deep.eq([]);
+      });
+    });
+
+    describe("getWithdrawalWindow", () => {
+      it("...should fail for a cycle before the current cycle", async () => {
+        const _poolCycle =
+          await _contracts.protectionPoolCycleManager.getCurrentPoolCycle(
+            _context.protectionPoolInstance.address
+          );
+        expect(() =>
+          getWithdrawalWindow(
+            { ..._poolCycle, currentCycleIndex: ethers.BigNumber.from(1) },
+            0,
+            0
+          )
+        ).to.throw("Cycle 0 is before the current cycle 1");
+      });
+    });
+  });
+};
+
+export { testSellerPortfolio };
@@ -0,0 +1,194 @@
+import { expect } from "chai";
+import { Signer } from "ethers";
+import { ethers } from "hardhat";
+
+import { DeploymentContext } from "../../utils/deploy";
+import {
+  CarapaceContracts,
+  connectCarapaceContracts,
+  getCarapaceAddresses
+} from "../../sdk/contracts";
+import { createProtectionPoolClient } from "../../sdk/protectionPoolClient";
+import {
+  assessLendingPoolStates,
+  getLendingPoolStatuses
+} from "../../sdk/stateAssessment";
+import { MockGoldfinchAdapter } from "../../typechain-types/contracts/test/MockGoldfinchAdapter";
+import { MockContext, deployMockContext } from "../utils/mockContext";
+import { moveForwardTimeByDays } from "../utils/time";
+
+// lending pool of the first protection pool only
+const LENDING_POOL_ADDRESS = "0xb26b42dd5771689d0a7faeea32825ff9710b9c11";
+
+const testStateAssessment: Function = (deployContracts: Function) => {
+  describe("StateAssessment", () => {
+    let _mockContext: MockContext;
+    let _context: DeploymentContext;
+    let _deployer: Signer;
+    let _contracts: CarapaceContracts;
+    let _adapter: MockGoldfinchAdapter;
+    let _poolAddress: string;
+
+    before(async () => {
+      _deployer = (await ethers.getSigners())[17];
+      _mockContext = await deployMockContext(deployContracts, _deployer);
+      _context = _mockContext.context;
+      _poolAddress = _context.protectionPoolInstance.address;
+      _contracts = connectCarapaceContracts(
+        getCarapaceAddresses(_context.addressBook),
+        _context.operator
+      );
+      _adapter = (await ethers.getContractAt(
+        "MockGoldfinchAdapter",
+        _context.goldfinchAdapterInstance.address
+      )) as MockGoldfinchAdapter;
+
+      const _client = await createProtectionPoolClient(_poolAddress, _deployer);
+      await _client.deposit("100000");
+      await _context.protectionPoolInstance.connect(_deployer).movePoolPhase();
+      await _client.buyProtection(
+        {
+          lendingPoolAddress: LENDING_POOL_ADDRESS,
+          nftLpTokenId: 1,
+          protectionAmount: "50000",
+          protectionDurationInDays: 20
+        },
+        "5000"
+      );
+    });
+
+    after(async () => {
+      await _mockContext.revert();
+    });
+
+    describe("getLendingPoolStatuses", () => {
+      it("...should return the statuses of the lending pools of all protection pools", async () => {
+        const _statuses = await getLendingPoolStatuses(_contracts);
+
+        // 3 lending pools of the first protection pool & 1 of the second one
+        expect(_statuses.length).to.eq(4);
+        expect(_statuses[3].protectionPool).to.eq(
+          _context.protectionPoolInstances[1].address
+        );
+        _statuses.forEach((status) => {
+          expect(status.status).to.eq("Active");
+          expect(status.reportedStatus).to.eq("Active");
+        });
+      });
+    });
+
+    describe("assessLendingPoolStates", () => {
+      it("...should fail when the signer isn't an operator", async () => {
+        try {
+          await assessLendingPoolStates(
+            connectCarapaceContracts(
+              getCarapaceAddresses(_context.addressBook),
+              _deployer
+            ),
+            { dryRun: true }
+          );
+          expect.fail("assessLendingPoolStates should fail");
+        } catch (error: any) {
+          expect(error.message).to.match(/missing role/);
+        }
+      });
+
+      it("...should fail when a protection pool isn't registered", async () => {
+        try {
+          await assessLendingPoolStates(_contracts, {
+            protectionPools: [LENDING_POOL_ADDRESS]
+          });
+          expect.fail("assessLendingPoolStates should fail");
+        } catch (error: any) {
+          expect(error.message).to.eq(
+            `Protection pool ${LENDING_POOL_ADDRESS} isn't registered`
+          );
+        }
+      });
+
+      it("...should predict the capital locked for a late lending pool without sending a transaction", async () => {
+        await _adapter.setLendingPoolLate(LENDING_POOL_ADDRESS, true);
+
+        const _report = await assessLendingPoolStates(_contracts, {
+          dryRun: true
+        });
+
+        expect(_report.dryRun).to.be.true;
+        expect(_report.receipt).to.be.undefined;
+        expect(_report.transitions[0]).to.deep.eq({
+          protectionPool: _poolAddress,
+          lendingPool: ethers.utils.getAddress(LENDING_POOL_ADDRESS),
+          statusBefore: "Active",
+          reportedStatus: "Late",
+          statusAfter: "Late",
+          lockedAmount: "50000.0",
+          snapshotId: 1
+        });
+        expect(_report.transitions[1].statusAfter).to.eq("Active");
+        expect(
+          await _context.defaultStateManagerInstance.getLendingPoolStatus(
+            _poolAddress,
+            LENDING_POOL_ADDRESS
+          )
+        ).to.eq(1); // Active
+      });
+
+      it("...should report the locked capital of the assessed protection pools", async () => {
+        const _report = await assessLendingPoolStates(_contracts, {
+          protectionPools: [_poolAddress]
+        });
+
+        expect(_report.receipt).to.not.be.undefined;
+        // lending pools of the second protection pool aren't assessed
+        expect(_report.transitions.length).to.eq(3);
+        expect(_report.transitions[0].statusBefore).to.eq("Active");
+        expect(_report.transitions[0].statusAfter).to.eq("Late");
+        expect(_report.transitions[0].lockedAmount).to.eq("50000.0");
+        expect(_report.transitions[0].snapshotId).to.eq(1);
+        expect(_report.transitions[1].lockedAmount).to.be.undefined;
+      });
+
+      it("...should fail the dry run when the lock of a late lending pool isn't found", async () => {
+        // i.e. a provider which doesn't serve the logs since the deployment
+        const _defaultStateManager = Object.create(
+          _contracts.defaultStateManager
+        );
+        _defaultStateManager.queryFilter = async () => [];
+
+        try {
+          await assessLendingPoolStates(
+            { ..._contracts, defaultStateManager: _defaultStateManager },
+            { dryRun: true }
+          );
+          expect.fail("assessLendingPoolStates should fail");
+        } catch (error: any) {
+          expect(error.message).to.eq(
+            `LendingPoolLocked event of late lending pool ${ethers.utils.getAddress(
+              LENDING_POOL_ADDRESS
+            )} in protection pool ${_poolAddress} isn't found, the provider must serve the logs since the deployment`
+          );
+        }
+      });
+
+      it("...should report the unlocked capital after two payment periods", async () => {
+        // payment period of the mock adapter is 30 days
+        await moveForwardTimeByDays(61);
+        await _adapter.setLendingPoolLate(LENDING_POOL_ADDRESS, false);
+
+        const _dryRunReport = await assessLendingPoolStates(_contracts, {
+          dryRun: true
+        });
+        expect(_dryRunReport.transitions[0].statusAfter).to.eq("Active");
+        expect(_dryRunReport.transitions[0].unlockedAmount).to.eq("50000.0");
+
+        const _report = await assessLendingPoolStates(_contracts);
+        expect(_report.transitions.length).to.eq(4);
+        expect(_report.transitions[0].statusBefore).to.eq("Late");
+        expect(_report.transitions[0].statusAfter).to.eq("Active");
+        expect(_report.transitions[0].unlockedAmount).to.eq("50000.0");
+      });
+    });
+  });
+};
+
+export { testStateAssessment };
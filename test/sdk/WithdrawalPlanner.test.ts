@@ -0,0 +1,159 @@
+import { expect } from "chai";
+import { BigNumber, Signer } from "ethers";
+import { ethers } from "hardhat";
+import { parseEther } from "ethers/lib/utils";
+
+import { DeploymentContext } from "../../utils/deploy";
+import { CarapaceContracts } from "../../sdk/contracts";
+import { createProtectionPoolClient } from "../../sdk/protectionPoolClient";
+import { MockContext, deployMockContext } from "../utils/mockContext";
+import {
+  applySTokenTransfer,
+  planWithdrawal
+} from "../../sdk/withdrawalPlanner";
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const testWithdrawalPlanner: Function = (deployContracts: Function) => {
+  describe("WithdrawalPlanner", () => {
+    let _mockContext: MockContext;
+    let _context: DeploymentContext;
+    let _seller: Signer;
+    let _sellerAddress: string;
+    let _contracts: CarapaceContracts;
+    let _cycleStartTime: number;
+
+    before(async () => {
+      _seller = (await ethers.getSigners())[18];
+      _sellerAddress = await _seller.getAddress();
+      _mockContext = await deployMockContext(deployContracts, _seller);
+      _context = _mockContext.context;
+      _contracts = _mockContext.contracts;
+
+      await (
+        await createProtectionPoolClient(
+          _context.protectionPoolInstance.address,
+          _seller
+        )
+      ).deposit("100000");
+      _cycleStartTime = (
+        await _contracts.protectionPoolCycleManager.getCurrentPoolCycle(
+          _context.protectionPoolInstance.address
+        )
+      ).currentCycleStartTime.toNumber();
+    });
+
+    after(async () => {
+      await _mockContext.revert();
+    });
+
+    describe("applySTokenTransfer", () => {
+      it("...should shrink the requests of the later cycles first", () => {
+        const _requests = applySTokenTransfer(
+          [10, 20, 30].map((amount) => ({
+            sTokenAmount: BigNumber.from(amount)
+          })),
+          BigNumber.from(25)
+        );
+        expect(
+          _requests.map((request) => request.sTokenAmount.toNumber())
+        ).to.deep.eq([10, 15, 0]);
+      });
+    });
+
+    describe("planWithdrawal", () => {
+      it("...should plan the withdrawal in the open period of the cycle after the next cycle", async () => {
+        const _plan = await planWithdrawal(
+          _contracts,
+          _context.protectionPoolInstance.address,
+          _sellerAddress
+        );
+
+        expect(_plan.requestCycleIndex).to.eq(0);
+        expect(_plan.requestCycleState).to.eq("Open");
+        expect(_plan.requiresCycleUpdate).to.be.false;
+        expect(_plan.withdrawalCycleIndex).to.eq(2);
+        // pool cycle duration is 90 days with 7 days open period
+        expect(_plan.withdrawalWindow).to.deep.eq({
+          cycleIndex: 2,
+          opensAt: _cycleStartTime + 180 * SECONDS_PER_DAY,
+          closesAt: _cycleStartTime + 187 * SECONDS_PER_DAY,
+          isOpen: false
+        });
+        expect(_plan.sTokenBalance).to.eq("100000.0");
+        expect(_plan.maxSTokenAmount).to.eq("100000.0");
+        expect(_plan.sTokenAmount).to.eq("100000.0");
+        expect(_plan.requestsAfterTransfer).to.be.undefined;
+      });
+
+      it("...should plan a request in a future locked cycle", async () => {
+        const _plan = await planWithdrawal(
+          _contracts,
+          _context.protectionPoolInstance.address,
+          _sellerAddress,
+          {
+            requestTimestamp: _cycleStartTime + 100 * SECONDS_PER_DAY,
+            sTokenAmount: "1000"
+          }
+        );
+
+        expect(_plan.requestCycleIndex).to.eq(1);
+        expect(_plan.requestCycleState).to.eq("Locked");
+        expect(_plan.requiresCycleUpdate).to.be.true;
+        expect(_plan.withdrawalCycleIndex).to.eq(3);
+        expect(_plan.withdrawalWindow.opensAt).to.eq(
+          _cycleStartTime + 270 * SECONDS_PER_DAY
+        );
+      });
+
+      it("...should shrink the requests like the pool when sTokens are transferred", async () => {
+        await _context.protectionPoolInstance
+          .connect(_seller)
+          .requestWithdrawal(parseEther("60000"));
+
+        const _plan = await planWithdrawal(
+          _contracts,
+          _context.protectionPoolInstance.address,
+          _sellerAddress,
+          { sTokenAmount: "60000", transferAmount: "70000" }
+        );
+        expect(
+          _plan.requests.map((request) => request.sTokenAmount)
+        ).to.deep.eq(["0.0", "0.0", "60000.0"]);
+        expect(
+          _plan.requestsAfterTransfer!.map((request) => request.sTokenAmount)
+        ).to.deep.eq(["0.0", "0.0", "30000.0"]);
+
+        await _context.protectionPoolInstance
+          .connect(_seller)
+          .transfer(
+            await (await ethers.getSigners())[19].getAddress(),
+            parseEther("70000")
+          );
+        expect(
+          await _context.protectionPoolInstance
+            .connect(_seller)
+            .getRequestedWithdrawalAmount(2)
+        ).to.eq(parseEther("30000"));
+      });
+
+      it("...should fail when the amount exceeds the max request", async () => {
+        try {
+          await planWithdrawal(
+            _contracts,
+            _context.protectionPoolInstance.address,
+            _sellerAddress,
+            { sTokenAmount: "40000" }
+          );
+          expect.fail("should have thrown");
+        } catch (error: any) {
+          expect(error.message).to.eq(
+            "Requested 40000.0 sTokens exceed the max request of 30000.0 sTokens"
+          );
+        }
+      });
+    });
+  });
+};
+
+export { testWithdrawalPlanner };
@@ -0,0 +1,71 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { expect } from "chai";
+
+/**
+ * Seeded pseudo random number generator (mulberry32),
+ * so that a failing input can be reproduced
+ */
+export const createRandom = (seed: number) => {
+  let _state = seed;
+  const next = (): number => {
+    _state = (_state + 0x6d2b79f5) | 0;
+    let t = Math.imul(_state ^ (_state >>> 15), 1 | _state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // random value in [min, max]
+  const between = (min: BigNumber, max: BigNumber): BigNumber => {
+    let _random = BigNumber.from(0);
+    for (let i = 0; i < 8; i++) {
+      _random = _random.shl(32).add(Math.floor(next() * 4294967296));
+    }
+    return min.add(_random.mod(max.sub(min).add(1)));
+  };
+
+  // random value with a random number of digits up to maxDigits, so that all magnitudes are covered
+  const magnitude = (maxDigits: number): BigNumber => {
+    const _digits = 1 + Math.floor(next() * maxDigits);
+    return between(BigNumber.from(1), BigNumber.from(10).pow(_digits));
+  };
+
+  const signed = (value: BigNumber): BigNumber =>
+    next() < 0.5 ? value.mul(-1) : value;
+
+  return { next, between, magnitude, signed };
+};
+
+/**
+ * Compares the on-chain & off-chain results of the same inputs.
+ * Both must either return equal results or fail.
+ */
+export const expectSameResult = async (
+  description: string,
+  onChain: () => Promise<any>,
+  offChain: () => any
+) => {
+  let _onChainResult: any;
+  let _onChainReverted = false;
+  try {
+    _onChainResult = await onChain();
+  } catch (e) {
+    _onChainReverted = true;
+  }
+
+  let _offChainResult: any;
+  let _offChainThrew = false;
+  try {
+    _offChainResult = offChain();
+  } catch (e) {
+    _offChainThrew = true;
+  }
+
+  expect(_offChainThrew, `${description} reverted on-chain`).to.eq(
+    _onChainReverted
+  );
+  if (!_onChainReverted) {
+    expect(JSON.stringify(_offChainResult), `${description} result`).to.eq(
+      JSON.stringify(_onChainResult)
+    );
+  }
+};
@@ -0,0 +1,54 @@
+import { ethers, network } from "hardhat";
+import {
+  ForkStateFixture,
+  getForkStateFixturePath,
+  readForkStateFixture
+} from "../../utils/forkState";
+import { setStorageAt } from "./storage";
+
+/**
+ * Returns true when the tests run against the recorded fork state instead of a mainnet fork
+ */
+const isReplayingForkState = (): boolean =>
+  process.env.REPLAY_FORK_STATE === "true";
+
+/**
+ * Replays the recorded mainnet state into the plain hardhat network,
+ * so that the tests run against the real mainnet bytecode & storage without an RPC provider.
+ * @param fixture defaults to the fixture recorded by the `record:fork-state` task
+ */
+const replayForkState = async (
+  fixture: ForkStateFixture | undefined = readForkStateFixture()
+): Promise<void> => {
+  if (!fixture) {
+    throw new Error(
+      `Fork state fixture ${getForkStateFixturePath()} doesn't exist, record it with the record:fork-state task`
+    );
+  }
+
+  for (const _address of Object.keys(fixture.accounts)) {
+    const _account = fixture.accounts[_address];
+    if (_account.code) {
+      await network.provider.send("hardhat_setCode", [_address, _account.code]);
+    }
+    if (_account.balance) {
+      await network.provider.send("hardhat_setBalance", [
+        _address,
+        _account.balance
+      ]);
+    }
+    if (_account.nonce) {
+      await network.provider.send("hardhat_setNonce", [
+        _address,
+        _account.nonce
+      ]);
+    }
+    // mine once after all slots are set, so that the block timestamp stays close to the fork block
+    for (const _slot of Object.keys(_account.storage)) {
+      await setStorageAt(_address, _slot, _account.storage[_slot], false);
+    }
+  }
+  await ethers.provider.send("evm_mine", []);
+};
+
+export { isReplayingForkState, replayForkState };
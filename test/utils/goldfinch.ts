@@ -2,8 +2,9 @@ import { parseUSDC, impersonateCircle } from "../utils/usdc";
 import { BigNumber, Contract, Signer } from "ethers";
 import { ITranchedPool } from "../../typechain-types/contracts/external/goldfinch/ITranchedPool";
 import { IPoolTokens } from "../../typechain-types/contracts/external/goldfinch/IPoolTokens";
+import { MockTranchedPool } from "../../typechain-types/contracts/test/MockTranchedPool";
 import { ethers } from "hardhat";
-import { impersonateSignerWithEth } from "./utils";
+import { impersonateSignerWithEth, isOfflineMode } from "./utils";
 
 // Address of Goldfinch's PoolTokens contract
 const POOL_TOKENS_ADDRESS: string =
@@ -16,10 +17,20 @@ const payToLendingPool: Function = async (
 ) => {
   const amountToPay = parseUSDC(amount);
 
-  // Transfer USDC to lending pool's credit line
-  await usdcContract
-    .connect(await impersonateCircle())
-    .transfer(await tranchedPool.creditLine(), amountToPay.toString());
+  if (isOfflineMode()) {
+    // mock credit line doesn't hold USDC, so the payment is recorded directly
+    // and applied to the interest owed like on assess
+    const mockTranchedPool = (await ethers.getContractAt(
+      "MockTranchedPool",
+      tranchedPool.address
+    )) as MockTranchedPool;
+    await mockTranchedPool.payAmount(amountToPay);
+  } else {
+    // Transfer USDC to lending pool's credit line
+    await usdcContract
+      .connect(await impersonateCircle())
+      .transfer(await tranchedPool.creditLine(), amountToPay.toString());
+  }
 
   // assess lending pool
   await tranchedPool.assess();
@@ -72,6 +83,7 @@ const transferLendingPosition: Function = async (
 };
 
 export {
+  POOL_TOKENS_ADDRESS,
   payToLendingPool,
   payToLendingPoolAddress,
   getGoldfinchLender1,
@@ -0,0 +1,70 @@
+import { expect } from "chai";
+import * as path from "path";
+import { Signer } from "ethers";
+import { ethers, network } from "hardhat";
+import { DeploymentContext } from "../../utils/deploy";
+import {
+  loadDeploymentManifest,
+  resolveDeploymentManifest
+} from "../../utils/manifest";
+import {
+  CarapaceContracts,
+  connectCarapaceContracts,
+  getCarapaceAddresses
+} from "../../sdk/contracts";
+
+const MOCK_MANIFEST_PATH = path.join(
+  __dirname,
+  "..",
+  "..",
+  "deployments",
+  "manifests",
+  "local-mock.yaml"
+);
+
+/**
+ * Contracts deployed from the mock manifest for a test suite
+ */
+interface MockContext {
+  context: DeploymentContext;
+  /// core contracts connected to the hardhat provider
+  contracts: CarapaceContracts;
+  /// reverts the chain to the snapshot taken before the deployment, call it in `after`
+  revert: () => Promise<void>;
+}
+
+/**
+ * Takes a snapshot of the chain & deploys the contracts of the mock manifest `deployments/manifests/local-mock.yaml`
+ * @param deployContracts deployment function passed to the test suites
+ * @param deployer signer deploying the contracts, it receives the mock USDC
+ */
+const deployMockContext = async (
+  deployContracts: Function,
+  deployer: Signer
+): Promise<MockContext> => {
+  const _snapshotId = await network.provider.send("evm_snapshot", []);
+
+  const _result = await deployContracts({
+    ...(await resolveDeploymentManifest(
+      loadDeploymentManifest(MOCK_MANIFEST_PATH)
+    )),
+    deployer
+  });
+  expect(_result.success).to.be.true;
+  const _context: DeploymentContext = _result;
+
+  return {
+    context: _context,
+    contracts: connectCarapaceContracts(
+      getCarapaceAddresses(_context.addressBook),
+      ethers.provider
+    ),
+    revert: async () => {
+      expect(await network.provider.send("evm_revert", [_snapshotId])).to.eq(
+        true
+      );
+    }
+  };
+};
+
+export { MOCK_MANIFEST_PATH, MockContext, deployMockContext };
@@ -0,0 +1,261 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { Signer } from "ethers";
+import { parseEther } from "ethers/lib/utils";
+import { ethers, network } from "hardhat";
+import { MockCreditLine } from "../../typechain-types/contracts/test/MockCreditLine";
+import { MockGoldfinchConfig } from "../../typechain-types/contracts/test/MockGoldfinchConfig";
+import { MockPoolTokens } from "../../typechain-types/contracts/test/MockPoolTokens";
+import {
+  MockSeniorPool,
+  MockSeniorPoolStrategy
+} from "../../typechain-types/contracts/test/MockSeniorPool.sol";
+import { MockTranchedPool } from "../../typechain-types/contracts/test/MockTranchedPool";
+import { SECONDS_PER_DAY } from "./constants";
+import { getLatestBlockTimestamp } from "./time";
+
+// Address of Goldfinch's GoldfinchConfig contract hardcoded in GoldfinchAdapter
+const GOLDFINCH_CONFIG_ADDRESS: string =
+  "0xaA425F8BfE82CD18f634e2Fe91E5DdEeFD98fDA1";
+
+// Indexes of the config options used by GoldfinchAdapter, see ConfigOptions.sol
+const CONFIG_NUMBERS = {
+  ReserveDenominator: 3,
+  LatenessGracePeriodInDays: 5
+};
+const CONFIG_ADDRESSES = {
+  PoolTokens: 12,
+  SeniorPool: 14,
+  SeniorPoolStrategy: 15
+};
+
+// Tranche ids of the first slice, see Goldfinch's TranchingLogic.sol
+const SENIOR_TRANCHE_ID: number = 1;
+const JUNIOR_TRANCHE_ID: number = 2;
+
+export interface MockGoldfinch {
+  config: MockGoldfinchConfig;
+  poolTokens: MockPoolTokens;
+  seniorPool: MockSeniorPool;
+  seniorPoolStrategy: MockSeniorPoolStrategy;
+}
+
+export interface MockTranchedPoolParams {
+  /// 18 decimals, i.e. 15% => 0.15 * 10 ** 18
+  interestApr?: BigNumber;
+  paymentPeriodInDays?: number;
+  termInDays?: number;
+  lateFeeApr?: BigNumber;
+  /// plain percent, i.e. 20% => 20
+  juniorFeePercent?: number;
+  /// amount drawn down right after the creation, which starts the term
+  drawdownAmount?: BigNumber;
+}
+
+/**
+ * Deploys the mock Goldfinch protocol and installs the mock config
+ * at the GoldfinchConfig address used by GoldfinchAdapter,
+ * so that the real GoldfinchAdapter can run without a mainnet fork.
+ * @param deployer
+ * @param reserveDenominator protocol fee denominator, i.e. 10 => 10% protocol fee
+ * @param leverageRatio senior pool leverage ratio scaled to 18 decimals
+ */
+const deployMockGoldfinch: Function = async (
+  deployer: Signer,
+  reserveDenominator: number = 10,
+  leverageRatio: BigNumber = parseEther("4")
+): Promise<MockGoldfinch> => {
+  const _configImpl = await (
+    await ethers.getContractFactory("MockGoldfinchConfig", deployer)
+  ).deploy();
+  await _configImpl.deployed();
+  await network.provider.send("hardhat_setCode", [
+    GOLDFINCH_CONFIG_ADDRESS,
+    await ethers.provider.getCode(_configImpl.address)
+  ]);
+  const config = (await ethers.getContractAt(
+    "MockGoldfinchConfig",
+    GOLDFINCH_CONFIG_ADDRESS,
+    deployer
+  )) as MockGoldfinchConfig;
+
+  const poolTokens = (await (
+    await ethers.getContractFactory("MockPoolTokens", deployer)
+  ).deploy()) as MockPoolTokens;
+  await poolTokens.deployed();
+  await poolTokens.initialize();
+
+  const seniorPool = (await (
+    await ethers.getContractFactory("MockSeniorPool", deployer)
+  ).deploy()) as MockSeniorPool;
+  await seniorPool.deployed();
+
+  const seniorPoolStrategy = (await (
+    await ethers.getContractFactory("MockSeniorPoolStrategy", deployer)
+  ).deploy(leverageRatio)) as MockSeniorPoolStrategy;
+  await seniorPoolStrategy.deployed();
+
+  await config.setNumber(CONFIG_NUMBERS.ReserveDenominator, reserveDenominator);
+  await config.setNumber(CONFIG_NUMBERS.LatenessGracePeriodInDays, 30);
+  await config.setAddress(CONFIG_ADDRESSES.PoolTokens, poolTokens.address);
+  await config.setAddress(CONFIG_ADDRESSES.SeniorPool, seniorPool.address);
+  await config.setAddress(
+    CONFIG_ADDRESSES.SeniorPoolStrategy,
+    seniorPoolStrategy.address
+  );
+
+  return { config, poolTokens, seniorPool, seniorPoolStrategy };
+};
+
+/**
+ * Creates a mock tranched pool (lending pool) with its own credit line.
+ * Defaults: 15% APR, 30 days payment period, 365 days term & 20% junior fee.
+ * @param deployer
+ * @param params
+ */
+const createMockTranchedPool: Function = async (
+  deployer: Signer,
+  params: MockTranchedPoolParams = {}
+): Promise<MockTranchedPool> => {
+  const _creditLine = await (
+    await ethers.getContractFactory("MockCreditLine", deployer)
+  ).deploy(
+    params.interestApr || parseEther("0.15"),
+    params.paymentPeriodInDays || 30,
+    params.termInDays || 365,
+    params.lateFeeApr || 0
+  );
+  await _creditLine.deployed();
+
+  const _tranchedPool = (await (
+    await ethers.getContractFactory("MockTranchedPool", deployer)
+  ).deploy(
+    _creditLine.address,
+    params.juniorFeePercent !== undefined ? params.juniorFeePercent : 20
+  )) as MockTranchedPool;
+  await _tranchedPool.deployed();
+
+  if (params.drawdownAmount && params.drawdownAmount.gt(0)) {
+    await _tranchedPool.drawdown(params.drawdownAmount);
+  }
+  return _tranchedPool;
+};
+
+const getMockCreditLine: Function = async (
+  tranchedPool: MockTranchedPool
+): Promise<MockCreditLine> => {
+  return (await ethers.getContractAt(
+    "MockCreditLine",
+    await tranchedPool.creditLine(),
+    tranchedPool.signer
+  )) as MockCreditLine;
+};
+
+/**
+ * Mints a pool token representing a lending position in the junior or senior tranche of the pool.
+ * @returns id of the minted token
+ */
+const mintPoolToken: Function = async (
+  poolTokens: MockPoolTokens,
+  tranchedPoolAddress: string,
+  owner: string,
+  principalAmount: BigNumber,
+  isJunior: boolean = true
+): Promise<BigNumber> => {
+  const _tranche = isJunior ? JUNIOR_TRANCHE_ID : SENIOR_TRANCHE_ID;
+  const _tokenId = await poolTokens.callStatic.mint(
+    owner,
+    tranchedPoolAddress,
+    _tranche,
+    principalAmount
+  );
+  await poolTokens.mint(owner, tranchedPoolAddress, _tranche, principalAmount);
+  return _tokenId;
+};
+
+const mintJuniorPoolToken: Function = async (
+  poolTokens: MockPoolTokens,
+  tranchedPoolAddress: string,
+  owner: string,
+  principalAmount: BigNumber
+): Promise<BigNumber> => {
+  return mintPoolToken(
+    poolTokens,
+    tranchedPoolAddress,
+    owner,
+    principalAmount,
+    true
+  );
+};
+
+const mintSeniorPoolToken: Function = async (
+  poolTokens: MockPoolTokens,
+  tranchedPoolAddress: string,
+  owner: string,
+  principalAmount: BigNumber
+): Promise<BigNumber> => {
+  return mintPoolToken(
+    poolTokens,
+    tranchedPoolAddress,
+    owner,
+    principalAmount,
+    false
+  );
+};
+
+/**
+ * Makes a full payment of the interest owed and the specified principal to the mock tranched pool
+ * and assesses the pool, similar to `payToLendingPool` on a mainnet fork.
+ */
+const payToMockTranchedPool: Function = async (
+  tranchedPool: MockTranchedPool,
+  principalAmount: BigNumber = BigNumber.from(0)
+) => {
+  await tranchedPool.pay(principalAmount);
+  await tranchedPool.assess();
+};
+
+/**
+ * Repays the whole balance of the mock tranched pool, so that it is considered expired
+ */
+const repayMockTranchedPool: Function = async (
+  tranchedPool: MockTranchedPool
+) => {
+  const _creditLine = await getMockCreditLine(tranchedPool);
+  await payToMockTranchedPool(tranchedPool, await _creditLine.balance());
+};
+
+/**
+ * Moves the last full payment of the mock tranched pool back in time,
+ * so that the pool is late by the specified number of days after its payment period.
+ * Unlike moving the time forward, this doesn't affect other contracts.
+ * @param tranchedPool
+ * @param daysLate number of days passed since the payment was due, must be > 0 for the pool to be late
+ */
+const makeMockTranchedPoolLate: Function = async (
+  tranchedPool: MockTranchedPool,
+  daysLate: number
+) => {
+  const _creditLine = await getMockCreditLine(tranchedPool);
+  const _paymentPeriodInDays = (
+    await _creditLine.paymentPeriodInDays()
+  ).toNumber();
+  await _creditLine.setLastFullPaymentTime(
+    (await getLatestBlockTimestamp()) -
+      (_paymentPeriodInDays + daysLate) * SECONDS_PER_DAY
+  );
+};
+
+export {
+  GOLDFINCH_CONFIG_ADDRESS,
+  CONFIG_ADDRESSES,
+  SENIOR_TRANCHE_ID,
+  JUNIOR_TRANCHE_ID,
+  deployMockGoldfinch,
+  createMockTranchedPool,
+  getMockCreditLine,
+  mintJuniorPoolToken,
+  mintSeniorPoolToken,
+  payToMockTranchedPool,
+  repayMockTranchedPool,
+  makeMockTranchedPoolLate
+};
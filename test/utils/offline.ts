@@ -0,0 +1,305 @@
+import { BigNumber } from "@ethersproject/bignumber";
+import { Contract, Signer } from "ethers";
+import { parseEther } from "ethers/lib/utils";
+import { ethers, network } from "hardhat";
+import { MockPoolTokens } from "../../typechain-types/contracts/test/MockPoolTokens";
+import { MockTranchedPool } from "../../typechain-types/contracts/test/MockTranchedPool";
+import { MockUsdc } from "../../typechain-types/contracts/test/MockUsdc";
+import {
+  CIRCLE_ACCOUNT_ADDRESS,
+  SECONDS_PER_DAY,
+  USDC_ADDRESS
+} from "./constants";
+import { POOL_TOKENS_ADDRESS } from "./goldfinch";
+import {
+  CONFIG_ADDRESSES,
+  JUNIOR_TRANCHE_ID,
+  MockGoldfinch,
+  createMockTranchedPool,
+  deployMockGoldfinch,
+  getMockCreditLine
+} from "./mockGoldfinch";
+import { getLatestBlockTimestamp } from "./time";
+import { parseUSDC, transferUsdc } from "./usdc";
+
+/**
+ * State of a mainnet Goldfinch lending pool mirrored by a mock in offline mode.
+ * Timestamps are relative to the time of the setup.
+ */
+interface OfflineLendingPool {
+  address: string;
+  /// 18 decimals, i.e. 15% => 0.15 * 10 ** 18
+  interestApr: BigNumber;
+  juniorFeePercent: number;
+  balance: BigNumber;
+  daysSinceLastFullPayment: number;
+  /// negative for a lending pool with term ended
+  daysUntilTermEnd: number;
+  /// true for a lending pool with CreditLine v1
+  isLateReverts?: boolean;
+}
+
+/**
+ * Junior tranche position of a mainnet Goldfinch lender mirrored by a mock in offline mode
+ */
+interface OfflinePoolToken {
+  tokenId: number;
+  owner: string;
+  pool: string;
+  principalAmount: BigNumber;
+  principalRedeemed?: BigNumber;
+}
+
+// Lending pools used by the tests, with the state as of the pinned fork block
+const OFFLINE_LENDING_POOLS: OfflineLendingPool[] = [
+  {
+    address: "0xb26b42dd5771689d0a7faeea32825ff9710b9c11",
+    interestApr: parseEther("0.1"),
+    juniorFeePercent: 20,
+    balance: parseUSDC("2000000"),
+    daysSinceLastFullPayment: 22,
+    daysUntilTermEnd: 900
+  },
+  {
+    address: "0xd09a57127bc40d680be7cb061c2a6629fe71abef",
+    interestApr: parseEther("0.1"),
+    juniorFeePercent: 20,
+    balance: parseUSDC("4000000"),
+    daysSinceLastFullPayment: 20,
+    daysUntilTermEnd: 900
+  },
+  {
+    address: "0x89d7c618a4eef3065da8ad684859a547548e6169",
+    interestApr: parseEther("0.1"),
+    juniorFeePercent: 20,
+    balance: parseUSDC("3000000"),
+    daysSinceLastFullPayment: 14,
+    daysUntilTermEnd: 900
+  },
+  {
+    address: "0x759f097f3153f5d62ff1c2d82ba78b6350f223e3",
+    interestApr: parseEther("0.1"),
+    juniorFeePercent: 20,
+    balance: parseUSDC("1000000"),
+    daysSinceLastFullPayment: 10,
+    daysUntilTermEnd: 900
+  },
+  // late lending pool with CreditLine v1
+  {
+    address: "0x1d596d28a7923a22aa013b0e7082bba23daa656b",
+    interestApr: parseEther("0.1"),
+    juniorFeePercent: 20,
+    balance: parseUSDC("1000000"),
+    daysSinceLastFullPayment: 45,
+    daysUntilTermEnd: 300,
+    isLateReverts: true
+  },
+  // repaid lending pool
+  {
+    address: "0xc13465ce9ae3aa184eb536f04fdc3f54d2def277",
+    interestApr: parseEther("0.1"),
+    juniorFeePercent: 20,
+    balance: BigNumber.from(0),
+    daysSinceLastFullPayment: 10,
+    daysUntilTermEnd: 300
+  }
+];
+
+// USDC balance of each lender
+const OFFLINE_LENDER_USDC_BALANCE: BigNumber = parseUSDC("100000");
+
+// Lending positions used by the tests
+const OFFLINE_POOL_TOKENS: OfflinePoolToken[] = [
+  {
+    tokenId: 590,
+    owner: "0x008c84421da5527f462886cec43d2717b686a7e4",
+    pool: "0xd09a57127bc40d680be7cb061c2a6629fe71abef",
+    principalAmount: parseUSDC("420000"),
+    principalRedeemed: parseUSDC("223.154992")
+  },
+  {
+    tokenId: 591,
+    owner: "0x4902b20bb3b8e7776cbcdcb6e3397e7f6b4e449e",
+    pool: "0xd09a57127bc40d680be7cb061c2a6629fe71abef",
+    principalAmount: parseUSDC("10000")
+  },
+  {
+    tokenId: 583,
+    owner: "0x111b46bfae308be4570cb9f17d051b58022d7c89",
+    pool: "0xd09a57127bc40d680be7cb061c2a6629fe71abef",
+    principalAmount: parseUSDC("10000")
+  },
+  {
+    tokenId: 615,
+    owner: "0xcb726f13479963934e91b6f34b6e87ec69c21bb9",
+    pool: "0xd09a57127bc40d680be7cb061c2a6629fe71abef",
+    principalAmount: parseUSDC("35000")
+  },
+  {
+    tokenId: 579,
+    owner: "0x5cd8c821c080b7340df6969252a979ed416a4e3f",
+    pool: "0xd09a57127bc40d680be7cb061c2a6629fe71abef",
+    principalAmount: parseUSDC("63000")
+  },
+  {
+    tokenId: 606,
+    owner: "0xbb34666407e47f87a44e4540ee765909506cb105",
+    pool: "0xd09a57127bc40d680be7cb061c2a6629fe71abef",
+    principalAmount: parseUSDC("10000")
+  },
+  {
+    tokenId: 645,
+    owner: "0x4902b20bb3b8e7776cbcdcb6e3397e7f6b4e449e",
+    pool: "0xb26b42dd5771689d0a7faeea32825ff9710b9c11",
+    principalAmount: parseUSDC("158000")
+  },
+  {
+    tokenId: 642,
+    owner: "0x008c84421da5527f462886cec43d2717b686a7e4",
+    pool: "0xb26b42dd5771689d0a7faeea32825ff9710b9c11",
+    principalAmount: parseUSDC("100000")
+  },
+  {
+    tokenId: 142,
+    owner: "0xcb726f13479963934e91b6f34b6e87ec69c21bb9",
+    pool: "0x57686612c601cb5213b01aa8e80afeb24bbd01df",
+    principalAmount: parseUSDC("10000")
+  },
+  {
+    tokenId: 717,
+    owner: "0x3371e5ff5ae3f1979074be4c5828e71df51d299c",
+    pool: "0x89d7c618a4eef3065da8ad684859a547548e6169",
+    principalAmount: parseUSDC("100000")
+  },
+  {
+    tokenId: 737,
+    owner: "0x008c84421da5527f462886cec43d2717b686a7e4",
+    pool: "0x89d7c618a4eef3065da8ad684859a547548e6169",
+    principalAmount: parseUSDC("100000")
+  }
+];
+
+const _setEthBalance = async (address: string) => {
+  await network.provider.send("hardhat_setBalance", [
+    address,
+    ethers.utils.hexStripZeros(parseEther("100").toHexString())
+  ]);
+};
+
+/**
+ * Installs the runtime code of the deployed contract at the specified address.
+ * Storage isn't copied, so the state must be set after the installation.
+ */
+const installCode: Function = async (
+  contract: Contract,
+  address: string
+): Promise<void> => {
+  await network.provider.send("hardhat_setCode", [
+    address,
+    await ethers.provider.getCode(contract.address)
+  ]);
+};
+
+/**
+ * Replaces the mainnet contracts used by the tests with local mocks:
+ * MockUsdc at the USDC address funded to the Circle account,
+ * mock Goldfinch config & PoolTokens at the Goldfinch addresses,
+ * mock lending pools at the addresses of the mainnet lending pools with the lending positions of their lenders.
+ * This allows to run the tests without a mainnet fork, so test utils can keep using the mainnet addresses.
+ * @param deployer
+ */
+const setupOfflineMode: Function = async (
+  deployer: Signer
+): Promise<MockGoldfinch> => {
+  /// USDC
+  const _mockUsdc = await (
+    await ethers.getContractFactory("MockUsdc", deployer)
+  ).deploy();
+  await _mockUsdc.deployed();
+  await installCode(_mockUsdc, USDC_ADDRESS);
+  await (
+    (await ethers.getContractAt("MockUsdc", USDC_ADDRESS, deployer)) as MockUsdc
+  ).initialize(CIRCLE_ACCOUNT_ADDRESS);
+
+  /// Goldfinch protocol
+  const _goldfinch: MockGoldfinch = await deployMockGoldfinch(deployer);
+  await installCode(_goldfinch.poolTokens, POOL_TOKENS_ADDRESS);
+  const _poolTokens = (await ethers.getContractAt(
+    "MockPoolTokens",
+    POOL_TOKENS_ADDRESS,
+    deployer
+  )) as MockPoolTokens;
+  await _poolTokens.initialize();
+  await _goldfinch.config.setAddress(
+    CONFIG_ADDRESSES.PoolTokens,
+    POOL_TOKENS_ADDRESS
+  );
+
+  /// lending pools
+  for (const _lendingPool of OFFLINE_LENDING_POOLS) {
+    const _tranchedPool: MockTranchedPool = await createMockTranchedPool(
+      deployer,
+      {
+        interestApr: _lendingPool.interestApr,
+        juniorFeePercent: _lendingPool.juniorFeePercent,
+        drawdownAmount: _lendingPool.balance
+      }
+    );
+    const _creditLine = await getMockCreditLine(_tranchedPool);
+
+    await installCode(_tranchedPool, _lendingPool.address);
+    const _installedPool = (await ethers.getContractAt(
+      "MockTranchedPool",
+      _lendingPool.address,
+      deployer
+    )) as MockTranchedPool;
+    await _installedPool.setCreditLine(_creditLine.address);
+    await _installedPool.setJuniorFeePercent(_lendingPool.juniorFeePercent);
+
+    const _now = await getLatestBlockTimestamp();
+    const _lastFullPaymentTime =
+      _now - _lendingPool.daysSinceLastFullPayment * SECONDS_PER_DAY;
+    await _creditLine.setLastFullPaymentTime(_lastFullPaymentTime);
+    await _creditLine.setNextDueTime(
+      _lastFullPaymentTime +
+        (await _creditLine.paymentPeriodInDays()).toNumber() * SECONDS_PER_DAY
+    );
+    await _creditLine.setTermEndTime(
+      _now + _lendingPool.daysUntilTermEnd * SECONDS_PER_DAY
+    );
+    if (_lendingPool.isLateReverts) {
+      await _creditLine.setIsLateReverts(true);
+    }
+  }
+
+  /// lending positions
+  for (const _token of OFFLINE_POOL_TOKENS) {
+    await _poolTokens.mintWithTokenId(
+      _token.owner,
+      _token.tokenId,
+      _token.pool,
+      JUNIOR_TRANCHE_ID,
+      _token.principalAmount
+    );
+    if (_token.principalRedeemed) {
+      await _poolTokens.redeem(_token.tokenId, _token.principalRedeemed, 0);
+    }
+  }
+
+  /// ETH & USDC for the impersonated accounts, which lenders hold on mainnet
+  await _setEthBalance(CIRCLE_ACCOUNT_ADDRESS);
+  const _lenders: string[] = [];
+  OFFLINE_POOL_TOKENS.forEach((token) => {
+    if (_lenders.indexOf(token.owner) < 0) {
+      _lenders.push(token.owner);
+    }
+  });
+  for (const _lender of _lenders) {
+    await _setEthBalance(_lender);
+    await transferUsdc(_lender, OFFLINE_LENDER_USDC_BALANCE);
+  }
+
+  return { ..._goldfinch, poolTokens: _poolTokens };
+};
+
+export { OFFLINE_LENDING_POOLS, OFFLINE_POOL_TOKENS, setupOfflineMode };
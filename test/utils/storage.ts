@@ -5,13 +5,20 @@ const toBytes32 = (bn: BigNumber): string => {
   return ethers.utils.hexlify(ethers.utils.zeroPad(bn.toHexString(), 32));
 };
 
-const setStorageAt = async (address: string, index: number, value: string) => {
+const setStorageAt = async (
+  address: string,
+  index: number | string,
+  value: string,
+  mine: boolean = true
+) => {
   await ethers.provider.send("hardhat_setStorageAt", [
     address,
     ethers.utils.hexValue(index),
     value
   ]);
-  await ethers.provider.send("evm_mine", []); // Just mines to the next block
+  if (mine) {
+    await ethers.provider.send("evm_mine", []); // Just mines to the next block
+  }
 };
 
 const getStorageAt = async (contractAddress: string, slot: number) => {
@@ -1,14 +1,14 @@
 import { Signer } from "ethers";
 import { ethers } from "hardhat";
-import { deployer } from "../../utils/deploy";
 
 export const impersonateSignerWithEth = async (
   address: string,
   ethValue: string = "10"
 ): Promise<Signer> => {
   const signer = await ethers.getImpersonatedSigner(address);
-  // send ethValue to address
-  await transferEth(deployer, address, ethValue);
+  // send ethValue to address from the first hardhat account
+  const [funder] = await ethers.getSigners();
+  await transferEth(funder, address, ethValue);
   return signer;
 };
 
@@ -22,3 +22,10 @@ export const transferEth = async (
     value: ethers.utils.parseEther(ethValue)
   });
 };
+
+/**
+ * Returns true when tests run against local mocks of USDC & Goldfinch instead of a mainnet fork,
+ * which is enabled by setting the env variable OFFLINE_TESTS=true
+ */
+export const isOfflineMode = (): boolean =>
+  process.env.OFFLINE_TESTS === "true";
@@ -0,0 +1,296 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import * as util from "util";
+import { ethers } from "hardhat";
+
+import { DeploymentContext } from "../../utils/deploy";
+import { CarapaceContracts } from "../../sdk/contracts";
+import {
+  AlertSink,
+  LendingPoolAlert,
+  createLendingPoolWatcher,
+  getLendingPoolStates
+} from "../../watcher/lendingPoolWatcher";
+import {
+  createAlertSinks,
+  createConsoleSink,
+  createFileSink,
+  createWebhookSink
+} from "../../watcher/sinks";
+import { MockGoldfinchAdapter } from "../../typechain-types/contracts/test/MockGoldfinchAdapter";
+import { MockContext, deployMockContext } from "../utils/mockContext";
+import { getLatestBlockTimestamp } from "../utils/time";
+
+// lending pool of the first protection pool only
+const LENDING_POOL_ADDRESS = "0xb26b42dd5771689d0a7faeea32825ff9710b9c11";
+
+/**
+ * Local stand-in of a webhook recording the posted alerts & responding with the configured status
+ */
+const _startWebhook = async () => {
+  const _webhook = {
+    alerts: [] as LendingPoolAlert[],
+    status: 200,
+    url: "",
+    server: http.createServer((request, response) => {
+      let _body = "";
+      request.on("data", (chunk) => (_body += chunk));
+      request.on("end", () => {
+        if (_webhook.status === 200) {
+          _webhook.alerts.push(JSON.parse(_body));
+        }
+        response.writeHead(_webhook.status);
+        response.end();
+      });
+    })
+  };
+  await new Promise<void>((resolve) =>
+    _webhook.server.listen(0, "127.0.0.1", resolve)
+  );
+  _webhook.url = `http://127.0.0.1:${
+    (_webhook.server.address() as AddressInfo).port
+  }/alerts`;
+  return _webhook;
+};
+
+const testLendingPoolWatcher: Function = (deployContracts: Function) => {
+  describe("LendingPoolWatcher", () => {
+    let _mockContext: MockContext;
+    let _context: DeploymentContext;
+    let _contracts: CarapaceContracts;
+    let _adapter: MockGoldfinchAdapter;
+    let _webhook: Awaited<ReturnType<typeof _startWebhook>>;
+    let _filePath: string;
+    let _logs: string[];
+    let _sinks: AlertSink[];
+
+    before(async () => {
+      const _deployer = (await ethers.getSigners())[15];
+      _mockContext = await deployMockContext(deployContracts, _deployer);
+      _context = _mockContext.context;
+      _contracts = _mockContext.contracts;
+      _adapter = (await ethers.getContractAt(
+        "MockGoldfinchAdapter",
+        _context.goldfinchAdapterInstance.address
+      )) as MockGoldfinchAdapter;
+
+      _webhook = await _startWebhook();
+      _filePath = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "watcher-")),
+        "alerts",
+        "alerts.jsonl"
+      );
+      _logs = [];
+      _sinks = [
+        createConsoleSink((...params: any[]) =>
+          _logs.push(util.format(...params))
+        ),
+        createFileSink(_filePath),
+        createWebhookSink({ url: _webhook.url })
+      ];
+    });
+
+    after(async () => {
+      await new Promise((resolve) => _webhook.server.close(resolve));
+      fs.rmSync(path.dirname(path.dirname(_filePath)), {
+        recursive: true,
+        force: true
+      });
+      await _mockContext.revert();
+    });
+
+    describe("getLendingPoolStates", () => {
+      it("...should return the lending pools of every basket", async () => {
+        const _states = await getLendingPoolStates(_contracts);
+        const _timestamp = await getLatestBlockTimestamp();
+
+        // the second basket shares a lending pool with the first basket
+        expect(_states.length).to.eq(4);
+        expect(
+          new Set(_states.map((state) => state.referenceLendingPools)).size
+        ).to.eq(2);
+        _states.forEach((state) => {
+          expect(state.status).to.eq("Active");
+          expect(state.protectionPools.length).to.eq(1);
+          expect(state.paymentPeriodInDays).to.eq(30);
+          // mock adapter reports the latest payment 2 days ago
+          expect(state.latestPaymentTimestamp).to.eq(_timestamp - 2 * 86400);
+          expect(state.nextPaymentDueTimestamp).to.eq(_timestamp + 28 * 86400);
+        });
+      });
+    });
+
+    describe("poll", () => {
+      let _watcher: ReturnType<typeof createLendingPoolWatcher>;
+
+      before(async () => {
+        _watcher = createLendingPoolWatcher({
+          contracts: _contracts,
+          sinks: _sinks,
+          dueWithinDays: 30
+        });
+      });
+
+      it("...should warn about the payments due within the window", async () => {
+        const _alerts = await _watcher.poll();
+
+        expect(_alerts.length).to.eq(4);
+        _alerts.forEach((alert) => {
+          expect(alert.type).to.eq("paymentDue");
+          expect(alert.severity).to.eq("warning");
+          expect(alert.message).to.contain("is due in 28.0 days");
+        });
+      });
+
+      it("...should send the alerts to all sinks", async () => {
+        expect(_logs.length).to.eq(4);
+        expect(_logs[0]).to.contain("[WARNING] Next payment of lending pool");
+
+        const _lines = fs
+          .readFileSync(_filePath, "utf8")
+          .trim()
+          .split("\n")
+          .map((line) => JSON.parse(line));
+        expect(_lines.length).to.eq(4);
+        expect(_lines[0].type).to.eq("paymentDue");
+
+        expect(_webhook.alerts.length).to.eq(4);
+        expect(_webhook.alerts[0].lendingPool.paymentPeriodInDays).to.eq(30);
+      });
+
+      it("...should not repeat the alerts when nothing changed", async () => {
+        expect(await _watcher.poll()).to.be.empty;
+      });
+
+      it("...should alert when a lending pool is late within the grace period", async () => {
+        await _adapter.setLendingPoolLateWithinGracePeriod(
+          LENDING_POOL_ADDRESS,
+          true
+        );
+        const _alerts = await _watcher.poll();
+
+        expect(_alerts.length).to.eq(1);
+        expect(_alerts[0].type).to.eq("statusChanged");
+        expect(_alerts[0].severity).to.eq("warning");
+        expect(_alerts[0].previousStatus).to.eq("Active");
+        expect(_alerts[0].lendingPool.status).to.eq("LateWithinGracePeriod");
+        expect(_alerts[0].lendingPool.lendingPool.toLowerCase()).to.eq(
+          LENDING_POOL_ADDRESS
+        );
+        expect(_webhook.alerts.length).to.eq(5);
+      });
+
+      it("...should alert when a lending pool turns late", async () => {
+        await _adapter.setLendingPoolLateWithinGracePeriod(
+          LENDING_POOL_ADDRESS,
+          false
+        );
+        await _adapter.setLendingPoolLate(LENDING_POOL_ADDRESS, true);
+        const _alerts = await _watcher.poll();
+
+        expect(_alerts.length).to.eq(1);
+        expect(_alerts[0].severity).to.eq("critical");
+        expect(_alerts[0].message).to.contain(
+          "changed from LateWithinGracePeriod to Late"
+        );
+      });
+
+      it("...should warn again about a due payment after the lending pool is active again", async () => {
+        await _adapter.setLendingPoolLate(LENDING_POOL_ADDRESS, false);
+        const _alerts = await _watcher.poll();
+
+        expect(_alerts.map((alert) => alert.type)).to.deep.eq([
+          "statusChanged",
+          "paymentDue"
+        ]);
+        expect(_alerts[0].severity).to.eq("info");
+        expect(_alerts[0].lendingPool.status).to.eq("Active");
+      });
+    });
+
+    describe("createLendingPoolWatcher", () => {
+      it("...should alert on the lending pools which aren't active at the first poll", async () => {
+        await _adapter.setLendingPoolLate(LENDING_POOL_ADDRESS, true);
+        const _alerts = await createLendingPoolWatcher({
+          contracts: _contracts,
+          sinks: [],
+          dueWithinDays: 7
+        }).poll();
+
+        expect(_alerts.length).to.eq(1);
+        expect(_alerts[0].type).to.eq("statusChanged");
+        expect(_alerts[0].previousStatus).to.be.undefined;
+        expect(_alerts[0].message).to.contain("is Late");
+        await _adapter.setLendingPoolLate(LENDING_POOL_ADDRESS, false);
+      });
+
+      it("...should deliver the alerts to the other sinks when a sink fails", async () => {
+        _webhook.status = 500;
+        const _errors: string[] = [];
+        const _logCount = _logs.length;
+        try {
+          const _alerts = await createLendingPoolWatcher({
+            contracts: _contracts,
+            sinks: _sinks,
+            dueWithinDays: 30,
+            onError: (error, sink) =>
+              _errors.push(`${sink?.name}: ${error.message}`)
+          }).poll();
+
+          expect(_alerts.length).to.eq(4);
+          expect(_logs.length).to.eq(_logCount + 4);
+          expect(_errors.length).to.eq(4);
+          expect(_errors[0]).to.eq(
+            `webhook ${new URL(_webhook.url).origin}: Webhook ${
+              new URL(_webhook.url).origin
+            } responded with 500`
+          );
+        } finally {
+          _webhook.status = 200;
+        }
+      });
+    });
+
+    describe("createAlertSinks", () => {
+      it("...should send the alerts to the console only by default", async () => {
+        const _sinks = createAlertSinks({});
+        expect(_sinks.map((sink) => sink.name)).to.deep.eq(["console"]);
+      });
+
+      it("...should add the sinks of the file & the webhook", async () => {
+        const _sinkLogs: string[] = [];
+        const _sinks = createAlertSinks(
+          { file: _filePath, webhook: _webhook.url },
+          (...params: any[]) => _sinkLogs.push(util.format(...params))
+        );
+        expect(_sinks.map((sink) => sink.name)).to.deep.eq([
+          "console",
+          `file ${_filePath}`,
+          `webhook ${new URL(_webhook.url).origin}`
+        ]);
+
+        const _alerts = await createLendingPoolWatcher({
+          contracts: _contracts,
+          sinks: _sinks,
+          dueWithinDays: 30
+        }).poll();
+        expect(_sinkLogs.length).to.eq(_alerts.length);
+        expect(_webhook.alerts.slice(-_alerts.length)).to.deep.eq(
+          JSON.parse(JSON.stringify(_alerts))
+        );
+      });
+
+      it("...should not add the webhook sink of an invalid url", async () => {
+        expect(() => createAlertSinks({ webhook: "alerts" })).to.throw(
+          "Invalid URL"
+        );
+      });
+    });
+  });
+};
+
+export { testLendingPoolWatcher };
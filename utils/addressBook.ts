@@ -0,0 +1,162 @@
+import * as fs from "fs";
+import * as path from "path";
+
+const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+/**
+ * Deployment details of a library or a non-upgradable contract
+ */
+export interface LibraryDeployment {
+  address: string;
+  blockNumber: number;
+  libraries?: { [libraryName: string]: string };
+}
+
+/**
+ * Upgrade of a proxy to a new implementation, recorded by the `upgrade:proxies` task
+ */
+export interface ProxyUpgrade {
+  /// name of the new implementation contract, i.e. ProtectionPoolV2
+  contractName: string;
+  previousImplementation: string;
+  implementation: string;
+  blockNumber: number;
+  initializer?: string;
+}
+
+/**
+ * Deployment details of an upgradable (ERC1967 proxy) contract
+ */
+export interface ProxyDeployment {
+  proxy: string;
+  implementation: string;
+  blockNumber: number;
+  /// name of the deployed implementation contract when it depends on the deployment, i.e. MockGoldfinchAdapter
+  contractName?: string;
+  libraries?: { [libraryName: string]: string };
+  /// upgrades in the order of execution
+  upgrades?: ProxyUpgrade[];
+}
+
+export interface ReferenceLendingPoolsDeployment extends ProxyDeployment {
+  lendingPools: string[];
+}
+
+export interface ProtectionPoolDeployment extends ProxyDeployment {
+  name: string;
+  symbol: string;
+  underlyingToken: string;
+  referenceLendingPools: string;
+}
+
+/**
+ * Address book written at the end of a deployment to `deployments/<network>.json`,
+ * so that frontend & ops scripts don't need to copy addresses from the console output.
+ */
+export interface AddressBook {
+  network: string;
+  chainId: number;
+  deployer: string;
+  operator: string;
+  libraries: { [libraryName: string]: LibraryDeployment };
+  contracts: { [contractName: string]: ProxyDeployment };
+  lendingProtocolAdapters: { [protocol: string]: ProxyDeployment };
+  referenceLendingPools: ReferenceLendingPoolsDeployment[];
+  protectionPools: ProtectionPoolDeployment[];
+}
+
+const getAddressBookPath = (
+  networkName: string,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): string => {
+  return path.join(deploymentsDir, `${networkName}.json`);
+};
+
+/**
+ * Reads the address book of the specified network.
+ * Returns undefined when the network doesn't have an address book yet.
+ * @param networkName
+ * @param deploymentsDir directory containing address books, defaults to `deployments`
+ */
+const readAddressBook = (
+  networkName: string,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): AddressBook | undefined => {
+  const _path = getAddressBookPath(networkName, deploymentsDir);
+  if (!fs.existsSync(_path)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(_path, "utf8")) as AddressBook;
+};
+
+/**
+ * Writes the address book of the specified network and returns the file path.
+ * @param addressBook
+ * @param deploymentsDir directory containing address books, defaults to `deployments`
+ */
+const writeAddressBook = (
+  addressBook: AddressBook,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): string => {
+  const _path = getAddressBookPath(addressBook.network, deploymentsDir);
+  fs.mkdirSync(deploymentsDir, { recursive: true });
+  fs.writeFileSync(_path, JSON.stringify(addressBook, null, 2) + "\n");
+  return _path;
+};
+
+/**
+ * Finds the protection pool in the address book by its proxy address or name, i.e. "sToken11".
+ * Throws when the address book doesn't contain the pool.
+ * @param addressBook
+ * @param poolAddressOrName
+ */
+const findProtectionPool = (
+  addressBook: AddressBook,
+  poolAddressOrName: string
+): ProtectionPoolDeployment => {
+  const _pool = addressBook.protectionPools.find(
+    (pool) =>
+      pool.proxy.toLowerCase() === poolAddressOrName.toLowerCase() ||
+      pool.name === poolAddressOrName
+  );
+  if (!_pool) {
+    throw new Error(
+      `Protection pool ${poolAddressOrName} isn't in the address book of ${
+        addressBook.network
+      }, pools: ${addressBook.protectionPools
+        .map((pool) => `${pool.name} (${pool.proxy})`)
+        .join(", ")}`
+    );
+  }
+  return _pool;
+};
+
+/**
+ * Finds the protection pools in a comma separated list of proxy addresses or names, i.e. "sToken11, sToken12".
+ * Throws when the address book doesn't contain a pool or the list is empty.
+ * @param addressBook
+ * @param poolAddressesOrNames
+ */
+const findProtectionPools = (
+  addressBook: AddressBook,
+  poolAddressesOrNames: string
+): ProtectionPoolDeployment[] => {
+  const _pools = poolAddressesOrNames
+    .split(",")
+    .map((pool) => pool.trim())
+    .filter((pool) => pool.length > 0)
+    .map((pool) => findProtectionPool(addressBook, pool));
+  if (_pools.length === 0) {
+    throw new Error(`No protection pools in "${poolAddressesOrNames}"`);
+  }
+  return _pools;
+};
+
+export {
+  DEPLOYMENTS_DIR,
+  getAddressBookPath,
+  readAddressBook,
+  writeAddressBook,
+  findProtectionPool,
+  findProtectionPools
+};
@@ -1,6 +1,12 @@
-import { ContractFactory, Signer, Contract, BigNumber } from "ethers";
-import { ethers, upgrades } from "hardhat";
-import { ERC20Upgradeable } from "../typechain-types/@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable";
+import {
+  ContractFactory,
+  Signer,
+  Contract,
+  BigNumber,
+  BigNumberish,
+  ContractTransaction
+} from "ethers";
+import { ethers, network, upgrades } from "hardhat";
 import { USDC_ADDRESS } from "../test/utils/constants";
 import { ProtectionPool } from "../typechain-types/contracts/core/pool/ProtectionPool";
 import { ProtectionPoolParamsStruct } from "../typechain-types/contracts/interfaces/IProtectionPool";
@@ -15,53 +21,98 @@ import { GoldfinchAdapter } from "../typechain-types/contracts/adapters/Goldfinc
 import { DefaultStateManager } from "../typechain-types/contracts/core/DefaultStateManager";
 import { MockUsdc } from "../typechain-types/contracts/test/MockUsdc";
 import { LATE_PAYMENT_GRACE_PERIOD_IN_DAYS } from "../scripts/local-mainnet/data";
+import {
+  AddressBook,
+  DEPLOYMENTS_DIR,
+  LibraryDeployment,
+  ProtectionPoolDeployment,
+  ProxyDeployment,
+  ReferenceLendingPoolsDeployment,
+  writeAddressBook
+} from "./addressBook";
+import {
+  getDeploymentStatePath,
+  getDeploymentConfigHash,
+  loadDeploymentState,
+  runDeploymentStep
+} from "./deploymentState";
+import { loadDeploymentManifest, resolveDeploymentManifest } from "./manifest";
+import { decodeError, formatError } from "../sdk/errors";
+
+/**
+ * Config of a ProtectionPool and its basket of lending pools (ReferenceLendingPools) in on-chain units.
+ */
+export interface ProtectionPoolConfig {
+  /// name & symbol of the sToken, symbol must be unique within a deployment
+  name: string;
+  symbol: string;
+  protectionPoolCycleParams: ProtectionPoolCycleParamsStruct;
+  protectionPoolParams: ProtectionPoolParamsStruct;
+  lendingPools: string[];
+  lendingPoolProtocols: number[];
+  lendingPoolPurchaseLimitsInDays: number[];
+  latePaymentGracePeriodInDays?: BigNumberish;
+  /// defaults to USDC or MockUsdc when mocks are used
+  underlyingToken?: string;
+}
+
+/**
+ * Deployment config in on-chain units.
+ * Use `resolveDeploymentManifest` to create it from a JSON/YAML deployment manifest.
+ */
+export interface DeploymentConfig {
+  /// pools are created in the specified order and share all other contracts
+  protectionPools: ProtectionPoolConfig[];
+  /// signer used to deploy & own the contracts, defaults to the first hardhat signer
+  deployer?: Signer;
+  /// operator of the DefaultStateManager, defaults to the address of the operator signer
+  operatorAddress?: string;
+  useMock?: boolean;
+  /// path of the deployment state file used to resume an interrupted deployment,
+  /// state is only kept in memory when it is not specified
+  statePath?: string;
+}
 
-export interface DeployContractsResult {
-  success: boolean;
-  deployer?: Signer | undefined;
-  operator?: Signer | undefined;
-  protectionPoolInstance?: ProtectionPool | undefined;
-  cpContractFactoryInstance?: CPContractFactory | undefined;
-  protectionPoolCycleManagerInstance?: ProtectionPoolCycleManager | undefined;
-  defaultStateManagerInstance?: DefaultStateManager | undefined;
-  mockUsdcInstance?: ERC20Upgradeable | undefined;
+/**
+ * Signers & contracts of a single deployment.
+ * Every call to `deployContracts` creates an independent context,
+ * so multiple deployments can co-exist in the same process.
+ */
+export interface DeploymentContext {
+  deployer: Signer;
+  operator: Signer;
+  account1: Signer;
+  account2: Signer;
+  account3: Signer;
+  account4: Signer;
+  riskFactorCalculatorInstance: RiskFactorCalculator;
+  accruedPremiumCalculatorInstance: AccruedPremiumCalculator;
+  protectionPoolHelperInstance: Contract;
+  premiumCalculatorInstance: PremiumCalculator;
+  protectionPoolCycleManagerInstance: ProtectionPoolCycleManager;
+  defaultStateManagerInstance: DefaultStateManager;
+  cpContractFactoryInstance: CPContractFactory;
+  goldfinchAdapterImplementation: GoldfinchAdapter;
+  goldfinchAdapterInstance: GoldfinchAdapter;
+  referenceLendingPoolsImplementation: ReferenceLendingPools; // implementation contract which is used to create proxy contract
+  referenceLendingPoolsInstance: ReferenceLendingPools; // This is the proxy instance of the first pool cloned from implementation
+  referenceLendingPoolsInstances: ReferenceLendingPools[]; // ReferenceLendingPools of all pools in the order of the config
+  protectionPoolImplementation: ProtectionPool;
+  protectionPoolInstance: ProtectionPool; // first pool
+  protectionPoolInstances: ProtectionPool[]; // all pools in the order of the config
+  mockUsdcInstance?: MockUsdc;
+  addressBook: AddressBook;
 }
 
-let deployer: Signer;
-let operator: Signer;
-let account1: Signer;
-let account2: Signer;
-let account3: Signer;
-let account4: Signer;
-
-let protectionPoolImplementation: ProtectionPool;
-let protectionPoolInstance: ProtectionPool;
-let cpContractFactoryInstance: CPContractFactory;
-let premiumCalculatorInstance: PremiumCalculator;
-let referenceLendingPoolsInstance: ReferenceLendingPools;
-let protectionPoolCycleManagerInstance: ProtectionPoolCycleManager;
-let accruedPremiumCalculatorInstance: AccruedPremiumCalculator;
-let riskFactorCalculatorInstance: RiskFactorCalculator;
-let goldfinchAdapterImplementation: GoldfinchAdapter;
-let goldfinchAdapterInstance: GoldfinchAdapter;
-let referenceLendingPoolsImplementation: ReferenceLendingPools;
-let defaultStateManagerInstance: DefaultStateManager;
-let protectionPoolHelperInstance: Contract;
-let mockUsdcInstance: ERC20Upgradeable;
-
-(async () => {
-  [deployer, account1, account2, account3, account4, operator] =
-    await ethers.getSigners();
-  console.log("Deployer address: ", await deployer.getAddress());
-})().catch((err) => {
-  console.error(err);
-});
-
-const contractFactory: Function = async (
+export type DeployContractsResult =
+  | ({ success: true } & DeploymentContext)
+  | { success: false };
+
+const contractFactory = async (
   contractName: string,
-  libraries: any,
-  deployerAccount: Signer = deployer
-) => {
+  deployerAccount: Signer,
+  libraries?: { [libraryName: string]: string }
+): Promise<ContractFactory> => {
   const _contractFactory: ContractFactory = await ethers.getContractFactory(
     contractName,
     { signer: deployerAccount, libraries }
@@ -70,265 +121,594 @@ const contractFactory: Function = async (
   return _contractFactory;
 };
 
-const deployContracts: Function = async (
-  _protectionPoolCycleParams: ProtectionPoolCycleParamsStruct,
-  _protectionPoolParams: ProtectionPoolParamsStruct,
-  _lendingPools: string[],
-  _lendingPoolProtocols: number[],
-  _lendingPoolPurchaseLimitsInDays: number[],
-  _latePaymentGracePeriodInDays: BigNumber = BigNumber.from(LATE_PAYMENT_GRACE_PERIOD_IN_DAYS),
-  _useMock: boolean = false
+const deployContracts = async (
+  _config: DeploymentConfig
 ): Promise<DeployContractsResult> => {
+  const _useMock = _config.useMock || false;
   try {
-    // Deploy RiskFactorCalculator library
-    const riskFactorCalculatorFactory = await contractFactory(
-      "RiskFactorCalculator"
+    const [_firstSigner, account1, account2, account3, account4, _operator] =
+      await ethers.getSigners();
+    const deployer: Signer = _config.deployer || _firstSigner;
+    const operator: Signer = _config.operatorAddress
+      ? await ethers.getSigner(_config.operatorAddress)
+      : _operator;
+    const _operatorAddress = await operator.getAddress();
+    const _deployerAddress = await deployer.getAddress();
+    console.log("Deployer address: ", _deployerAddress);
+
+    // Completed steps are skipped, when the deployment is resumed using the same state file
+    const _statePath = _config.statePath;
+    const _state = await loadDeploymentState(
+      network.name,
+      getDeploymentConfigHash(_config),
+      _statePath
     );
-    riskFactorCalculatorInstance = await riskFactorCalculatorFactory.deploy();
-    await riskFactorCalculatorInstance.deployed();
-    console.log(
-      "RiskFactorCalculator deployed to:",
-      riskFactorCalculatorInstance.address
+    const runStep = async <T>(
+      stepName: string,
+      action: () => Promise<T>
+    ): Promise<T> => runDeploymentStep(_state, _statePath, stepName, action);
+
+    // Deploy RiskFactorCalculator library
+    const riskFactorCalculatorDeployment = await runStep(
+      "RiskFactorCalculator",
+      async () => {
+        const riskFactorCalculatorFactory = await contractFactory(
+          "RiskFactorCalculator",
+          deployer
+        );
+        const _instance = await riskFactorCalculatorFactory.deploy();
+        await _instance.deployed();
+        console.log("RiskFactorCalculator deployed to:", _instance.address);
+        return await getLibraryDeployment(_instance);
+      }
     );
+    const riskFactorCalculatorInstance = (await ethers.getContractAt(
+      "RiskFactorCalculator",
+      riskFactorCalculatorDeployment.address,
+      deployer
+    )) as RiskFactorCalculator;
 
     // Deploy AccruedPremiumCalculator library
     const riskFactorLibRef = {
       RiskFactorCalculator: riskFactorCalculatorInstance.address
     };
-    const AccruedPremiumCalculator = await contractFactory(
+    const accruedPremiumCalculatorDeployment = await runStep(
       "AccruedPremiumCalculator",
-      riskFactorLibRef
-    );
-    accruedPremiumCalculatorInstance = await AccruedPremiumCalculator.deploy();
-    await accruedPremiumCalculatorInstance.deployed();
-    console.log(
-      "AccruedPremiumCalculator deployed to:",
-      accruedPremiumCalculatorInstance.address
+      async () => {
+        const AccruedPremiumCalculator = await contractFactory(
+          "AccruedPremiumCalculator",
+          deployer,
+          riskFactorLibRef
+        );
+        const _instance = await AccruedPremiumCalculator.deploy();
+        await _instance.deployed();
+        console.log("AccruedPremiumCalculator deployed to:", _instance.address);
+        return await getLibraryDeployment(_instance, riskFactorLibRef);
+      }
     );
+    const accruedPremiumCalculatorInstance = (await ethers.getContractAt(
+      "AccruedPremiumCalculator",
+      accruedPremiumCalculatorDeployment.address,
+      deployer
+    )) as AccruedPremiumCalculator;
 
     // Deploy PremiumCalculator contract
-    const premiumCalculatorFactory = await contractFactory(
+    const premiumCalculatorDeployment = await runStep(
       "PremiumCalculator",
-      riskFactorLibRef
-    );
-
-    // unsafeAllowLinkedLibraries needs to be set to true for the contract to be deployed
-    // More details: https://docs.openzeppelin.com/upgrades-plugins/1.x/faq#why-cant-i-use-external-libraries
-    // https://forum.openzeppelin.com/t/upgrade-safe-libraries/13832/2
-    premiumCalculatorInstance = (await upgrades.deployProxy(
-      premiumCalculatorFactory,
-      {
-        unsafeAllowLinkedLibraries: true
+      async () => {
+        const premiumCalculatorFactory = await contractFactory(
+          "PremiumCalculator",
+          deployer,
+          riskFactorLibRef
+        );
+
+        // unsafeAllowLinkedLibraries needs to be set to true for the contract to be deployed
+        // More details: https://docs.openzeppelin.com/upgrades-plugins/1.x/faq#why-cant-i-use-external-libraries
+        // https://forum.openzeppelin.com/t/upgrade-safe-libraries/13832/2
+        const _instance = await upgrades.deployProxy(premiumCalculatorFactory, {
+          unsafeAllowLinkedLibraries: true
+        });
+
+        console.log(
+          "PremiumCalculator deployed to: %s at block number %s",
+          _instance.address,
+          await ethers.provider.getBlockNumber()
+        );
+        return {
+          ...(await getProxyDeployment(_instance)),
+          libraries: riskFactorLibRef
+        };
       }
-    )) as PremiumCalculator;
-
-    console.log(
-      "PremiumCalculator deployed to: %s at block number %s",
-      premiumCalculatorInstance.address,
-      await ethers.provider.getBlockNumber()
     );
+    const premiumCalculatorInstance = (await ethers.getContractAt(
+      "PremiumCalculator",
+      premiumCalculatorDeployment.proxy,
+      deployer
+    )) as PremiumCalculator;
 
     // Deploy a proxy to ProtectionPoolCycleManager contract
-    const protectionPoolCycleManagerFactory = await contractFactory(
-      "ProtectionPoolCycleManager"
+    const protectionPoolCycleManagerDeployment = await runStep(
+      "ProtectionPoolCycleManager",
+      async () => {
+        const protectionPoolCycleManagerFactory = await contractFactory(
+          "ProtectionPoolCycleManager",
+          deployer
+        );
+        const _instance = await upgrades.deployProxy(
+          protectionPoolCycleManagerFactory
+        );
+        await _instance.deployed();
+        console.log(
+          "ProtectionPoolCycleManager is deployed to: %s at block number %s",
+          _instance.address,
+          await ethers.provider.getBlockNumber()
+        );
+        return await getProxyDeployment(_instance);
+      }
     );
-    protectionPoolCycleManagerInstance = (await upgrades.deployProxy(
-      protectionPoolCycleManagerFactory
+    const protectionPoolCycleManagerInstance = (await ethers.getContractAt(
+      "ProtectionPoolCycleManager",
+      protectionPoolCycleManagerDeployment.proxy,
+      deployer
     )) as ProtectionPoolCycleManager;
-    await protectionPoolCycleManagerInstance.deployed();
-    console.log(
-      "ProtectionPoolCycleManager is deployed to: %s at block number %s",
-      protectionPoolCycleManagerInstance.address,
-      await ethers.provider.getBlockNumber()
-    );
 
     // Deploy a proxy to DefaultStateManager contract
-    const defaultStateManagerFactory = await contractFactory(
-      "DefaultStateManager"
+    const defaultStateManagerDeployment = await runStep(
+      "DefaultStateManager",
+      async () => {
+        const defaultStateManagerFactory = await contractFactory(
+          "DefaultStateManager",
+          deployer
+        );
+        const _instance = await upgrades.deployProxy(
+          defaultStateManagerFactory,
+          [_operatorAddress]
+        );
+        await _instance.deployed();
+        console.log(
+          "DefaultStateManager is deployed to: %s at block number %s",
+          _instance.address,
+          await ethers.provider.getBlockNumber()
+        );
+        return await getProxyDeployment(_instance);
+      }
     );
-    defaultStateManagerInstance = (await upgrades.deployProxy(
-      defaultStateManagerFactory,
-      [await operator.getAddress()]
+    const defaultStateManagerInstance = (await ethers.getContractAt(
+      "DefaultStateManager",
+      defaultStateManagerDeployment.proxy,
+      deployer
     )) as DefaultStateManager;
-    await defaultStateManagerInstance.deployed();
-    console.log(
-      "DefaultStateManager is deployed to: %s at block number %s",
-      defaultStateManagerInstance.address,
-      await ethers.provider.getBlockNumber()
-    );
 
     // Deploy ProtectionPoolHelper library contract
-    const protectionPoolHelperFactory = await contractFactory(
+    const accruedPremiumLibRef = {
+      AccruedPremiumCalculator: accruedPremiumCalculatorInstance.address
+    };
+    const protectionPoolHelperDeployment = await runStep(
       "ProtectionPoolHelper",
-      {
-        AccruedPremiumCalculator: accruedPremiumCalculatorInstance.address
+      async () => {
+        const protectionPoolHelperFactory = await contractFactory(
+          "ProtectionPoolHelper",
+          deployer,
+          accruedPremiumLibRef
+        );
+        const _instance = await protectionPoolHelperFactory.deploy();
+        await _instance.deployed();
+        console.log(
+          "ProtectionPoolHelper lib is deployed to:",
+          _instance.address
+        );
+        return await getLibraryDeployment(_instance, accruedPremiumLibRef);
       }
     );
-    protectionPoolHelperInstance = await protectionPoolHelperFactory.deploy();
-    await protectionPoolHelperInstance.deployed();
-    console.log(
-      "ProtectionPoolHelper lib is deployed to:",
-      protectionPoolHelperInstance.address
+    const protectionPoolHelperInstance = await ethers.getContractAt(
+      "ProtectionPoolHelper",
+      protectionPoolHelperDeployment.address,
+      deployer
     );
 
     // Deploy a proxy to ContractFactory contract
-    const _cpContractFactoryFactory = await contractFactory("ContractFactory");
-    cpContractFactoryInstance = (await upgrades.deployProxy(
-      _cpContractFactoryFactory,
-      [
-        protectionPoolCycleManagerInstance.address,
-        defaultStateManagerInstance.address
-      ]
-    )) as CPContractFactory;
-    await cpContractFactoryInstance.deployed();
-    console.log(
-      "ContractFactory is deployed to: %s at block number %s",
-      cpContractFactoryInstance.address,
-      await ethers.provider.getBlockNumber()
+    const cpContractFactoryDeployment = await runStep(
+      "ContractFactory",
+      async () => {
+        const _cpContractFactoryFactory = await contractFactory(
+          "ContractFactory",
+          deployer
+        );
+        const _instance = await upgrades.deployProxy(
+          _cpContractFactoryFactory,
+          [
+            protectionPoolCycleManagerInstance.address,
+            defaultStateManagerInstance.address
+          ]
+        );
+        await _instance.deployed();
+        console.log(
+          "ContractFactory is deployed to: %s at block number %s",
+          _instance.address,
+          await ethers.provider.getBlockNumber()
+        );
+        return await getProxyDeployment(_instance);
+      }
     );
+    const cpContractFactoryInstance = (await ethers.getContractAt(
+      "ContractFactory",
+      cpContractFactoryDeployment.proxy,
+      deployer
+    )) as CPContractFactory;
 
     /// Sets pool factory address into the ProtectionPoolCycleManager & DefaultStateManager
     /// This is required to enable the ProtectionPoolCycleManager & DefaultStateManager to register a new pool when it is created
     /// "setContractFactory" must be called by the owner
-    await protectionPoolCycleManagerInstance
-      .connect(deployer)
-      .setContractFactory(cpContractFactoryInstance.address);
-    await defaultStateManagerInstance
-      .connect(deployer)
-      .setContractFactory(cpContractFactoryInstance.address);
-
-    // Deploy MockGoldfinchAdapter implementation contract
-    if (_useMock) {
-      const mockGoldfinchAdapterFactory = await contractFactory(
-        "MockGoldfinchAdapter"
-      );
-      goldfinchAdapterImplementation =
-        await mockGoldfinchAdapterFactory.deploy();
-      await goldfinchAdapterImplementation.deployed();
-      console.log(
-        "MockGoldfinchAdapter implementation is deployed to:",
-        goldfinchAdapterImplementation.address
-      );
-    } else {
-      // Deploy GoldfinchAdapter implementation contract
-      const goldfinchAdapterFactory = await contractFactory("GoldfinchAdapter");
-      goldfinchAdapterImplementation = await goldfinchAdapterFactory.deploy();
-      await goldfinchAdapterImplementation.deployed();
-      console.log(
-        "GoldfinchAdapter implementation is deployed to:",
-        goldfinchAdapterImplementation.address
-      );
-    }
+    await runStep("ProtectionPoolCycleManager.setContractFactory", async () => {
+      const _tx = await protectionPoolCycleManagerInstance
+        .connect(deployer)
+        .setContractFactory(cpContractFactoryInstance.address);
+      return { blockNumber: (await _tx.wait()).blockNumber };
+    });
+    await runStep("DefaultStateManager.setContractFactory", async () => {
+      const _tx = await defaultStateManagerInstance
+        .connect(deployer)
+        .setContractFactory(cpContractFactoryInstance.address);
+      return { blockNumber: (await _tx.wait()).blockNumber };
+    });
+
+    const goldfinchAdapterContractName = _useMock
+      ? "MockGoldfinchAdapter"
+      : "GoldfinchAdapter";
+    const goldfinchAdapterImplementationDeployment = await runStep(
+      "GoldfinchAdapterImplementation",
+      async () => {
+        // Deploy MockGoldfinchAdapter or GoldfinchAdapter implementation contract
+        const goldfinchAdapterFactory = await contractFactory(
+          goldfinchAdapterContractName,
+          deployer
+        );
+        const _implementation = await goldfinchAdapterFactory.deploy();
+        await _implementation.deployed();
+        console.log(
+          "%s implementation is deployed to:",
+          goldfinchAdapterContractName,
+          _implementation.address
+        );
+        return await getLibraryDeployment(_implementation);
+      }
+    );
+    const goldfinchAdapterImplementation = (await ethers.getContractAt(
+      goldfinchAdapterContractName,
+      goldfinchAdapterImplementationDeployment.address,
+      deployer
+    )) as GoldfinchAdapter;
 
     // Create an upgradable instance of GoldfinchAdapter
-    await cpContractFactoryInstance.createLendingProtocolAdapter(
-      0, // Goldfinch
-      goldfinchAdapterImplementation.address,
-      goldfinchAdapterImplementation.interface.encodeFunctionData(
-        "initialize",
-        [await deployer.getAddress()]
-      )
+    const goldfinchAdapterDeployment = await runStep(
+      "GoldfinchAdapter",
+      async () => {
+        const createAdapterTx =
+          await cpContractFactoryInstance.createLendingProtocolAdapter(
+            0, // Goldfinch
+            goldfinchAdapterImplementation.address,
+            goldfinchAdapterImplementation.interface.encodeFunctionData(
+              "initialize",
+              [_deployerAddress]
+            )
+          );
+        const _adapterAddress =
+          await cpContractFactoryInstance.getLendingProtocolAdapter(0);
+        console.log(
+          "GoldfinchAdapter is deployed at: %s at block number %s",
+          _adapterAddress,
+          await ethers.provider.getBlockNumber()
+        );
+        return {
+          ...(await getProxyDeployment(
+            goldfinchAdapterImplementation.attach(_adapterAddress),
+            createAdapterTx
+          )),
+          contractName: goldfinchAdapterContractName
+        };
+      }
     );
 
     // Retrieve an instance of GoldfinchAdapter from the LendingProtocolAdapterFactory
-    goldfinchAdapterInstance = (await ethers.getContractAt(
-      _useMock ? "MockGoldfinchAdapter" : "GoldfinchAdapter",
-      await cpContractFactoryInstance.getLendingProtocolAdapter(0)
+    const goldfinchAdapterInstance = (await ethers.getContractAt(
+      goldfinchAdapterContractName,
+      goldfinchAdapterDeployment.proxy,
+      deployer
     )) as GoldfinchAdapter;
 
-    console.log(
-      "GoldfinchAdapter is deployed at: %s at block number %s",
-      goldfinchAdapterInstance.address,
-      await ethers.provider.getBlockNumber()
-    );
-
     // Deploy ReferenceLendingPools Implementation contract
-    const referenceLendingPoolsFactory = await contractFactory(
-      "ReferenceLendingPools"
-    );
-    referenceLendingPoolsImplementation =
-      await referenceLendingPoolsFactory.deploy();
-    await referenceLendingPoolsImplementation.deployed();
-    console.log(
-      "ReferenceLendingPools Implementation deployed to:",
-      referenceLendingPoolsImplementation.address
-    );
-
-    // Create an instance of the ReferenceLendingPools
-    await cpContractFactoryInstance.createReferenceLendingPools(
-      referenceLendingPoolsImplementation.address,
-      _lendingPools,
-      _lendingPoolProtocols,
-      _lendingPoolPurchaseLimitsInDays,
-      cpContractFactoryInstance.address,
-      _latePaymentGracePeriodInDays,
-      defaultStateManagerInstance.address
+    const referenceLendingPoolsImplementationDeployment = await runStep(
+      "ReferenceLendingPoolsImplementation",
+      async () => {
+        const referenceLendingPoolsFactory = await contractFactory(
+          "ReferenceLendingPools",
+          deployer
+        );
+        const _implementation = await referenceLendingPoolsFactory.deploy();
+        await _implementation.deployed();
+        console.log(
+          "ReferenceLendingPools Implementation deployed to:",
+          _implementation.address
+        );
+        return await getLibraryDeployment(_implementation);
+      }
     );
-    referenceLendingPoolsInstance =
-      await getLatestReferenceLendingPoolsInstance(cpContractFactoryInstance);
+    const referenceLendingPoolsImplementation = (await ethers.getContractAt(
+      "ReferenceLendingPools",
+      referenceLendingPoolsImplementationDeployment.address,
+      deployer
+    )) as ReferenceLendingPools;
 
     // Deploy a ProtectionPool implementation contract
-    const protectionPoolFactory = await getProtectionPoolContractFactory();
-    protectionPoolImplementation = await protectionPoolFactory.deploy();
-    await protectionPoolImplementation.deployed();
-    console.log(
-      "ProtectionPool implementation is deployed to: %s at block number %s",
-      protectionPoolImplementation.address,
-      await ethers.provider.getBlockNumber()
+    const protectionPoolImplementationDeployment = await runStep(
+      "ProtectionPoolImplementation",
+      async () => {
+        const protectionPoolFactory = await getProtectionPoolContractFactory({
+          deployer,
+          accruedPremiumCalculatorInstance,
+          protectionPoolHelperInstance
+        });
+        const _implementation = await protectionPoolFactory.deploy();
+        await _implementation.deployed();
+        console.log(
+          "ProtectionPool implementation is deployed to: %s at block number %s",
+          _implementation.address,
+          await ethers.provider.getBlockNumber()
+        );
+        return await getLibraryDeployment(_implementation);
+      }
     );
-
+    const protectionPoolImplementation = (await ethers.getContractAt(
+      "ProtectionPool",
+      protectionPoolImplementationDeployment.address,
+      deployer
+    )) as ProtectionPool;
+
+    let mockUsdcDeployment: ProxyDeployment | undefined;
+    let mockUsdcInstance: MockUsdc | undefined;
     if (_useMock) {
       /// deploy mock USDC contract
-      const mockUSDCFactory = await contractFactory("MockUsdc");
-      mockUsdcInstance = (await upgrades.deployProxy(mockUSDCFactory, [
-        await deployer.getAddress()
-      ])) as MockUsdc;
-      await mockUsdcInstance.deployed();
-      console.log(
-        "MockUsdc is deployed to: %s at block number %s",
-        mockUsdcInstance.address,
-        await ethers.provider.getBlockNumber()
-      );
+      mockUsdcDeployment = await runStep("MockUsdc", async () => {
+        const mockUSDCFactory = await contractFactory("MockUsdc", deployer);
+        const _instance = await upgrades.deployProxy(mockUSDCFactory, [
+          _deployerAddress
+        ]);
+        await _instance.deployed();
+        console.log(
+          "MockUsdc is deployed to: %s at block number %s",
+          _instance.address,
+          await ethers.provider.getBlockNumber()
+        );
+        return await getProxyDeployment(_instance);
+      });
+      mockUsdcInstance = (await ethers.getContractAt(
+        "MockUsdc",
+        mockUsdcDeployment.proxy,
+        deployer
+      )) as MockUsdc;
 
       console.log(
         "Balance of deployer: %s",
-        await mockUsdcInstance.balanceOf(await deployer.getAddress())
+        await mockUsdcInstance.balanceOf(_deployerAddress)
       );
     }
 
-    // Create an instance of the ProtectionPool, which should be upgradable
-    // Create a pool using PoolFactory instead of deploying new pool directly to mimic the prod behavior
-    await cpContractFactoryInstance.createProtectionPool(
-      protectionPoolImplementation.address,
-      _protectionPoolParams,
-      _protectionPoolCycleParams,
-      _useMock ? mockUsdcInstance.address : USDC_ADDRESS,
-      referenceLendingPoolsInstance.address,
-      premiumCalculatorInstance.address,
-      "sToken11",
-      "sT11"
-    );
+    // Create a ReferenceLendingPools instance & a ProtectionPool for each configured pool,
+    // all pools share the same PremiumCalculator, ProtectionPoolCycleManager & DefaultStateManager
+    const referenceLendingPoolsDeployments: ReferenceLendingPoolsDeployment[] =
+      [];
+    const protectionPoolDeployments: ProtectionPoolDeployment[] = [];
+    const referenceLendingPoolsInstances: ReferenceLendingPools[] = [];
+    const protectionPoolInstances: ProtectionPool[] = [];
+    for (const _poolConfig of _config.protectionPools) {
+      // Create an instance of the ReferenceLendingPools
+      const referenceLendingPoolsDeployment = await runStep(
+        `ReferenceLendingPools:${_poolConfig.symbol}`,
+        async () => {
+          const createReferenceLendingPoolsTx =
+            await cpContractFactoryInstance.createReferenceLendingPools(
+              referenceLendingPoolsImplementation.address,
+              _poolConfig.lendingPools,
+              _poolConfig.lendingPoolProtocols,
+              _poolConfig.lendingPoolPurchaseLimitsInDays,
+              cpContractFactoryInstance.address,
+              _poolConfig.latePaymentGracePeriodInDays ||
+                BigNumber.from(LATE_PAYMENT_GRACE_PERIOD_IN_DAYS),
+              defaultStateManagerInstance.address
+            );
+          const _instance = await getLatestReferenceLendingPoolsInstance(
+            cpContractFactoryInstance
+          );
+          return {
+            ...(await getProxyDeployment(
+              _instance,
+              createReferenceLendingPoolsTx
+            )),
+            lendingPools: _poolConfig.lendingPools
+          };
+        }
+      );
+      const referenceLendingPoolsInstance = (await ethers.getContractAt(
+        "ReferenceLendingPools",
+        referenceLendingPoolsDeployment.proxy,
+        deployer
+      )) as ReferenceLendingPools;
+
+      // Create an instance of the ProtectionPool, which should be upgradable
+      // Create a pool using PoolFactory instead of deploying new pool directly to mimic the prod behavior
+      const protectionPoolDeployment = await runStep(
+        `ProtectionPool:${_poolConfig.symbol}`,
+        async () => {
+          const _underlyingToken =
+            _poolConfig.underlyingToken ||
+            (mockUsdcInstance ? mockUsdcInstance.address : USDC_ADDRESS);
+          const createProtectionPoolTx =
+            await cpContractFactoryInstance.createProtectionPool(
+              protectionPoolImplementation.address,
+              _poolConfig.protectionPoolParams,
+              _poolConfig.protectionPoolCycleParams,
+              _underlyingToken,
+              referenceLendingPoolsInstance.address,
+              premiumCalculatorInstance.address,
+              _poolConfig.name,
+              _poolConfig.symbol
+            );
+
+          const _instance = await getLatestProtectionPoolInstance(
+            cpContractFactoryInstance
+          );
+          return {
+            ...(await getProxyDeployment(_instance, createProtectionPoolTx)),
+            libraries: {
+              ...accruedPremiumLibRef,
+              ProtectionPoolHelper: protectionPoolHelperInstance.address
+            },
+            name: _poolConfig.name,
+            symbol: _poolConfig.symbol,
+            underlyingToken: _underlyingToken,
+            referenceLendingPools: referenceLendingPoolsInstance.address
+          };
+        }
+      );
+      const protectionPoolInstance = (await ethers.getContractAt(
+        "ProtectionPool",
+        protectionPoolDeployment.proxy,
+        deployer
+      )) as ProtectionPool;
+
+      referenceLendingPoolsDeployments.push(referenceLendingPoolsDeployment);
+      protectionPoolDeployments.push(protectionPoolDeployment);
+      referenceLendingPoolsInstances.push(referenceLendingPoolsInstance);
+      protectionPoolInstances.push(protectionPoolInstance);
+    }
 
-    protectionPoolInstance = await getLatestProtectionPoolInstance(
-      cpContractFactoryInstance
-    );
+    const addressBook: AddressBook = {
+      network: network.name,
+      chainId: _state.chainId,
+      deployer: _deployerAddress,
+      operator: _operatorAddress,
+      libraries: {
+        RiskFactorCalculator: riskFactorCalculatorDeployment,
+        AccruedPremiumCalculator: accruedPremiumCalculatorDeployment,
+        ProtectionPoolHelper: protectionPoolHelperDeployment
+      },
+      contracts: {
+        PremiumCalculator: premiumCalculatorDeployment,
+        ProtectionPoolCycleManager: protectionPoolCycleManagerDeployment,
+        DefaultStateManager: defaultStateManagerDeployment,
+        ContractFactory: cpContractFactoryDeployment
+      },
+      lendingProtocolAdapters: {
+        Goldfinch: goldfinchAdapterDeployment
+      },
+      referenceLendingPools: referenceLendingPoolsDeployments,
+      protectionPools: protectionPoolDeployments
+    };
+    if (mockUsdcDeployment) {
+      addressBook.contracts.MockUsdc = mockUsdcDeployment;
+    }
 
     return {
       success: true,
       deployer,
       operator,
-      protectionPoolInstance,
+      account1,
+      account2,
+      account3,
+      account4,
+      riskFactorCalculatorInstance,
+      accruedPremiumCalculatorInstance,
+      protectionPoolHelperInstance,
+      premiumCalculatorInstance,
       protectionPoolCycleManagerInstance,
       defaultStateManagerInstance,
       cpContractFactoryInstance,
-      mockUsdcInstance
+      goldfinchAdapterImplementation,
+      goldfinchAdapterInstance,
+      referenceLendingPoolsImplementation,
+      referenceLendingPoolsInstance: referenceLendingPoolsInstances[0],
+      referenceLendingPoolsInstances,
+      protectionPoolImplementation,
+      protectionPoolInstance: protectionPoolInstances[0],
+      protectionPoolInstances,
+      mockUsdcInstance,
+      addressBook
     };
   } catch (e) {
-    console.log(e);
+    // reverts are logged with the explanation of the custom error
+    console.log(decodeError(e) ? formatError(e) : e);
     return { success: false };
   }
 };
 
+/**
+ * Deploys the contracts described in the JSON/YAML deployment manifest
+ * and writes the address book to `deployments/<network>.json`.
+ * Completed steps are tracked in `deployments/<network>.state.json`,
+ * so rerunning an interrupted deployment only executes the missing steps.
+ * State is not tracked for the in-process hardhat network.
+ * @param manifestPath path to the deployment manifest
+ * @param deploymentsDir directory to write the address book & state to, defaults to `deployments`
+ */
+const deployContractsFromManifest = async (
+  manifestPath: string,
+  deploymentsDir: string = DEPLOYMENTS_DIR
+): Promise<DeployContractsResult> => {
+  const _config = await resolveDeploymentManifest(
+    loadDeploymentManifest(manifestPath)
+  );
+  if (network.name !== "hardhat") {
+    _config.statePath = getDeploymentStatePath(network.name, deploymentsDir);
+  }
+  const _result = await deployContracts(_config);
+
+  if (_result.success) {
+    const _path = writeAddressBook(_result.addressBook, deploymentsDir);
+    console.log("Address book is written to:", _path);
+  }
+
+  return _result;
+};
+
+/**
+ * Returns the block number of the transaction which deployed the contract
+ * or created it when the transaction is specified.
+ */
+async function getDeploymentBlockNumber(
+  contract: Contract,
+  transaction?: ContractTransaction
+): Promise<number> {
+  const _transaction = transaction || contract.deployTransaction;
+  return (await _transaction.wait()).blockNumber;
+}
+
+async function getLibraryDeployment(
+  contract: Contract,
+  libraries?: { [libraryName: string]: string }
+): Promise<LibraryDeployment> {
+  const _deployment: LibraryDeployment = {
+    address: contract.address,
+    blockNumber: await getDeploymentBlockNumber(contract)
+  };
+  if (libraries) {
+    _deployment.libraries = libraries;
+  }
+  return _deployment;
+}
+
+async function getProxyDeployment(
+  proxy: Contract,
+  transaction?: ContractTransaction
+): Promise<ProxyDeployment> {
+  return {
+    proxy: proxy.address,
+    implementation: await upgrades.erc1967.getImplementationAddress(
+      proxy.address
+    ),
+    blockNumber: await getDeploymentBlockNumber(proxy, transaction)
+  };
+}
+
 async function getLatestReferenceLendingPoolsInstance(
   cpContractFactory: CPContractFactory
 ): Promise<ReferenceLendingPools> {
@@ -364,35 +744,30 @@ async function getLatestProtectionPoolInstance(
   return newPoolInstance;
 }
 
+/**
+ * Returns the factory of the ProtectionPool or its upgraded version,
+ * linked with the libraries of the specified deployment.
+ * @param context deployment context or the libraries & deployer of the deployment
+ * @param contractName defaults to "ProtectionPool"
+ */
 async function getProtectionPoolContractFactory(
+  context: Pick<
+    DeploymentContext,
+    | "deployer"
+    | "accruedPremiumCalculatorInstance"
+    | "protectionPoolHelperInstance"
+  >,
   contractName = "ProtectionPool"
-) {
-  return await contractFactory(contractName, {
-    AccruedPremiumCalculator: accruedPremiumCalculatorInstance.address,
-    ProtectionPoolHelper: protectionPoolHelperInstance.address
+): Promise<ContractFactory> {
+  return await contractFactory(contractName, context.deployer, {
+    AccruedPremiumCalculator: context.accruedPremiumCalculatorInstance.address,
+    ProtectionPoolHelper: context.protectionPoolHelperInstance.address
   });
 }
 
 export {
-  deployer,
-  operator,
-  account1,
-  account2,
-  account3,
-  account4,
   deployContracts,
-  protectionPoolImplementation,
-  protectionPoolInstance,
-  cpContractFactoryInstance,
-  premiumCalculatorInstance,
-  referenceLendingPoolsInstance, // This is the proxy instance cloned from implementation
-  protectionPoolCycleManagerInstance,
-  accruedPremiumCalculatorInstance,
-  riskFactorCalculatorInstance,
-  goldfinchAdapterImplementation,
-  goldfinchAdapterInstance,
-  referenceLendingPoolsImplementation, // implementation contract which is used to create proxy contract
-  defaultStateManagerInstance,
+  deployContractsFromManifest,
   getLatestReferenceLendingPoolsInstance,
   getLatestProtectionPoolInstance,
   getProtectionPoolContractFactory
@@ -0,0 +1,139 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "hardhat";
+
+import type { DeploymentConfig } from "./deploy";
+
+/**
+ * Local state of a deployment, which tracks the result of each completed step,
+ * so that an interrupted deployment can be resumed without redeploying contracts.
+ */
+export interface DeploymentState {
+  network: string;
+  chainId: number;
+  /// hash of the config the deployment was started with, see `getDeploymentConfigHash`
+  configHash: string;
+  steps: { [stepName: string]: any };
+}
+
+/**
+ * Returns the default path of the deployment state file for the specified network.
+ * @param networkName
+ * @param deploymentsDir directory containing the deployment files
+ */
+const getDeploymentStatePath = (
+  networkName: string,
+  deploymentsDir: string
+): string => {
+  return path.join(deploymentsDir, `${networkName}.state.json`);
+};
+
+/**
+ * Returns the hash of the deployed pools, operator & mock usage of the config,
+ * so a deployment is only resumed with the config it was started with.
+ * Deployer & state path aren't included, as they don't change the deployed contracts.
+ */
+const getDeploymentConfigHash = (config: DeploymentConfig): string => {
+  return ethers.utils.id(
+    JSON.stringify({
+      protectionPools: config.protectionPools,
+      operatorAddress: config.operatorAddress,
+      useMock: config.useMock || false
+    })
+  );
+};
+
+/**
+ * Loads the deployment state from the file or creates a new state when the file doesn't exist.
+ * Throws when the state belongs to a different chain or a different config or
+ * when any contract recorded in the state doesn't exist anymore, i.e. local node was restarted.
+ * @param networkName
+ * @param configHash hash of the config of the deployment, see `getDeploymentConfigHash`
+ * @param statePath path of the state file, state is only kept in memory when it is not specified
+ */
+const loadDeploymentState = async (
+  networkName: string,
+  configHash: string,
+  statePath?: string
+): Promise<DeploymentState> => {
+  const _chainId = (await ethers.provider.getNetwork()).chainId;
+  if (!statePath || !fs.existsSync(statePath)) {
+    return { network: networkName, chainId: _chainId, configHash, steps: {} };
+  }
+
+  const _state = JSON.parse(
+    fs.readFileSync(statePath, "utf8")
+  ) as DeploymentState;
+
+  if (_state.chainId !== _chainId) {
+    throw new Error(
+      `Deployment state ${statePath} belongs to chain ${_state.chainId}, but connected to chain ${_chainId}`
+    );
+  }
+
+  if (_state.configHash !== configHash) {
+    throw new Error(
+      `Deployment state ${statePath} was created with a different config. Rerun with --reset to discard the state and deploy all contracts again`
+    );
+  }
+
+  for (const _stepName of Object.keys(_state.steps)) {
+    const _step = _state.steps[_stepName];
+    for (const _address of [_step.address, _step.proxy, _step.implementation]) {
+      if (_address && (await ethers.provider.getCode(_address)) === "0x") {
+        throw new Error(
+          `Deployment state ${statePath} is stale: contract of step ${_stepName} doesn't exist at ${_address}. Remove the state file to start a new deployment`
+        );
+      }
+    }
+  }
+
+  console.log(
+    "Resuming deployment from %s with %s completed steps",
+    statePath,
+    Object.keys(_state.steps).length
+  );
+  return _state;
+};
+
+const saveDeploymentState = (state: DeploymentState, statePath?: string) => {
+  if (!statePath) {
+    return;
+  }
+  fs.mkdirSync(path.dirname(statePath), { recursive: true });
+  fs.writeFileSync(statePath, JSON.stringify(state, null, 2) + "\n");
+};
+
+/**
+ * Runs the deployment step unless it is already completed
+ * and records its result in the deployment state.
+ * Result of the step must be JSON serializable, i.e. addresses & block numbers.
+ * @param state
+ * @param statePath path of the state file, state is only kept in memory when it is not specified
+ * @param stepName unique name of the step
+ * @param action function executing the step
+ * @returns the result of the step, either recorded or newly executed
+ */
+const runDeploymentStep = async <T>(
+  state: DeploymentState,
+  statePath: string | undefined,
+  stepName: string,
+  action: () => Promise<T>
+): Promise<T> => {
+  if (state.steps[stepName] !== undefined) {
+    console.log("Skipping %s, it is already completed", stepName);
+    return state.steps[stepName] as T;
+  }
+
+  const _result = await action();
+  state.steps[stepName] = _result;
+  saveDeploymentState(state, statePath);
+  return _result;
+};
+
+export {
+  getDeploymentStatePath,
+  getDeploymentConfigHash,
+  loadDeploymentState,
+  runDeploymentStep
+};
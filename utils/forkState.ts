@@ -0,0 +1,229 @@
+import * as fs from "fs";
+import * as http from "http";
+import { AddressInfo } from "net";
+import * as path from "path";
+import { fetchJson } from "ethers/lib/utils";
+
+const FORK_STATE_FIXTURE_PATH = path.join(
+  __dirname,
+  "..",
+  "test",
+  "fixtures",
+  "forkState.json"
+);
+
+const ZERO_STORAGE_VALUE =
+  "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+/**
+ * Mainnet state of an account read by a test run against the forked network
+ */
+export interface ForkStateAccount {
+  /// hex quantity, i.e. "0x1bc16d674ec80000"
+  balance?: string;
+  /// hex quantity, i.e. "0x1"
+  nonce?: string;
+  /// runtime bytecode, absent for EOAs
+  code?: string;
+  /// non-zero storage slots read by the tests, keyed by 32 bytes slot
+  storage: { [slot: string]: string };
+}
+
+/**
+ * Fixture of the mainnet state touched by a test run against the pinned fork block,
+ * which is replayed into a plain hardhat network instead of forking.
+ */
+export interface ForkStateFixture {
+  blockNumber: number;
+  /// timestamp of the fork block, used as the initial date of the replaying network
+  timestamp: number;
+  accounts: { [address: string]: ForkStateAccount };
+}
+
+interface JsonRpcRequest {
+  id: number | string;
+  method: string;
+  params: any[];
+}
+
+interface JsonRpcResponse {
+  id: number | string;
+  result?: any;
+  error?: any;
+}
+
+/**
+ * Local JSON-RPC proxy in front of the fork url, which records the mainnet state
+ * lazily fetched by the hardhat network while forking.
+ */
+export interface ForkStateRecorder {
+  /// url to use as the forking url of the hardhat network
+  url: string;
+  stop: () => Promise<void>;
+  /// recorded state as a fixture of the specified fork block
+  getFixture: (blockNumber: number, timestamp: number) => ForkStateFixture;
+}
+
+const _getAccount = (
+  accounts: { [address: string]: ForkStateAccount },
+  address: string
+): ForkStateAccount => {
+  const _address = address.toLowerCase();
+  if (!accounts[_address]) {
+    accounts[_address] = { storage: {} };
+  }
+  return accounts[_address];
+};
+
+const _recordResponse = (
+  accounts: { [address: string]: ForkStateAccount },
+  request: JsonRpcRequest,
+  response: JsonRpcResponse
+) => {
+  if (!response || response.error || response.result === undefined) {
+    return;
+  }
+
+  const _address: string = request.params[0];
+  switch (request.method) {
+    case "eth_getCode":
+      if (response.result !== "0x") {
+        _getAccount(accounts, _address).code = response.result;
+      }
+      break;
+    case "eth_getBalance":
+      if (response.result !== "0x0") {
+        _getAccount(accounts, _address).balance = response.result;
+      }
+      break;
+    case "eth_getTransactionCount":
+      if (response.result !== "0x0") {
+        _getAccount(accounts, _address).nonce = response.result;
+      }
+      break;
+    case "eth_getStorageAt":
+      if (response.result !== ZERO_STORAGE_VALUE) {
+        _getAccount(accounts, _address).storage[
+          request.params[1].toLowerCase()
+        ] = response.result;
+      }
+      break;
+  }
+};
+
+/**
+ * Starts a JSON-RPC proxy forwarding all requests to the upstream node.
+ * Hardhat network fetches code, balances, nonces & storage slots of the forked chain only when they are accessed,
+ * so the responses to these requests are exactly the mainnet state touched by the test run.
+ * @param upstreamUrl url of the mainnet node, i.e. alchemy
+ * @param port port of the proxy, 0 for a free port
+ */
+const startForkStateRecorder = async (
+  upstreamUrl: string,
+  port: number
+): Promise<ForkStateRecorder> => {
+  const _accounts: { [address: string]: ForkStateAccount } = {};
+
+  const _server = http.createServer((req, res) => {
+    let _body = "";
+    req.on("data", (chunk) => {
+      _body += chunk;
+    });
+    req.on("end", async () => {
+      try {
+        const _response = await fetchJson(upstreamUrl, _body);
+
+        // hardhat sends batch requests to fetch the account data
+        const _request = JSON.parse(_body);
+        if (Array.isArray(_request)) {
+          _request.forEach((request: JsonRpcRequest, i: number) => {
+            const _matching = Array.isArray(_response)
+              ? _response.find(
+                  (response: JsonRpcResponse) => response.id === request.id
+                ) || _response[i]
+              : undefined;
+            _recordResponse(_accounts, request, _matching);
+          });
+        } else {
+          _recordResponse(_accounts, _request, _response);
+        }
+
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(_response));
+      } catch (e: any) {
+        res.writeHead(502, { "Content-Type": "text/plain" });
+        res.end(e.message);
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    _server.once("error", reject);
+    _server.listen(port, "127.0.0.1", () => resolve());
+  });
+
+  return {
+    url: `http://127.0.0.1:${(_server.address() as AddressInfo).port}`,
+    stop: async () => {
+      await new Promise<void>((resolve) => _server.close(() => resolve()));
+    },
+    getFixture: (blockNumber: number, timestamp: number) => {
+      // drop accounts without any state to replay, i.e. EOAs without ETH
+      const _recorded: { [address: string]: ForkStateAccount } = {};
+      Object.keys(_accounts)
+        .sort()
+        .forEach((address) => {
+          const _account = _accounts[address];
+          if (
+            _account.code ||
+            _account.balance ||
+            _account.nonce ||
+            Object.keys(_account.storage).length > 0
+          ) {
+            _recorded[address] = _account;
+          }
+        });
+      return { blockNumber, timestamp, accounts: _recorded };
+    }
+  };
+};
+
+/**
+ * Returns the path of the fixture set by the env variable FORK_STATE_FIXTURE,
+ * defaults to `test/fixtures/forkState.json`
+ */
+const getForkStateFixturePath = (): string => {
+  return process.env.FORK_STATE_FIXTURE
+    ? path.resolve(process.env.FORK_STATE_FIXTURE)
+    : FORK_STATE_FIXTURE_PATH;
+};
+
+/**
+ * Reads the fork state fixture.
+ * Returns undefined when the fixture hasn't been recorded yet.
+ * @param fixturePath defaults to `getForkStateFixturePath()`
+ */
+const readForkStateFixture = (
+  fixturePath: string = getForkStateFixturePath()
+): ForkStateFixture | undefined => {
+  if (!fs.existsSync(fixturePath)) {
+    return undefined;
+  }
+  return JSON.parse(fs.readFileSync(fixturePath, "utf8")) as ForkStateFixture;
+};
+
+const writeForkStateFixture = (
+  fixture: ForkStateFixture,
+  fixturePath: string = getForkStateFixturePath()
+) => {
+  fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+  fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + "\n");
+};
+
+export {
+  FORK_STATE_FIXTURE_PATH,
+  getForkStateFixturePath,
+  startForkStateRecorder,
+  readForkStateFixture,
+  writeForkStateFixture
+};
@@ -0,0 +1,256 @@
+import { ethers } from "hardhat";
+import { ContractFactory } from "../typechain-types/contracts/core/ContractFactory";
+import { DefaultStateManager } from "../typechain-types/contracts/core/DefaultStateManager";
+import { ProtectionPoolCycleManager } from "../typechain-types/contracts/core/ProtectionPoolCycleManager";
+import { ProtectionPool } from "../typechain-types/contracts/core/pool/ProtectionPool";
+import { ReferenceLendingPools } from "../typechain-types/contracts/core/pool/ReferenceLendingPools";
+import { AddressBook } from "./addressBook";
+
+const OPERATOR_ROLE = ethers.utils.id("OPERATOR_ROLE");
+
+/**
+ * Result of a single invariant of the deployment wiring
+ */
+export interface HealthCheckResult {
+  name: string;
+  passed: boolean;
+  details?: string;
+}
+
+export interface HealthCheckOptions {
+  /// expected owner of all contracts, defaults to the deployer in the address book
+  owner?: string;
+}
+
+const isSameAddress = (a: string, b: string): boolean =>
+  a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Returns the current holders of the role by replaying the role events of the contract,
+ * because DefaultStateManager doesn't support role enumeration.
+ */
+const getRoleHolders = async (
+  defaultStateManager: DefaultStateManager,
+  role: string,
+  fromBlock: number
+): Promise<string[]> => {
+  const _events = [
+    ...(await defaultStateManager.queryFilter(
+      defaultStateManager.filters.RoleGranted(role),
+      fromBlock
+    )),
+    ...(await defaultStateManager.queryFilter(
+      defaultStateManager.filters.RoleRevoked(role),
+      fromBlock
+    ))
+  ].sort((a, b) =>
+    a.blockNumber !== b.blockNumber
+      ? a.blockNumber - b.blockNumber
+      : a.logIndex - b.logIndex
+  );
+
+  const _holders: string[] = [];
+  _events.forEach((event) => {
+    const _account = event.args.account;
+    const _index = _holders.indexOf(_account);
+    if (event.event === "RoleGranted" && _index < 0) {
+      _holders.push(_account);
+    } else if (event.event === "RoleRevoked" && _index >= 0) {
+      _holders.splice(_index, 1);
+    }
+  });
+  return _holders;
+};
+
+/**
+ * Inspects the wiring of a deployment described by the address book and
+ * reports each invariant as passed or failed:
+ * factory links, pool registrations, pool cycle states, lending protocol adapters
+ * of all lending pools in each basket, owners and operator role holders.
+ * @param addressBook
+ * @param options
+ */
+const checkDeployment = async (
+  addressBook: AddressBook,
+  options: HealthCheckOptions = {}
+): Promise<HealthCheckResult[]> => {
+  const _results: HealthCheckResult[] = [];
+  const _check = (name: string, passed: boolean, details?: string) => {
+    _results.push({ name, passed, details });
+  };
+
+  const _contracts = addressBook.contracts;
+  const _contractFactory = (await ethers.getContractAt(
+    "ContractFactory",
+    _contracts.ContractFactory.proxy
+  )) as ContractFactory;
+  const _poolCycleManager = (await ethers.getContractAt(
+    "ProtectionPoolCycleManager",
+    _contracts.ProtectionPoolCycleManager.proxy
+  )) as ProtectionPoolCycleManager;
+  const _defaultStateManager = (await ethers.getContractAt(
+    "DefaultStateManager",
+    _contracts.DefaultStateManager.proxy
+  )) as DefaultStateManager;
+
+  // contracts must exist, otherwise all other checks fail with call exceptions
+  const _missingContracts: string[] = [];
+  for (const _name of Object.keys(_contracts)) {
+    if ((await ethers.provider.getCode(_contracts[_name].proxy)) === "0x") {
+      _missingContracts.push(_name);
+    }
+  }
+  _check(
+    "All contracts in the address book are deployed",
+    _missingContracts.length === 0,
+    _missingContracts.length > 0
+      ? `missing ${_missingContracts.join(", ")}`
+      : undefined
+  );
+  if (_missingContracts.length > 0) {
+    return _results;
+  }
+
+  /// factory links
+  const _cycleManagerFactory = await _poolCycleManager.contractFactoryAddress();
+  _check(
+    "ProtectionPoolCycleManager is linked to the ContractFactory",
+    isSameAddress(_cycleManagerFactory, _contractFactory.address),
+    `contractFactoryAddress: ${_cycleManagerFactory}`
+  );
+  const _defaultStateManagerFactory =
+    await _defaultStateManager.contractFactoryAddress();
+  _check(
+    "DefaultStateManager is linked to the ContractFactory",
+    isSameAddress(_defaultStateManagerFactory, _contractFactory.address),
+    `contractFactoryAddress: ${_defaultStateManagerFactory}`
+  );
+
+  /// registered pools
+  const _poolAddresses = await _contractFactory.getProtectionPools();
+  const _rlpAddresses = await _contractFactory.getReferenceLendingPoolsList();
+  _check(
+    "ContractFactory has protection pools",
+    _poolAddresses.length > 0,
+    `${_poolAddresses.length} pools`
+  );
+  addressBook.protectionPools.forEach((pool) => {
+    _check(
+      `ProtectionPool ${pool.symbol} from the address book is created by the ContractFactory`,
+      _poolAddresses.some((address) => isSameAddress(address, pool.proxy)),
+      pool.proxy
+    );
+  });
+
+  const _owner = options.owner || addressBook.deployer;
+  const _ownables: { name: string; address: string }[] = [
+    { name: "ContractFactory", address: _contractFactory.address },
+    {
+      name: "ProtectionPoolCycleManager",
+      address: _poolCycleManager.address
+    },
+    { name: "DefaultStateManager", address: _defaultStateManager.address },
+    {
+      name: "PremiumCalculator",
+      address: _contracts.PremiumCalculator.proxy
+    }
+  ];
+
+  for (const _poolAddress of _poolAddresses) {
+    const _pool = (await ethers.getContractAt(
+      "ProtectionPool",
+      _poolAddress
+    )) as ProtectionPool;
+    const _name = `ProtectionPool ${await _pool.symbol()} (${_poolAddress})`;
+    _ownables.push({ name: _name, address: _poolAddress });
+
+    _check(
+      `${_name} is registered in the DefaultStateManager`,
+      (await _defaultStateManager.getPoolStateUpdateTimestamp(_poolAddress)).gt(
+        0
+      )
+    );
+    const _cycleState = await _poolCycleManager.getCurrentCycleState(
+      _poolAddress
+    );
+    _check(
+      `${_name} cycle state is not None`,
+      _cycleState !== 0,
+      `cycle state: ${_cycleState}`
+    );
+    const _rlpAddress = (await _pool.getPoolInfo()).referenceLendingPools;
+    _check(
+      `${_name} uses ReferenceLendingPools created by the ContractFactory`,
+      _rlpAddresses.some((address) => isSameAddress(address, _rlpAddress)),
+      _rlpAddress
+    );
+  }
+
+  /// lending protocol adapters of all lending pools
+  for (const _rlpAddress of _rlpAddresses) {
+    const _rlp = (await ethers.getContractAt(
+      "ReferenceLendingPools",
+      _rlpAddress
+    )) as ReferenceLendingPools;
+    _ownables.push({
+      name: `ReferenceLendingPools (${_rlpAddress})`,
+      address: _rlpAddress
+    });
+
+    for (const _lendingPool of await _rlp.getLendingPools()) {
+      const _protocol = (await _rlp.referenceLendingPools(_lendingPool))
+        .protocol;
+      const _adapter = await _contractFactory.getLendingProtocolAdapter(
+        _protocol
+      );
+      _check(
+        `Lending pool ${_lendingPool} of ReferenceLendingPools ${_rlpAddress} has an adapter for protocol ${_protocol}`,
+        _adapter !== ethers.constants.AddressZero &&
+          (await ethers.provider.getCode(_adapter)) !== "0x",
+        `adapter: ${_adapter}`
+      );
+    }
+  }
+  Object.keys(addressBook.lendingProtocolAdapters).forEach((protocol) => {
+    _ownables.push({
+      name: `${protocol} adapter`,
+      address: addressBook.lendingProtocolAdapters[protocol].proxy
+    });
+  });
+
+  /// owners
+  for (const _ownable of _ownables) {
+    const _contract = await ethers.getContractAt(
+      "OwnableUpgradeable",
+      _ownable.address
+    );
+    const _actualOwner = await _contract.owner();
+    _check(
+      `${_ownable.name} is owned by ${_owner}`,
+      isSameAddress(_actualOwner, _owner),
+      `owner: ${_actualOwner}`
+    );
+  }
+
+  /// operator role holders
+  const _operators = await getRoleHolders(
+    _defaultStateManager,
+    OPERATOR_ROLE,
+    _contracts.DefaultStateManager.blockNumber
+  );
+  _check(
+    "DefaultStateManager has an account with OPERATOR_ROLE",
+    _operators.length > 0,
+    `holders: ${_operators.join(", ") || "none"}`
+  );
+  if (addressBook.operator) {
+    _check(
+      `Operator ${addressBook.operator} from the address book has OPERATOR_ROLE`,
+      await _defaultStateManager.isOperator(addressBook.operator)
+    );
+  }
+
+  return _results;
+};
+
+export { checkDeployment };
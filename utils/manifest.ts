@@ -0,0 +1,346 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { ethers } from "hardhat";
+import { parseEther } from "ethers/lib/utils";
+
+import { DeploymentConfig, ProtectionPoolConfig } from "./deploy";
+import { daysToSeconds, parseUnderlying } from "../sdk/units";
+
+/**
+ * Lending protocols supported by the ReferenceLendingPools,
+ * indexed by the name used in the manifest.
+ * Must be in sync with the `LendingProtocol` enum in IReferenceLendingPools.sol
+ */
+const LENDING_PROTOCOLS: { [protocolName: string]: number } = {
+  Goldfinch: 0
+};
+
+// decimals of USDC, the underlying token of the pools which don't specify one
+const USDC_DECIMALS = 6;
+
+export interface LendingPoolManifest {
+  address: string;
+  /// name of the protocol, i.e. "Goldfinch", or its enum value
+  protocol: string | number;
+  purchaseLimitInDays: number;
+}
+
+/**
+ * Percentages & leverage ratios are specified in decimals (i.e. 0.05 = 5%),
+ * minRequiredCapital in the underlying token (i.e. USDC) and durations in days.
+ */
+export interface ProtectionPoolParamsManifest {
+  leverageRatioFloor: string | number;
+  leverageRatioCeiling: string | number;
+  leverageRatioBuffer: string | number;
+  minRequiredCapital: string | number;
+  curvature: string | number;
+  minCarapaceRiskPremiumPercent: string | number;
+  underlyingRiskPremiumPercent: string | number;
+  minProtectionDurationInDays: number;
+  protectionRenewalGracePeriodInDays: number;
+}
+
+export interface ProtectionPoolCycleParamsManifest {
+  openCycleDurationInDays: number;
+  cycleDurationInDays: number;
+}
+
+export interface ProtectionPoolManifest {
+  name: string;
+  /// must be unique within the manifest
+  symbol: string;
+  /// address of the underlying token, defaults to USDC or MockUsdc when mocks are used
+  underlyingToken?: string;
+  /// overrides the default late payment grace period of the manifest
+  latePaymentGracePeriodInDays?: number;
+  /// basket of lending pools protected by this pool
+  lendingPools: LendingPoolManifest[];
+  params: ProtectionPoolParamsManifest;
+  cycleParams: ProtectionPoolCycleParamsManifest;
+}
+
+export interface DeploymentRolesManifest {
+  /// index of the hardhat signer used to deploy & own the contracts
+  deployer?: number;
+  /// address or index of the hardhat signer of the DefaultStateManager operator
+  operator?: string | number;
+}
+
+/**
+ * Declarative description of a deployment, stored as a JSON or YAML file.
+ * See `deployments/manifests` for examples.
+ */
+export interface DeploymentManifest {
+  roles?: DeploymentRolesManifest;
+  useMock?: boolean;
+  /// default late payment grace period of all pools
+  latePaymentGracePeriodInDays?: number;
+  protectionPools: ProtectionPoolManifest[];
+}
+
+const assertManifest = (condition: boolean, message: string) => {
+  if (!condition) {
+    throw new Error(`Invalid deployment manifest: ${message}`);
+  }
+};
+
+const assertFields = (value: any, fields: string[], location: string) => {
+  assertManifest(
+    value !== null && typeof value === "object",
+    `${location} must be an object`
+  );
+  fields.forEach((field) => {
+    assertManifest(
+      value[field] !== undefined && value[field] !== null,
+      `${location}.${field} is required`
+    );
+  });
+};
+
+/**
+ * Validates the structure of the manifest and throws when it is invalid.
+ * @param manifest
+ */
+const validateProtectionPoolManifest = (pool: any, location: string) => {
+  assertFields(
+    pool,
+    ["name", "symbol", "lendingPools", "params", "cycleParams"],
+    location
+  );
+  assertManifest(
+    pool.underlyingToken === undefined ||
+      ethers.utils.isAddress(pool.underlyingToken),
+    `${location}.underlyingToken is not a valid address`
+  );
+  assertManifest(
+    Array.isArray(pool.lendingPools) && pool.lendingPools.length > 0,
+    `${location}.lendingPools must be a non-empty list`
+  );
+  pool.lendingPools.forEach((lendingPool: any, index: number) => {
+    const _location = `${location}.lendingPools[${index}]`;
+    assertFields(
+      lendingPool,
+      ["address", "protocol", "purchaseLimitInDays"],
+      _location
+    );
+    assertManifest(
+      ethers.utils.isAddress(lendingPool.address),
+      `${_location}.address is not a valid address`
+    );
+  });
+
+  assertFields(
+    pool.params,
+    [
+      "leverageRatioFloor",
+      "leverageRatioCeiling",
+      "leverageRatioBuffer",
+      "minRequiredCapital",
+      "curvature",
+      "minCarapaceRiskPremiumPercent",
+      "underlyingRiskPremiumPercent",
+      "minProtectionDurationInDays",
+      "protectionRenewalGracePeriodInDays"
+    ],
+    `${location}.params`
+  );
+  assertFields(
+    pool.cycleParams,
+    ["openCycleDurationInDays", "cycleDurationInDays"],
+    `${location}.cycleParams`
+  );
+};
+
+/**
+ * Validates the structure of the manifest and throws when it is invalid.
+ * @param manifest
+ */
+const validateDeploymentManifest = (manifest: any): DeploymentManifest => {
+  assertFields(manifest, ["protectionPools"], "manifest");
+  assertManifest(
+    Array.isArray(manifest.protectionPools) &&
+      manifest.protectionPools.length > 0,
+    "protectionPools must be a non-empty list"
+  );
+
+  const _symbols: string[] = [];
+  manifest.protectionPools.forEach((pool: any, index: number) => {
+    const _location = `protectionPools[${index}]`;
+    validateProtectionPoolManifest(pool, _location);
+    assertManifest(
+      _symbols.indexOf(pool.symbol) < 0,
+      `${_location}.symbol ${pool.symbol} is not unique`
+    );
+    _symbols.push(pool.symbol);
+  });
+
+  return manifest as DeploymentManifest;
+};
+
+/**
+ * Loads & validates the deployment manifest from a JSON or YAML file.
+ * @param manifestPath path to a `.json`, `.yaml` or `.yml` file
+ */
+const loadDeploymentManifest = (manifestPath: string): DeploymentManifest => {
+  const _extension = path.extname(manifestPath).toLowerCase();
+  if ([".json", ".yaml", ".yml"].indexOf(_extension) < 0) {
+    throw new Error(
+      `Unsupported deployment manifest format: ${manifestPath}. Use .json, .yaml or .yml`
+    );
+  }
+
+  const _content = fs.readFileSync(manifestPath, "utf8");
+  const _manifest: any =
+    _extension === ".json" ? JSON.parse(_content) : yaml.safeLoad(_content);
+
+  return validateDeploymentManifest(_manifest);
+};
+
+const resolveLendingProtocol = (protocol: string | number): number => {
+  if (typeof protocol === "number") {
+    return protocol;
+  }
+
+  const _protocol = LENDING_PROTOCOLS[protocol];
+  assertManifest(
+    _protocol !== undefined,
+    `unsupported lending protocol ${protocol}`
+  );
+  return _protocol;
+};
+
+/**
+ * Converts the manifest of a single pool into on-chain units.
+ * minRequiredCapital is parsed using the decimals of the underlying token.
+ */
+const resolveProtectionPoolManifest = async (
+  pool: ProtectionPoolManifest,
+  defaultLatePaymentGracePeriodInDays?: number
+): Promise<ProtectionPoolConfig> => {
+  const _params = pool.params;
+  const _underlyingToken = pool.underlyingToken
+    ? pool.underlyingToken.toLowerCase()
+    : undefined;
+
+  let _decimals = USDC_DECIMALS;
+  if (_underlyingToken) {
+    const _token = await ethers.getContractAt(
+      "IERC20MetadataUpgradeable",
+      _underlyingToken
+    );
+    _decimals = await _token.decimals();
+  }
+  const _minRequiredCapital = parseUnderlying(
+    String(_params.minRequiredCapital),
+    _decimals
+  );
+
+  const _latePaymentGracePeriodInDays =
+    pool.latePaymentGracePeriodInDays !== undefined
+      ? pool.latePaymentGracePeriodInDays
+      : defaultLatePaymentGracePeriodInDays;
+
+  return {
+    name: pool.name,
+    symbol: pool.symbol,
+    protectionPoolCycleParams: {
+      openCycleDuration: daysToSeconds(
+        pool.cycleParams.openCycleDurationInDays
+      ),
+      cycleDuration: daysToSeconds(pool.cycleParams.cycleDurationInDays)
+    },
+    protectionPoolParams: {
+      leverageRatioFloor: parseEther(String(_params.leverageRatioFloor)),
+      leverageRatioCeiling: parseEther(String(_params.leverageRatioCeiling)),
+      leverageRatioBuffer: parseEther(String(_params.leverageRatioBuffer)),
+      minRequiredCapital: _minRequiredCapital,
+      curvature: parseEther(String(_params.curvature)),
+      minCarapaceRiskPremiumPercent: parseEther(
+        String(_params.minCarapaceRiskPremiumPercent)
+      ),
+      underlyingRiskPremiumPercent: parseEther(
+        String(_params.underlyingRiskPremiumPercent)
+      ),
+      minProtectionDurationInSeconds: daysToSeconds(
+        _params.minProtectionDurationInDays
+      ),
+      protectionRenewalGracePeriodInSeconds: daysToSeconds(
+        _params.protectionRenewalGracePeriodInDays
+      )
+    },
+    lendingPools: pool.lendingPools.map((lendingPool) =>
+      lendingPool.address.toLowerCase()
+    ),
+    lendingPoolProtocols: pool.lendingPools.map((lendingPool) =>
+      resolveLendingProtocol(lendingPool.protocol)
+    ),
+    lendingPoolPurchaseLimitsInDays: pool.lendingPools.map(
+      (lendingPool) => lendingPool.purchaseLimitInDays
+    ),
+    latePaymentGracePeriodInDays: _latePaymentGracePeriodInDays,
+    underlyingToken: _underlyingToken
+  };
+};
+
+/**
+ * Converts the human readable manifest into the deployment config
+ * with on-chain units and signers expected by `deployContracts`.
+ * @param manifest
+ */
+const resolveDeploymentManifest = async (
+  manifest: DeploymentManifest
+): Promise<DeploymentConfig> => {
+  const _signers = await ethers.getSigners();
+  const _roles = manifest.roles || {};
+
+  const _getSigner = (index: number, role: string) => {
+    assertManifest(
+      _signers[index] !== undefined,
+      `roles.${role} refers to an unknown signer index ${index}`
+    );
+    return _signers[index];
+  };
+
+  let _operatorAddress: string | undefined;
+  if (typeof _roles.operator === "number") {
+    _operatorAddress = await _getSigner(
+      _roles.operator,
+      "operator"
+    ).getAddress();
+  } else if (_roles.operator !== undefined) {
+    assertManifest(
+      ethers.utils.isAddress(_roles.operator),
+      "roles.operator must be an address or a signer index"
+    );
+    _operatorAddress = _roles.operator;
+  }
+
+  const _protectionPools: ProtectionPoolConfig[] = [];
+  for (const _pool of manifest.protectionPools) {
+    _protectionPools.push(
+      await resolveProtectionPoolManifest(
+        _pool,
+        manifest.latePaymentGracePeriodInDays
+      )
+    );
+  }
+
+  return {
+    protectionPools: _protectionPools,
+    deployer:
+      _roles.deployer !== undefined
+        ? _getSigner(_roles.deployer, "deployer")
+        : undefined,
+    operatorAddress: _operatorAddress,
+    useMock: manifest.useMock || false
+  };
+};
+
+export {
+  LENDING_PROTOCOLS,
+  loadDeploymentManifest,
+  validateDeploymentManifest,
+  resolveDeploymentManifest
+};
@@ -0,0 +1,310 @@
+import { ContractFactory, Signer } from "ethers";
+import { artifacts, ethers, network, upgrades } from "hardhat";
+import { ContractFactory as CPContractFactory } from "../typechain-types/contracts/core/ContractFactory";
+import {
+  AddressBook,
+  DEPLOYMENTS_DIR,
+  ProxyDeployment,
+  readAddressBook,
+  writeAddressBook
+} from "./addressBook";
+
+/**
+ * Upgradable contracts, which can be upgraded by `upgradeProxies`,
+ * mapped to the name of the contract deployed by `deployContracts`,
+ * unless the address book records the name of the deployed contract, i.e. MockGoldfinchAdapter.
+ */
+const UPGRADE_TARGETS: { [target: string]: string } = {
+  ProtectionPool: "ProtectionPool",
+  ReferenceLendingPools: "ReferenceLendingPools",
+  PremiumCalculator: "PremiumCalculator",
+  ProtectionPoolCycleManager: "ProtectionPoolCycleManager",
+  DefaultStateManager: "DefaultStateManager",
+  ContractFactory: "ContractFactory",
+  GoldfinchAdapter: "GoldfinchAdapter"
+};
+
+const UPGRADE_OPTIONS = {
+  kind: "uups" as const,
+  unsafeAllowLinkedLibraries: true
+};
+
+export interface UpgradeConfig {
+  /// kind of the proxies to upgrade, one of the `UPGRADE_TARGETS`
+  target: string;
+  /// name of the new implementation contract, i.e. ProtectionPoolV2
+  implementation: string;
+  /// name of the current implementation contract used to validate the storage layout,
+  /// defaults to the last recorded upgrade or the contract recorded at the deployment of the proxy
+  reference?: string;
+  /// subset of the target proxies to upgrade, defaults to all proxies of the target
+  proxies?: string[];
+  /// function of the new implementation called on each proxy as a part of the upgrade
+  initializer?: string;
+  initializerArgs?: any[];
+  /// only validates the upgrade without deploying the implementation
+  dryRun?: boolean;
+  /// owner of the proxies, defaults to the first hardhat signer
+  deployer?: Signer;
+  /// directory containing the address book, defaults to `deployments`
+  deploymentsDir?: string;
+}
+
+export interface UpgradeResult {
+  /// address of the new implementation, undefined for a dry run
+  implementation?: string;
+  libraries?: { [libraryName: string]: string };
+  proxies: string[];
+}
+
+const isSameAddress = (a: string, b: string): boolean =>
+  a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Returns the address book entries of all deployed proxies of the target.
+ * Pools created by the ContractFactory outside of the deployment aren't in the address book,
+ * so a detached entry with block number 0 is returned for them.
+ */
+const getTargetProxies = async (
+  addressBook: AddressBook,
+  target: string
+): Promise<ProxyDeployment[]> => {
+  if (target === "GoldfinchAdapter") {
+    return [addressBook.lendingProtocolAdapters.Goldfinch];
+  }
+  if (target !== "ProtectionPool" && target !== "ReferenceLendingPools") {
+    return [addressBook.contracts[target]];
+  }
+
+  const _contractFactory = (await ethers.getContractAt(
+    "ContractFactory",
+    addressBook.contracts.ContractFactory.proxy
+  )) as CPContractFactory;
+  const _entries: ProxyDeployment[] =
+    target === "ProtectionPool"
+      ? addressBook.protectionPools
+      : addressBook.referenceLendingPools;
+  const _proxies =
+    target === "ProtectionPool"
+      ? await _contractFactory.getProtectionPools()
+      : await _contractFactory.getReferenceLendingPoolsList();
+
+  return Promise.all(
+    _proxies.map(async (proxy) => {
+      const _entry = _entries.find((entry) =>
+        isSameAddress(entry.proxy, proxy)
+      );
+      if (_entry) {
+        return _entry;
+      }
+      return {
+        proxy,
+        implementation: await upgrades.erc1967.getImplementationAddress(proxy),
+        blockNumber: 0
+      };
+    })
+  );
+};
+
+/**
+ * Links the libraries required by the contract using the addresses from the address book.
+ * @returns the linked libraries, undefined when the contract doesn't use any library
+ */
+const getLinkedLibraries = async (
+  contractName: string,
+  addressBook: AddressBook
+): Promise<{ [libraryName: string]: string } | undefined> => {
+  const _artifact = await artifacts.readArtifact(contractName);
+  const _libraryNames: string[] = [];
+  Object.keys(_artifact.linkReferences).forEach((file) => {
+    _libraryNames.push(...Object.keys(_artifact.linkReferences[file]));
+  });
+  if (_libraryNames.length === 0) {
+    return undefined;
+  }
+
+  const _libraries: { [libraryName: string]: string } = {};
+  _libraryNames.forEach((libraryName) => {
+    const _library = addressBook.libraries[libraryName];
+    if (!_library) {
+      throw new Error(
+        `Library ${libraryName} required by ${contractName} is missing in the address book`
+      );
+    }
+    _libraries[libraryName] = _library.address;
+  });
+  return _libraries;
+};
+
+const getLinkedContractFactory = async (
+  contractName: string,
+  signer: Signer,
+  libraries?: { [libraryName: string]: string }
+): Promise<ContractFactory> => {
+  return libraries
+    ? ethers.getContractFactory(contractName, { signer, libraries })
+    : ethers.getContractFactory(contractName, signer);
+};
+
+/**
+ * Upgrades the deployed proxies of the target to a new implementation.
+ * Storage layout of the new implementation is validated against the current implementation of each proxy
+ * using the OpenZeppelin upgrades plugin before any proxy is upgraded.
+ * Libraries of the new implementation are linked using the addresses from the address book
+ * and the upgrade is recorded in the address book of the network.
+ * @param config
+ */
+const upgradeProxies = async (
+  config: UpgradeConfig
+): Promise<UpgradeResult> => {
+  const _deploymentsDir = config.deploymentsDir || DEPLOYMENTS_DIR;
+  if (UPGRADE_TARGETS[config.target] === undefined) {
+    throw new Error(
+      `Unsupported upgrade target ${config.target}. Use one of ${Object.keys(
+        UPGRADE_TARGETS
+      ).join(", ")}`
+    );
+  }
+
+  const _addressBook = readAddressBook(network.name, _deploymentsDir);
+  if (!_addressBook) {
+    throw new Error(
+      `Address book of the network ${network.name} doesn't exist in ${_deploymentsDir}`
+    );
+  }
+  const _contractFactoryAddress = _addressBook.contracts.ContractFactory.proxy;
+  if ((await ethers.provider.getCode(_contractFactoryAddress)) === "0x") {
+    throw new Error(
+      `Address book of the network ${network.name} is stale: ContractFactory doesn't exist at ${_contractFactoryAddress}`
+    );
+  }
+  const _deployer = config.deployer || (await ethers.getSigners())[0];
+
+  let _proxies = await getTargetProxies(_addressBook, config.target);
+  if (config.proxies) {
+    _proxies = config.proxies.map((proxy) => {
+      const _proxy = _proxies.find((entry) =>
+        isSameAddress(entry.proxy, proxy)
+      );
+      if (!_proxy) {
+        throw new Error(`${proxy} is not a proxy of ${config.target}`);
+      }
+      return _proxy;
+    });
+  }
+
+  const _libraries = await getLinkedLibraries(
+    config.implementation,
+    _addressBook
+  );
+  const _implementationFactory = await getLinkedContractFactory(
+    config.implementation,
+    _deployer,
+    _libraries
+  );
+
+  // validate all proxies before upgrading any of them
+  for (const _proxy of _proxies) {
+    const _upgrades = _proxy.upgrades || [];
+    const _referenceName =
+      config.reference ||
+      (_upgrades.length > 0
+        ? _upgrades[_upgrades.length - 1].contractName
+        : _proxy.contractName || UPGRADE_TARGETS[config.target]);
+    const _referenceFactory = await getLinkedContractFactory(
+      _referenceName,
+      _deployer,
+      _proxy.libraries ||
+        (await getLinkedLibraries(_referenceName, _addressBook))
+    );
+
+    await upgrades.validateUpgrade(
+      _referenceFactory,
+      _implementationFactory,
+      UPGRADE_OPTIONS
+    );
+    console.log(
+      "Validated upgrade of %s %s from %s to %s",
+      config.target,
+      _proxy.proxy,
+      _referenceName,
+      config.implementation
+    );
+  }
+
+  if (config.dryRun) {
+    return { proxies: _proxies.map((proxy) => proxy.proxy) };
+  }
+
+  const _implementation = (await upgrades.deployImplementation(
+    _implementationFactory,
+    UPGRADE_OPTIONS
+  )) as string;
+  console.log(
+    "Deployed %s implementation at %s",
+    config.implementation,
+    _implementation
+  );
+
+  const _initializerData = config.initializer
+    ? _implementationFactory.interface.encodeFunctionData(
+        config.initializer,
+        config.initializerArgs || []
+      )
+    : undefined;
+
+  for (const _proxy of _proxies) {
+    const _proxyContract = await ethers.getContractAt(
+      "UUPSUpgradeable",
+      _proxy.proxy,
+      _deployer
+    );
+    const _tx = _initializerData
+      ? await _proxyContract.upgradeToAndCall(_implementation, _initializerData)
+      : await _proxyContract.upgradeTo(_implementation);
+    const _receipt = await _tx.wait();
+
+    const _upgradedImplementation =
+      await upgrades.erc1967.getImplementationAddress(_proxy.proxy);
+    if (!isSameAddress(_upgradedImplementation, _implementation)) {
+      throw new Error(
+        `Implementation of ${_proxy.proxy} is ${_upgradedImplementation} after the upgrade, expected ${_implementation}`
+      );
+    }
+
+    // record the upgrade right away, so that completed upgrades are not lost when a later one fails
+    _proxy.upgrades = [
+      ...(_proxy.upgrades || []),
+      {
+        contractName: config.implementation,
+        previousImplementation: _proxy.implementation,
+        implementation: _implementation,
+        blockNumber: _receipt.blockNumber,
+        initializer: config.initializer
+      }
+    ];
+    _proxy.implementation = _implementation;
+    _proxy.libraries = _libraries;
+    if (_proxy.blockNumber === 0) {
+      console.log(
+        "%s is not in the address book, so its upgrade is not recorded",
+        _proxy.proxy
+      );
+    }
+    writeAddressBook(_addressBook, _deploymentsDir);
+    console.log(
+      "Upgraded %s %s to %s",
+      config.target,
+      _proxy.proxy,
+      _implementation
+    );
+  }
+
+  return {
+    implementation: _implementation,
+    libraries: _libraries,
+    proxies: _proxies.map((proxy) => proxy.proxy)
+  };
+};
+
+export { UPGRADE_TARGETS, upgradeProxies };
@@ -0,0 +1,2 @@
+export * from "./lendingPoolWatcher";
+export * from "./sinks";
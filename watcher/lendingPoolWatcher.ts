@@ -0,0 +1,261 @@
+import { ProtectionPool__factory } from "../typechain-types/factories/contracts/core/pool/ProtectionPool__factory";
+import { ReferenceLendingPools__factory } from "../typechain-types/factories/contracts/core/pool/ReferenceLendingPools__factory";
+import { CarapaceContracts } from "../sdk/contracts";
+import {
+  LENDING_POOL_STATUSES,
+  LendingPoolStatusName
+} from "../sdk/stateAssessment";
+import { SECONDS_PER_DAY } from "../sdk/units";
+
+export type AlertSeverity = "info" | "warning" | "critical";
+
+/**
+ * Status & payment schedule of a lending pool in a basket, read from the ReferenceLendingPools,
+ * which reads the payments from the adapter of the lending protocol, i.e. GoldfinchAdapter
+ */
+export interface LendingPoolState {
+  /// ReferenceLendingPools contract of the basket
+  referenceLendingPools: string;
+  /// protection pools covering the lending pools of the basket
+  protectionPools: string[];
+  lendingPool: string;
+  /// ReferenceLendingPools.getLendingPoolStatus
+  status: LendingPoolStatusName;
+  latestPaymentTimestamp: number;
+  paymentPeriodInDays: number;
+  /// latest payment timestamp + payment period, after which the lending pool is late
+  nextPaymentDueTimestamp: number;
+}
+
+export interface LendingPoolAlert {
+  /// statusChanged when the status differs from the previous poll, paymentDue when the next payment is due soon
+  type: "statusChanged" | "paymentDue";
+  severity: AlertSeverity;
+  /// timestamp of the latest block when the alert was raised
+  timestamp: number;
+  message: string;
+  /// undefined when the lending pool is seen for the first time
+  previousStatus?: LendingPoolStatusName;
+  lendingPool: LendingPoolState;
+}
+
+/**
+ * Destination of the alerts, i.e. console, file or webhook
+ */
+export interface AlertSink {
+  name: string;
+  send: (alert: LendingPoolAlert) => Promise<void>;
+}
+
+export interface LendingPoolWatcherConfig {
+  /// core contracts connected to a provider
+  contracts: CarapaceContracts;
+
+  /// every alert is sent to all sinks
+  sinks: AlertSink[];
+
+  /// warns when the next payment of an active lending pool is due within this number of days
+  dueWithinDays: number;
+
+  /// called when a poll fails or a sink fails to deliver an alert
+  onError?: (error: any, sink?: AlertSink) => void;
+}
+
+export interface LendingPoolWatcher {
+  /// reads the lending pools of all baskets & sends the new alerts to the sinks
+  poll: () => Promise<LendingPoolAlert[]>;
+
+  /// polls every `pollInterval` seconds until stopped
+  start: (pollInterval: number) => void;
+
+  /// stops polling & waits for the running poll to finish
+  stop: () => Promise<void>;
+}
+
+// severity of an alert about a lending pool changing to the status
+const STATUS_SEVERITIES: { [status in LendingPoolStatusName]: AlertSeverity } =
+  {
+    NotSupported: "warning",
+    Active: "info",
+    LateWithinGracePeriod: "warning",
+    Late: "critical",
+    UnderReview: "critical",
+    Defaulted: "critical",
+    Expired: "info"
+  };
+
+const _formatTimestamp = (timestamp: number): string =>
+  new Date(timestamp * 1000).toISOString();
+
+/**
+ * Reads the status & payment schedule of the lending pools of every basket of the protection pools.
+ * A basket shared by multiple protection pools is read once.
+ * @param contracts core contracts connected to a provider or a signer
+ */
+const getLendingPoolStates = async (
+  contracts: CarapaceContracts
+): Promise<LendingPoolState[]> => {
+  const _provider = contracts.contractFactory.provider;
+
+  const _baskets: { [referenceLendingPools: string]: string[] } = {};
+  for (const _poolAddress of await contracts.contractFactory.getProtectionPools()) {
+    const _referenceLendingPools = (
+      await ProtectionPool__factory.connect(
+        _poolAddress,
+        _provider
+      ).getPoolInfo()
+    ).referenceLendingPools;
+    _baskets[_referenceLendingPools] = [
+      ...(_baskets[_referenceLendingPools] || []),
+      _poolAddress
+    ];
+  }
+
+  const _states: LendingPoolState[] = [];
+  for (const [_basket, _protectionPools] of Object.entries(_baskets)) {
+    const _referenceLendingPools = ReferenceLendingPools__factory.connect(
+      _basket,
+      _provider
+    );
+    for (const _lendingPool of await _referenceLendingPools.getLendingPools()) {
+      const _latestPaymentTimestamp = (
+        await _referenceLendingPools.getLatestPaymentTimestamp(_lendingPool)
+      ).toNumber();
+      const _paymentPeriodInDays = (
+        await _referenceLendingPools.getPaymentPeriodInDays(_lendingPool)
+      ).toNumber();
+      _states.push({
+        referenceLendingPools: _basket,
+        protectionPools: _protectionPools,
+        lendingPool: _lendingPool,
+        status:
+          LENDING_POOL_STATUSES[
+            await _referenceLendingPools.getLendingPoolStatus(_lendingPool)
+          ],
+        latestPaymentTimestamp: _latestPaymentTimestamp,
+        paymentPeriodInDays: _paymentPeriodInDays,
+        nextPaymentDueTimestamp:
+          _latestPaymentTimestamp + _paymentPeriodInDays * SECONDS_PER_DAY
+      });
+    }
+  }
+  return _states;
+};
+
+/**
+ * Creates the watcher alerting on the status changes of the lending pools & the payments due soon.
+ *
+ * The first poll only alerts on the lending pools which aren't active, later polls alert on every status change.
+ * A payment due soon is alerted once, when the due date enters the `dueWithinDays` window,
+ * and again when the due date leaves the window after a payment & enters it later.
+ */
+const createLendingPoolWatcher = (
+  config: LendingPoolWatcherConfig
+): LendingPoolWatcher => {
+  // status of each lending pool at the previous poll, keyed by basket & lending pool
+  const _statuses = new Map<string, LendingPoolStatusName>();
+  // lending pools whose due payment was alerted
+  const _duePayments = new Set<string>();
+
+  let _timer: NodeJS.Timeout | undefined;
+  let _running: Promise<void> | undefined;
+  let _stopped = true;
+
+  const _send = async (alert: LendingPoolAlert) => {
+    for (const _sink of config.sinks) {
+      try {
+        await _sink.send(alert);
+      } catch (error) {
+        config.onError?.(error, _sink);
+      }
+    }
+  };
+
+  const poll = async (): Promise<LendingPoolAlert[]> => {
+    const _timestamp = (
+      await config.contracts.contractFactory.provider.getBlock("latest")
+    ).timestamp;
+    const _alerts: LendingPoolAlert[] = [];
+    for (const _state of await getLendingPoolStates(config.contracts)) {
+      const _key =
+        `${_state.referenceLendingPools}:${_state.lendingPool}`.toLowerCase();
+
+      const _previousStatus = _statuses.get(_key);
+      _statuses.set(_key, _state.status);
+      if (
+        _previousStatus
+          ? _previousStatus !== _state.status
+          : _state.status !== "Active"
+      ) {
+        _alerts.push({
+          type: "statusChanged",
+          severity: STATUS_SEVERITIES[_state.status],
+          timestamp: _timestamp,
+          message: _previousStatus
+            ? `Lending pool ${_state.lendingPool} of basket ${_state.referenceLendingPools} changed from ${_previousStatus} to ${_state.status}`
+            : `Lending pool ${_state.lendingPool} of basket ${_state.referenceLendingPools} is ${_state.status}`,
+          previousStatus: _previousStatus,
+          lendingPool: _state
+        });
+      }
+
+      const _secondsUntilDue = _state.nextPaymentDueTimestamp - _timestamp;
+      if (
+        _state.status !== "Active" ||
+        _secondsUntilDue < 0 ||
+        _secondsUntilDue > config.dueWithinDays * SECONDS_PER_DAY
+      ) {
+        _duePayments.delete(_key);
+      } else if (!_duePayments.has(_key)) {
+        _duePayments.add(_key);
+        _alerts.push({
+          type: "paymentDue",
+          severity: "warning",
+          timestamp: _timestamp,
+          message: `Next payment of lending pool ${
+            _state.lendingPool
+          } is due in ${(_secondsUntilDue / SECONDS_PER_DAY).toFixed(
+            1
+          )} days at ${_formatTimestamp(_state.nextPaymentDueTimestamp)}`,
+          lendingPool: _state
+        });
+      }
+    }
+
+    for (const _alert of _alerts) {
+      await _send(_alert);
+    }
+    return _alerts;
+  };
+
+  const _poll = (pollInterval: number) => {
+    _running = poll()
+      .then(() => undefined)
+      .catch((error) => config.onError?.(error))
+      .finally(() => {
+        if (!_stopped) {
+          _timer = setTimeout(() => _poll(pollInterval), pollInterval * 1000);
+        }
+      });
+  };
+
+  return {
+    poll,
+
+    start: (pollInterval: number) => {
+      if (!_stopped) {
+        throw new Error("Watcher is already started");
+      }
+      _stopped = false;
+      _poll(pollInterval);
+    },
+
+    stop: async () => {
+      _stopped = true;
+      clearTimeout(_timer);
+      await _running;
+    }
+  };
+};
+
+export { createLendingPoolWatcher, getLendingPoolStates };
@@ -0,0 +1,126 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+import * as path from "path";
+
+import { AlertSink, LendingPoolAlert } from "./lendingPoolWatcher";
+
+const DEFAULT_WEBHOOK_TIMEOUT = 10;
+
+export interface WebhookSinkConfig {
+  /// url the alerts are posted to as JSON
+  url: string;
+
+  /// additional request headers, i.e. an authorization header
+  headers?: { [name: string]: string };
+
+  /// seconds to wait for the response, defaults to 10
+  timeout?: number;
+}
+
+/**
+ * Prints the alerts with their severity
+ * @param log defaults to console.log
+ */
+const createConsoleSink = (
+  log: (message?: any, ...params: any[]) => void = console.log
+): AlertSink => ({
+  name: "console",
+  send: async (alert: LendingPoolAlert) => {
+    log(
+      "%s [%s] %s",
+      new Date(alert.timestamp * 1000).toISOString(),
+      alert.severity.toUpperCase(),
+      alert.message
+    );
+  }
+});
+
+/**
+ * Appends the alerts to the file as JSON lines, creating the file & its directory when they don't exist
+ */
+const createFileSink = (filePath: string): AlertSink => ({
+  name: `file ${filePath}`,
+  send: async (alert: LendingPoolAlert) => {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.appendFile(filePath, `${JSON.stringify(alert)}\n`);
+  }
+});
+
+/**
+ * Posts each alert as a JSON body to the url, failing on responses other than 2xx
+ */
+const createWebhookSink = (config: WebhookSinkConfig): AlertSink => {
+  const _url = new URL(config.url);
+  const _request = _url.protocol === "https:" ? https.request : http.request;
+  const _timeout = (config.timeout ?? DEFAULT_WEBHOOK_TIMEOUT) * 1000;
+
+  return {
+    name: `webhook ${_url.origin}`,
+    send: (alert: LendingPoolAlert) =>
+      new Promise<void>((resolve, reject) => {
+        const _body = JSON.stringify(alert);
+        const _clientRequest = _request(
+          _url,
+          {
+            method: "POST",
+            headers: {
+              ...config.headers,
+              "Content-Type": "application/json",
+              "Content-Length": Buffer.byteLength(_body)
+            },
+            timeout: _timeout
+          },
+          (response) => {
+            // response body isn't used, but has to be consumed to release the connection
+            response.resume();
+            response.on("end", () => {
+              const _status = response.statusCode || 0;
+              if (_status >= 200 && _status < 300) {
+                resolve();
+              } else {
+                reject(
+                  new Error(`Webhook ${_url.origin} responded with ${_status}`)
+                );
+              }
+            });
+          }
+        );
+        _clientRequest.on("timeout", () =>
+          _clientRequest.destroy(
+            new Error(
+              `Webhook ${_url.origin} didn't respond within ${_timeout / 1000}s`
+            )
+          )
+        );
+        _clientRequest.on("error", reject);
+        _clientRequest.end(_body);
+      })
+  };
+};
+
+/**
+ * Creates the console sink & the file & webhook sinks which are configured
+ * @param options path of the file & url of the webhook the alerts are sent to
+ * @param log log of the console sink, defaults to console.log
+ */
+const createAlertSinks = (
+  options: { file?: string; webhook?: string },
+  log?: (message?: any, ...params: any[]) => void
+): AlertSink[] => {
+  const _sinks = [createConsoleSink(log)];
+  if (options.file) {
+    _sinks.push(createFileSink(options.file));
+  }
+  if (options.webhook) {
+    _sinks.push(createWebhookSink({ url: options.webhook }));
+  }
+  return _sinks;
+};
+
+export {
+  createConsoleSink,
+  createFileSink,
+  createWebhookSink,
+  createAlertSinks
+};